@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAffordability } from '@/lib/calculations/affordability';
+import { AffordabilityInputSchema } from '@/lib/schemas';
+import type { GhlConfig } from '@/lib/schemas';
+
+// Mock GHL config
+const mockConfig: GhlConfig = {
+  rates: {
+    conv30: 7.0,
+    conv15: 6.5,
+    fha30: 6.5,
+    va30: 6.5,
+    jumbo: 7.5,
+  },
+  fees: {
+    originationPoints: 0,
+    admin: 995,
+    processing: 595,
+    underwriting: 995,
+    appraisal: 550,
+    creditReport: 65,
+    floodCert: 15,
+    taxService: 85,
+    docPrep: 150,
+    settlement: 750,
+    notary: 150,
+    recording: 150,
+    courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 0,
+    underwriting: 0,
+    appraisal: 0,
+    creditReport: 0,
+    floodCert: 0,
+    taxService: 0,
+    docPrep: 0,
+    settlement: 0,
+    notary: 0,
+    recording: 0,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  prepaids: {
+    taxMonths: 4,
+    insuranceMonths: 14,
+    interestDays: 15,
+    taxRateAnnual: 1.25,
+  },
+  limits: {
+    conforming: 766550,
+    highBalance: 1149825,
+    fha: 498257,
+  },
+  fha: {
+    minDownPct: 3.5,
+    maxLtvCashout: 80,
+    ufmipPurchase: 1.75,
+    ufmipRefi: 1.75,
+    ufmipStreamline: 0.55,
+    mip30yrGt95: 0.55,
+    mip30yrLe95: 0.50,
+    mip15yrGt90: 0.40,
+    mip15yrLe90: 0.15,
+  },
+  va: {
+    maxGuarantee: 0,
+    maxLtvCashout: 100,
+    maxLtvIrrrl: 100,
+    ffFirstLe90: 1.25,
+    ffFirst90to95: 1.50,
+    ffFirstGt95: 2.15,
+    ffSubseqLe90: 1.25,
+    ffSubseq90to95: 1.50,
+    ffSubseqGt95: 3.30,
+    ffIrrrl: 0.50,
+    ffCashoutFirst: 2.15,
+    ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
+  },
+  usda: {
+    guaranteeFee: 1.0,
+    annualFee: 0.35,
+    maxLtv: 100,
+    incomeLimit1to4: 119850,
+    incomeLimit5to8: 158250,
+  },
+  miFactors: {
+    standard: { monthly: {}, single: {} },
+    highBalance: { monthly: {}, single: {} },
+  },
+  company: {
+    name: 'Test Company',
+    nmlsId: '123456',
+    loName: 'John Doe',
+    loEmail: 'john@test.com',
+    loPhone: '555-1234',
+    address: '123 Main St',
+  },
+  blurbs: {
+    home1: '',
+    home2: '',
+    home3: '',
+  },
+};
+
+const programs = [
+  { program: 'conventional', interestRate: 7, maxFrontEndRatio: 49.9, maxBackEndRatio: 49.9 },
+  { program: 'fha', interestRate: 6.5, maxFrontEndRatio: 46.99, maxBackEndRatio: 56.99 },
+  { program: 'va', interestRate: 6.5, maxFrontEndRatio: 46.99, maxBackEndRatio: 56.99 },
+] as const;
+
+describe('calculateAffordability', () => {
+  it('should solve the max price for each program within its DTI limits', () => {
+    const input = AffordabilityInputSchema.parse({
+      incomes: [10000, 2000],
+      payments: [500, 300],
+      availableFunds: 60000,
+      programs,
+    });
+
+    const result = calculateAffordability(input, mockConfig);
+    const [conventional, fha, va] = result.programs;
+
+    expect(result.monthlyIncome).toBe(12000);
+    expect(result.monthlyDebts).toBe(800);
+
+    // Conventional runs out of back-end room; all cash on hand goes to closing
+    expect(conventional.maxSalesPrice).toBe(653000);
+    expect(conventional.limitedBy).toBe('backEnd');
+    expect(conventional.backEndRatio).toBeLessThanOrEqual(49.9);
+    expect(conventional.cashToClose).toBeCloseTo(60000, 0);
+    expect(conventional.calculation?.monthlyPayment.mortgageInsurance).toBeGreaterThan(0);
+
+    // FHA stops at the base loan limit; UFMIP is financed on top
+    expect(fha.limitedBy).toBe('loanLimit');
+    expect(fha.loanAmount).toBeLessThanOrEqual(mockConfig.limits.fha);
+    expect(fha.totalLoanAmount).toBeGreaterThan(fha.loanAmount);
+
+    // VA has no loan limit or monthly MI, so the front-end ratio binds
+    expect(va.maxSalesPrice).toBe(762000);
+    expect(va.limitedBy).toBe('frontEnd');
+    expect(va.frontEndRatio).toBeLessThanOrEqual(46.99);
+    expect(va.calculation?.vaFundingFee).toBeGreaterThan(0);
+  });
+
+  it('should scale taxes and insurance with the price', () => {
+    const input = AffordabilityInputSchema.parse({
+      incomes: [12000],
+      payments: [],
+      availableFunds: 60000,
+      programs: [programs[2]],
+      propertyTaxRate: 1.5,
+      homeInsuranceRate: 0.5,
+    });
+
+    const [va] = calculateAffordability(input, mockConfig).programs;
+    const payment = va.calculation!.monthlyPayment;
+
+    expect(payment.propertyTax).toBeCloseTo((va.maxSalesPrice * 0.015) / 12, 2);
+    expect(payment.homeInsurance).toBeCloseTo((va.maxSalesPrice * 0.005) / 12, 2);
+    expect(va.housingPayment).toBe(payment.totalMonthly);
+  });
+
+  it('should cap the price at the cash needed for the minimum down payment', () => {
+    const input = AffordabilityInputSchema.parse({
+      incomes: [12000],
+      payments: [],
+      availableFunds: 10000,
+      programs: [programs[0]],
+    });
+
+    const [conventional] = calculateAffordability(input, mockConfig).programs;
+
+    expect(conventional.limitedBy).toBe('funds');
+    expect(conventional.downPaymentPercent).toBeGreaterThanOrEqual(3);
+    expect(conventional.cashToClose).toBeLessThanOrEqual(10001);
+  });
+
+  it('should return no price without income', () => {
+    const input = AffordabilityInputSchema.parse({
+      incomes: [],
+      payments: [],
+      availableFunds: 60000,
+      programs: [programs[1]],
+    });
+
+    const [fha] = calculateAffordability(input, mockConfig).programs;
+
+    expect(fha.maxSalesPrice).toBe(0);
+    expect(fha.limitedBy).toBe('frontEnd');
+    expect(fha.calculation).toBeNull();
+  });
+});
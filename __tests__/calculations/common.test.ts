@@ -14,7 +14,17 @@ import {
   getLtvTier,
   isHighBalanceLoan,
   roundToCents,
+  calculateAmortizationSchedule,
+  summarizeAmortizationByYear,
+  getMiDropOffMonth,
+  calculateInterestOnlyPayment,
+  calculateLoanProductPayments,
+  getQualifyingHousingPayment,
+  calculateNetTangibleBenefit,
+  calculatePayoff,
+  calculateTemporaryBuydown,
 } from '@/lib/calculations/common';
+import type { LoanCalculationResult } from '@/lib/schemas';
 
 describe('calculateMonthlyPI', () => {
   it('should calculate correct P&I for standard 30-year loan', () => {
@@ -201,3 +211,312 @@ describe('roundToCents', () => {
     expect(roundToCents(100.125)).toBe(100.13); // Banker's rounding
   });
 });
+
+describe('calculateAmortizationSchedule', () => {
+  it('should pay the loan down to zero over the term', () => {
+    const schedule = calculateAmortizationSchedule(400000, 7, 30);
+
+    expect(schedule).toHaveLength(360);
+    expect(schedule[359].balance).toBe(0);
+
+    const totalPrincipal = schedule.reduce((sum, row) => sum + row.principal, 0);
+    expect(totalPrincipal).toBeCloseTo(400000, 2);
+  });
+
+  it('should split the first payment into interest and principal', () => {
+    // $400,000 at 7%: first month interest = 400000 * 0.07 / 12 = $2,333.33
+    const schedule = calculateAmortizationSchedule(400000, 7, 30);
+
+    expect(schedule[0].interest).toBe(2333.33);
+    expect(schedule[0].principal).toBeCloseTo(327.88, 1);
+    expect(schedule[0].cumulativeInterest).toBe(2333.33);
+  });
+
+  it('should accumulate total interest close to payments minus principal', () => {
+    const schedule = calculateAmortizationSchedule(400000, 7, 30);
+    const payment = calculateMonthlyPI(400000, 7, 30);
+
+    expect(schedule[359].cumulativeInterest).toBeCloseTo(payment * 360 - 400000, -2);
+  });
+
+  it('should return an empty schedule for a zero loan', () => {
+    expect(calculateAmortizationSchedule(0, 7, 30)).toEqual([]);
+  });
+
+  it('should drop MI once the balance reaches the cancellation LTV', () => {
+    // $380,000 on a $400,000 home: 95% LTV, cancels at 78%
+    const schedule = calculateAmortizationSchedule(380000, 7, 30, {
+      monthlyMi: 150,
+      propertyValue: 400000,
+      miCancellation: { ltv: 78 },
+    });
+    const dropOff = getMiDropOffMonth(schedule);
+
+    expect(dropOff).not.toBeNull();
+    const firstWithoutMi = schedule[(dropOff as number) - 1];
+    const lastWithMi = schedule[(dropOff as number) - 2];
+    expect(firstWithoutMi.mortgageInsurance).toBe(0);
+    expect(lastWithMi.mortgageInsurance).toBe(150);
+    expect(lastWithMi.balance / 400000).toBeLessThanOrEqual(0.78);
+  });
+
+  it('should drop MI after a fixed number of months', () => {
+    const schedule = calculateAmortizationSchedule(300000, 6.5, 30, {
+      monthlyMi: 125,
+      propertyValue: 340000,
+      miCancellation: { months: 132 },
+    });
+
+    expect(schedule[131].mortgageInsurance).toBe(125);
+    expect(schedule[132].mortgageInsurance).toBe(0);
+    expect(getMiDropOffMonth(schedule)).toBe(133);
+  });
+
+  it('should keep MI for the life of the loan without a cancellation rule', () => {
+    const schedule = calculateAmortizationSchedule(300000, 6.5, 30, {
+      monthlyMi: 125,
+      propertyValue: 310000,
+    });
+
+    expect(schedule.every((row) => row.mortgageInsurance === 125)).toBe(true);
+    expect(getMiDropOffMonth(schedule)).toBeNull();
+  });
+
+  it('should hold the balance during an interest-only period', () => {
+    const schedule = calculateAmortizationSchedule(400000, 7, 30, { interestOnlyMonths: 120 });
+
+    expect(schedule[0].principal).toBe(0);
+    expect(schedule[0].interest).toBe(2333.33);
+    expect(schedule[119].balance).toBe(400000);
+    expect(schedule[120].principal).toBeGreaterThan(0);
+    expect(schedule[359].balance).toBe(0);
+  });
+});
+
+describe('summarizeAmortizationByYear', () => {
+  it('should roll 360 payments into 30 years', () => {
+    const schedule = calculateAmortizationSchedule(400000, 7, 30);
+    const years = summarizeAmortizationByYear(schedule);
+
+    expect(years).toHaveLength(30);
+    expect(years[0].year).toBe(1);
+    expect(years[0].endingBalance).toBe(schedule[11].balance);
+    expect(years[29].endingBalance).toBe(0);
+    expect(years[29].cumulativeInterest).toBe(schedule[359].cumulativeInterest);
+  });
+});
+
+describe('calculateInterestOnlyPayment', () => {
+  it('should charge one month of interest', () => {
+    // $400,000 at 7% = 400000 * 0.07 / 12 = $2,333.33
+    expect(calculateInterestOnlyPayment(400000, 7)).toBe(2333.33);
+  });
+});
+
+describe('calculateLoanProductPayments', () => {
+  it('should return null for a fixed, fully amortizing loan', () => {
+    expect(calculateLoanProductPayments(400000, 7, 30, undefined)).toBeNull();
+    expect(
+      calculateLoanProductPayments(400000, 7, 30, { loanProduct: 'fixed', interestOnlyYears: 0 })
+    ).toBeNull();
+  });
+
+  it('should qualify interest-only loans on the remaining amortizing term', () => {
+    const result = calculateLoanProductPayments(400000, 7, 30, {
+      loanProduct: 'fixed',
+      interestOnlyYears: 10,
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.startPayment).toBe(2333.33);
+    expect(result!.interestOnlyMonths).toBe(120);
+    expect(result!.fullyAmortizingPayment).toBe(calculateMonthlyPI(400000, 7, 30));
+    // Principal is untouched during interest-only, so qualifying = 20-year amortization
+    expect(result!.qualifyingPayment).toBe(calculateMonthlyPI(400000, 7, 20));
+    expect(result!.worstCasePayment).toBeCloseTo(result!.qualifyingPayment, 0);
+  });
+
+  it('should cap a 5/1 ARM at its lifetime ceiling', () => {
+    const result = calculateLoanProductPayments(400000, 6, 30, { loanProduct: 'arm_5_1', interestOnlyYears: 0 });
+
+    expect(result!.startPayment).toBe(calculateMonthlyPI(400000, 6, 30));
+    expect(result!.fixedPeriodMonths).toBe(60);
+    // Default caps 2/2/5
+    expect(result!.worstCaseRate).toBe(11);
+    expect(result!.worstCasePayment).toBeGreaterThan(result!.startPayment);
+    // Worst case can't exceed the remaining balance amortized at the ceiling
+    expect(result!.worstCasePayment).toBeLessThan(calculateMonthlyPI(400000, 11, 25));
+  });
+
+  it('should honor custom caps', () => {
+    const result = calculateLoanProductPayments(400000, 6, 30, {
+      loanProduct: 'arm_7_1',
+      armInitialCap: 1,
+      armPeriodicCap: 1,
+      armLifetimeCap: 3,
+      interestOnlyYears: 0,
+    });
+
+    expect(result!.fixedPeriodMonths).toBe(84);
+    expect(result!.worstCaseRate).toBe(9);
+  });
+
+  it('should qualify at the greater of the note rate + add-on and the fully indexed rate', () => {
+    const withAdder = calculateLoanProductPayments(
+      400000,
+      6,
+      30,
+      { loanProduct: 'arm_5_1', armIndex: 4.5, armMargin: 2.75, interestOnlyYears: 0 },
+      2
+    );
+    expect(withAdder!.fullyIndexedRate).toBe(7.25);
+    expect(withAdder!.qualifyingRate).toBe(8);
+    expect(withAdder!.qualifyingPayment).toBe(calculateMonthlyPI(400000, 8, 30));
+
+    const indexed = calculateLoanProductPayments(400000, 6, 30, {
+      loanProduct: 'arm_10_1',
+      armIndex: 4.5,
+      interestOnlyYears: 0,
+    });
+    // Default margin 2.75
+    expect(indexed!.qualifyingRate).toBe(7.25);
+  });
+});
+
+describe('getQualifyingHousingPayment', () => {
+  it('should swap the start P&I for the qualifying payment', () => {
+    const result = {
+      monthlyPayment: {
+        principalAndInterest: 2333.33,
+        mortgageInsurance: 0,
+        propertyTax: 500,
+        homeInsurance: 150,
+        hoaDues: 0,
+        floodInsurance: 0,
+        totalMonthly: 2983.33,
+      },
+      productPayments: {
+        loanProduct: 'fixed',
+        startPayment: 2333.33,
+        fullyAmortizingPayment: 2661.21,
+        fixedPeriodMonths: 360,
+        interestOnlyMonths: 120,
+        worstCaseRate: 7,
+        worstCasePayment: 3101.19,
+        qualifyingRate: 7,
+        qualifyingPayment: 3101.19,
+      },
+    } as LoanCalculationResult;
+
+    expect(getQualifyingHousingPayment(result)).toBe(3751.19);
+  });
+});
+
+describe('calculatePayoff', () => {
+  it('should add per-diem interest through the payoff days', () => {
+    const payoff = calculatePayoff(300000, 6, 30);
+
+    // 300000 * 6% / 365 = $49.32 per day
+    expect(payoff.perDiem).toBe(49.32);
+    expect(payoff.accruedInterest).toBe(1479.6);
+    expect(payoff.totalPayoff).toBe(301479.6);
+  });
+
+  it('should return the balance when no interest days are owed', () => {
+    const payoff = calculatePayoff(300000, 6, 0);
+
+    expect(payoff.accruedInterest).toBe(0);
+    expect(payoff.totalPayoff).toBe(300000);
+  });
+});
+
+describe('calculateNetTangibleBenefit', () => {
+  const base = {
+    existingLoanBalance: 300000,
+    newLoanAmount: 300000,
+    newPrincipalAndInterest: 1798.65, // $300,000 at 6% for 30 years
+    termYears: 30,
+    recoupableCosts: 3000,
+  };
+
+  it('should return null when the current loan is unknown', () => {
+    expect(calculateNetTangibleBenefit(base)).toBeNull();
+  });
+
+  it('should compare the current and new payments from the current rate', () => {
+    const benefit = calculateNetTangibleBenefit({
+      ...base,
+      currentInterestRate: 7,
+      currentRemainingTermMonths: 360,
+    });
+
+    // $300,000 at 7% for 30 years = $1,995.91
+    expect(benefit?.currentPrincipalAndInterest).toBe(1995.91);
+    expect(benefit?.monthlySavings).toBe(197.26);
+    // 3000 / 197.26 = 15.2 -> 16 months
+    expect(benefit?.breakEvenMonths).toBe(16);
+    expect(benefit?.hasBenefit).toBe(true);
+  });
+
+  it('should report the interest difference over the remaining term', () => {
+    const benefit = calculateNetTangibleBenefit({
+      ...base,
+      currentInterestRate: 7,
+      currentRemainingTermMonths: 360,
+    });
+
+    // Current: 1995.91 * 360 - 300000; new: 1798.65 * 360 - 300000
+    expect(benefit?.currentRemainingInterest).toBe(418527.6);
+    expect(benefit?.newTotalInterest).toBe(347514);
+    expect(benefit?.interestDelta).toBe(-71013.6);
+  });
+
+  it('should prefer the entered current payment', () => {
+    const benefit = calculateNetTangibleBenefit({
+      ...base,
+      currentInterestRate: 7,
+      currentMonthlyPayment: 2100,
+    });
+
+    expect(benefit?.currentPrincipalAndInterest).toBe(2100);
+    expect(benefit?.remainingTermMonths).toBe(360);
+  });
+
+  it('should have no break-even when the payment does not drop', () => {
+    const benefit = calculateNetTangibleBenefit({
+      ...base,
+      currentMonthlyPayment: 1700,
+    });
+
+    expect(benefit?.monthlySavings).toBe(-98.65);
+    expect(benefit?.breakEvenMonths).toBeNull();
+    expect(benefit?.hasBenefit).toBe(false);
+  });
+});
+
+describe('calculateTemporaryBuydown', () => {
+  it('should price each buydown year below the note rate payment', () => {
+    const buydown = calculateTemporaryBuydown(300000, 6.5, 30, '2_1', 10000);
+
+    // Note rate P&I is 1896.20
+    expect(buydown?.years).toEqual([
+      { year: 1, rate: 4.5, principalAndInterest: 1520.06, monthlyReduction: 376.14, annualSubsidy: 4513.68 },
+      { year: 2, rate: 5.5, principalAndInterest: 1703.37, monthlyReduction: 192.83, annualSubsidy: 2313.96 },
+    ]);
+    expect(buydown?.subsidyAmount).toBe(6827.64);
+    expect(buydown?.sellerFunded).toBe(6827.64);
+    expect(buydown?.buyerFunded).toBe(0);
+  });
+
+  it('should leave the shortfall over the seller credit to the buyer', () => {
+    const buydown = calculateTemporaryBuydown(300000, 6.5, 30, '2_1', 5000);
+
+    expect(buydown?.sellerFunded).toBe(5000);
+    expect(buydown?.buyerFunded).toBe(1827.64);
+  });
+
+  it('should return null without a buydown', () => {
+    expect(calculateTemporaryBuydown(300000, 6.5, 30, 'none', 5000)).toBeNull();
+    expect(calculateTemporaryBuydown(300000, 6.5, 30, undefined, 5000)).toBeNull();
+  });
+});
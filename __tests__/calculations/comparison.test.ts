@@ -0,0 +1,349 @@
+import { describe, it, expect } from 'vitest';
+import { compareScenarios } from '@/lib/calculations/comparison';
+import { calculateConventionalPurchase, calculateConventionalRefinance } from '@/lib/calculations/conventional';
+import { calculateVaPurchase, calculateVaRefinance } from '@/lib/calculations/va';
+import {
+  ComparisonInputSchema,
+  ConventionalPurchaseInputSchema,
+  ConventionalRefinanceInputSchema,
+  VaPurchaseInputSchema,
+  VaRefinanceInputSchema,
+} from '@/lib/schemas';
+import type { GhlConfig } from '@/lib/schemas';
+
+// Mock GHL config
+const mockConfig: GhlConfig = {
+  rates: {
+    conv30: 7.0,
+    conv15: 6.5,
+    fha30: 6.5,
+    va30: 6.5,
+    jumbo: 7.5,
+  },
+  fees: {
+    originationPoints: 0,
+    admin: 995,
+    processing: 595,
+    underwriting: 995,
+    appraisal: 550,
+    creditReport: 65,
+    floodCert: 15,
+    taxService: 85,
+    docPrep: 150,
+    settlement: 750,
+    notary: 150,
+    recording: 150,
+    courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 0,
+    underwriting: 0,
+    appraisal: 0,
+    creditReport: 0,
+    floodCert: 0,
+    taxService: 0,
+    docPrep: 0,
+    settlement: 0,
+    notary: 0,
+    recording: 0,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  prepaids: {
+    taxMonths: 4,
+    insuranceMonths: 14,
+    interestDays: 15,
+    taxRateAnnual: 1.25,
+  },
+  limits: {
+    conforming: 766550,
+    highBalance: 1149825,
+    fha: 498257,
+  },
+  fha: {
+    minDownPct: 3.5,
+    maxLtvCashout: 80,
+    ufmipPurchase: 1.75,
+    ufmipRefi: 1.75,
+    ufmipStreamline: 0.55,
+    mip30yrGt95: 0.55,
+    mip30yrLe95: 0.50,
+    mip15yrGt90: 0.40,
+    mip15yrLe90: 0.15,
+  },
+  va: {
+    maxGuarantee: 0,
+    maxLtvCashout: 100,
+    maxLtvIrrrl: 100,
+    ffFirstLe90: 1.25,
+    ffFirst90to95: 1.50,
+    ffFirstGt95: 2.15,
+    ffSubseqLe90: 1.25,
+    ffSubseq90to95: 1.50,
+    ffSubseqGt95: 3.30,
+    ffIrrrl: 0.50,
+    ffCashoutFirst: 2.15,
+    ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
+  },
+  usda: {
+    guaranteeFee: 1.0,
+    annualFee: 0.35,
+    maxLtv: 100,
+    incomeLimit1to4: 119850,
+    incomeLimit5to8: 158250,
+  },
+  miFactors: {
+    standard: { monthly: {}, single: {} },
+    highBalance: { monthly: {}, single: {} },
+  },
+  company: {
+    name: 'Test Company',
+    nmlsId: '123456',
+    loName: 'John Doe',
+    loEmail: 'john@test.com',
+    loPhone: '555-1234',
+    address: '123 Main St',
+  },
+  blurbs: {
+    home1: '',
+    home2: '',
+    home3: '',
+  },
+};
+
+describe('compareScenarios', () => {
+  it('should match the individual calculators for the same inputs', () => {
+    const conventional = {
+      salesPrice: 500000,
+      downPaymentPercent: 10,
+      interestRate: 7,
+      creditScoreTier: '680',
+      pmiType: 'split',
+      loanFee: 1500,
+      sellerCreditAmount: 5000,
+      propertyTaxMonthly: 500,
+      homeInsuranceMonthly: 150,
+    } as const;
+    const va = {
+      salesPrice: 500000,
+      downPaymentPercent: 0,
+      interestRate: 6.5,
+      vaUsage: 'subsequent',
+      isReservist: true,
+      lenderCreditAmount: 2000,
+      propertyTaxMonthly: 500,
+      homeInsuranceMonthly: 150,
+    } as const;
+
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { ...conventional, name: 'Conventional', program: 'conventional' },
+          { ...va, name: 'VA', program: 'va' },
+        ],
+      }),
+      mockConfig
+    );
+
+    const conventionalResult = calculateConventionalPurchase(
+      ConventionalPurchaseInputSchema.parse(conventional),
+      mockConfig
+    );
+    const vaResult = calculateVaPurchase(VaPurchaseInputSchema.parse(va), mockConfig);
+
+    expect(result.scenarios[0].monthlyPayment).toBe(conventionalResult.monthlyPayment.totalMonthly);
+    expect(result.scenarios[0].mortgageInsurance).toBe(conventionalResult.monthlyPayment.mortgageInsurance);
+    expect(result.scenarios[0].cashToClose).toBe(conventionalResult.cashToClose);
+    expect(result.scenarios[1].totalLoanAmount).toBe(vaResult.totalLoanAmount);
+    expect(result.scenarios[1].cashToClose).toBe(vaResult.cashToClose);
+  });
+
+  it('should price each scenario with its own credit tier', () => {
+    const scenario = {
+      program: 'conventional',
+      salesPrice: 400000,
+      downPaymentPercent: 5,
+      interestRate: 7,
+    } as const;
+
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { ...scenario, name: '760', creditScoreTier: '760' },
+          { ...scenario, name: '620', creditScoreTier: '620' },
+        ],
+      }),
+      {
+        ...mockConfig,
+        miFactors: {
+          ...mockConfig.miFactors,
+          standard: { monthly: { '95': { '760': 0.3, '620': 0.9 } }, single: {} },
+        },
+      }
+    );
+
+    expect(result.scenarios[1].mortgageInsurance).toBeGreaterThan(result.scenarios[0].mortgageInsurance);
+    expect(result.differences[1].monthlyPaymentDiff).toBeGreaterThan(0);
+  });
+
+  it('should apply shared property costs over the scenario values', () => {
+    const scenarios = [
+      { name: 'A', program: 'fha', salesPrice: 300000, interestRate: 6.5, propertyTaxMonthly: 100 },
+      { name: 'B', program: 'usda', salesPrice: 300000, interestRate: 6.5, propertyTaxMonthly: 100 },
+    ];
+
+    const own = compareScenarios(ComparisonInputSchema.parse({ scenarios }), mockConfig);
+    const shared = compareScenarios(
+      ComparisonInputSchema.parse({ scenarios, propertyTaxMonthly: 400 }),
+      mockConfig
+    );
+
+    // Shared $400 tax replaces each scenario's $100
+    expect(shared.scenarios[0].monthlyPayment - own.scenarios[0].monthlyPayment).toBeCloseTo(300, 2);
+    expect(shared.scenarios[1].monthlyPayment - own.scenarios[1].monthlyPayment).toBeCloseTo(300, 2);
+  });
+
+  it('should compare a conventional refinance against a VA IRRRL', () => {
+    const currentLoan = {
+      propertyValue: 500000,
+      existingLoanBalance: 380000,
+      newLoanAmount: 380000,
+      currentInterestRate: 7.5,
+      currentRemainingTermMonths: 336,
+    };
+    const conventional = {
+      ...currentLoan,
+      interestRate: 6.25,
+      refinanceType: 'rate_term',
+      creditScoreTier: '740',
+    } as const;
+    const irrrl = { ...currentLoan, interestRate: 6, isIrrrl: true };
+
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { ...conventional, name: 'Conventional', program: 'conventional', purpose: 'refinance' },
+          { ...irrrl, name: 'IRRRL', program: 'va', purpose: 'refinance' },
+        ],
+      }),
+      mockConfig
+    );
+
+    const conventionalResult = calculateConventionalRefinance(
+      ConventionalRefinanceInputSchema.parse(conventional),
+      mockConfig
+    );
+    const irrrlResult = calculateVaRefinance(VaRefinanceInputSchema.parse(irrrl), mockConfig);
+
+    expect(result.scenarios.map((scenario) => scenario.purpose)).toEqual(['refinance', 'refinance']);
+    expect(result.scenarios[0].cashToClose).toBe(conventionalResult.cashToClose);
+    expect(result.scenarios[0].monthlySavings).toBe(conventionalResult.netTangibleBenefit?.monthlySavings);
+    expect(result.scenarios[1].totalLoanAmount).toBe(irrrlResult.totalLoanAmount);
+    expect(result.scenarios[1].monthlySavings).toBe(irrrlResult.netTangibleBenefit?.monthlySavings);
+    expect(result.scenarios[1].monthlySavings).toBeGreaterThan(0);
+  });
+
+  it('should show cash to the borrower on a cash-out refinance next to a purchase', () => {
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { name: 'Buy', program: 'fha', salesPrice: 400000, interestRate: 6.5 },
+          {
+            name: 'Cash-out',
+            program: 'conventional',
+            purpose: 'refinance',
+            refinanceType: 'cash_out',
+            creditScoreTier: '740',
+            propertyValue: 600000,
+            existingLoanBalance: 200000,
+            newLoanAmount: 400000,
+            interestRate: 7,
+          },
+        ],
+      }),
+      mockConfig
+    );
+
+    expect(result.scenarios[0].purpose).toBe('purchase');
+    expect(result.scenarios[0].monthlySavings).toBeUndefined();
+    expect(result.scenarios[1].cashToClose).toBeLessThan(0);
+  });
+
+  it('should reject refinance scenarios for programs without a refinance engine', () => {
+    const parsed = ComparisonInputSchema.safeParse({
+      scenarios: [
+        { name: 'A', program: 'usda', purpose: 'refinance', propertyValue: 300000, existingLoanBalance: 200000, newLoanAmount: 200000, interestRate: 6 },
+        { name: 'B', program: 'fha', salesPrice: 300000, interestRate: 6.5 },
+      ],
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('should total the cost of ownership at each horizon', () => {
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { name: 'Conventional', program: 'conventional', salesPrice: 400000, downPaymentPercent: 5, interestRate: 7, creditScoreTier: '760' },
+          { name: 'FHA', program: 'fha', salesPrice: 400000, interestRate: 6.5 },
+        ],
+      }),
+      mockConfig
+    );
+
+    const costs = result.scenarios[0].costOfOwnership;
+    expect(costs.map((cost) => cost.years)).toEqual([5, 7, 10, 30]);
+    costs.forEach((cost) => {
+      expect(cost.totalCost).toBeCloseTo(
+        cost.payments + cost.mortgageInsurance + cost.upfrontCosts - cost.equityBuilt,
+        1
+      );
+    });
+    expect(costs[0].upfrontCosts).toBe(result.scenarios[0].cashToClose);
+    expect(costs[3].equityBuilt).toBeGreaterThan(costs[0].equityBuilt);
+    // Conventional PMI cancels well before the loan is paid off
+    expect(costs[3].mortgageInsurance).toBeLessThan(result.scenarios[0].mortgageInsurance * 360);
+  });
+
+  it('should find when paying points breaks even against a higher rate', () => {
+    const scenario = { program: 'conventional', salesPrice: 500000, downPaymentPercent: 20, creditScoreTier: '760' } as const;
+
+    const result = compareScenarios(
+      ComparisonInputSchema.parse({
+        scenarios: [
+          { ...scenario, name: 'No points', interestRate: 7 },
+          { ...scenario, name: 'Points', interestRate: 6.5, loanFee: 6000 },
+        ],
+      }),
+      mockConfig
+    );
+
+    // $6,000 against roughly $167/mo less interest on $400,000
+    const [breakEven] = result.breakEvens;
+    expect(breakEven.initiallyCheaperIndex).toBe(0);
+    expect(breakEven.breakEvenMonth).toBeGreaterThan(30);
+    expect(breakEven.breakEvenMonth).toBeLessThan(48);
+    expect(result.scenarios[1].costOfOwnership[0].totalCost)
+      .toBeLessThan(result.scenarios[0].costOfOwnership[0].totalCost);
+  });
+});
@@ -4,7 +4,10 @@ import {
   lookupPmiRate,
   calculateMonthlyPmi,
   calculateSinglePremiumPmi,
+  getConventionalArmQualifyingAdder,
 } from '@/lib/calculations/conventional';
+import { ConventionalPurchaseInputSchema, GhlConfigSchema } from '@/lib/schemas';
+import { sanitizeGhlConfig } from '@/lib/sanitize';
 import type { ConventionalPurchaseInput, GhlConfig } from '@/lib/schemas';
 
 // Mock GHL config for testing
@@ -30,6 +33,31 @@ const mockConfig: GhlConfig = {
     notary: 150,
     recording: 150,
     courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 895,
+    underwriting: 995,
+    appraisal: 650,
+    creditReport: 150,
+    floodCert: 30,
+    taxService: 59,
+    docPrep: 595,
+    settlement: 400,
+    notary: 350,
+    recording: 275,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 1015,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
   },
   prepaids: {
     taxMonths: 4,
@@ -66,6 +94,15 @@ const mockConfig: GhlConfig = {
     ffIrrrl: 0.50,
     ffCashoutFirst: 2.15,
     ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
   },
   miFactors: {
     standard: {
@@ -129,6 +166,47 @@ describe('lookupPmiRate', () => {
     // 95% LTV, 760+ credit, high balance (over conforming limit)
     expect(lookupPmiRate(95, '760', 800000, 'monthly', mockConfig)).toBe(0.46);
   });
+
+  it('should price split premium PMI as a reduced monthly rate', () => {
+    // 95% LTV, 760+: monthly 0.38, single 1.20
+    // 0.5% upfront buys down 0.5 / 1.20 of the premium: 0.38 * (1 - 0.5 / 1.2) = 0.222
+    expect(lookupPmiRate(95, '760', 400000, 'split', mockConfig)).toBe(0.222);
+  });
+
+  it('should fall back when a table cell is zero', () => {
+    const blankHighBalance: GhlConfig = {
+      ...mockConfig,
+      miFactors: {
+        ...mockConfig.miFactors,
+        highBalance: { monthly: {}, single: {} },
+      },
+    };
+    // High-balance cell blank -> standard table
+    expect(lookupPmiRate(95, '760', 800000, 'monthly', blankHighBalance)).toBe(0.38);
+
+    const blankTables: GhlConfig = {
+      ...mockConfig,
+      miFactors: {
+        standard: { monthly: {}, single: {} },
+        highBalance: { monthly: {}, single: {} },
+      },
+    };
+    // Both tables blank -> built-in rates
+    expect(lookupPmiRate(90, '760', 400000, 'monthly', blankTables)).toBe(0.52);
+    expect(lookupPmiRate(90, '760', 400000, 'single_cash', blankTables)).toBe(0.8);
+  });
+
+  it('should read sub-1% factors from GHL custom values unscaled', () => {
+    const config = GhlConfigSchema.parse(sanitizeGhlConfig({
+      calc_mi_std_mo_95_760: '0.38',
+      calc_mi_std_sg_95_760: '0.65',
+      calc_mi_hb_mo_95_760: '0.46%',
+    }));
+
+    expect(lookupPmiRate(95, '760', 400000, 'monthly', config)).toBe(0.38);
+    expect(lookupPmiRate(95, '760', 400000, 'single_financed', config)).toBe(0.65);
+    expect(lookupPmiRate(95, '760', 800000, 'monthly', config)).toBe(0.46);
+  });
 });
 
 describe('calculateMonthlyPmi', () => {
@@ -347,4 +425,111 @@ describe('calculateConventionalPurchase', () => {
     expect(result.totalLoanAmount).toBe(475000 + 5700);
     expect(result.monthlyPayment.mortgageInsurance).toBe(0); // No monthly PMI
   });
+
+  it('should price PMI by credit tier', () => {
+    const input = ConventionalPurchaseInputSchema.parse({
+      salesPrice: 500000,
+      downPaymentPercent: 5,
+      interestRate: 7.0,
+      termYears: 30,
+      propertyTaxMonthly: 500,
+      homeInsuranceMonthly: 150,
+      creditScoreTier: '760',
+    });
+
+    const high = calculateConventionalPurchase(input, mockConfig);
+    const low = calculateConventionalPurchase({ ...input, creditScoreTier: '640' }, mockConfig);
+
+    expect(high.pmiRate).toBe(0.38);
+    expect(low.pmiRate).toBe(1.45);
+    expect(low.monthlyPayment.mortgageInsurance).toBeGreaterThan(high.monthlyPayment.mortgageInsurance);
+  });
+
+  it('should add the split premium upfront portion to closing costs', () => {
+    const input = ConventionalPurchaseInputSchema.parse({
+      salesPrice: 500000,
+      downPaymentPercent: 5,
+      interestRate: 7.0,
+      termYears: 30,
+      propertyTaxMonthly: 500,
+      homeInsuranceMonthly: 150,
+      creditScoreTier: '760',
+    });
+
+    const monthly = calculateConventionalPurchase(input, mockConfig);
+    const split = calculateConventionalPurchase({ ...input, pmiType: 'split' }, mockConfig);
+
+    // 0.5% of $475,000 paid at closing
+    expect(split.pmiUpfrontPremium).toBe(2375);
+    expect(split.closingCosts.totalClosingCosts).toBeCloseTo(monthly.closingCosts.totalClosingCosts + 2375, 2);
+    expect(split.monthlyPayment.mortgageInsurance).toBeLessThan(monthly.monthlyPayment.mortgageInsurance);
+  });
+
+  it('should price a points vs lender credit ladder against par', () => {
+    const input = ConventionalPurchaseInputSchema.parse({
+      salesPrice: 500000,
+      downPaymentPercent: 20,
+      interestRate: 6.75,
+      termYears: 30,
+      creditScoreTier: '760',
+      pricingLadder: [
+        { rate: 7.0, price: -0.5 },
+        { rate: 6.25, price: 1.5 },
+        { rate: 6.75, price: 0 },
+        { rate: 6.5, price: 0.75 },
+      ],
+    });
+
+    const result = calculateConventionalPurchase(input, mockConfig);
+    const ladder = result.pricingLadder ?? [];
+    const [buydown, , par, credit] = ladder;
+
+    expect(ladder.map((row) => row.rate)).toEqual([6.25, 6.5, 6.75, 7.0]);
+    expect(par.isPar).toBe(true);
+    expect(par.cashToClose).toBe(result.cashToClose);
+
+    // 1.5 points on $400,000
+    expect(buydown.pointsCost).toBe(6000);
+    expect(buydown.monthlySavings).toBeGreaterThan(0);
+    expect(buydown.breakEvenMonths).toBe(
+      Math.ceil((buydown.cashToClose - par.cashToClose) / buydown.monthlySavings)
+    );
+    expect(buydown.breakEvenMonths).toBeGreaterThan(40);
+    expect(buydown.breakEvenMonths).toBeLessThan(50);
+
+    expect(credit.pointsCost).toBe(-2000);
+    expect(credit.cashToClose).toBeLessThan(par.cashToClose);
+    expect(credit.monthlySavings).toBeLessThan(0);
+    expect(credit.breakEvenMonths).toBeNull();
+  });
+
+  it('should escrow a seller-funded buydown and qualify at the note rate', () => {
+    const input = ConventionalPurchaseInputSchema.parse({
+      salesPrice: 500000,
+      downPaymentPercent: 20,
+      interestRate: 7.0,
+      termYears: 30,
+      creditScoreTier: '760',
+      sellerCreditAmount: 15000,
+    });
+
+    const base = calculateConventionalPurchase(input, mockConfig);
+    const result = calculateConventionalPurchase({ ...input, temporaryBuydown: '3_2_1' }, mockConfig);
+    const buydown = result.temporaryBuydown;
+
+    expect(buydown?.years.map((year) => year.rate)).toEqual([4, 5, 6]);
+    expect(result.monthlyPayment.principalAndInterest).toBe(base.monthlyPayment.principalAndInterest);
+    expect(result.closingCosts.buydownSubsidy).toBe(buydown?.subsidyAmount);
+    expect(result.closingCosts.sellerCredit).toBe(15000);
+    expect(result.cashToClose).toBeCloseTo(base.cashToClose + (buydown?.subsidyAmount ?? 0), 2);
+  });
+});
+
+describe('getConventionalArmQualifyingAdder', () => {
+  it('should add 2% only for ARMs fixed 5 years or less', () => {
+    expect(getConventionalArmQualifyingAdder(undefined)).toBe(0);
+    expect(getConventionalArmQualifyingAdder({ loanProduct: 'arm_5_1', interestOnlyYears: 0 })).toBe(2);
+    expect(getConventionalArmQualifyingAdder({ loanProduct: 'arm_7_1', interestOnlyYears: 0 })).toBe(0);
+    expect(getConventionalArmQualifyingAdder({ loanProduct: 'arm_10_1', interestOnlyYears: 0 })).toBe(0);
+  });
 });
@@ -4,7 +4,14 @@ import {
   calculateUfmip,
   calculateMonthlyMip,
   getFhaMipRate,
+  calculateFha203kBreakdown,
+  calculateFha203kSupplementalOrigination,
+  calculateFhaRefinance,
+  calculateFhaUfmipRefund,
+  getFhaUfmipRefundPercent,
+  getMonthsSinceEndorsement,
 } from '@/lib/calculations/fha';
+import { FhaPurchaseInputSchema, FhaRefinanceInputSchema } from '@/lib/schemas';
 import type { FhaPurchaseInput, GhlConfig } from '@/lib/schemas';
 
 // Mock GHL config
@@ -30,6 +37,31 @@ const mockConfig: GhlConfig = {
     notary: 150,
     recording: 150,
     courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 895,
+    underwriting: 995,
+    appraisal: 650,
+    creditReport: 150,
+    floodCert: 30,
+    taxService: 59,
+    docPrep: 595,
+    settlement: 400,
+    notary: 350,
+    recording: 275,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 1015,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
   },
   prepaids: {
     taxMonths: 4,
@@ -66,6 +98,15 @@ const mockConfig: GhlConfig = {
     ffIrrrl: 0.50,
     ffCashoutFirst: 2.15,
     ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
   },
   miFactors: {
     standard: { monthly: {}, single: {} },
@@ -206,4 +247,316 @@ describe('calculateFhaPurchase', () => {
         result.monthlyPayment.floodInsurance
     );
   });
+
+  it('should price a points vs lender credit ladder against par', () => {
+    const input = FhaPurchaseInputSchema.parse({
+      salesPrice: 400000,
+      downPaymentPercent: 3.5,
+      interestRate: 6.5,
+      termYears: 30,
+      pricingLadder: [
+        { rate: 6.75, price: -0.5 },
+        { rate: 6.5, price: 0 },
+        { rate: 6.0, price: 1 },
+      ],
+    });
+
+    const result = calculateFhaPurchase(input, mockConfig);
+    const ladder = result.pricingLadder ?? [];
+    const [buydown, par, credit] = ladder;
+
+    expect(ladder.map((row) => row.rate)).toEqual([6.0, 6.5, 6.75]);
+    expect(par.isPar).toBe(true);
+    expect(par.cashToClose).toBe(result.cashToClose);
+
+    // 1 point on the total loan ($386,000 + $6,755 UFMIP)
+    expect(result.totalLoanAmount).toBe(392755);
+    expect(buydown.pointsCost).toBe(3927.55);
+    expect(buydown.cashToClose).toBeGreaterThan(par.cashToClose);
+    expect(buydown.monthlySavings).toBeGreaterThan(0);
+    expect(buydown.breakEvenMonths).toBe(
+      Math.ceil((buydown.cashToClose - par.cashToClose) / buydown.monthlySavings)
+    );
+
+    expect(credit.pointsCost).toBe(-1963.77);
+    expect(credit.cashToClose).toBeLessThan(par.cashToClose);
+    expect(credit.monthlySavings).toBeLessThan(0);
+    expect(credit.breakEvenMonths).toBeNull();
+  });
+});
+
+describe('calculateFhaPurchase with ARM and interest-only products', () => {
+  const baseInput = {
+    salesPrice: 400000,
+    downPaymentPercent: 3.5,
+    interestRate: 6.5,
+    termYears: 30,
+    is203k: false,
+  };
+
+  it('should leave fixed-rate results without product payments', () => {
+    const result = calculateFhaPurchase(FhaPurchaseInputSchema.parse(baseInput), mockConfig);
+
+    expect(result.productPayments).toBeUndefined();
+  });
+
+  it('should report start, worst-case and qualifying payments for a 5/1 ARM', () => {
+    const result = calculateFhaPurchase(
+      FhaPurchaseInputSchema.parse({ ...baseInput, productOptions: { loanProduct: 'arm_5_1' } }),
+      mockConfig
+    );
+
+    expect(result.productPayments).toBeDefined();
+    expect(result.monthlyPayment.principalAndInterest).toBe(result.productPayments!.startPayment);
+    expect(result.productPayments!.worstCasePayment).toBeGreaterThan(result.productPayments!.startPayment);
+    // FHA hybrid ARMs qualify at the note rate
+    expect(result.productPayments!.qualifyingRate).toBe(6.5);
+  });
+
+  it('should use the interest-only payment as the start P&I', () => {
+    const result = calculateFhaPurchase(
+      FhaPurchaseInputSchema.parse({ ...baseInput, productOptions: { interestOnlyYears: 5 } }),
+      mockConfig
+    );
+
+    // Interest-only on total loan 392755 at 6.5% = $2,127.42
+    expect(result.monthlyPayment.principalAndInterest).toBe(2127.42);
+    expect(result.productPayments!.qualifyingPayment).toBeGreaterThan(
+      result.productPayments!.fullyAmortizingPayment
+    );
+  });
+});
+
+describe('FHA 203(k) renovation', () => {
+  const rehab = {
+    repairCosts: 40000,
+    contingencyPercent: 10,
+    consultantFee: 600,
+    inspectionFees: 500,
+    afterImprovedValue: 260000,
+  };
+
+  it('should charge the greater of $350 or 1.5% supplemental origination', () => {
+    expect(calculateFha203kSupplementalOrigination(10000)).toBe(350);
+    expect(calculateFha203kSupplementalOrigination(44000)).toBe(660);
+  });
+
+  it('should total the financed rehab costs', () => {
+    const breakdown = calculateFha203kBreakdown(200000, { type: 'standard', ...rehab }, mockConfig);
+
+    expect(breakdown.contingencyReserve).toBe(4000);
+    expect(breakdown.supplementalOriginationFee).toBe(660);
+    // 40000 + 4000 + 600 + 500 + 660
+    expect(breakdown.totalRehabCost).toBe(45760);
+  });
+
+  it('should size from as-is value plus repairs when below the after-improved value', () => {
+    const breakdown = calculateFha203kBreakdown(200000, { type: 'standard', ...rehab }, mockConfig);
+
+    expect(breakdown.valueBasis).toBe(245760);
+    // 245760 * 96.5%
+    expect(breakdown.maxBaseLoan).toBe(237158.4);
+  });
+
+  it('should cap the value basis at the after-improved value', () => {
+    const breakdown = calculateFha203kBreakdown(
+      200000,
+      { type: 'standard', ...rehab, afterImprovedValue: 230000 },
+      mockConfig
+    );
+
+    expect(breakdown.valueBasis).toBe(230000);
+    expect(breakdown.maxBaseLoan).toBe(221950);
+  });
+
+  it('should use the lesser of sales price or as-is value', () => {
+    const breakdown = calculateFha203kBreakdown(
+      200000,
+      { type: 'standard', ...rehab, asIsValue: 190000, afterImprovedValue: undefined },
+      mockConfig
+    );
+
+    expect(breakdown.valueBasis).toBe(235760);
+  });
+
+  it('should flag limited and standard repair limits', () => {
+    const limited = calculateFha203kBreakdown(200000, { type: 'limited', repairCosts: 80000, contingencyPercent: 0, consultantFee: 0, inspectionFees: 0 }, mockConfig);
+    expect(limited.repairLimitExceeded).toBe(true);
+
+    const standard = calculateFha203kBreakdown(200000, { type: 'standard', repairCosts: 3000, contingencyPercent: 0, consultantFee: 0, inspectionFees: 0 }, mockConfig);
+    expect(standard.belowStandardMinimum).toBe(true);
+    expect(standard.repairLimitExceeded).toBe(false);
+  });
+
+  it('should finance rehab costs into the purchase loan', () => {
+    const input = FhaPurchaseInputSchema.parse({
+      salesPrice: 200000,
+      downPaymentPercent: 3.5,
+      interestRate: 6.5,
+      termYears: 30,
+      is203k: true,
+      fha203k: { type: 'standard', ...rehab },
+    });
+
+    const result = calculateFhaPurchase(input, mockConfig);
+
+    expect(result.loanAmount).toBe(237158.4);
+    expect(result.ltv).toBe(96.5);
+    // Purchase price + rehab costs - base loan
+    expect(result.downPayment).toBe(8601.6);
+    expect(result.ufmip).toBe(4150.27);
+    expect(result.fha203k?.totalRehabCost).toBe(45760);
+  });
+
+  it('should size the rehab loan from a down payment entered as an amount', () => {
+    const input = FhaPurchaseInputSchema.parse({
+      salesPrice: 200000,
+      downPaymentAmount: 20000, // 10% of the price; the percent field is stale
+      downPaymentPercent: 3.5,
+      interestRate: 6.5,
+      termYears: 30,
+      is203k: true,
+      fha203k: { type: 'standard', ...rehab },
+    });
+
+    const result = calculateFhaPurchase(input, mockConfig);
+
+    // 90% of the 245760 value basis
+    expect(result.loanAmount).toBe(221184);
+    expect(result.ltv).toBe(90);
+    expect(result.downPayment).toBe(24576);
+  });
+
+  it('should ignore renovation costs unless 203(k) is selected', () => {
+    const input = FhaPurchaseInputSchema.parse({
+      salesPrice: 200000,
+      downPaymentPercent: 3.5,
+      interestRate: 6.5,
+      termYears: 30,
+      fha203k: { type: 'standard', ...rehab },
+    });
+
+    const result = calculateFhaPurchase(input, mockConfig);
+
+    expect(result.loanAmount).toBe(193000);
+    expect(result.fha203k).toBeUndefined();
+  });
+});
+
+describe('FHA UFMIP refund', () => {
+  it('should count calendar months since endorsement', () => {
+    expect(getMonthsSinceEndorsement('2024-01-15', new Date(2024, 6, 1))).toBe(6);
+    expect(getMonthsSinceEndorsement('2022-11-30', new Date(2024, 0, 2))).toBe(14);
+    expect(getMonthsSinceEndorsement('not a date')).toBeNull();
+  });
+
+  it('should look up the HUD refund percentage', () => {
+    expect(getFhaUfmipRefundPercent(0)).toBe(80);
+    expect(getFhaUfmipRefundPercent(1)).toBe(80);
+    expect(getFhaUfmipRefundPercent(12)).toBe(58);
+    expect(getFhaUfmipRefundPercent(36)).toBe(10);
+    expect(getFhaUfmipRefundPercent(37)).toBe(0);
+  });
+
+  it('should cap the refund at the new UFMIP', () => {
+    expect(calculateFhaUfmipRefund(5000, 6, 10000).refundAmount).toBe(3500);
+    expect(calculateFhaUfmipRefund(5000, 1, 2000).refundAmount).toBe(2000);
+  });
+
+  it('should credit the refund against the new UFMIP on an FHA-to-FHA refinance', () => {
+    const now = new Date();
+    const endorsed = new Date(now.getFullYear() - 1, now.getMonth(), 1);
+    const endorsementDate = `${endorsed.getFullYear()}-${String(endorsed.getMonth() + 1).padStart(2, '0')}-01`;
+
+    const input = FhaRefinanceInputSchema.parse({
+      propertyValue: 400000,
+      existingLoanBalance: 300000,
+      newLoanAmount: 300000,
+      interestRate: 6.0,
+      existingFhaLoanDate: endorsementDate,
+      existingUfmipAmount: 5000,
+    });
+
+    const result = calculateFhaRefinance(input, mockConfig);
+
+    // 12 months = 58% of $5,000 = $2,900 against $5,250 new UFMIP
+    expect(result.ufmipRefund?.refundPercent).toBe(58);
+    expect(result.closingCosts.ufmipRefundCredit).toBe(2900);
+    expect(result.ufmip).toBe(2350);
+    expect(result.totalLoanAmount).toBe(302350);
+  });
+
+  it('should not apply a refund without the prior endorsement date', () => {
+    const input = FhaRefinanceInputSchema.parse({
+      propertyValue: 400000,
+      existingLoanBalance: 300000,
+      newLoanAmount: 300000,
+      interestRate: 6.0,
+      existingUfmipAmount: 5000,
+    });
+
+    const result = calculateFhaRefinance(input, mockConfig);
+
+    expect(result.ufmip).toBe(5250);
+    expect(result.ufmipRefund).toBeUndefined();
+    expect(result.closingCosts.ufmipRefundCredit).toBeUndefined();
+  });
+});
+
+describe('FHA streamline combined rate test', () => {
+  const streamline = {
+    propertyValue: 400000,
+    existingLoanBalance: 300000,
+    newLoanAmount: 300000,
+    interestRate: 6.5,
+    isStreamline: true,
+  };
+
+  it('should pass when the combined rate drops at least 0.5%', () => {
+    const result = calculateFhaRefinance(
+      FhaRefinanceInputSchema.parse({ ...streamline, currentInterestRate: 7, currentMipRate: 0.85 }),
+      mockConfig
+    );
+    const test = result.netTangibleBenefit?.combinedRateTest;
+
+    // 7.85% current vs 6.5% + 0.55% new
+    expect(test?.currentCombinedRate).toBe(7.85);
+    expect(test?.newCombinedRate).toBe(7.05);
+    expect(test?.requiredReduction).toBe(0.5);
+    expect(test?.passed).toBe(true);
+  });
+
+  it('should fail when the combined rate reduction is too small', () => {
+    const result = calculateFhaRefinance(
+      FhaRefinanceInputSchema.parse({ ...streamline, currentInterestRate: 6.75, currentMipRate: 0.55 }),
+      mockConfig
+    );
+
+    expect(result.netTangibleBenefit?.combinedRateTest?.passed).toBe(false);
+  });
+
+  it('should require a 2% reduction when moving to an ARM', () => {
+    const result = calculateFhaRefinance(
+      FhaRefinanceInputSchema.parse({
+        ...streamline,
+        currentInterestRate: 7,
+        currentMipRate: 0.85,
+        productOptions: { loanProduct: 'arm_5_1' },
+      }),
+      mockConfig
+    );
+
+    expect(result.netTangibleBenefit?.combinedRateTest?.requiredReduction).toBe(2);
+    expect(result.netTangibleBenefit?.combinedRateTest?.passed).toBe(false);
+  });
+
+  it('should not run the combined rate test on standard refinances', () => {
+    const result = calculateFhaRefinance(
+      FhaRefinanceInputSchema.parse({ ...streamline, isStreamline: false, currentInterestRate: 7 }),
+      mockConfig
+    );
+
+    expect(result.netTangibleBenefit).toBeDefined();
+    expect(result.netTangibleBenefit?.combinedRateTest).toBeUndefined();
+  });
 });
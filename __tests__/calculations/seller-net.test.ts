@@ -4,7 +4,10 @@ import {
   calculateCommission,
   calculateTaxProration,
   calculateHoaProration,
+  getTaxPeriodStart,
+  getTaxProrationDetail,
 } from '@/lib/calculations/seller-net';
+import { SellerNetInputSchema } from '@/lib/schemas';
 import type { SellerNetInput } from '@/lib/schemas';
 
 describe('calculateCommission', () => {
@@ -60,6 +63,37 @@ describe('calculateHoaProration', () => {
   });
 });
 
+describe('getTaxPeriodStart', () => {
+  it('should use the calendar year by default', () => {
+    expect(getTaxPeriodStart(new Date(2024, 6, 1), 1)).toEqual(new Date(2024, 0, 1));
+  });
+
+  it('should roll back to the prior year before a fiscal-year start', () => {
+    // July 1 fiscal year: a March closing falls in the year that began last July
+    expect(getTaxPeriodStart(new Date(2024, 2, 15), 7)).toEqual(new Date(2023, 6, 1));
+    expect(getTaxPeriodStart(new Date(2024, 7, 15), 7)).toEqual(new Date(2024, 6, 1));
+  });
+});
+
+describe('getTaxProrationDetail', () => {
+  it('should charge the seller for days owned when taxes are paid in arrears', () => {
+    // Jan 1 to Jul 1 2024 = 182 days at 7300 / 365 = $20/day
+    const detail = getTaxProrationDetail(7300, new Date(2024, 6, 1), 1, 'arrears');
+
+    expect(detail.periodStart).toBe('2024-01-01');
+    expect(detail.days).toBe(182);
+    expect(detail.dailyRate).toBe(20);
+    expect(detail.amount).toBe(3640);
+  });
+
+  it('should credit the seller for the rest of a prepaid tax year', () => {
+    const detail = getTaxProrationDetail(7300, new Date(2024, 6, 1), 1, 'prepaid');
+
+    expect(detail.days).toBe(183);
+    expect(detail.amount).toBe(-3660);
+  });
+});
+
 describe('calculateSellerNet', () => {
   it('should calculate net proceeds for simple sale', () => {
     const input: SellerNetInput = {
@@ -222,4 +256,92 @@ describe('calculateSellerNet', () => {
     expect(result.totalCosts).toBeGreaterThan(0);
     expect(result.estimatedNetProceeds).toBeGreaterThan(0);
   });
+
+  it('should compute and itemize date-based tax and HOA prorations', () => {
+    const input = SellerNetInputSchema.parse({
+      salesPrice: 500000,
+      existingLoanPayoff: 300000,
+      commissionPercent: 6,
+      closingDate: '2024-04-15',
+      annualPropertyTax: 7300,
+      hoaDuesMonthly: 300,
+      propertyTaxProration: 999, // Ignored once prorations can be computed
+    });
+
+    const result = calculateSellerNet(input);
+
+    // Jan 1 to Apr 15 2024 = 105 days at $20/day
+    expect(result.propertyTaxProration).toBe(2100);
+    // 15 of 30 April days at $300/month
+    expect(result.hoaProration).toBe(150);
+    expect(result.prorations.map((proration) => proration.type)).toEqual(['propertyTax', 'hoa']);
+    expect(result.estimatedNetProceeds).toBe(500000 - 300000 - 30000 - 2100 - 150);
+    expect(result.totalDebits).toBe(300000 + 30000 + 2100 + 150);
+  });
+
+  it('should credit the seller for prepaid taxes on a fiscal tax year', () => {
+    const input = SellerNetInputSchema.parse({
+      salesPrice: 500000,
+      commissionPercent: 0,
+      closingDate: '2024-03-15',
+      annualPropertyTax: 3650,
+      taxPaymentMode: 'prepaid',
+      taxYearStartMonth: 7,
+    });
+
+    const result = calculateSellerNet(input);
+
+    // Jul 1 2023 to Mar 15 2024 = 258 days elapsed; 107 days credited at $10/day
+    expect(result.prorations[0].periodStart).toBe('2023-07-01');
+    expect(result.propertyTaxProration).toBe(-1070);
+    expect(result.totalCredits).toBe(1070);
+  });
+
+  it('should keep the manual tax proration without a closing date', () => {
+    const input = SellerNetInputSchema.parse({
+      salesPrice: 500000,
+      annualPropertyTax: 7300,
+      propertyTaxProration: 1200,
+    });
+
+    const result = calculateSellerNet(input);
+
+    expect(result.propertyTaxProration).toBe(1200);
+    expect(result.prorations).toEqual([]);
+  });
+
+  it('should itemize split commissions, flat fees and seller-paid closing costs', () => {
+    const input = SellerNetInputSchema.parse({
+      salesPrice: 500000,
+      existingLoanPayoff: 300000,
+      commissionPercent: 6, // Ignored once a split is given
+      listingCommission: { mode: 'percent', percent: 2.5 },
+      buyerAgentCommission: { mode: 'amount', amount: 10000 },
+      brokerageFee: { mode: 'amount', amount: 3995 },
+      transactionFee: { mode: 'amount', amount: 395 },
+      sellerPaidClosingCosts: { mode: 'percent', percent: 3 },
+    });
+
+    const result = calculateSellerNet(input);
+
+    expect(result.listingCommission).toBe(12500);
+    expect(result.buyerAgentCommission).toBe(10000);
+    expect(result.realEstateCommission).toBe(22500);
+    expect(result.brokerageFee).toBe(3995);
+    expect(result.transactionFee).toBe(395);
+    expect(result.sellerPaidClosingCosts).toBe(15000);
+    expect(result.totalCosts).toBe(22500 + 3995 + 395 + 15000);
+    expect(result.estimatedNetProceeds).toBe(500000 - 300000 - 22500 - 3995 - 395 - 15000);
+  });
+
+  it('should treat the combined commission as the listing side without a split', () => {
+    const result = calculateSellerNet(SellerNetInputSchema.parse({
+      salesPrice: 500000,
+      commissionPercent: 6,
+    }));
+
+    expect(result.listingCommission).toBe(30000);
+    expect(result.buyerAgentCommission).toBe(0);
+    expect(result.realEstateCommission).toBe(30000);
+  });
 });
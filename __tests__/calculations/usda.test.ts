@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateUsdaPurchase,
+  calculateUsdaGuaranteeFee,
+  calculateUsdaAnnualFee,
+  getUsdaIncomeLimit,
+  isUsdaIncomeEligible,
+} from '@/lib/calculations/usda';
+import type { UsdaPurchaseInput, GhlConfig } from '@/lib/schemas';
+
+// Mock GHL config
+const mockConfig: GhlConfig = {
+  rates: {
+    conv30: 7.0,
+    conv15: 6.5,
+    fha30: 6.5,
+    va30: 6.5,
+    jumbo: 7.5,
+  },
+  fees: {
+    originationPoints: 0,
+    admin: 995,
+    processing: 595,
+    underwriting: 995,
+    appraisal: 550,
+    creditReport: 65,
+    floodCert: 15,
+    taxService: 85,
+    docPrep: 150,
+    settlement: 750,
+    notary: 150,
+    recording: 150,
+    courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 0,
+    underwriting: 0,
+    appraisal: 0,
+    creditReport: 0,
+    floodCert: 0,
+    taxService: 0,
+    docPrep: 0,
+    settlement: 0,
+    notary: 0,
+    recording: 0,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  prepaids: {
+    taxMonths: 4,
+    insuranceMonths: 14,
+    interestDays: 15,
+    taxRateAnnual: 1.25,
+  },
+  limits: {
+    conforming: 766550,
+    highBalance: 1149825,
+    fha: 498257,
+  },
+  fha: {
+    minDownPct: 3.5,
+    maxLtvCashout: 80,
+    ufmipPurchase: 1.75,
+    ufmipRefi: 1.75,
+    ufmipStreamline: 0.55,
+    mip30yrGt95: 0.55,
+    mip30yrLe95: 0.50,
+    mip15yrGt90: 0.40,
+    mip15yrLe90: 0.15,
+  },
+  va: {
+    maxGuarantee: 0,
+    maxLtvCashout: 100,
+    maxLtvIrrrl: 100,
+    ffFirstLe90: 1.25,
+    ffFirst90to95: 1.50,
+    ffFirstGt95: 2.15,
+    ffSubseqLe90: 1.25,
+    ffSubseq90to95: 1.50,
+    ffSubseqGt95: 3.30,
+    ffIrrrl: 0.50,
+    ffCashoutFirst: 2.15,
+    ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
+  },
+  usda: {
+    guaranteeFee: 1.0,
+    annualFee: 0.35,
+    maxLtv: 100,
+    incomeLimit1to4: 119850,
+    incomeLimit5to8: 158250,
+  },
+  miFactors: {
+    standard: { monthly: {}, single: {} },
+    highBalance: { monthly: {}, single: {} },
+  },
+  company: {
+    name: 'Test Company',
+    nmlsId: '123456',
+    loName: 'John Doe',
+    loEmail: 'john@test.com',
+    loPhone: '555-1234',
+    address: '123 Main St',
+  },
+  blurbs: {
+    home1: '',
+    home2: '',
+    home3: '',
+  },
+};
+
+const baseInput: UsdaPurchaseInput = {
+  salesPrice: 300000,
+  downPaymentPercent: 0,
+  interestRate: 6.5,
+  termYears: 30,
+  propertyTaxMonthly: 312.5,
+  homeInsuranceMonthly: 87.5,
+  hoaDuesMonthly: 0,
+  floodInsuranceMonthly: 0,
+  prepaidInterestDays: 15,
+  prepaidTaxMonths: 6,
+  prepaidInsuranceMonths: 15,
+  loanFee: 0,
+  loanFeePercent: 0,
+  loanFeeMode: 'amount',
+  sellerCreditAmount: 0,
+  lenderCreditAmount: 0,
+  depositAmount: 0,
+  closingCostsTotal: 0,
+  miscFee: 0,
+  householdSize: 4,
+  householdIncomeAnnual: 0,
+};
+
+describe('calculateUsdaGuaranteeFee', () => {
+  it('should calculate the upfront guarantee fee correctly', () => {
+    // $300,000 base loan, 1% guarantee fee = $3,000
+    expect(calculateUsdaGuaranteeFee(300000, 1.0)).toBe(3000);
+  });
+});
+
+describe('calculateUsdaAnnualFee', () => {
+  it('should calculate the monthly annual fee correctly', () => {
+    // $303,000 loan, 0.35% annual fee
+    // Monthly = (303000 * 0.0035) / 12 = $88.38
+    expect(calculateUsdaAnnualFee(303000, 0.35)).toBe(88.38);
+  });
+
+  it('should return 0 when the annual fee is 0', () => {
+    expect(calculateUsdaAnnualFee(303000, 0)).toBe(0);
+  });
+});
+
+describe('getUsdaIncomeLimit', () => {
+  it('should use the 1-4 member limit for small households', () => {
+    expect(getUsdaIncomeLimit(3, mockConfig)).toBe(119850);
+  });
+
+  it('should use the 5-8 member limit for larger households', () => {
+    expect(getUsdaIncomeLimit(6, mockConfig)).toBe(158250);
+  });
+
+  it('should add 8% of the 1-4 limit per member beyond 8', () => {
+    // 158250 + 2 * 119850 * 0.08 = 177426
+    expect(getUsdaIncomeLimit(10, mockConfig)).toBe(177426);
+  });
+
+  it('should flag income over the limit as ineligible', () => {
+    expect(isUsdaIncomeEligible(119850, 4, mockConfig)).toBe(true);
+    expect(isUsdaIncomeEligible(125000, 4, mockConfig)).toBe(false);
+  });
+});
+
+describe('calculateUsdaPurchase', () => {
+  it('should calculate a 100% financed purchase correctly', () => {
+    const result = calculateUsdaPurchase(baseInput, mockConfig);
+
+    expect(result.loanAmount).toBe(300000);
+    expect(result.downPayment).toBe(0);
+    expect(result.ltv).toBe(100);
+
+    // Guarantee fee = 300000 * 1% = 3000, financed
+    expect(result.usdaGuaranteeFee).toBe(3000);
+    expect(result.totalLoanAmount).toBe(303000);
+
+    // Annual fee on total loan = 303000 * 0.35% / 12
+    expect(result.monthlyPayment.mortgageInsurance).toBe(88.38);
+    expect(result.monthlyMiRate).toBe(0.35);
+  });
+
+  it('should not include the guarantee fee in cash to close', () => {
+    const result = calculateUsdaPurchase(baseInput, mockConfig);
+
+    expect(result.cashToClose).toBe(result.closingCosts.totalClosingCosts);
+  });
+
+  it('should cap the base loan at the max LTV', () => {
+    const result = calculateUsdaPurchase(baseInput, {
+      ...mockConfig,
+      usda: { ...mockConfig.usda, maxLtv: 98 },
+    });
+
+    expect(result.loanAmount).toBe(294000);
+    expect(result.downPayment).toBe(6000);
+  });
+
+  it('should only check income eligibility when income is provided', () => {
+    const noIncome = calculateUsdaPurchase(baseInput, mockConfig);
+    expect(noIncome.usdaIncomeEligible).toBeUndefined();
+    expect(noIncome.usdaIncomeLimit).toBe(119850);
+
+    const overLimit = calculateUsdaPurchase(
+      { ...baseInput, householdIncomeAnnual: 130000 },
+      mockConfig
+    );
+    expect(overLimit.usdaIncomeEligible).toBe(false);
+
+    const largeHousehold = calculateUsdaPurchase(
+      { ...baseInput, householdIncomeAnnual: 130000, householdSize: 5 },
+      mockConfig
+    );
+    expect(largeHousehold.usdaIncomeEligible).toBe(true);
+  });
+});
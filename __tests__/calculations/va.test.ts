@@ -3,7 +3,10 @@ import {
   calculateVaPurchase,
   calculateVaFundingFee,
   getVaFundingFeeRate,
+  getVaFundingFeeDetail,
+  calculateVaRefinance,
 } from '@/lib/calculations/va';
+import { VaPurchaseInputSchema, VaRefinanceInputSchema } from '@/lib/schemas';
 import type { VaPurchaseInput, GhlConfig } from '@/lib/schemas';
 
 // Mock GHL config
@@ -29,6 +32,31 @@ const mockConfig: GhlConfig = {
     notary: 150,
     recording: 150,
     courier: 35,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 0,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
+  },
+  feesRefi: {
+    originationPoints: 0,
+    admin: 0,
+    processing: 895,
+    underwriting: 995,
+    appraisal: 650,
+    creditReport: 150,
+    floodCert: 30,
+    taxService: 59,
+    docPrep: 595,
+    settlement: 400,
+    notary: 350,
+    recording: 275,
+    courier: 0,
+    ownerTitlePolicy: 0,
+    lenderTitlePolicy: 1015,
+    pestInspection: 0,
+    propertyInspection: 0,
+    poolInspection: 0,
   },
   prepaids: {
     taxMonths: 4,
@@ -65,6 +93,15 @@ const mockConfig: GhlConfig = {
     ffIrrrl: 0.50,
     ffCashoutFirst: 2.15,
     ffCashoutSubseq: 3.30,
+    ffReserveFirstLe90: 1.25,
+    ffReserveFirst90to95: 1.50,
+    ffReserveFirstGt95: 2.15,
+    ffReserveSubseqLe90: 1.25,
+    ffReserveSubseq90to95: 1.50,
+    ffReserveSubseqGt95: 3.30,
+    ffReserveIrrrl: 0.50,
+    ffReserveCashoutFirst: 2.15,
+    ffReserveCashoutSubseq: 3.30,
   },
   miFactors: {
     standard: { monthly: {}, single: {} },
@@ -112,6 +149,75 @@ describe('getVaFundingFeeRate', () => {
   });
 });
 
+describe('getVaFundingFeeDetail', () => {
+  // Distinct reserve tiers so the tests can tell which table was used
+  const reserveConfig: GhlConfig = {
+    ...mockConfig,
+    va: {
+      ...mockConfig.va,
+      ffReserveFirstLe90: 1.5,
+      ffReserveFirst90to95: 1.75,
+      ffReserveFirstGt95: 2.4,
+      ffReserveSubseqLe90: 1.6,
+      ffReserveSubseq90to95: 1.85,
+      ffReserveSubseqGt95: 3.4,
+      ffReserveIrrrl: 0.6,
+      ffReserveCashoutFirst: 2.4,
+      ffReserveCashoutSubseq: 3.4,
+    },
+  };
+
+  it('should use the reserve purchase tiers for reservists', () => {
+    expect(getVaFundingFeeDetail('first', 0, false, false, true, false, reserveConfig)).toEqual({
+      rate: 2.4,
+      reason: 'down_lt5',
+      vaUsage: 'first',
+      isReservist: true,
+    });
+    expect(getVaFundingFeeDetail('first', 5, false, false, true, false, reserveConfig).rate).toBe(1.75);
+    expect(getVaFundingFeeDetail('subsequent', 10, false, false, true, false, reserveConfig).rate).toBe(1.6);
+  });
+
+  it('should use the reserve IRRRL and cash-out rates for reservists', () => {
+    const irrrl = getVaFundingFeeDetail('first', 0, true, false, true, false, reserveConfig);
+    expect(irrrl.rate).toBe(0.6);
+    expect(irrrl.reason).toBe('irrrl');
+
+    const cashOut = getVaFundingFeeDetail('subsequent', 0, false, true, true, false, reserveConfig);
+    expect(cashOut.rate).toBe(3.4);
+    expect(cashOut.reason).toBe('cash_out');
+  });
+
+  it('should keep the regular tiers for non-reservists', () => {
+    const detail = getVaFundingFeeDetail('first', 0, false, false, false, false, reserveConfig);
+    expect(detail.rate).toBe(2.15);
+    expect(detail.isReservist).toBe(false);
+  });
+
+  it('should report the disability exemption', () => {
+    const detail = getVaFundingFeeDetail('first', 0, false, false, true, true, reserveConfig);
+    expect(detail.rate).toBe(0);
+    expect(detail.reason).toBe('disability_exempt');
+  });
+
+  it('should be returned on the purchase result', () => {
+    const input = VaPurchaseInputSchema.parse({
+      salesPrice: 400000,
+      downPaymentPercent: 0,
+      interestRate: 6.5,
+      termYears: 30,
+      isReservist: true,
+    });
+
+    const result = calculateVaPurchase(input, reserveConfig);
+
+    expect(result.vaFundingFeeDetail?.reason).toBe('down_lt5');
+    expect(result.vaFundingFeeDetail?.isReservist).toBe(true);
+    // 400000 * 2.4% = $9,600
+    expect(result.vaFundingFee).toBe(9600);
+  });
+});
+
 describe('calculateVaFundingFee', () => {
   it('should calculate funding fee correctly', () => {
     // $400,000 loan, 2.15% funding fee = $8,600
@@ -254,4 +360,177 @@ describe('calculateVaPurchase', () => {
         result.monthlyPayment.floodInsurance
     );
   });
+
+  it('should price a points vs lender credit ladder against par', () => {
+    const input = VaPurchaseInputSchema.parse({
+      salesPrice: 500000,
+      downPaymentPercent: 0,
+      interestRate: 6.5,
+      termYears: 30,
+      vaUsage: 'first',
+      pricingLadder: [
+        { rate: 6.75, price: -0.5 },
+        { rate: 6.5, price: 0 },
+        { rate: 6.0, price: 1 },
+      ],
+    });
+
+    const result = calculateVaPurchase(input, mockConfig);
+    const ladder = result.pricingLadder ?? [];
+    const [buydown, par, credit] = ladder;
+
+    expect(ladder.map((row) => row.rate)).toEqual([6.0, 6.5, 6.75]);
+    expect(par.isPar).toBe(true);
+    expect(par.cashToClose).toBe(result.cashToClose);
+
+    // 1 point on the total loan ($500,000 + $10,750 funding fee)
+    expect(result.totalLoanAmount).toBe(510750);
+    expect(buydown.pointsCost).toBe(5107.5);
+    expect(buydown.cashToClose).toBeGreaterThan(par.cashToClose);
+    expect(buydown.monthlySavings).toBeGreaterThan(0);
+    expect(buydown.breakEvenMonths).toBe(
+      Math.ceil((buydown.cashToClose - par.cashToClose) / buydown.monthlySavings)
+    );
+
+    expect(credit.pointsCost).toBe(-2553.75);
+    expect(credit.cashToClose).toBeLessThan(par.cashToClose);
+    expect(credit.monthlySavings).toBeLessThan(0);
+    expect(credit.breakEvenMonths).toBeNull();
+  });
+});
+
+describe('calculateVaRefinance net tangible benefit', () => {
+  const irrrl = {
+    propertyValue: 400000,
+    existingLoanBalance: 300000,
+    newLoanAmount: 300000,
+    interestRate: 6,
+    isIrrrl: true,
+  };
+
+  it('should skip the benefit analysis without current loan details', () => {
+    const result = calculateVaRefinance(VaRefinanceInputSchema.parse(irrrl), mockConfig);
+
+    expect(result.netTangibleBenefit).toBeUndefined();
+  });
+
+  it('should pass the IRRRL recoupment test when costs are recouped within 36 months', () => {
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({ ...irrrl, currentMonthlyPayment: 2500 }),
+      mockConfig
+    );
+    const benefit = result.netTangibleBenefit;
+
+    expect(benefit?.recoupmentTest?.limitMonths).toBe(36);
+    expect(benefit?.recoupmentTest?.months).toBe(benefit?.breakEvenMonths);
+    expect(benefit?.recoupmentTest?.passed).toBe(true);
+  });
+
+  it('should fail the recoupment test when savings are too small', () => {
+    const baseline = calculateVaRefinance(VaRefinanceInputSchema.parse(irrrl), mockConfig);
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({
+        ...irrrl,
+        currentMonthlyPayment: baseline.monthlyPayment.principalAndInterest + 10,
+      }),
+      mockConfig
+    );
+
+    expect(result.netTangibleBenefit?.hasBenefit).toBe(true);
+    expect(result.netTangibleBenefit?.recoupmentTest?.passed).toBe(false);
+  });
+
+  it('should only run the recoupment test on IRRRLs', () => {
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({ ...irrrl, isIrrrl: false, currentMonthlyPayment: 2500 }),
+      mockConfig
+    );
+
+    expect(result.netTangibleBenefit).toBeDefined();
+    expect(result.netTangibleBenefit?.recoupmentTest).toBeUndefined();
+  });
+});
+
+describe('calculateVaRefinance payoff', () => {
+  const cashOut = {
+    propertyValue: 500000,
+    existingLoanBalance: 300000,
+    newLoanAmount: 400000,
+    interestRate: 6.5,
+    currentInterestRate: 6,
+  };
+
+  it('should add accrued interest at the current rate to the payoff', () => {
+    const result = calculateVaRefinance(VaRefinanceInputSchema.parse(cashOut), mockConfig);
+
+    expect(result.payoff?.interestRate).toBe(6);
+    expect(result.payoff?.payoffDays).toBe(30);
+    expect(result.payoff?.accruedInterest).toBe(1479.6);
+  });
+
+  it('should reduce cash to the borrower by the accrued interest', () => {
+    const noInterest = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({ ...cashOut, payoffDays: 0 }),
+      mockConfig
+    );
+    const result = calculateVaRefinance(VaRefinanceInputSchema.parse(cashOut), mockConfig);
+
+    expect(noInterest.cashToClose).toBeLessThan(0);
+    expect(result.cashToClose).toBeCloseTo(noInterest.cashToClose + 1479.6, 2);
+  });
+
+  it('should fall back to the new note rate without a current rate', () => {
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({ ...cashOut, currentInterestRate: 0 }),
+      mockConfig
+    );
+
+    expect(result.payoff?.interestRate).toBe(6.5);
+  });
+});
+
+describe('calculateVaRefinance fees', () => {
+  const refi = {
+    propertyValue: 400000,
+    existingLoanBalance: 300000,
+    newLoanAmount: 300000,
+    interestRate: 6,
+  };
+  const withRefiFees: GhlConfig = {
+    ...mockConfig,
+    feesRefi: {
+      ...mockConfig.feesRefi,
+      processing: 900,
+      settlement: 425,
+      lenderTitlePolicy: 1100,
+    },
+  };
+
+  it('should take fees from the refinance fee schedule', () => {
+    const result = calculateVaRefinance(VaRefinanceInputSchema.parse(refi), withRefiFees);
+
+    expect(result.closingCosts.processingFee).toBe(900);
+    expect(result.closingCosts.escrowFee).toBe(425);
+    expect(result.closingCosts.lenderTitlePolicy).toBe(1100);
+  });
+
+  it('should fall back to the purchase fee schedule', () => {
+    const { feesRefi: _feesRefi, ...purchaseFeesOnly } = mockConfig;
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse(refi),
+      purchaseFeesOnly as GhlConfig
+    );
+
+    expect(result.closingCosts.processingFee).toBe(595);
+    expect(result.closingCosts.escrowFee).toBe(750);
+  });
+
+  it('should prefer fee overrides from the input', () => {
+    const result = calculateVaRefinance(
+      VaRefinanceInputSchema.parse({ ...refi, processingFee: 1200 }),
+      withRefiFees
+    );
+
+    expect(result.closingCosts.processingFee).toBe(1200);
+  });
 });
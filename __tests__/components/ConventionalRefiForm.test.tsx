@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { NextIntlClientProvider } from 'next-intl';
+import { ConventionalRefiForm } from '@/components/calculators/ConventionalRefiForm';
+import { sanitizeGhlConfig } from '@/lib/sanitize';
+import { CLIENT_STATE_VERSION, GhlConfigSchema } from '@/lib/schemas';
+import { defaultClientInputs, useCalculatorStore } from '@/lib/store';
+import messages from '@/messages/en.json';
+
+const configWithProcessingFee = (processingFee: number) =>
+  GhlConfigSchema.parse(sanitizeGhlConfig({ calc_refi_fee_processing: String(processingFee) }));
+
+const renderLenderFees = () => {
+  const view = render(
+    <NextIntlClientProvider locale="en" messages={messages}>
+      <ConventionalRefiForm />
+    </NextIntlClientProvider>
+  );
+  fireEvent.click(screen.getByText(messages.calculator.sections.closingPrepaids));
+  fireEvent.click(screen.getByText(messages.calculator.sections.lender));
+  return view;
+};
+
+const processingFeeInput = (container: HTMLElement) =>
+  container.querySelector<HTMLInputElement>('input[name="processingFee"]');
+
+describe('ConventionalRefiForm refinance fees', () => {
+  beforeEach(() => {
+    cleanup();
+    useCalculatorStore.getState().resetCalculator('conventionalRefi');
+    useCalculatorStore.getState().setConfig(configWithProcessingFee(1100));
+  });
+
+  it('should seed fees from the refinance fee schedule', () => {
+    const { container } = renderLenderFees();
+    expect(processingFeeInput(container)?.value).toBe('1100');
+  });
+
+  it('should keep fees the LO typed in when the config reloads', () => {
+    const { container } = renderLenderFees();
+    fireEvent.change(processingFeeInput(container)!, { target: { value: '750' } });
+
+    act(() => {
+      useCalculatorStore.getState().setConfig(configWithProcessingFee(1200));
+    });
+
+    expect(processingFeeInput(container)?.value).toBe('750');
+  });
+
+  it('should keep the fees of a loaded client state', () => {
+    act(() => {
+      useCalculatorStore.getState().importClientState({
+        version: CLIENT_STATE_VERSION,
+        lastUpdated: '2026-03-01T10:00:00.000Z',
+        calculatorType: 'conventionalRefi',
+        inputs: { ...(defaultClientInputs.conventionalRefi as Record<string, unknown>), processingFee: 500 },
+      });
+    });
+
+    const { container } = renderLenderFees();
+    expect(processingFeeInput(container)?.value).toBe('500');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from '@/lib/schemas';
+
+// The secret is read when the module loads
+process.env.AUTH_SECRET = 'test-secret-for-session-signing';
+const {
+  createSessionToken,
+  verifySessionToken,
+  requireRole,
+  isSafeRedirectPath,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+} = await import('@/lib/auth');
+
+const agentSession: Omit<Session, 'exp'> = {
+  sub: 'agent-1',
+  name: 'Jane Agent',
+  role: 'agent',
+  agentId: 'agent-1',
+};
+
+const requestWithToken = (token?: string) => {
+  const request = new NextRequest('http://localhost/api/clients/search');
+  if (token) request.cookies.set(SESSION_COOKIE, token);
+  return request;
+};
+
+describe('createSessionToken / verifySessionToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should round trip a signed session', async () => {
+    const token = await createSessionToken(agentSession);
+    const session = await verifySessionToken(token);
+
+    expect(session).toMatchObject(agentSession);
+    expect(session?.exp).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('should reject a tampered signature', async () => {
+    const [body, signature] = (await createSessionToken(agentSession)).split('.');
+    const flipped = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+
+    expect(await verifySessionToken(`${body}.${flipped}`)).toBeNull();
+  });
+
+  it('should reject a payload that was changed after signing', async () => {
+    const [, signature] = (await createSessionToken(agentSession)).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...agentSession, role: 'lo', exp: 9999999999 }))
+      .toString('base64url');
+
+    expect(await verifySessionToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('should reject an expired token', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T08:00:00Z'));
+    const token = await createSessionToken(agentSession);
+
+    vi.setSystemTime(new Date(Date.now() + (SESSION_MAX_AGE_SECONDS - 60) * 1000));
+    expect(await verifySessionToken(token)).not.toBeNull();
+
+    vi.setSystemTime(new Date(Date.now() + 120 * 1000));
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('should reject a signed token with an unknown role', async () => {
+    const token = await createSessionToken({ ...agentSession, role: 'admin' as Session['role'] });
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('should reject missing and malformed tokens', async () => {
+    expect(await verifySessionToken(undefined)).toBeNull();
+    expect(await verifySessionToken('')).toBeNull();
+    expect(await verifySessionToken('not-a-token')).toBeNull();
+    expect(await verifySessionToken('!!!.???')).toBeNull();
+  });
+});
+
+describe('requireRole', () => {
+  it('should return 401 without a session', async () => {
+    const result = await requireRole(requestWithToken(), ['lo']);
+
+    expect(result).toBeInstanceOf(NextResponse);
+    expect((result as NextResponse).status).toBe(401);
+  });
+
+  it('should return 401 for an invalid session cookie', async () => {
+    const result = await requireRole(requestWithToken('forged.token'), ['lo', 'agent']);
+    expect((result as NextResponse).status).toBe(401);
+  });
+
+  it('should return 403 for a role that is not allowed', async () => {
+    const token = await createSessionToken(agentSession);
+    const result = await requireRole(requestWithToken(token), ['lo']);
+
+    expect(result).toBeInstanceOf(NextResponse);
+    expect((result as NextResponse).status).toBe(403);
+  });
+
+  it('should return the session for an allowed role', async () => {
+    const token = await createSessionToken(agentSession);
+    const result = await requireRole(requestWithToken(token), ['lo', 'agent']);
+
+    expect(result).not.toBeInstanceOf(NextResponse);
+    expect(result).toMatchObject(agentSession);
+  });
+});
+
+describe('isSafeRedirectPath', () => {
+  it('should allow same-site paths', () => {
+    expect(isSafeRedirectPath('/en/fha')).toBe(true);
+    expect(isSafeRedirectPath('/es/conventional?client=123')).toBe(true);
+  });
+
+  it('should reject other sites and malformed paths', () => {
+    expect(isSafeRedirectPath(undefined)).toBe(false);
+    expect(isSafeRedirectPath('')).toBe(false);
+    expect(isSafeRedirectPath('https://evil.com')).toBe(false);
+    expect(isSafeRedirectPath('//evil.com')).toBe(false);
+    expect(isSafeRedirectPath('/\\evil.com')).toBe(false);
+    expect(isSafeRedirectPath('/\t/evil.com')).toBe(false);
+    expect(isSafeRedirectPath('en/fha')).toBe(false);
+  });
+});
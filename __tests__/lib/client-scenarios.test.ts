@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  decodeScenarioNotes,
+  encodeScenarioNotes,
+  renameClientScenario,
+} from '@/lib/client-scenarios';
+import {
+  createContactNote,
+  deleteContactNote,
+  getContactNotes,
+  type GhlNote,
+} from '@/lib/ghl-client';
+import type { ClientScenario } from '@/lib/schemas';
+
+vi.mock('@/lib/ghl-client', () => ({
+  createContactNote: vi.fn(),
+  deleteContactNote: vi.fn(),
+  getContactNotes: vi.fn(),
+}));
+
+const scenario: ClientScenario = {
+  id: 'scenario-1',
+  name: 'FHA with 3.5% down',
+  calculatorType: 'fha',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  state: {
+    version: '2.0',
+    lastUpdated: '2026-03-01T10:00:00.000Z',
+    calculatorType: 'fha',
+    inputs: { salesPrice: 400000, downPaymentPercent: 3.5, interestRate: 6.5 },
+  },
+};
+
+const toNotes = (bodies: string[], prefix: string): GhlNote[] =>
+  bodies.map((body, index) => ({ id: `${prefix}-${index + 1}`, body }));
+
+describe('encodeScenarioNotes / decodeScenarioNotes', () => {
+  it('should round trip a scenario split across several notes', () => {
+    const bodies = encodeScenarioNotes(scenario, 50, 'rev1');
+    expect(bodies.length).toBeGreaterThan(3);
+    expect(bodies[0].startsWith(`[quick-qualifier-scenario scenario-1 rev1 1/${bodies.length}]\n`)).toBe(true);
+
+    // Notes come back from GHL in any order
+    const decoded = decodeScenarioNotes(toNotes(bodies, 'note').reverse());
+
+    expect(decoded).toHaveLength(1);
+    expect(decoded[0].scenario).toEqual(scenario);
+    expect(decoded[0].noteIds).toHaveLength(bodies.length);
+  });
+
+  it('should skip a scenario with a missing part', () => {
+    const notes = toNotes(encodeScenarioNotes(scenario, 50, 'rev1'), 'note');
+    notes.splice(1, 1);
+
+    expect(decodeScenarioNotes(notes)).toEqual([]);
+  });
+
+  it('should ignore unrelated notes mixed in', () => {
+    const notes: GhlNote[] = [
+      { id: 'call', body: 'Called about pre-approval, follow up Friday' },
+      ...toNotes(encodeScenarioNotes(scenario, 50, 'rev1'), 'note'),
+      { id: 'empty', body: '' },
+      { id: 'lookalike', body: '[quick-qualifier-scenario broken]\n{}' },
+    ];
+
+    const decoded = decodeScenarioNotes(notes);
+
+    expect(decoded).toHaveLength(1);
+    expect(decoded[0].scenario).toEqual(scenario);
+    expect(decoded[0].noteIds).not.toContain('call');
+    expect(decoded[0].noteIds).not.toContain('lookalike');
+  });
+
+  it('should read notes saved before revisions were added', () => {
+    const body = `[quick-qualifier-scenario ${scenario.id} 1/1]\n${JSON.stringify(scenario)}`;
+    const decoded = decodeScenarioNotes([{ id: 'legacy', body }]);
+
+    expect(decoded[0].scenario).toEqual(scenario);
+  });
+
+  it('should prefer the newest complete save and keep every note for cleanup', () => {
+    const renamed = { ...scenario, name: 'Renamed', updatedAt: '2026-03-02T10:00:00.000Z' };
+    const oldNotes = toNotes(encodeScenarioNotes(scenario, 50, 'rev1'), 'old');
+    const newNotes = toNotes(encodeScenarioNotes(renamed, 50, 'rev2'), 'new');
+
+    const decoded = decodeScenarioNotes([...oldNotes, ...newNotes]);
+
+    expect(decoded).toHaveLength(1);
+    expect(decoded[0].scenario.name).toBe('Renamed');
+    expect(decoded[0].noteIds).toHaveLength(oldNotes.length + newNotes.length);
+
+    // A half-written newer save never replaces a complete older one
+    expect(decodeScenarioNotes([...oldNotes, newNotes[0]])[0].scenario.name).toBe(scenario.name);
+  });
+});
+
+describe('renameClientScenario', () => {
+  const oldNotes = toNotes(encodeScenarioNotes(scenario, 10000, 'rev1'), 'old');
+  const calls: string[] = [];
+
+  beforeEach(() => {
+    calls.length = 0;
+    vi.mocked(getContactNotes).mockResolvedValue(oldNotes);
+    vi.mocked(deleteContactNote).mockImplementation(async (_contactId, noteId) => {
+      calls.push(`delete ${noteId}`);
+    });
+  });
+
+  it('should write the new notes before deleting the old ones', async () => {
+    let created = 0;
+    vi.mocked(createContactNote).mockImplementation(async (_contactId, body) => {
+      calls.push('create');
+      return { id: `new-${++created}`, body };
+    });
+
+    const result = await renameClientScenario('contact-1', scenario.id, 'Renamed');
+
+    expect(result?.name).toBe('Renamed');
+    expect(calls).toEqual(['create', ...oldNotes.map((note) => `delete ${note.id}`)]);
+  });
+
+  it('should leave the old notes alone when a write fails', async () => {
+    vi.mocked(createContactNote).mockRejectedValue(new Error('GHL API error: 500'));
+
+    await expect(renameClientScenario('contact-1', scenario.id, 'Renamed')).rejects.toThrow('500');
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { migrateClientState } from '@/lib/client-state-migrations';
+import { CLIENT_STATE_VERSION } from '@/lib/schemas';
+import { defaultClientInputs, defaultComparisonScenario } from '@/lib/store';
+
+const conventionalDefaults = defaultClientInputs.conventional as Record<string, unknown>;
+
+// A conventional state as saved before versioning: no version, only some inputs
+const legacyConventionalState = {
+  lastUpdated: '2025-06-01T12:00:00.000Z',
+  calculatorType: 'conventional',
+  inputs: {
+    salesPrice: 650000,
+    downPaymentPercent: 10,
+    interestRate: 6.875,
+    pmiType: 'single_financed',
+  },
+};
+
+describe('migrateClientState', () => {
+  it('should upgrade a 1.0 state and fill missing inputs with the current defaults', () => {
+    const result = migrateClientState(legacyConventionalState);
+
+    expect(result?.fromVersion).toBe('1.0');
+    expect(result?.state.version).toBe(CLIENT_STATE_VERSION);
+    expect(result?.state.lastUpdated).toBe(legacyConventionalState.lastUpdated);
+
+    const inputs = result?.state.inputs ?? {};
+    expect(inputs.salesPrice).toBe(650000);
+    expect(inputs.pmiType).toBe('single_financed');
+    expect(inputs.loanFeeMode).toBe(conventionalDefaults.loanFeeMode);
+    expect(inputs.temporaryBuydown).toBe(conventionalDefaults.temporaryBuydown);
+    expect(inputs.productOptions).toEqual(conventionalDefaults.productOptions);
+    expect(Object.keys(inputs).sort()).toEqual(Object.keys(conventionalDefaults).sort());
+
+    expect(result?.filledFields).toContain('inputs.loanFeeMode');
+    expect(result?.filledFields).toContain('inputs.productOptions');
+    expect(result?.filledFields).not.toContain('inputs.salesPrice');
+    expect(result?.droppedFields).toEqual([]);
+  });
+
+  it('should drop unknown fields', () => {
+    const result = migrateClientState({
+      ...legacyConventionalState,
+      inputs: { ...legacyConventionalState.inputs, oldRateLockDays: 45, notes: 'call back' },
+    });
+
+    expect(result?.state.inputs).not.toHaveProperty('oldRateLockDays');
+    expect(result?.state.inputs).not.toHaveProperty('notes');
+    expect(result?.droppedFields).toEqual(['inputs.oldRateLockDays', 'inputs.notes']);
+  });
+
+  it('should replace invalid enum values with the default', () => {
+    const result = migrateClientState({
+      ...legacyConventionalState,
+      inputs: { ...legacyConventionalState.inputs, pmiType: 'lender_paid', loanFeeMode: 'points', creditScoreTier: '760' },
+    });
+
+    expect(result?.state.inputs.pmiType).toBe(conventionalDefaults.pmiType);
+    expect(result?.state.inputs.loanFeeMode).toBe(conventionalDefaults.loanFeeMode);
+    expect(result?.state.inputs.creditScoreTier).toBe('760');
+    expect(result?.droppedFields).toEqual(['inputs.pmiType', 'inputs.loanFeeMode']);
+  });
+
+  it('should replace malformed product options and pricing ladders with the defaults', () => {
+    const result = migrateClientState({
+      ...legacyConventionalState,
+      inputs: {
+        ...legacyConventionalState.inputs,
+        productOptions: { loanProduct: 'arm_3_1', interestOnlyYears: 'ten' },
+        pricingLadder: [{ rate: 6.5, price: 0 }, { rate: 'par' }],
+      },
+    });
+
+    expect(result?.state.inputs.productOptions).toEqual(conventionalDefaults.productOptions);
+    expect(result?.state.inputs.pricingLadder).toEqual(conventionalDefaults.pricingLadder);
+    expect(result?.droppedFields).toEqual(['inputs.productOptions', 'inputs.pricingLadder']);
+  });
+
+  it('should keep valid product options and pricing ladders', () => {
+    const pricingLadder = [{ rate: 6.5, price: 0 }, { rate: 6.25, price: 1 }];
+    const result = migrateClientState({
+      ...legacyConventionalState,
+      inputs: {
+        ...legacyConventionalState.inputs,
+        productOptions: { loanProduct: 'arm_7_1', interestOnlyYears: 0 },
+        pricingLadder,
+      },
+    });
+
+    expect(result?.state.inputs.productOptions).toMatchObject({ loanProduct: 'arm_7_1' });
+    expect(result?.state.inputs.pricingLadder).toEqual(pricingLadder);
+    expect(result?.droppedFields).toEqual([]);
+  });
+
+  it('should normalize each comparison scenario', () => {
+    const result = migrateClientState({
+      version: '1.0',
+      lastUpdated: '2025-06-01T12:00:00.000Z',
+      calculatorType: 'comparison',
+      inputs: {
+        scenarios: [
+          { name: 'FHA option', program: 'fha', salesPrice: 450000, downPaymentPercent: 3.5 },
+          'not a scenario',
+          { name: 'Jumbo', program: 'jumbo', salesPrice: 900000, extra: true },
+        ],
+      },
+    });
+
+    const scenarios = result?.state.inputs.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios).toHaveLength(2);
+    expect(scenarios[0]).toEqual({
+      ...defaultComparisonScenario,
+      name: 'FHA option',
+      program: 'fha',
+      salesPrice: 450000,
+      downPaymentPercent: 3.5,
+    });
+    expect(scenarios[1].program).toBe(defaultComparisonScenario.program);
+    expect(scenarios[1]).not.toHaveProperty('extra');
+
+    expect(result?.filledFields).toContain('inputs.scenarios[0].interestRate');
+    expect(result?.droppedFields).toEqual([
+      'inputs.scenarios[1]',
+      'inputs.scenarios[2].program',
+      'inputs.scenarios[2].extra',
+    ]);
+  });
+
+  it('should fall back to the default scenarios when they are not an array', () => {
+    const result = migrateClientState({
+      calculatorType: 'comparison',
+      lastUpdated: '2025-06-01T12:00:00.000Z',
+      inputs: { scenarios: { name: 'Only one' } },
+    });
+
+    expect(result?.state.inputs.scenarios).toEqual([defaultComparisonScenario]);
+    expect(result?.droppedFields).toEqual(['inputs.scenarios']);
+  });
+
+  it('should reject states for unknown calculators', () => {
+    expect(migrateClientState({ ...legacyConventionalState, calculatorType: 'jumbo' })).toBeNull();
+    expect(migrateClientState({ ...legacyConventionalState, calculatorType: 'toString' })).toBeNull();
+    expect(migrateClientState({ inputs: {} })).toBeNull();
+    expect(migrateClientState('conventional')).toBeNull();
+    expect(migrateClientState(null)).toBeNull();
+  });
+});
@@ -0,0 +1,5 @@
+import { AffordabilityForm } from '@/components/calculators/AffordabilityForm';
+
+export default function AffordabilityCalculatorPage() {
+  return <AffordabilityForm />;
+}
@@ -1,10 +1,11 @@
 'use client';
 
-import { useEffect, useMemo } from 'react';
+import { useMemo } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
-import { useCalculatorStore, useLoadConfig } from '@/lib/store';
+import { useCalculatorStore, type ClientCalculatorType } from '@/lib/store';
+import { ClientActions, SignOutButton } from '@/components/shared';
 import Image from 'next/image';
 
 interface CalculatorsLayoutProps {
@@ -15,8 +16,7 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
   const t = useTranslations('nav');
   const locale = useLocale();
   const pathname = usePathname();
-  const { configLoading, configError, dtiResults } = useCalculatorStore();
-  const { loadConfig } = useLoadConfig();
+  const { dtiResults, clientStateVersion, session } = useCalculatorStore();
 
   const calculatorType = useMemo(() => {
     if (pathname.includes('/conventional-refi')) return 'conventionalRefi';
@@ -28,13 +28,15 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
     return null;
   }, [pathname]);
 
-  const dtiResult = calculatorType ? dtiResults[calculatorType] : null;
-
-  useEffect(() => {
-    loadConfig();
-  }, [loadConfig]);
-
+  const clientCalculatorType = useMemo((): ClientCalculatorType | null => {
+    if (pathname.includes('/seller-net')) return 'sellerNet';
+    if (pathname.includes('/comparison')) return 'comparison';
+    if (pathname.includes('/affordability')) return 'affordability';
+    if (pathname.includes('/usda')) return 'usda';
+    return calculatorType;
+  }, [pathname, calculatorType]);
 
+  const dtiResult = calculatorType ? dtiResults[calculatorType] : null;
 
   return (
     <div
@@ -67,8 +69,10 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
                   { id: 'conventional', label: t('conventionalMain'), href: `/${locale}/calculators/conventional`, isActive: pathname.includes('/conventional') },
                   { id: 'fha', label: t('fhaMain'), href: `/${locale}/calculators/fha`, isActive: pathname.includes('/fha') },
                   { id: 'va', label: t('vaMain'), href: `/${locale}/calculators/va`, isActive: pathname.includes('/va') },
+                  { id: 'usda', label: t('usdaMain'), href: `/${locale}/calculators/usda`, isActive: pathname.includes('/usda') },
                   { id: 'seller-net', label: t('sellerNet'), href: `/${locale}/calculators/seller-net`, isActive: pathname.includes('/seller-net') },
                   { id: 'compare', label: t('compare'), href: `/${locale}/calculators/comparison`, isActive: pathname.includes('/comparison') },
+                  { id: 'affordability', label: t('affordability'), href: `/${locale}/calculators/affordability`, isActive: pathname.includes('/affordability') },
                 ].map((item) => (
                   <Link
                     key={item.id}
@@ -82,7 +86,9 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
                   </Link>
                 ))}
               </div>
-              <div className="w-[140px] hidden md:block"></div> {/* Spacer to balance logo width */}
+              <div className="md:w-[140px] flex justify-end">
+                <SignOutButton />
+              </div>
             </div>
 
             {/* Mobile Main Navigation */}
@@ -91,8 +97,10 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
                 { id: 'conventional', label: t('conventionalMain'), href: `/${locale}/calculators/conventional`, isActive: pathname.includes('/conventional') },
                 { id: 'fha', label: t('fhaMain'), href: `/${locale}/calculators/fha`, isActive: pathname.includes('/fha') },
                 { id: 'va', label: t('vaMain'), href: `/${locale}/calculators/va`, isActive: pathname.includes('/va') },
+                { id: 'usda', label: t('usdaMain'), href: `/${locale}/calculators/usda`, isActive: pathname.includes('/usda') },
                 { id: 'seller-net', label: t('sellerNet'), href: `/${locale}/calculators/seller-net`, isActive: pathname.includes('/seller-net') },
                 { id: 'compare', label: t('compare'), href: `/${locale}/calculators/comparison`, isActive: pathname.includes('/comparison') },
+                { id: 'affordability', label: t('affordability'), href: `/${locale}/calculators/affordability`, isActive: pathname.includes('/affordability') },
               ].map((item) => (
                 <Link
                   key={item.id}
@@ -110,27 +118,6 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
         </div>
       </nav>
 
-      {/* Loading/Error states */}
-      {configLoading && (
-        <div className="bg-blue-50 border-b border-blue-200">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2">
-            <p className="text-sm text-blue-700">
-              Loading configuration...
-            </p>
-          </div>
-        </div>
-      )}
-
-      {configError && (
-        <div className="bg-red-50 border-b border-red-200">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2">
-            <p className="text-sm text-red-700">
-              Error loading configuration: {configError}
-            </p>
-          </div>
-        </div>
-      )}
-
       {/* Sub-Navigation (Purchase vs Refinance) - Outside Header */}
       {(pathname.includes('/conventional') || pathname.includes('/fha') || pathname.includes('/va')) && !pathname.includes('seller-net') && (
         <>
@@ -225,7 +212,16 @@ export default function CalculatorsLayout({ children }: CalculatorsLayoutProps)
 
       {/* Main content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {children}
+        {/* Client records are for the LO's team only */}
+        {clientCalculatorType && session?.role === 'lo' && (
+          <div className="mb-4">
+            <ClientActions calculatorType={clientCalculatorType} />
+          </div>
+        )}
+        {/* Re-mount the calculator when a client is loaded so forms pick up the restored inputs */}
+        <div key={clientStateVersion}>
+          {children}
+        </div>
       </main>
     </div>
   );
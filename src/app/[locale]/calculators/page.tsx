@@ -20,6 +20,11 @@ const calculators = [
     icon: '🎖️',
     color: 'bg-blue-700',
   },
+  {
+    id: 'usda',
+    icon: '🌾',
+    color: 'bg-blue-500',
+  },
   {
     id: 'seller-net',
     navKey: 'sellerNet',
@@ -32,6 +37,11 @@ const calculators = [
     icon: '📊',
     color: 'bg-blue-800',
   },
+  {
+    id: 'affordability',
+    icon: '🧮',
+    color: 'bg-blue-600',
+  },
 ];
 
 export default function CalculatorsPage() {
@@ -0,0 +1,5 @@
+import { UsdaForm } from '@/components/calculators/UsdaForm';
+
+export default function UsdaCalculatorPage() {
+  return <UsdaForm />;
+}
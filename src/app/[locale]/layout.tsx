@@ -3,7 +3,10 @@ import { Poppins } from 'next/font/google';
 import { NextIntlClientProvider } from 'next-intl';
 import { getMessages } from 'next-intl/server';
 import { notFound } from 'next/navigation';
+import { cookies } from 'next/headers';
 import { routing } from '@/i18n/routing';
+import { AppDataProvider } from '@/components/shared/AppDataProvider';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth';
 import '../globals.css';
 
 const poppins = Poppins({
@@ -33,6 +36,7 @@ export default async function LocaleLayout({ children, params }: Props) {
   }
 
   const messages = await getMessages();
+  const session = await verifySessionToken((await cookies()).get(SESSION_COOKIE)?.value);
 
   return (
     <html lang={locale}>
@@ -48,7 +52,9 @@ export default async function LocaleLayout({ children, params }: Props) {
         }}
       >
         <NextIntlClientProvider messages={messages}>
-          {children}
+          <AppDataProvider session={session}>
+            {children}
+          </AppDataProvider>
         </NextIntlClientProvider>
       </body>
     </html>
@@ -0,0 +1,19 @@
+import { LoginForm } from '@/components/shared/LoginForm';
+import { isSafeRedirectPath } from '@/lib/auth';
+
+type Props = {
+  searchParams: Promise<{ next?: string }>;
+};
+
+export default async function LoginPage({ searchParams }: Props) {
+  const { next } = await searchParams;
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center bg-fixed bg-cover bg-center bg-no-repeat px-4"
+      style={{ backgroundImage: 'url("/bg-dashboard.jpeg")' }}
+    >
+      <LoginForm next={isSafeRedirectPath(next) ? next : undefined} />
+    </div>
+  );
+}
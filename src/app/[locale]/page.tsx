@@ -1,22 +1,17 @@
 'use client';
 
-import { useEffect } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
 import Link from 'next/link';
 import Image from 'next/image';
 import { LanguageSwitcher } from '@/components/shared/LanguageSwitcher';
-import { useCalculatorStore, useLoadConfig } from '@/lib/store';
+import { SignOutButton } from '@/components/shared/SignOutButton';
+import { useCalculatorStore } from '@/lib/store';
 
 export default function Home() {
   const t = useTranslations();
   const locale = useLocale();
-  const { loadConfig } = useLoadConfig();
   const config = useCalculatorStore((state) => state.config);
 
-  useEffect(() => {
-    loadConfig();
-  }, [loadConfig]);
-
   // Loan calculators in 3 rows x 2 columns (Sale | Refi)
   const loanCalculators = [
     { href: `/${locale}/calculators/conventional`, label: t('nav.conventional'), iconPath: '/conventional-sale-icon.svg' },
@@ -55,6 +50,7 @@ export default function Home() {
             </Link>
             <div className="flex items-center gap-4">
               <LanguageSwitcher />
+              <SignOutButton />
             </div>
           </div>
         </div>
@@ -1,4 +1,5 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
 import {
   getPartnerAgents,
   getContactCustomField,
@@ -12,10 +13,14 @@ export const dynamic = 'force-dynamic';
  * GET /api/agents
  *
  * Fetches all partner agents (contacts tagged with #partner-agent).
- * Returns agent info for co-branding on reports.
+ * Returns agent info for co-branding on reports. Partner agents only get
+ * their own record.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const auth = await requireRole(request, ['lo', 'agent']);
+    if (auth instanceof NextResponse) return auth;
+
     if (!isGhlConfigured()) {
       return NextResponse.json(
         { error: 'GHL API is not configured' },
@@ -25,7 +30,11 @@ export async function GET() {
 
     const contacts = await getPartnerAgents();
 
-    const agents: PartnerAgent[] = contacts.map((contact) => ({
+    const visibleContacts = auth.role === 'agent'
+      ? contacts.filter((contact) => contact.id === auth.agentId)
+      : contacts;
+
+    const agents: PartnerAgent[] = visibleContacts.map((contact) => ({
       id: contact.id,
       name: contact.name || `${contact.firstName || ''} ${contact.lastName || ''}`.trim(),
       email: contact.email,
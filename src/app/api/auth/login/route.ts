@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSessionToken,
+  isAuthConfigured,
+  safeEqual,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+} from '@/lib/auth';
+import { getContactCustomField, getPartnerAgents, isGhlConfigured } from '@/lib/ghl-client';
+import { LoginRequestSchema, type Session } from '@/lib/schemas';
+
+export const dynamic = 'force-dynamic';
+
+const LO_ACCESS_CODE = process.env.AUTH_LO_ACCESS_CODE;
+
+// Partner agent contact field holding that agent's access code
+const AGENT_ACCESS_CODE_FIELD = 'agent_access_code';
+
+function invalidCredentials() {
+  return NextResponse.json(
+    { error: 'Invalid email or access code' },
+    { status: 401 }
+  );
+}
+
+/**
+ * POST /api/auth/login
+ *
+ * Signs in the LO's team with the team access code, or a partner agent with
+ * their email and their own access code, and sets the session cookie.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthConfigured()) {
+      return NextResponse.json(
+        { error: 'Authentication is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const parseResult = LoginRequestSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = parseResult.data;
+    let session: Omit<Session, 'exp'>;
+
+    if (data.role === 'lo') {
+      if (!LO_ACCESS_CODE || !safeEqual(data.accessCode, LO_ACCESS_CODE)) {
+        return invalidCredentials();
+      }
+      session = { sub: 'lo-team', name: 'Loan Officer', role: 'lo' };
+    } else {
+      if (!isGhlConfigured()) {
+        return NextResponse.json(
+          { error: 'GHL API is not configured' },
+          { status: 500 }
+        );
+      }
+
+      // Only contacts tagged as partner agents can sign in as an agent
+      const agents = await getPartnerAgents();
+      const email = data.email.toLowerCase();
+      const agent = agents.find((contact) => contact.email?.toLowerCase() === email);
+
+      // Each agent has their own code, so one agent can't sign in as another
+      const agentAccessCode = agent && getContactCustomField(agent, AGENT_ACCESS_CODE_FIELD);
+      if (!agent || !agentAccessCode || !safeEqual(data.accessCode, agentAccessCode)) {
+        return invalidCredentials();
+      }
+
+      session = {
+        sub: agent.id,
+        name: agent.name || `${agent.firstName || ''} ${agent.lastName || ''}`.trim() || data.email,
+        role: 'agent',
+        agentId: agent.id,
+      };
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      role: session.role,
+      name: session.name,
+    });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(session), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isGhlConfigured } from '@/lib/ghl-client';
+import { duplicateClientScenario } from '@/lib/client-scenarios';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const DuplicateScenarioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+/**
+ * POST /api/clients/:contactId/scenarios/:scenarioId/duplicate
+ *
+ * Copies a scenario under a new name.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string; scenarioId: string }> }
+) {
+  try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!isGhlConfigured()) {
+      return NextResponse.json(
+        { error: 'GHL API is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const parseResult = DuplicateScenarioSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { contactId, scenarioId } = await params;
+    const scenario = await duplicateClientScenario(contactId, scenarioId, parseResult.data.name);
+    if (!scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, scenarioId: scenario.id });
+  } catch (error) {
+    console.error('Error duplicating scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to duplicate scenario' },
+      { status: 500 }
+    );
+  }
+}
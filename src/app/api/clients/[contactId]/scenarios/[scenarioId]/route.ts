@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isGhlConfigured } from '@/lib/ghl-client';
+import {
+  getClientScenario,
+  renameClientScenario,
+  deleteClientScenario,
+} from '@/lib/client-scenarios';
+import { migrateClientState } from '@/lib/client-state-migrations';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+interface ScenarioRouteContext {
+  params: Promise<{ contactId: string; scenarioId: string }>;
+}
+
+const RenameScenarioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+function notConfigured() {
+  return NextResponse.json(
+    { error: 'GHL API is not configured' },
+    { status: 500 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Scenario not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/clients/:contactId/scenarios/:scenarioId
+ *
+ * Loads one scenario with its calculator state, upgraded to the current
+ * version. `droppedFields` lists saved inputs that could not be kept.
+ */
+export async function GET(request: NextRequest, { params }: ScenarioRouteContext) {
+  try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!isGhlConfigured()) return notConfigured();
+
+    const { contactId, scenarioId } = await params;
+    const scenario = await getClientScenario(contactId, scenarioId);
+    if (!scenario) return notFound();
+
+    const migration = migrateClientState(scenario.state);
+    if (!migration) {
+      return NextResponse.json(
+        { error: 'Saved scenario could not be read' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      scenario: { ...scenario, state: migration.state },
+      fromVersion: migration.fromVersion,
+      filledFields: migration.filledFields,
+      droppedFields: migration.droppedFields,
+    });
+  } catch (error) {
+    console.error('Error loading scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to load scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/clients/:contactId/scenarios/:scenarioId
+ *
+ * Renames a scenario.
+ */
+export async function PATCH(request: NextRequest, { params }: ScenarioRouteContext) {
+  try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!isGhlConfigured()) return notConfigured();
+
+    const parseResult = RenameScenarioSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { contactId, scenarioId } = await params;
+    const scenario = await renameClientScenario(contactId, scenarioId, parseResult.data.name);
+    if (!scenario) return notFound();
+
+    return NextResponse.json({ success: true, scenarioId: scenario.id });
+  } catch (error) {
+    console.error('Error renaming scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/clients/:contactId/scenarios/:scenarioId
+ *
+ * Deletes a scenario and all of its notes.
+ */
+export async function DELETE(request: NextRequest, { params }: ScenarioRouteContext) {
+  try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!isGhlConfigured()) return notConfigured();
+
+    const { contactId, scenarioId } = await params;
+    const deleted = await deleteClientScenario(contactId, scenarioId);
+    if (!deleted) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isGhlConfigured } from '@/lib/ghl-client';
+import { listClientScenarios } from '@/lib/client-scenarios';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/clients/:contactId/scenarios
+ *
+ * Lists a client's saved scenarios (without their calculator state), newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
+    if (!isGhlConfigured()) {
+      return NextResponse.json(
+        { error: 'GHL API is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { contactId } = await params;
+    const scenarios = await listClientScenarios(contactId);
+
+    return NextResponse.json({ scenarios });
+  } catch (error) {
+    console.error('Error listing scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to list scenarios' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
 import {
   searchContacts,
   getContact,
   getContactCustomField,
   isGhlConfigured,
 } from '@/lib/ghl-client';
+import { listClientScenarios } from '@/lib/client-scenarios';
+import { migrateClientState } from '@/lib/client-state-migrations';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,11 +15,16 @@ export const dynamic = 'force-dynamic';
  * GET /api/clients/load?query=...
  * GET /api/clients/load?id=...
  *
- * Loads a client's calculator state.
+ * Loads a client and their saved scenarios.
  * Can search by query (email/name) or load directly by contact ID.
+ * `calculatorState` is the single state saved before scenarios existed,
+ * upgraded to the current version. `droppedFields` lists saved inputs that could not be kept.
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
     if (!isGhlConfigured()) {
       return NextResponse.json(
         { error: 'GHL API is not configured' },
@@ -40,17 +48,20 @@ export async function GET(request: NextRequest) {
       }
 
       const stateJson = getContactCustomField(contact, 'calculator_state_json');
-      let calculatorState = null;
+      let migration = null;
 
       if (stateJson) {
         try {
-          calculatorState = JSON.parse(stateJson);
+          migration = migrateClientState(JSON.parse(stateJson));
         } catch {
           console.warn('Failed to parse calculator state JSON');
         }
       }
 
+      const scenarios = await listClientScenarios(contact.id);
+
       return NextResponse.json({
+        scenarios,
         contact: {
           id: contact.id,
           email: contact.email,
@@ -59,7 +70,8 @@ export async function GET(request: NextRequest) {
           lastName: contact.lastName,
           name: contact.name,
         },
-        calculatorState,
+        calculatorState: migration?.state ?? null,
+        droppedFields: migration?.droppedFields ?? [],
       });
     }
 
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
 import { upsertContact, isGhlConfigured } from '@/lib/ghl-client';
+import { createClientScenario } from '@/lib/client-scenarios';
+import { ClientStateSchema } from '@/lib/schemas';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
@@ -9,7 +12,8 @@ const SaveClientSchema = z.object({
   phone: z.string().optional(),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
-  calculatorState: z.record(z.string(), z.unknown()),
+  calculatorState: ClientStateSchema,
+  scenarioName: z.string().trim().min(1).max(100).optional(),
   // Searchable fields
   loanAmount: z.number().optional(),
   salesPrice: z.number().optional(),
@@ -20,11 +24,14 @@ const SaveClientSchema = z.object({
 /**
  * POST /api/clients/save
  *
- * Saves or updates a client with their calculator state.
- * Upserts based on email (if provided).
+ * Saves or updates a client and adds their calculator state as a new named
+ * scenario. Upserts based on email (if provided).
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireRole(request, ['lo']);
+    if (auth instanceof NextResponse) return auth;
+
     if (!isGhlConfigured()) {
       return NextResponse.json(
         { error: 'GHL API is not configured' },
@@ -44,13 +51,8 @@ export async function POST(request: NextRequest) {
 
     const data = parseResult.data;
 
-    // Build custom fields for GHL
-    const customFields: Array<{ key: string; value: string }> = [
-      {
-        key: 'calculator_state_json',
-        value: JSON.stringify(data.calculatorState),
-      },
-    ];
+    // Searchable fields reflect the most recent save
+    const customFields: Array<{ key: string; value: string }> = [];
 
     if (data.loanAmount !== undefined) {
       customFields.push({
@@ -90,9 +92,16 @@ export async function POST(request: NextRequest) {
       tags: ['calculator-client'],
     });
 
+    const scenario = await createClientScenario(
+      contact.id,
+      data.scenarioName ?? data.calculatorState.calculatorType,
+      data.calculatorState
+    );
+
     return NextResponse.json({
       success: true,
       contactId: contact.id,
+      scenarioId: scenario.id,
     });
   } catch (error) {
     console.error('Error saving client:', error);
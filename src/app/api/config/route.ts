@@ -1,4 +1,5 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
 import { fetchCustomValues, isGhlConfigured } from '@/lib/ghl-client';
 import { sanitizeGhlConfig } from '@/lib/sanitize';
 import { GhlConfigSchema } from '@/lib/schemas';
@@ -11,8 +12,11 @@ export const dynamic = 'force-dynamic';
  * Fetches global configuration from GHL Custom Values.
  * All values are sanitized and validated before returning.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const auth = await requireRole(request, ['lo', 'agent']);
+    if (auth instanceof NextResponse) return auth;
+
     if (!isGhlConfigured()) {
       return NextResponse.json(
         { error: 'GHL API is not configured' },
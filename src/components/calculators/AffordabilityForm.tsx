@@ -0,0 +1,421 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useCalculatorStore, type AffordabilityInputs } from '@/lib/store';
+import { calculateAffordability, type AffordabilityResult } from '@/lib/calculations/affordability';
+import { InputGroup, SelectGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
+import { AffordabilityInputSchema } from '@/lib/schemas';
+import type { AffordabilityProgramInput, CreditScoreTier, VaUsage } from '@/lib/schemas';
+
+const PROGRAM_LABELS: Record<AffordabilityProgramInput['program'], string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA',
+};
+
+// Purchase calculators whose DTI section can seed the affordability incomes
+const DTI_SOURCES = ['affordability', 'conventional', 'fha', 'va', 'usda'];
+
+export function AffordabilityForm() {
+  const t = useTranslations();
+  const {
+    affordabilityInputs,
+    updateAffordabilityInputs,
+    dtiInputs: allDtiInputs,
+    updateDtiInputs,
+    resetCalculator,
+    config,
+  } = useCalculatorStore();
+  const [results, setResults] = useState<AffordabilityResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the first DTI section that has income entered
+  const dtiInputs = useMemo(() => DTI_SOURCES
+    .map((type) => allDtiInputs[type])
+    .find((inputs) => inputs?.incomes.some((income) => income > 0))
+    ?? allDtiInputs.affordability
+    ?? { incomes: [0, 0, 0, 0, 0, 0], payments: [0, 0, 0, 0, 0, 0] }, [allDtiInputs]);
+
+  const updateInput = <K extends keyof AffordabilityInputs>(field: K, value: AffordabilityInputs[K]) => {
+    updateAffordabilityInputs({ [field]: value });
+  };
+
+  const updateProgram = (index: number, changes: Partial<AffordabilityProgramInput>) => {
+    updateInput(
+      'programs',
+      affordabilityInputs.programs.map((program, i) => (i === index ? { ...program, ...changes } : program))
+    );
+  };
+
+  const handleDtiChange = (type: 'incomes' | 'payments', index: number, value: string) => {
+    const list = [...dtiInputs[type]];
+    list[index] = Number(value) || 0;
+    updateDtiInputs({ ...dtiInputs, [type]: list }, 'affordability');
+  };
+
+  const onCalculate = useCallback(() => {
+    if (!config) {
+      return; // Config required for calculation
+    }
+
+    const parsed = AffordabilityInputSchema.safeParse({
+      ...affordabilityInputs,
+      incomes: dtiInputs.incomes,
+      payments: dtiInputs.payments,
+    });
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? null);
+      setResults(null);
+      return;
+    }
+
+    setError(null);
+    setResults(calculateAffordability(parsed.data, config));
+  }, [affordabilityInputs, dtiInputs, config]);
+
+  const handleReset = () => {
+    resetCalculator('affordability');
+    setResults(null);
+    setError(null);
+  };
+
+  const creditTierOptions = [
+    { value: '760', label: t('creditTiers.760plus') },
+    { value: '740', label: t('creditTiers.740to759') },
+    { value: '720', label: t('creditTiers.720to739') },
+    { value: '700', label: t('creditTiers.700to719') },
+    { value: '680', label: t('creditTiers.680to699') },
+    { value: '660', label: t('creditTiers.660to679') },
+    { value: '640', label: t('creditTiers.640to659') },
+    { value: '620', label: t('creditTiers.620to639') },
+  ];
+
+  const vaUsageOptions = [
+    { value: 'first', label: t('va.usage.first') },
+    { value: 'subsequent', label: t('va.usage.subsequent') },
+  ];
+
+  const termOptions = [
+    { value: '30', label: '30 Years' },
+    { value: '20', label: '20 Years' },
+    { value: '15', label: '15 Years' },
+  ];
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatPercent = (value: number) => {
+    return `${value.toFixed(2)}%`;
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex-1 text-center">
+          <div className="flex justify-center mb-2">
+            <h1 className="text-2xl font-bold text-slate-800 px-8 py-2 rounded-lg inline-block">
+              {t('affordability.title')}
+            </h1>
+          </div>
+          <p className="text-sm text-slate-500 mt-1">
+            {t('affordability.description')}
+          </p>
+        </div>
+        <Button onClick={handleReset} variant="ghost">
+          {t('common.reset')}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Income & Debts */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{t('affordability.incomeAndDebts')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-3">
+                <h4 className="text-sm font-semibold text-slate-700">{t('affordability.monthlyIncome')}</h4>
+                {dtiInputs.incomes.map((income, idx) => (
+                  <InputGroup
+                    key={`income-${idx}`}
+                    label={t('affordability.income', { number: idx + 1 })}
+                    name={`income-${idx}`}
+                    type="number"
+                    value={income}
+                    onChange={(val) => handleDtiChange('incomes', idx, val)}
+                    prefix="$"
+                  />
+                ))}
+              </div>
+              <div className="space-y-3">
+                <h4 className="text-sm font-semibold text-slate-700">{t('affordability.monthlyPayments')}</h4>
+                {dtiInputs.payments.map((payment, idx) => (
+                  <InputGroup
+                    key={`payment-${idx}`}
+                    label={t('affordability.payment', { number: idx + 1 })}
+                    name={`payment-${idx}`}
+                    type="number"
+                    value={payment}
+                    onChange={(val) => handleDtiChange('payments', idx, val)}
+                    prefix="$"
+                  />
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">{t('affordability.incomeHelp')}</p>
+          </CardContent>
+        </Card>
+
+        {/* Cash & Property */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{t('affordability.cashAndProperty')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <InputGroup
+              label={t('affordability.availableFunds')}
+              name="availableFunds"
+              type="number"
+              value={affordabilityInputs.availableFunds}
+              onChange={(val) => updateInput('availableFunds', Number(val) || 0)}
+              prefix="$"
+              helperText={t('affordability.availableFundsHelp')}
+            />
+            <InputGroup
+              label={t('calculator.sellerCredit')}
+              name="sellerCreditAmount"
+              type="number"
+              value={affordabilityInputs.sellerCreditAmount}
+              onChange={(val) => updateInput('sellerCreditAmount', Number(val) || 0)}
+              prefix="$"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <InputGroup
+                label={t('affordability.propertyTaxRate')}
+                name="propertyTaxRate"
+                type="number"
+                value={affordabilityInputs.propertyTaxRate}
+                onChange={(val) => updateInput('propertyTaxRate', Number(val) || 0)}
+                suffix="%"
+                step="0.05"
+              />
+              <InputGroup
+                label={t('affordability.homeInsuranceRate')}
+                name="homeInsuranceRate"
+                type="number"
+                value={affordabilityInputs.homeInsuranceRate}
+                onChange={(val) => updateInput('homeInsuranceRate', Number(val) || 0)}
+                suffix="%"
+                step="0.05"
+              />
+            </div>
+            <p className="text-xs text-slate-500">{t('affordability.rateHelp')}</p>
+            <InputGroup
+              label={t('calculator.hoaDues')}
+              name="hoaDuesMonthly"
+              type="number"
+              value={affordabilityInputs.hoaDuesMonthly}
+              onChange={(val) => updateInput('hoaDuesMonthly', Number(val) || 0)}
+              prefix="$"
+            />
+            <SelectToggle
+              label={t('calculator.term')}
+              name="termYears"
+              value={String(affordabilityInputs.termYears)}
+              onChange={(val) => updateInput('termYears', Number(val))}
+              options={termOptions}
+            />
+            <SelectGroup
+              label={t('calculator.creditScore')}
+              name="creditScoreTier"
+              value={affordabilityInputs.creditScoreTier}
+              onChange={(val) => updateInput('creditScoreTier', val as CreditScoreTier)}
+              options={creditTierOptions}
+            />
+            <SelectToggle
+              label={t('calculator.vaUsage')}
+              name="vaUsage"
+              value={affordabilityInputs.vaUsage}
+              onChange={(val) => updateInput('vaUsage', val as VaUsage)}
+              options={vaUsageOptions}
+            />
+            <CheckboxGroup
+              label={t('calculator.isDisabledVeteran')}
+              name="isDisabledVeteran"
+              checked={affordabilityInputs.isDisabledVeteran}
+              onChange={(val) => updateInput('isDisabledVeteran', val)}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Programs */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{t('affordability.programs')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {affordabilityInputs.programs.map((program, index) => (
+              <div key={program.program} className="space-y-3">
+                <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">
+                  {PROGRAM_LABELS[program.program]}
+                </h4>
+                <InputGroup
+                  label={t('calculator.interestRate')}
+                  name={`interestRate-${program.program}`}
+                  type="number"
+                  value={program.interestRate}
+                  onChange={(val) => updateProgram(index, { interestRate: Number(val) || 0 })}
+                  suffix="%"
+                  step="0.125"
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <InputGroup
+                    label={t('affordability.maxFrontEndRatio')}
+                    name={`maxFrontEndRatio-${program.program}`}
+                    type="number"
+                    value={program.maxFrontEndRatio}
+                    onChange={(val) => updateProgram(index, { maxFrontEndRatio: Number(val) || 0 })}
+                    suffix="%"
+                  />
+                  <InputGroup
+                    label={t('affordability.maxBackEndRatio')}
+                    name={`maxBackEndRatio-${program.program}`}
+                    type="number"
+                    value={program.maxBackEndRatio}
+                    onChange={(val) => updateProgram(index, { maxBackEndRatio: Number(val) || 0 })}
+                    suffix="%"
+                  />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Calculate Button */}
+      <div className="flex flex-col items-center gap-2">
+        <Button onClick={onCalculate} size="lg">
+          {t('common.calculate')}
+        </Button>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+
+      {/* Results */}
+      {results && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('affordability.maxPrice')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Metric</th>
+                    {results.programs.map((p) => (
+                      <th key={p.program} className="text-right py-3 px-4 font-medium text-slate-800">
+                        {PROGRAM_LABELS[p.program]} ({formatPercent(p.interestRate)})
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-slate-100 bg-blue-50">
+                    <td className="py-3 px-4 font-medium text-blue-700">{t('affordability.maxPrice')}</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4 font-bold text-blue-700">
+                        {p.maxSalesPrice > 0 ? formatCurrency(p.maxSalesPrice) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600">{t('calculator.loanAmount')}</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4 font-medium">
+                        {formatCurrency(p.totalLoanAmount)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600">{t('calculator.downPayment')}</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatCurrency(p.downPayment)}
+                        <span className="text-slate-400 text-xs ml-1">
+                          ({formatPercent(p.downPaymentPercent)})
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600">Cash to Close</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatCurrency(p.cashToClose)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600">{t('affordability.housingPayment')}</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatCurrency(p.housingPayment)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600 pl-8">Mortgage Insurance</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatCurrency(p.calculation?.monthlyPayment.mortgageInsurance ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600 pl-8">Taxes & Insurance</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatCurrency(
+                          (p.calculation?.monthlyPayment.propertyTax ?? 0) + (p.calculation?.monthlyPayment.homeInsurance ?? 0)
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-3 px-4 text-slate-600">{t('affordability.ratios')}</td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4">
+                        {formatPercent(p.frontEndRatio)} / {formatPercent(p.backEndRatio)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-3 px-4 text-slate-600"></td>
+                    {results.programs.map((p) => (
+                      <td key={p.program} className="text-right py-3 px-4 text-xs text-slate-500">
+                        {p.maxSalesPrice === 0
+                          ? t('affordability.noPrice')
+                          : t(`affordability.limitedBy.${p.limitedBy ?? 'none'}`)}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-4">{t('affordability.disclaimer')}</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,52 +2,56 @@
 
 import { useCallback, useState } from 'react';
 import { useTranslations } from 'next-intl';
-import { useCalculatorStore } from '@/lib/store';
-import { compareScenarios, type ComparisonResult } from '@/lib/calculations/comparison';
-import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
-import type { LoanProgram } from '@/lib/schemas';
-
-interface Scenario {
-  name: string;
-  program: LoanProgram;
-  salesPrice: number;
-  downPaymentPercent: number;
-  interestRate: number;
-  termYears: number;
-}
+import {
+  useCalculatorStore,
+  defaultComparisonScenario,
+  defaultComparisonScenarios,
+  type ComparisonScenarioInputs,
+} from '@/lib/store';
+import { compareScenarios, COST_HORIZON_YEARS, type ComparisonResult } from '@/lib/calculations/comparison';
+import { InputGroup, SelectGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent, LoanProductFields, AgentSelector, ComparisonPdfButton } from '@/components/shared';
+import { ComparisonInputSchema } from '@/lib/schemas';
+import type { CreditScoreTier, LoanProgram, LoanPurpose, PmiType, RefinanceType, VaUsage } from '@/lib/schemas';
+
+type Scenario = ComparisonScenarioInputs;
 
 export function ComparisonForm() {
   const t = useTranslations();
   const { comparisonScenarios, updateComparisonScenario, resetCalculator, config } = useCalculatorStore();
   const [results, setResults] = useState<ComparisonResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
+  // Fill in fields added since the scenario was saved
   const [scenarios, setScenarios] = useState<Scenario[]>(comparisonScenarios.map(s => ({
-    name: s.name,
-    program: s.program,
-    salesPrice: s.salesPrice,
-    downPaymentPercent: s.downPaymentPercent,
-    interestRate: s.interestRate,
-    termYears: s.termYears,
+    ...defaultComparisonScenario,
+    ...s,
   })));
 
-  const updateScenario = (index: number, field: keyof Scenario, value: string | number) => {
+  const updateScenario = <K extends keyof Scenario>(index: number, field: K, value: Scenario[K]) => {
     const updated = [...scenarios];
     updated[index] = { ...updated[index], [field]: value };
     setScenarios(updated);
     updateComparisonScenario(index, { [field]: value });
   };
 
+  // USDA has no refinance engine, so refinance scenarios fall back to conventional
+  const updatePurpose = (index: number, purpose: LoanPurpose) => {
+    const program = purpose === 'refinance' && scenarios[index].program === 'usda'
+      ? 'conventional'
+      : scenarios[index].program;
+    const updated = [...scenarios];
+    updated[index] = { ...updated[index], purpose, program };
+    setScenarios(updated);
+    updateComparisonScenario(index, { purpose, program });
+  };
+
   const addScenario = () => {
-    if (scenarios.length >= 4) return;
+    if (scenarios.length >= 3) return;
     setScenarios([
       ...scenarios,
       {
+        ...defaultComparisonScenario,
         name: `Scenario ${scenarios.length + 1}`,
-        program: 'conventional',
-        salesPrice: 500000,
-        downPaymentPercent: 20,
-        interestRate: 7.0,
-        termYears: 30,
       },
     ]);
   };
@@ -66,62 +70,76 @@ export function ComparisonForm() {
     const propertyTaxAnnual = 6000;
     const homeInsuranceAnnual = 1800;
 
-    // Run comparison
-    const comparisonResult = compareScenarios(
-      {
-        scenarios: scenarios.map(s => ({
-          name: s.name,
-          program: s.program,
-          salesPrice: s.salesPrice,
-          downPaymentPercent: s.downPaymentPercent,
-          interestRate: s.interestRate,
-          termYears: s.termYears,
-        })),
-        propertyTaxMonthly: propertyTaxAnnual / 12,
-        homeInsuranceMonthly: homeInsuranceAnnual / 12,
-        hoaDuesMonthly: 0,
-      },
-      config
-    );
+    // Each scenario becomes its program's full purchase input, with schema defaults filled in
+    const parsed = ComparisonInputSchema.safeParse({
+      scenarios: scenarios.map(s => ({
+        ...s,
+        // Blank current-loan details let the refinance engines skip the benefit test
+        currentInterestRate: s.currentInterestRate || undefined,
+        currentMonthlyPayment: s.currentMonthlyPayment || undefined,
+        currentRemainingTermMonths: s.currentRemainingTermMonths || undefined,
+        productOptions: s.program === 'usda' ? undefined : s.productOptions,
+      })),
+      propertyTaxMonthly: propertyTaxAnnual / 12,
+      homeInsuranceMonthly: homeInsuranceAnnual / 12,
+      hoaDuesMonthly: 0,
+    });
 
-    setResults(comparisonResult);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? null);
+      setResults(null);
+      return;
+    }
+
+    setError(null);
+    setResults(compareScenarios(parsed.data, config));
   }, [scenarios, config]);
 
   const handleReset = () => {
     resetCalculator('comparison');
     setResults(null);
-    setScenarios([
-      {
-        name: 'Conventional 20% Down',
-        program: 'conventional',
-        salesPrice: 500000,
-        downPaymentPercent: 20,
-        interestRate: 7.0,
-        termYears: 30,
-      },
-      {
-        name: 'FHA 3.5% Down',
-        program: 'fha',
-        salesPrice: 500000,
-        downPaymentPercent: 3.5,
-        interestRate: 6.5,
-        termYears: 30,
-      },
-      {
-        name: 'VA 0% Down',
-        program: 'va',
-        salesPrice: 500000,
-        downPaymentPercent: 0,
-        interestRate: 6.5,
-        termYears: 30,
-      },
-    ]);
+    setError(null);
+    setScenarios(defaultComparisonScenarios);
   };
 
   const programOptions = [
     { value: 'conventional', label: 'Conventional' },
     { value: 'fha', label: 'FHA' },
     { value: 'va', label: 'VA' },
+    { value: 'usda', label: 'USDA' },
+  ];
+
+  const purposeOptions = [
+    { value: 'purchase', label: t('comparison.purchase') },
+    { value: 'refinance', label: t('comparison.refinance') },
+  ];
+
+  const refinanceTypeOptions = [
+    { value: 'rate_term', label: t('refinance.rateAndTerm') },
+    { value: 'cash_out', label: t('refinance.cashOut') },
+  ];
+
+  const creditTierOptions = [
+    { value: '760', label: t('creditTiers.760plus') },
+    { value: '740', label: t('creditTiers.740to759') },
+    { value: '720', label: t('creditTiers.720to739') },
+    { value: '700', label: t('creditTiers.700to719') },
+    { value: '680', label: t('creditTiers.680to699') },
+    { value: '660', label: t('creditTiers.660to679') },
+    { value: '640', label: t('creditTiers.640to659') },
+    { value: '620', label: t('creditTiers.620to639') },
+  ];
+
+  const pmiTypeOptions = [
+    { value: 'monthly', label: t('pmiTypes.monthly') },
+    { value: 'single_financed', label: t('pmiTypes.singleFinanced') },
+    { value: 'single_cash', label: t('pmiTypes.singleCash') },
+    { value: 'split', label: t('pmiTypes.split') },
+  ];
+
+  const vaUsageOptions = [
+    { value: 'first', label: t('va.usage.first') },
+    { value: 'subsequent', label: t('va.usage.subsequent') },
   ];
 
   const termOptions = [
@@ -143,6 +161,13 @@ export function ComparisonForm() {
     return `${value.toFixed(2)}%`;
   };
 
+  const formatMonths = (months: number) => {
+    const years = Math.floor(months / 12);
+    const remainder = months % 12;
+    if (years === 0) return `${remainder} months`;
+    return remainder === 0 ? `${years} years` : `${years} years ${remainder} months`;
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -158,7 +183,7 @@ export function ComparisonForm() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={addScenario} variant="outline" disabled={scenarios.length >= 4}>
+          <Button onClick={addScenario} variant="outline" disabled={scenarios.length >= 3}>
             + {t('comparison.addScenario')}
           </Button>
           <Button onClick={handleReset} variant="ghost">
@@ -169,7 +194,9 @@ export function ComparisonForm() {
 
       {/* Scenario Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-        {scenarios.map((scenario, index) => (
+        {scenarios.map((scenario, index) => {
+          const isRefinance = scenario.purpose === 'refinance';
+          return (
           <Card key={index}>
             <CardHeader className="pb-2">
               <div className="flex items-center justify-between">
@@ -193,32 +220,99 @@ export function ComparisonForm() {
               </div>
             </CardHeader>
             <CardContent className="space-y-3">
+              <SelectToggle
+                label={t('comparison.purpose')}
+                name={`purpose-${index}`}
+                value={scenario.purpose}
+                onChange={(val) => updatePurpose(index, val as LoanPurpose)}
+                options={purposeOptions}
+              />
+
               <SelectToggle
                 label={t('calculator.loanProgram')}
                 name={`program-${index}`}
                 value={scenario.program}
                 onChange={(val) => updateScenario(index, 'program', val as LoanProgram)}
-                options={programOptions}
+                options={isRefinance ? programOptions.filter((option) => option.value !== 'usda') : programOptions}
               />
 
-              <InputGroup
-                label={t('calculator.salesPrice')}
-                name={`salesPrice-${index}`}
-                type="number"
-                value={scenario.salesPrice}
-                onChange={(val) => updateScenario(index, 'salesPrice', Number(val) || 0)}
-                prefix="$"
-              />
+              {isRefinance ? (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <InputGroup
+                      label={t('refinance.propertyValue')}
+                      name={`propertyValue-${index}`}
+                      type="number"
+                      value={scenario.propertyValue}
+                      onChange={(val) => updateScenario(index, 'propertyValue', Number(val) || 0)}
+                      prefix="$"
+                    />
+                    <InputGroup
+                      label={t('refinance.existingBalance')}
+                      name={`existingLoanBalance-${index}`}
+                      type="number"
+                      value={scenario.existingLoanBalance}
+                      onChange={(val) => updateScenario(index, 'existingLoanBalance', Number(val) || 0)}
+                      prefix="$"
+                    />
+                    <InputGroup
+                      label={t('refinance.currentRate')}
+                      name={`currentInterestRate-${index}`}
+                      type="number"
+                      value={scenario.currentInterestRate}
+                      onChange={(val) => updateScenario(index, 'currentInterestRate', Number(val) || 0)}
+                      suffix="%"
+                      step="0.125"
+                    />
+                    <InputGroup
+                      label={t('refinance.remainingTerm')}
+                      name={`currentRemainingTermMonths-${index}`}
+                      type="number"
+                      value={scenario.currentRemainingTermMonths}
+                      onChange={(val) => updateScenario(index, 'currentRemainingTermMonths', Math.floor(Number(val) || 0))}
+                      suffix="mo"
+                    />
+                  </div>
+                  <InputGroup
+                    label={t('refinance.currentPayment')}
+                    name={`currentMonthlyPayment-${index}`}
+                    type="number"
+                    value={scenario.currentMonthlyPayment}
+                    onChange={(val) => updateScenario(index, 'currentMonthlyPayment', Number(val) || 0)}
+                    prefix="$"
+                    helperText={t('refinance.currentPaymentHelp')}
+                  />
+                  <InputGroup
+                    label={t('refinance.newLoanAmount')}
+                    name={`newLoanAmount-${index}`}
+                    type="number"
+                    value={scenario.newLoanAmount}
+                    onChange={(val) => updateScenario(index, 'newLoanAmount', Number(val) || 0)}
+                    prefix="$"
+                  />
+                </>
+              ) : (
+                <>
+                  <InputGroup
+                    label={t('calculator.salesPrice')}
+                    name={`salesPrice-${index}`}
+                    type="number"
+                    value={scenario.salesPrice}
+                    onChange={(val) => updateScenario(index, 'salesPrice', Number(val) || 0)}
+                    prefix="$"
+                  />
 
-              <InputGroup
-                label={t('calculator.downPaymentPercent')}
-                name={`downPayment-${index}`}
-                type="number"
-                value={scenario.downPaymentPercent}
-                onChange={(val) => updateScenario(index, 'downPaymentPercent', Number(val) || 0)}
-                suffix="%"
-                step="0.5"
-              />
+                  <InputGroup
+                    label={t('calculator.downPaymentPercent')}
+                    name={`downPayment-${index}`}
+                    type="number"
+                    value={scenario.downPaymentPercent}
+                    onChange={(val) => updateScenario(index, 'downPaymentPercent', Number(val) || 0)}
+                    suffix="%"
+                    step="0.5"
+                  />
+                </>
+              )}
 
               <InputGroup
                 label={t('calculator.interestRate')}
@@ -237,16 +331,159 @@ export function ComparisonForm() {
                 onChange={(val) => updateScenario(index, 'termYears', Number(val))}
                 options={termOptions}
               />
+
+              {scenario.program === 'conventional' && (
+                <>
+                  <SelectGroup
+                    label={t('calculator.creditScore')}
+                    name={`creditScoreTier-${index}`}
+                    value={scenario.creditScoreTier}
+                    onChange={(val) => updateScenario(index, 'creditScoreTier', val as CreditScoreTier)}
+                    options={creditTierOptions}
+                  />
+                  {isRefinance ? (
+                    <>
+                      <SelectToggle
+                        label={t('refinance.type')}
+                        name={`refinanceType-${index}`}
+                        value={scenario.refinanceType}
+                        onChange={(val) => updateScenario(index, 'refinanceType', val as RefinanceType)}
+                        options={refinanceTypeOptions}
+                      />
+                      {scenario.refinanceType === 'cash_out' && (
+                        <InputGroup
+                          label={t('refinance.cashOutAmount')}
+                          name={`cashOutAmount-${index}`}
+                          type="number"
+                          value={scenario.cashOutAmount}
+                          onChange={(val) => updateScenario(index, 'cashOutAmount', Number(val) || 0)}
+                          prefix="$"
+                        />
+                      )}
+                    </>
+                  ) : (
+                    <SelectGroup
+                      label={t('calculator.pmiType')}
+                      name={`pmiType-${index}`}
+                      value={scenario.pmiType}
+                      onChange={(val) => updateScenario(index, 'pmiType', val as PmiType)}
+                      options={pmiTypeOptions}
+                    />
+                  )}
+                </>
+              )}
+
+              {scenario.program === 'fha' && isRefinance && (
+                <CheckboxGroup
+                  label={t('refinance.streamline')}
+                  name={`isStreamline-${index}`}
+                  checked={scenario.isStreamline}
+                  onChange={(val) => updateScenario(index, 'isStreamline', val)}
+                />
+              )}
+
+              {scenario.program === 'va' && (
+                <>
+                  {isRefinance && (
+                    <CheckboxGroup
+                      label={t('refinance.irrrl')}
+                      name={`isIrrrl-${index}`}
+                      checked={scenario.isIrrrl}
+                      onChange={(val) => updateScenario(index, 'isIrrrl', val)}
+                    />
+                  )}
+                  <SelectToggle
+                    label={t('calculator.vaUsage')}
+                    name={`vaUsage-${index}`}
+                    value={scenario.vaUsage}
+                    onChange={(val) => updateScenario(index, 'vaUsage', val as VaUsage)}
+                    options={vaUsageOptions}
+                  />
+                  <CheckboxGroup
+                    label={t('calculator.isDisabledVeteran')}
+                    name={`isDisabledVeteran-${index}`}
+                    checked={scenario.isDisabledVeteran}
+                    onChange={(val) => updateScenario(index, 'isDisabledVeteran', val)}
+                  />
+                  <CheckboxGroup
+                    label={t('calculator.isReservist')}
+                    name={`isReservist-${index}`}
+                    checked={scenario.isReservist}
+                    onChange={(val) => updateScenario(index, 'isReservist', val)}
+                    disabled={scenario.isDisabledVeteran}
+                  />
+                </>
+              )}
+
+              {scenario.program === 'usda' && !isRefinance && (
+                <div className="grid grid-cols-2 gap-3">
+                  <InputGroup
+                    label={t('usda.householdSize')}
+                    name={`householdSize-${index}`}
+                    type="number"
+                    value={scenario.householdSize}
+                    onChange={(val) => updateScenario(index, 'householdSize', Number(val) || 1)}
+                  />
+                  <InputGroup
+                    label={t('usda.householdIncome')}
+                    name={`householdIncomeAnnual-${index}`}
+                    type="number"
+                    value={scenario.householdIncomeAnnual}
+                    onChange={(val) => updateScenario(index, 'householdIncomeAnnual', Number(val) || 0)}
+                    prefix="$"
+                  />
+                </div>
+              )}
+
+              <InputGroup
+                label={t('comparison.loanFee')}
+                name={`loanFee-${index}`}
+                type="number"
+                value={scenario.loanFee}
+                onChange={(val) => updateScenario(index, 'loanFee', Number(val) || 0)}
+                prefix="$"
+              />
+
+              {!isRefinance && (
+              <div className="grid grid-cols-2 gap-3">
+                <InputGroup
+                  label={t('calculator.sellerCredit')}
+                  name={`sellerCredit-${index}`}
+                  type="number"
+                  value={scenario.sellerCreditAmount}
+                  onChange={(val) => updateScenario(index, 'sellerCreditAmount', Number(val) || 0)}
+                  prefix="$"
+                />
+                <InputGroup
+                  label={t('calculator.lenderCredit')}
+                  name={`lenderCredit-${index}`}
+                  type="number"
+                  value={scenario.lenderCreditAmount}
+                  onChange={(val) => updateScenario(index, 'lenderCreditAmount', Number(val) || 0)}
+                  prefix="$"
+                />
+              </div>
+              )}
+
+              {scenario.program !== 'usda' && (
+                <LoanProductFields
+                  name={`productOptions-${index}`}
+                  value={scenario.productOptions}
+                  onChange={(val) => updateScenario(index, 'productOptions', val)}
+                />
+              )}
             </CardContent>
           </Card>
-        ))}
+          );
+        })}
       </div>
 
       {/* Calculate Button */}
-      <div className="flex justify-center">
+      <div className="flex flex-col items-center gap-2">
         <Button onClick={onCalculate} size="lg">
           {t('common.calculate')}
         </Button>
+        {error && <p className="text-sm text-red-500">{error}</p>}
       </div>
 
       {/* Results Comparison Table */}
@@ -304,6 +541,26 @@ export function ComparisonForm() {
                       </td>
                     ))}
                   </tr>
+                  {results.scenarios.some(s => s.productPayments) && (
+                    <>
+                      <tr className="border-b border-slate-100">
+                        <td className="py-3 px-4 text-slate-600 pl-8">{t('calculator.productPayments.worstCasePayment')}</td>
+                        {results.scenarios.map((s, i) => (
+                          <td key={i} className="text-right py-3 px-4">
+                            {formatCurrency(s.productPayments?.worstCasePayment ?? s.principalAndInterest)}
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-b border-slate-100">
+                        <td className="py-3 px-4 text-slate-600 pl-8">{t('calculator.productPayments.qualifyingPayment')}</td>
+                        {results.scenarios.map((s, i) => (
+                          <td key={i} className="text-right py-3 px-4">
+                            {formatCurrency(s.productPayments?.qualifyingPayment ?? s.principalAndInterest)}
+                          </td>
+                        ))}
+                      </tr>
+                    </>
+                  )}
                   <tr className="border-b border-slate-100">
                     <td className="py-3 px-4 text-slate-600 pl-8">Mortgage Insurance</td>
                     {results.scenarios.map((s, i) => (
@@ -315,11 +572,39 @@ export function ComparisonForm() {
                       </td>
                     ))}
                   </tr>
+                  {results.scenarios.some(s => s.monthlySavings !== undefined) && (
+                    <>
+                      <tr className="border-b border-slate-100">
+                        <td className="py-3 px-4 text-slate-600">Monthly Savings</td>
+                        {results.scenarios.map((s, i) => (
+                          <td key={i} className="text-right py-3 px-4">
+                            {s.monthlySavings !== undefined ? formatCurrency(s.monthlySavings) : '—'}
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-b border-slate-100">
+                        <td className="py-3 px-4 text-slate-600">Break-Even</td>
+                        {results.scenarios.map((s, i) => (
+                          <td key={i} className="text-right py-3 px-4">
+                            {s.breakEvenMonths === undefined
+                              ? '—'
+                              : s.breakEvenMonths === null
+                                ? t('refinance.benefit.noBreakEven')
+                                : t('refinance.benefit.breakEvenMonths', { months: s.breakEvenMonths })
+                            }
+                          </td>
+                        ))}
+                      </tr>
+                    </>
+                  )}
                   <tr className="bg-green-50">
                     <td className="py-3 px-4 font-medium text-green-700">Cash to Close</td>
                     {results.scenarios.map((s, i) => (
                       <td key={i} className="text-right py-3 px-4 font-bold text-green-700">
-                        {formatCurrency(s.cashToClose)}
+                        {formatCurrency(Math.abs(s.cashToClose))}
+                        {s.cashToClose < 0 && (
+                          <span className="block text-xs font-normal">{t('comparison.cashToYou')}</span>
+                        )}
                       </td>
                     ))}
                   </tr>
@@ -327,6 +612,67 @@ export function ComparisonForm() {
               </table>
             </div>
 
+            {/* Cost of Ownership */}
+            <div className="mt-6 overflow-x-auto">
+              <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-2">
+                Cost of Ownership
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">If You Keep the Loan</th>
+                    {results.scenarios.map((s, i) => (
+                      <th key={i} className="text-right py-3 px-4 font-medium text-slate-800">
+                        {s.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COST_HORIZON_YEARS.map((years, horizon) => (
+                    <tr key={years} className="border-b border-slate-100">
+                      <td className="py-3 px-4 text-slate-600">{years} Years</td>
+                      {results.scenarios.map((s, i) => {
+                        const cost = s.costOfOwnership[horizon];
+                        return (
+                          <td key={i} className="text-right py-3 px-4 font-medium">
+                            {formatCurrency(cost.totalCost)}
+                            <span className="block text-xs font-normal text-slate-400">
+                              {formatCurrency(cost.equityBuilt)} equity
+                            </span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-500">
+                Payments, mortgage insurance and cash to close, less the equity built. Taxes, insurance and HOA dues are not included.
+              </p>
+            </div>
+
+            {results.breakEvens.length > 0 && (
+              <div className="mt-4 space-y-1">
+                <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-2">
+                  Break-Even
+                </h4>
+                {results.breakEvens.map((breakEven) => {
+                  const cheaper = results.scenarios[breakEven.initiallyCheaperIndex];
+                  const other = results.scenarios[
+                    breakEven.initiallyCheaperIndex === breakEven.firstIndex ? breakEven.secondIndex : breakEven.firstIndex
+                  ];
+                  return (
+                    <p key={`${breakEven.firstIndex}-${breakEven.secondIndex}`} className="text-sm text-slate-600">
+                      {breakEven.breakEvenMonth === null
+                        ? `${cheaper.name} costs less than ${other.name} for the full 30 years.`
+                        : `${cheaper.name} costs less than ${other.name} if you sell within ${formatMonths(breakEven.breakEvenMonth)}.`}
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Summary */}
             <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="bg-blue-50 rounded-lg p-4">
@@ -359,8 +705,11 @@ export function ComparisonForm() {
                   return (
                     <div>
                       <p className="text-2xl font-bold text-green-700">
-                        {formatCurrency(lowest.cashToClose)}
+                        {formatCurrency(Math.abs(lowest.cashToClose))}
                       </p>
+                      {lowest.cashToClose < 0 && (
+                        <p className="text-xs text-green-600">{t('comparison.cashToYou')}</p>
+                      )}
                       <p className="text-sm text-green-600">{lowest.name}</p>
                     </div>
                   );
@@ -394,6 +743,13 @@ export function ComparisonForm() {
                 })()}
               </div>
             </div>
+
+            {config && (
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+                <AgentSelector />
+                <ComparisonPdfButton result={results} config={config} />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -1,16 +1,16 @@
 'use client';
 
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateConventionalPurchase } from '@/lib/calculations/conventional';
-import { InputGroup, SelectGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardDescription, CardContent, AgentSelector } from '@/components/shared';
+import { InputGroup, SelectGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardDescription, CardContent, AgentSelector, LoanProductFields, defaultLoanProductOptions, PricingLadderFields } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
-import { CreditScoreTier, PmiType } from '@/lib/schemas';
+import { CreditScoreTier, PmiType, LoanProductOptionsSchema, PricingLadderEntrySchema, TemporaryBuydownType } from '@/lib/schemas';
 
 const formSchema = z.object({
   salesPrice: z.number().min(10000).max(100000000),
@@ -61,6 +61,9 @@ const formSchema = z.object({
   poolInspectionFee: z.number().min(0).optional(),
   transferTax: z.number().min(0).optional(),
   mortgageTax: z.number().min(0).optional(),
+  productOptions: LoanProductOptionsSchema,
+  pricingLadder: z.array(PricingLadderEntrySchema),
+  temporaryBuydown: TemporaryBuydownType,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -133,12 +136,17 @@ export function ConventionalForm() {
       poolInspectionFee: conventionalInputs.poolInspectionFee ?? 100,
       transferTax: conventionalInputs.transferTax ?? 0,
       mortgageTax: conventionalInputs.mortgageTax ?? 0,
+      productOptions: conventionalInputs.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: conventionalInputs.pricingLadder ?? [],
+      temporaryBuydown: conventionalInputs.temporaryBuydown ?? 'none',
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('conventional');
+    if (useCalculatorStore.getState().restoredCalculator !== 'conventional') {
+      resetCalculator('conventional');
+    }
     // Get fresh default values from store after reset
     const defaults = useCalculatorStore.getState().conventionalInputs;
     reset({
@@ -188,6 +196,9 @@ export function ConventionalForm() {
       poolInspectionFee: defaults.poolInspectionFee,
       transferTax: defaults.transferTax,
       mortgageTax: defaults.mortgageTax,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: defaults.pricingLadder ?? [],
+      temporaryBuydown: defaults.temporaryBuydown ?? 'none',
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -213,11 +224,18 @@ export function ConventionalForm() {
     }
   }, [watchedValues.downPaymentAmount, salesPrice, downPaymentMode, setValue]);
 
+  // Sales price the estimates below were last made for. A loaded client state
+  // keeps its own tax and insurance until the price changes.
+  const estimatedPriceRef = useRef(
+    useCalculatorStore.getState().restoredCalculator === 'conventional' ? salesPrice : null
+  );
+
   // Formulas: 
   // Property Tax Annual = Sales Price * 1.25%
   // Home Insurance Annual = Sales Price * 0.35%
   useEffect(() => {
-    if (salesPrice > 0) {
+    if (salesPrice > 0 && salesPrice !== estimatedPriceRef.current) {
+      estimatedPriceRef.current = salesPrice;
       const annualTax = Math.round(salesPrice * 0.0125);
       const annualInsurance = Math.round(salesPrice * 0.0035);
       setValue('propertyTaxAnnual', annualTax);
@@ -310,6 +328,9 @@ export function ConventionalForm() {
         poolInspectionFee: data.poolInspectionFee,
         transferTax: data.transferTax,
         mortgageTax: data.mortgageTax,
+        productOptions: data.productOptions,
+        pricingLadder: data.pricingLadder,
+        temporaryBuydown: data.temporaryBuydown,
       },
       config
     );
@@ -343,8 +364,8 @@ export function ConventionalForm() {
 
   const pmiTypeOptions = [
     { value: 'monthly', label: t('pmiTypes.monthly') },
-    { value: 'single_financed', label: 'Single Premium (Financed)' },
-    { value: 'single_cash', label: 'Single Premium (Cash)' },
+    { value: 'single_financed', label: t('pmiTypes.singleFinanced') },
+    { value: 'single_cash', label: t('pmiTypes.singleCash') },
     { value: 'split', label: t('pmiTypes.split') },
   ];
 
@@ -361,6 +382,13 @@ export function ConventionalForm() {
     { value: 'amount', label: t('common.amount') },
   ];
 
+  const buydownOptions = [
+    { value: 'none', label: t('calculator.temporaryBuydown.none') },
+    { value: '1_0', label: '1-0' },
+    { value: '2_1', label: '2-1' },
+    { value: '3_2_1', label: '3-2-1' },
+  ];
+
   const [activeTab, setActiveTab] = useState<'loan-payment' | 'credit' | 'closing'>('loan-payment');
   const [closingSubTab, setClosingSubTab] = useState<'general' | 'lender' | 'title'>('general');
   const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
@@ -539,6 +567,45 @@ export function ConventionalForm() {
                         />
                       </div>
 
+                      <Controller
+                        name="productOptions"
+                        control={control}
+                        render={({ field }) => (
+                          <LoanProductFields
+                            name="productOptions"
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="temporaryBuydown"
+                        control={control}
+                        render={({ field }) => (
+                          <SelectToggle
+                            label={t('calculator.temporaryBuydown.title')}
+                            name="temporaryBuydown"
+                            value={field.value ?? 'none'}
+                            onChange={field.onChange}
+                            options={buydownOptions}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="pricingLadder"
+                        control={control}
+                        render={({ field }) => (
+                          <PricingLadderFields
+                            name="pricingLadder"
+                            value={field.value}
+                            onChange={field.onChange}
+                            rateSheet={config?.pricingLadders?.conventional}
+                          />
+                        )}
+                      />
+
                       <div className="space-y-1">
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
                         <div className="flex gap-3 items-start">
@@ -1,22 +1,27 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateConventionalRefinance } from '@/lib/calculations/conventional';
-import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
+import { getRefinanceFeeDefaults } from '@/lib/calculations/common';
+import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent, LoanProductFields, defaultLoanProductOptions } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
-import { CreditScoreTier } from '@/lib/schemas';
+import { CreditScoreTier, LoanProductOptionsSchema } from '@/lib/schemas';
 
 const ConventionalRefinanceType = z.enum(['rate_term', 'cash_out']);
 
 const formSchema = z.object({
   propertyValue: z.number().min(10000).max(100000000),
   existingLoanBalance: z.number().min(0),
+  currentInterestRate: z.number().min(0).max(20),
+  currentMonthlyPayment: z.number().min(0),
+  currentRemainingTermMonths: z.number().min(0).max(480),
+  payoffDays: z.number().min(0).max(90),
   newLoanAmount: z.number().min(10000),
   interestRate: z.number().min(0).max(20),
   termYears: z.number().min(1).max(40),
@@ -38,24 +43,25 @@ const formSchema = z.object({
   loanFeeMode: z.enum(['amount', 'percent']).default('amount'),
   closingCostsTotal: z.number().min(0),
   miscFee: z.number().min(0),
-  // Fee Overrides
-  processingFee: z.number().min(0).default(895),
-  underwritingFee: z.number().min(0).default(995),
-  docPrepFee: z.number().min(0).default(595),
-  appraisalFee: z.number().min(0).default(650),
-  creditReportFee: z.number().min(0).default(150),
-  floodCertFee: z.number().min(0).default(30),
-  taxServiceFee: z.number().min(0).default(59),
-  escrowFee: z.number().min(0).default(400),
-  notaryFee: z.number().min(0).default(350),
-  recordingFee: z.number().min(0).default(275),
-  ownerTitlePolicy: z.number().min(0).default(0),
-  lenderTitlePolicy: z.number().min(0).default(1015),
-  pestInspectionFee: z.number().min(0).default(0),
-  propertyInspectionFee: z.number().min(0).default(0),
-  poolInspectionFee: z.number().min(0).default(0),
+  // Fee overrides, seeded from the GHL refinance fee schedule
+  processingFee: z.number().min(0),
+  underwritingFee: z.number().min(0),
+  docPrepFee: z.number().min(0),
+  appraisalFee: z.number().min(0),
+  creditReportFee: z.number().min(0),
+  floodCertFee: z.number().min(0),
+  taxServiceFee: z.number().min(0),
+  escrowFee: z.number().min(0),
+  notaryFee: z.number().min(0),
+  recordingFee: z.number().min(0),
+  ownerTitlePolicy: z.number().min(0),
+  lenderTitlePolicy: z.number().min(0),
+  pestInspectionFee: z.number().min(0),
+  propertyInspectionFee: z.number().min(0),
+  poolInspectionFee: z.number().min(0),
   transferTax: z.number().min(0).default(0),
   mortgageTax: z.number().min(0).default(0),
+  productOptions: LoanProductOptionsSchema,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -84,64 +90,54 @@ export function ConventionalRefiForm() {
     defaultValues: {
       ...conventionalRefiInputs,
       prepaidInterestDays: conventionalRefiInputs.prepaidInterestDays ?? 15,
+      payoffDays: conventionalRefiInputs.payoffDays ?? 30,
       prepaidTaxMonths: conventionalRefiInputs.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: conventionalRefiInputs.prepaidInsuranceMonths ?? 0,
       loanFeePercent: conventionalRefiInputs.loanFeePercent || 1.0,
       loanFeeMode: conventionalRefiInputs.loanFeeMode || 'amount',
-      processingFee: conventionalRefiInputs.processingFee ?? 895,
-      underwritingFee: conventionalRefiInputs.underwritingFee ?? 995,
-      docPrepFee: conventionalRefiInputs.docPrepFee ?? 595,
-      appraisalFee: conventionalRefiInputs.appraisalFee ?? 650,
-      creditReportFee: conventionalRefiInputs.creditReportFee ?? 150,
-      floodCertFee: conventionalRefiInputs.floodCertFee ?? 30,
-      taxServiceFee: conventionalRefiInputs.taxServiceFee ?? 59,
-      escrowFee: conventionalRefiInputs.escrowFee ?? 400,
-      notaryFee: conventionalRefiInputs.notaryFee ?? 350,
-      recordingFee: conventionalRefiInputs.recordingFee ?? 275,
-      lenderTitlePolicy: conventionalRefiInputs.lenderTitlePolicy ?? 1015,
-      ownerTitlePolicy: conventionalRefiInputs.ownerTitlePolicy ?? 0,
-      pestInspectionFee: conventionalRefiInputs.pestInspectionFee ?? 0,
-      propertyInspectionFee: conventionalRefiInputs.propertyInspectionFee ?? 0,
-      poolInspectionFee: conventionalRefiInputs.poolInspectionFee ?? 0,
       transferTax: conventionalRefiInputs.transferTax ?? 0,
       mortgageTax: conventionalRefiInputs.mortgageTax ?? 0,
+      productOptions: conventionalRefiInputs.productOptions ?? defaultLoanProductOptions,
       miscFee: conventionalRefiInputs.miscFee || 0,
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('conventionalRefi');
+    if (useCalculatorStore.getState().restoredCalculator !== 'conventionalRefi') {
+      resetCalculator('conventionalRefi');
+    }
     const defaults = useCalculatorStore.getState().conventionalRefiInputs;
     reset({
       ...defaults,
       prepaidInterestDays: defaults.prepaidInterestDays ?? 15,
+      payoffDays: defaults.payoffDays ?? 30,
       prepaidTaxMonths: defaults.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: defaults.prepaidInsuranceMonths ?? 0,
       loanFeePercent: defaults.loanFeePercent || 1.0,
       loanFeeMode: defaults.loanFeeMode || 'amount',
-      processingFee: defaults.processingFee ?? 895,
-      underwritingFee: defaults.underwritingFee ?? 995,
-      docPrepFee: defaults.docPrepFee ?? 595,
-      appraisalFee: defaults.appraisalFee ?? 650,
-      creditReportFee: defaults.creditReportFee ?? 150,
-      floodCertFee: defaults.floodCertFee ?? 30,
-      taxServiceFee: defaults.taxServiceFee ?? 59,
-      escrowFee: defaults.escrowFee ?? 400,
-      notaryFee: defaults.notaryFee ?? 350,
-      recordingFee: defaults.recordingFee ?? 275,
-      lenderTitlePolicy: defaults.lenderTitlePolicy ?? 1015,
-      ownerTitlePolicy: defaults.ownerTitlePolicy ?? 0,
-      pestInspectionFee: defaults.pestInspectionFee ?? 0,
-      propertyInspectionFee: defaults.propertyInspectionFee ?? 0,
-      poolInspectionFee: defaults.poolInspectionFee ?? 0,
       transferTax: defaults.transferTax ?? 0,
       mortgageTax: defaults.mortgageTax ?? 0,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
       miscFee: defaults.miscFee || 0,
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Seed fee overrides from the GHL refinance fee schedule once config loads.
+  // Seeded only once, so a config reload never overwrites fees the LO typed
+  // in, and not at all for a loaded client state, which keeps its own fees.
+  const feesSeededRef = useRef(useCalculatorStore.getState().restoredCalculator === 'conventionalRefi');
+
+  useEffect(() => {
+    if (!config || feesSeededRef.current) return;
+    feesSeededRef.current = true;
+    const refiFees = getRefinanceFeeDefaults(config);
+    (Object.keys(refiFees) as (keyof typeof refiFees)[]).forEach((key) => {
+      setValue(key, refiFees[key]);
+    });
+  }, [config, setValue]);
+
   const [closingSubTab, setClosingSubTab] = useState<'general' | 'lender' | 'title'>('general');
   const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
   const watchedValues = watch();
@@ -175,7 +171,6 @@ export function ConventionalRefiForm() {
         ...data,
         propertyTaxMonthly: data.propertyTaxAnnual / 12,
         homeInsuranceMonthly: data.homeInsuranceAnnual / 12,
-        payoffDays: 30,
         cashOutAmount: 0,
         closingCostsTotal: isManualOverride ? data.closingCostsTotal : 0,
         miscFee: data.miscFee,
@@ -284,11 +279,18 @@ export function ConventionalRefiForm() {
                         <Controller name="existingLoanBalance" control={control} render={({ field }) => <InputGroup label={t('refinance.existingBalance')} name="existingLoanBalance" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                         <Controller name="newLoanAmount" control={control} render={({ field }) => <InputGroup label={t('refinance.newLoanAmount')} name="newLoanAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                       </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="currentInterestRate" control={control} render={({ field }) => <InputGroup label={t('refinance.currentRate')} name="currentInterestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" />} />
+                        <Controller name="currentMonthlyPayment" control={control} render={({ field }) => <InputGroup label={t('refinance.currentPayment')} name="currentMonthlyPayment" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" helperText={t('refinance.currentPaymentHelp')} />} />
+                        <Controller name="currentRemainingTermMonths" control={control} render={({ field }) => <InputGroup label={t('refinance.remainingTerm')} name="currentRemainingTermMonths" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="mo" />} />
+                        <Controller name="payoffDays" control={control} render={({ field }) => <InputGroup label={t('refinance.payoffDays')} name="payoffDays" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="d" helperText={t('refinance.payoffDaysHelp')} />} />
+                      </div>
                       <Controller name="refinanceType" control={control} render={({ field }) => <SelectToggle label={t('refinance.type')} name="refinanceType" value={field.value ?? 'rate_term'} onChange={field.onChange} options={[{ value: 'rate_term', label: t('refinance.rateAndTerm') }, { value: 'cash_out', label: t('refinance.cashOut') }]} />} />
                       <div className="grid grid-cols-2 gap-4">
                         <Controller name="interestRate" control={control} render={({ field }) => <InputGroup label={t('calculator.interestRate')} name="interestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" required />} />
                         <Controller name="termYears" control={control} render={({ field }) => <InputGroup label={t('calculator.term')} name="termYears" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix={t('common.years')} required />} />
                       </div>
+                      <Controller name="productOptions" control={control} render={({ field }) => <LoanProductFields name="productOptions" value={field.value} onChange={field.onChange} />} />
 
                       <div className="space-y-1">
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
@@ -5,6 +5,9 @@ import { useCalculatorStore } from '@/lib/store';
 import { InputGroup, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
 import { useCallback, useMemo } from 'react';
 import { usePathname } from 'next/navigation';
+import { getQualifyingHousingPayment } from '@/lib/calculations/common';
+import { DEFAULT_DTI_LIMITS } from '@/lib/calculations/affordability';
+import type { LoanCalculationResult } from '@/lib/schemas';
 
 export function DtiSection() {
     const t = useTranslations();
@@ -17,6 +20,7 @@ export function DtiSection() {
         if (pathname.includes('/conventional')) return 'conventional';
         if (pathname.includes('/fha')) return 'fha';
         if (pathname.includes('/va')) return 'va';
+        if (pathname.includes('/usda')) return 'usda';
         return 'conventional';
     }, [pathname]);
 
@@ -28,6 +32,7 @@ export function DtiSection() {
         conventionalResult,
         fhaResult,
         vaResult,
+        usdaResult,
         conventionalRefiResult,
         fhaRefiResult,
         vaRefiResult,
@@ -37,17 +42,21 @@ export function DtiSection() {
     const dtiResult = allDtiResults[calculatorType] || null;
 
     // Get the active PITI from whichever calculator is active
+    // (ARM and interest-only loans qualify on the qualifying payment)
     const piti = useMemo(() => {
+        const qualifying = (result: LoanCalculationResult | null) =>
+            result ? getQualifyingHousingPayment(result) : 0;
         switch (calculatorType) {
-            case 'conventional': return conventionalResult?.monthlyPayment.totalMonthly || 0;
-            case 'fha': return fhaResult?.monthlyPayment.totalMonthly || 0;
-            case 'va': return vaResult?.monthlyPayment.totalMonthly || 0;
-            case 'conventionalRefi': return conventionalRefiResult?.monthlyPayment.totalMonthly || 0;
-            case 'fhaRefi': return fhaRefiResult?.monthlyPayment.totalMonthly || 0;
-            case 'vaRefi': return vaRefiResult?.monthlyPayment.totalMonthly || 0;
+            case 'conventional': return qualifying(conventionalResult);
+            case 'fha': return qualifying(fhaResult);
+            case 'va': return qualifying(vaResult);
+            case 'usda': return qualifying(usdaResult);
+            case 'conventionalRefi': return qualifying(conventionalRefiResult);
+            case 'fhaRefi': return qualifying(fhaRefiResult);
+            case 'vaRefi': return qualifying(vaRefiResult);
             default: return 0;
         }
-    }, [calculatorType, conventionalResult, fhaResult, vaResult, conventionalRefiResult, fhaRefiResult, vaRefiResult]);
+    }, [calculatorType, conventionalResult, fhaResult, vaResult, usdaResult, conventionalRefiResult, fhaRefiResult, vaRefiResult]);
 
     const handleInputChange = (type: 'incomes' | 'payments', index: number, value: string) => {
         const newVal = Number(value) || 0;
@@ -135,16 +144,20 @@ export function DtiSection() {
                                 const isConventional = pathname.includes('/conventional');
                                 const isFha = pathname.includes('/fha');
                                 const isVa = pathname.includes('/va');
+                                const isUsda = pathname.includes('/usda');
 
                                 let frontThreshold = 50;
                                 let backThreshold = 50;
 
                                 if (isConventional) {
-                                    frontThreshold = 49.9;
-                                    backThreshold = 49.9;
+                                    frontThreshold = DEFAULT_DTI_LIMITS.conventional.frontEnd;
+                                    backThreshold = DEFAULT_DTI_LIMITS.conventional.backEnd;
                                 } else if (isFha || isVa) {
-                                    frontThreshold = 46.99;
-                                    backThreshold = 56.99;
+                                    frontThreshold = DEFAULT_DTI_LIMITS.fha.frontEnd;
+                                    backThreshold = DEFAULT_DTI_LIMITS.fha.backEnd;
+                                } else if (isUsda) {
+                                    frontThreshold = DEFAULT_DTI_LIMITS.usda.frontEnd;
+                                    backThreshold = DEFAULT_DTI_LIMITS.usda.backEnd;
                                 }
 
                                 return (
@@ -1,16 +1,16 @@
 'use client';
 
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateFhaPurchase } from '@/lib/calculations/fha';
-import { InputGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
+import { InputGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent, LoanProductFields, defaultLoanProductOptions, PricingLadderFields, Fha203kFields, defaultFha203kOptions } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
-import { CreditScoreTier, PmiType } from '@/lib/schemas';
+import { CreditScoreTier, PmiType, LoanProductOptionsSchema, PricingLadderEntrySchema, Fha203kOptionsSchema, TemporaryBuydownType } from '@/lib/schemas';
 
 const formSchema = z.object({
   salesPrice: z.number().min(10000).max(100000000),
@@ -27,6 +27,7 @@ const formSchema = z.object({
   hoaDuesMonthly: z.number().min(0),
   floodInsuranceMonthly: z.number().min(0),
   is203k: z.boolean(),
+  fha203k: Fha203kOptionsSchema,
   loanFee: z.number().min(0),
   loanFeePercent: z.number().min(0).max(10).default(0),
   loanFeeMode: z.enum(['amount', 'percent']).default('amount'),
@@ -59,6 +60,9 @@ const formSchema = z.object({
   poolInspectionFee: z.number().min(0).default(100),
   transferTax: z.number().min(0).default(0),
   mortgageTax: z.number().min(0).default(0),
+  productOptions: LoanProductOptionsSchema,
+  pricingLadder: z.array(PricingLadderEntrySchema),
+  temporaryBuydown: TemporaryBuydownType,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -99,6 +103,7 @@ export function FhaForm() {
       hoaDuesMonthly: fhaInputs.hoaDuesMonthly,
       floodInsuranceMonthly: fhaInputs.floodInsuranceMonthly,
       is203k: fhaInputs.is203k,
+      fha203k: fhaInputs.fha203k ?? defaultFha203kOptions,
       prepaidInterestDays: fhaInputs.prepaidInterestDays ?? 15,
       prepaidTaxMonths: fhaInputs.prepaidTaxMonths ?? 6,
       prepaidInsuranceMonths: fhaInputs.prepaidInsuranceMonths ?? 15,
@@ -130,12 +135,17 @@ export function FhaForm() {
       poolInspectionFee: fhaInputs.poolInspectionFee ?? 100,
       transferTax: fhaInputs.transferTax ?? 0,
       mortgageTax: fhaInputs.mortgageTax ?? 0,
+      productOptions: fhaInputs.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: fhaInputs.pricingLadder ?? [],
+      temporaryBuydown: fhaInputs.temporaryBuydown ?? 'none',
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('fha');
+    if (useCalculatorStore.getState().restoredCalculator !== 'fha') {
+      resetCalculator('fha');
+    }
     const defaults = useCalculatorStore.getState().fhaInputs;
     reset({
       salesPrice: defaults.salesPrice,
@@ -152,6 +162,7 @@ export function FhaForm() {
       hoaDuesMonthly: defaults.hoaDuesMonthly,
       floodInsuranceMonthly: defaults.floodInsuranceMonthly,
       is203k: defaults.is203k,
+      fha203k: defaults.fha203k ?? defaultFha203kOptions,
       prepaidInterestDays: defaults.prepaidInterestDays ?? 15,
       prepaidTaxMonths: defaults.prepaidTaxMonths ?? 6,
       prepaidInsuranceMonths: defaults.prepaidInsuranceMonths ?? 15,
@@ -183,6 +194,9 @@ export function FhaForm() {
       poolInspectionFee: defaults.poolInspectionFee,
       transferTax: defaults.transferTax,
       mortgageTax: defaults.mortgageTax,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: defaults.pricingLadder ?? [],
+      temporaryBuydown: defaults.temporaryBuydown ?? 'none',
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -209,8 +223,18 @@ export function FhaForm() {
     }
   }, [watchedValues.downPaymentAmount, salesPrice, downPaymentMode, setValue]);
 
+  // Price and down payment the estimates below were last made for. A loaded
+  // client state keeps its own estimates until one of them changes.
+  const estimatedForRef = useRef(
+    useCalculatorStore.getState().restoredCalculator === 'fha'
+      ? `${salesPrice}:${watchedValues.downPaymentPercent}`
+      : null
+  );
+
   useEffect(() => {
-    if (salesPrice > 0) {
+    const estimateKey = `${salesPrice}:${watchedValues.downPaymentPercent}`;
+    if (salesPrice > 0 && estimateKey !== estimatedForRef.current) {
+      estimatedForRef.current = estimateKey;
       const annualTax = Math.round(salesPrice * 0.0125);
       const monthlyInsurance = Number(((salesPrice * 0.0035) / 12).toFixed(2));
       const annualInsurance = Math.round(monthlyInsurance * 12);
@@ -268,6 +292,8 @@ export function FhaForm() {
         ...data,
         propertyTaxMonthly: data.propertyTaxAnnual / 12,
         homeInsuranceMonthly: data.homeInsuranceAnnual / 12,
+        // The synced MIP is based on the sales price; let the engine size it for 203(k)
+        mortgageInsuranceMonthly: data.is203k ? 0 : data.mortgageInsuranceMonthly,
         closingCostsTotal: isManualOverride ? data.closingCostsTotal : 0,
         miscFee: data.miscFee,
         // Override prepaids to force recalculation based on days/months
@@ -302,6 +328,13 @@ export function FhaForm() {
     { value: 'amount', label: t('common.amount') },
   ];
 
+  const buydownOptions = [
+    { value: 'none', label: t('calculator.temporaryBuydown.none') },
+    { value: '1_0', label: '1-0' },
+    { value: '2_1', label: '2-1' },
+    { value: '3_2_1', label: '3-2-1' },
+  ];
+
   const [activeTab, setActiveTab] = useState<'loan-payment' | 'closing'>('loan-payment');
   const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
   const isDisabled = configLoading || !config;
@@ -477,6 +510,45 @@ export function FhaForm() {
                         />
                       </div>
 
+                      <Controller
+                        name="productOptions"
+                        control={control}
+                        render={({ field }) => (
+                          <LoanProductFields
+                            name="productOptions"
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="temporaryBuydown"
+                        control={control}
+                        render={({ field }) => (
+                          <SelectToggle
+                            label={t('calculator.temporaryBuydown.title')}
+                            name="temporaryBuydown"
+                            value={field.value ?? 'none'}
+                            onChange={field.onChange}
+                            options={buydownOptions}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="pricingLadder"
+                        control={control}
+                        render={({ field }) => (
+                          <PricingLadderFields
+                            name="pricingLadder"
+                            value={field.value}
+                            onChange={field.onChange}
+                            rateSheet={config?.pricingLadders?.fha}
+                          />
+                        )}
+                      />
+
                       <div className="space-y-1">
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
                         <div className="flex gap-2 items-start">
@@ -720,10 +792,25 @@ export function FhaForm() {
                         name="is203k"
                         checked={field.value ?? false}
                         onChange={field.onChange}
-                        helperText="FHA 203(k) loans have higher UFMIP"
+                        helperText={t('fha.rehab.is203kHelp')}
                       />
                     )}
                   />
+                  {watchedValues.is203k && (
+                    <div className="mt-4">
+                      <Controller
+                        name="fha203k"
+                        control={control}
+                        render={({ field }) => (
+                          <Fha203kFields
+                            name="fha203k"
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                        )}
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="border-t border-slate-200 pt-4 mt-4">
@@ -1,19 +1,26 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateFhaRefinance } from '@/lib/calculations/fha';
-import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
+import { getRefinanceFeeDefaults } from '@/lib/calculations/common';
+import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent, LoanProductFields, defaultLoanProductOptions } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
+import { LoanProductOptionsSchema } from '@/lib/schemas';
 
 const formSchema = z.object({
   propertyValue: z.number().min(10000).max(100000000),
   existingLoanBalance: z.number().min(0),
+  currentInterestRate: z.number().min(0).max(20),
+  currentMonthlyPayment: z.number().min(0),
+  currentRemainingTermMonths: z.number().min(0).max(480),
+  payoffDays: z.number().min(0).max(90),
+  currentMipRate: z.number().min(0).max(2),
   newLoanAmount: z.number().min(10000),
   interestRate: z.number().min(0).max(20),
   termYears: z.number().min(1).max(40),
@@ -22,6 +29,8 @@ const formSchema = z.object({
   mortgageInsuranceMonthly: z.number().min(0),
   hoaDuesMonthly: z.number().min(0),
   isStreamline: z.boolean(),
+  existingFhaLoanDate: z.string(),
+  existingUfmipAmount: z.number().min(0),
   // Prepaid Items
   prepaidInterestDays: z.number().min(0).max(365),
   prepaidTaxMonths: z.number().min(0).max(60),
@@ -34,24 +43,25 @@ const formSchema = z.object({
   loanFeeMode: z.enum(['amount', 'percent']).default('amount'),
   closingCostsTotal: z.number().min(0),
   miscFee: z.number().min(0).default(0),
-  // Fee Overrides with defaults
-  processingFee: z.number().min(0).default(895),
-  underwritingFee: z.number().min(0).default(995),
-  docPrepFee: z.number().min(0).default(595),
-  appraisalFee: z.number().min(0).default(650),
-  creditReportFee: z.number().min(0).default(150),
-  floodCertFee: z.number().min(0).default(30),
-  taxServiceFee: z.number().min(0).default(59),
-  escrowFee: z.number().min(0).default(400),
-  notaryFee: z.number().min(0).default(350),
-  recordingFee: z.number().min(0).default(275),
-  ownerTitlePolicy: z.number().min(0).default(0),
-  lenderTitlePolicy: z.number().min(0).default(1015),
-  pestInspectionFee: z.number().min(0).default(0),
-  propertyInspectionFee: z.number().min(0).default(0),
-  poolInspectionFee: z.number().min(0).default(0),
+  // Fee overrides, seeded from the GHL refinance fee schedule
+  processingFee: z.number().min(0),
+  underwritingFee: z.number().min(0),
+  docPrepFee: z.number().min(0),
+  appraisalFee: z.number().min(0),
+  creditReportFee: z.number().min(0),
+  floodCertFee: z.number().min(0),
+  taxServiceFee: z.number().min(0),
+  escrowFee: z.number().min(0),
+  notaryFee: z.number().min(0),
+  recordingFee: z.number().min(0),
+  ownerTitlePolicy: z.number().min(0),
+  lenderTitlePolicy: z.number().min(0),
+  pestInspectionFee: z.number().min(0),
+  propertyInspectionFee: z.number().min(0),
+  poolInspectionFee: z.number().min(0),
   transferTax: z.number().min(0).default(0),
   mortgageTax: z.number().min(0).default(0),
+  productOptions: LoanProductOptionsSchema,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -80,64 +90,58 @@ export function FhaRefiForm() {
     defaultValues: {
       ...fhaRefiInputs,
       prepaidInterestDays: fhaRefiInputs.prepaidInterestDays ?? 15,
+      payoffDays: fhaRefiInputs.payoffDays ?? 30,
       prepaidTaxMonths: fhaRefiInputs.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: fhaRefiInputs.prepaidInsuranceMonths ?? 0,
       loanFeePercent: fhaRefiInputs.loanFeePercent || 1.0,
       loanFeeMode: fhaRefiInputs.loanFeeMode || 'amount',
-      processingFee: fhaRefiInputs.processingFee ?? 895,
-      underwritingFee: fhaRefiInputs.underwritingFee ?? 995,
-      docPrepFee: fhaRefiInputs.docPrepFee ?? 595,
-      appraisalFee: fhaRefiInputs.appraisalFee ?? 650,
-      creditReportFee: fhaRefiInputs.creditReportFee ?? 150,
-      floodCertFee: fhaRefiInputs.floodCertFee ?? 30,
-      taxServiceFee: fhaRefiInputs.taxServiceFee ?? 59,
-      escrowFee: fhaRefiInputs.escrowFee ?? 400,
-      notaryFee: fhaRefiInputs.notaryFee ?? 350,
-      recordingFee: fhaRefiInputs.recordingFee ?? 275,
-      lenderTitlePolicy: fhaRefiInputs.lenderTitlePolicy ?? 1015,
-      ownerTitlePolicy: fhaRefiInputs.ownerTitlePolicy ?? 0,
-      pestInspectionFee: fhaRefiInputs.pestInspectionFee ?? 0,
-      propertyInspectionFee: fhaRefiInputs.propertyInspectionFee ?? 0,
-      poolInspectionFee: fhaRefiInputs.poolInspectionFee ?? 0,
       transferTax: fhaRefiInputs.transferTax ?? 0,
       mortgageTax: fhaRefiInputs.mortgageTax ?? 0,
+      productOptions: fhaRefiInputs.productOptions ?? defaultLoanProductOptions,
+      existingFhaLoanDate: fhaRefiInputs.existingFhaLoanDate ?? '',
+      existingUfmipAmount: fhaRefiInputs.existingUfmipAmount ?? 0,
       miscFee: fhaRefiInputs.miscFee || 0,
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('fhaRefi');
+    if (useCalculatorStore.getState().restoredCalculator !== 'fhaRefi') {
+      resetCalculator('fhaRefi');
+    }
     const defaults = useCalculatorStore.getState().fhaRefiInputs;
     reset({
       ...defaults,
       prepaidInterestDays: defaults.prepaidInterestDays ?? 15,
+      payoffDays: defaults.payoffDays ?? 30,
       prepaidTaxMonths: defaults.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: defaults.prepaidInsuranceMonths ?? 0,
       loanFeePercent: defaults.loanFeePercent || 1.0,
       loanFeeMode: defaults.loanFeeMode || 'amount',
-      processingFee: defaults.processingFee ?? 895,
-      underwritingFee: defaults.underwritingFee ?? 995,
-      docPrepFee: defaults.docPrepFee ?? 595,
-      appraisalFee: defaults.appraisalFee ?? 650,
-      creditReportFee: defaults.creditReportFee ?? 150,
-      floodCertFee: defaults.floodCertFee ?? 30,
-      taxServiceFee: defaults.taxServiceFee ?? 59,
-      escrowFee: defaults.escrowFee ?? 400,
-      notaryFee: defaults.notaryFee ?? 350,
-      recordingFee: defaults.recordingFee ?? 275,
-      lenderTitlePolicy: defaults.lenderTitlePolicy ?? 1015,
-      ownerTitlePolicy: defaults.ownerTitlePolicy ?? 0,
-      pestInspectionFee: defaults.pestInspectionFee ?? 0,
-      propertyInspectionFee: defaults.propertyInspectionFee ?? 0,
-      poolInspectionFee: defaults.poolInspectionFee ?? 0,
       transferTax: defaults.transferTax ?? 0,
       mortgageTax: defaults.mortgageTax ?? 0,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
+      existingFhaLoanDate: defaults.existingFhaLoanDate ?? '',
+      existingUfmipAmount: defaults.existingUfmipAmount ?? 0,
       miscFee: defaults.miscFee || 0,
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Seed fee overrides from the GHL refinance fee schedule once config loads.
+  // Seeded only once, so a config reload never overwrites fees the LO typed
+  // in, and not at all for a loaded client state, which keeps its own fees.
+  const feesSeededRef = useRef(useCalculatorStore.getState().restoredCalculator === 'fhaRefi');
+
+  useEffect(() => {
+    if (!config || feesSeededRef.current) return;
+    feesSeededRef.current = true;
+    const refiFees = getRefinanceFeeDefaults(config);
+    (Object.keys(refiFees) as (keyof typeof refiFees)[]).forEach((key) => {
+      setValue(key, refiFees[key]);
+    });
+  }, [config, setValue]);
+
   const [closingSubTab, setClosingSubTab] = useState<'general' | 'lender' | 'title'>('general');
   const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
   const watchedValues = watch();
@@ -188,7 +192,6 @@ export function FhaRefiForm() {
         ...data,
         propertyTaxMonthly: data.propertyTaxAnnual / 12,
         homeInsuranceMonthly: data.homeInsuranceAnnual / 12,
-        payoffDays: 30,
         // If manual override is detected, pass the manual value
         closingCostsTotal: isManualOverride ? data.closingCostsTotal : 0,
         miscFee: data.miscFee,
@@ -294,10 +297,18 @@ export function FhaRefiForm() {
                         <Controller name="existingLoanBalance" control={control} render={({ field }) => <InputGroup label={t('refinance.existingBalance')} name="existingLoanBalance" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                         <Controller name="newLoanAmount" control={control} render={({ field }) => <InputGroup label={t('refinance.newLoanAmount')} name="newLoanAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                       </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="currentInterestRate" control={control} render={({ field }) => <InputGroup label={t('refinance.currentRate')} name="currentInterestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" />} />
+                        <Controller name="currentMonthlyPayment" control={control} render={({ field }) => <InputGroup label={t('refinance.currentPayment')} name="currentMonthlyPayment" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" helperText={t('refinance.currentPaymentHelp')} />} />
+                        <Controller name="currentRemainingTermMonths" control={control} render={({ field }) => <InputGroup label={t('refinance.remainingTerm')} name="currentRemainingTermMonths" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="mo" />} />
+                        <Controller name="payoffDays" control={control} render={({ field }) => <InputGroup label={t('refinance.payoffDays')} name="payoffDays" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="d" helperText={t('refinance.payoffDaysHelp')} />} />
+                        <Controller name="currentMipRate" control={control} render={({ field }) => <InputGroup label={t('refinance.currentMipRate')} name="currentMipRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.05" />} />
+                      </div>
                       <div className="grid grid-cols-2 gap-4">
                         <Controller name="interestRate" control={control} render={({ field }) => <InputGroup label={t('calculator.interestRate')} name="interestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" required />} />
                         <Controller name="termYears" control={control} render={({ field }) => <InputGroup label={t('calculator.term')} name="termYears" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix={t('common.years')} required />} />
                       </div>
+                      <Controller name="productOptions" control={control} render={({ field }) => <LoanProductFields name="productOptions" value={field.value} onChange={field.onChange} />} />
 
                       <div className="space-y-1">
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
@@ -353,6 +364,11 @@ export function FhaRefiForm() {
                 <div className="space-y-5">
                   <Controller name="isStreamline" control={control} render={({ field }) => <SelectToggle label={t('refinance.fhaRefiType')} name="isStreamline" value={String(field.value ?? false)} onChange={(v) => field.onChange(v === 'true')} options={[{ value: 'false', label: t('refinance.standardRefi') }, { value: 'true', label: t('refinance.streamline') }]} />} />
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <Controller name="existingFhaLoanDate" control={control} render={({ field }) => <InputGroup label={t('fhaRefi.existingFhaLoanDate')} name="existingFhaLoanDate" type="date" value={field.value} onChange={field.onChange} helperText={t('fhaRefi.existingFhaLoanDateHelp')} />} />
+                    <Controller name="existingUfmipAmount" control={control} render={({ field }) => <InputGroup label={t('fhaRefi.existingUfmipAmount')} name="existingUfmipAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                  </div>
+
                   <div className="border-t border-slate-200 pt-4 mt-4">
                     <div className="flex p-1 bg-slate-100 rounded-lg mb-4">
                       {(['general', 'lender', 'title'] as const).map((tab) => (
@@ -1,27 +1,46 @@
 'use client';
 
 import { useCallback, useState } from 'react';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
-import { calculateSellerNet, type SellerNetResult as CalcSellerNetResult } from '@/lib/calculations/seller-net';
-import { InputGroup, Button, Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/shared';
+import {
+  calculateSellerNet,
+  type SellerNetProration,
+  type SellerNetResult as CalcSellerNetResult,
+} from '@/lib/calculations/seller-net';
+import { SellerCostMode, TaxPaymentMode } from '@/lib/schemas';
+import { InputGroup, SelectGroup, SelectToggle, SellerCostField, SellerNetPdfButton, AgentSelector, Button, Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/shared';
 import { SellerNetResult } from '@/components/shared/ResultSummary';
 
+const sellerCostSchema = z.object({
+  mode: SellerCostMode,
+  percent: z.number().min(0).max(100),
+  amount: z.number().min(0),
+});
+
 const formSchema = z.object({
   salesPrice: z.number().min(10000).max(100000000),
   existingLoanPayoff: z.number().min(0),
   secondLienPayoff: z.number().min(0),
-  commissionPercent: z.number().min(0).max(10),
+  listingCommission: sellerCostSchema,
+  buyerAgentCommission: sellerCostSchema,
+  brokerageFee: sellerCostSchema,
+  transactionFee: sellerCostSchema,
+  sellerPaidClosingCosts: sellerCostSchema,
   titleInsurance: z.number().min(0),
   escrowFee: z.number().min(0),
   transferTax: z.number().min(0),
   recordingFees: z.number().min(0),
   repairCredits: z.number().min(0),
   hoaPayoff: z.number().min(0),
-  propertyTaxProration: z.number().min(0),
+  closingDate: z.string(),
+  annualPropertyTax: z.number().min(0),
+  taxPaymentMode: TaxPaymentMode,
+  taxYearStartMonth: z.number().int().min(1).max(12),
+  hoaDuesMonthly: z.number().min(0),
   otherCredits: z.number().min(0),
   otherDebits: z.number().min(0),
 });
@@ -36,7 +55,11 @@ interface SellerNetResultType {
   breakdown: {
     existingLoanPayoff: number;
     secondLienPayoff: number;
-    commission: number;
+    listingCommission: number;
+    buyerAgentCommission: number;
+    brokerageFee: number;
+    transactionFee: number;
+    sellerPaidClosingCosts: number;
     titleInsurance: number;
     escrowFee: number;
     transferTax: number;
@@ -44,22 +67,28 @@ interface SellerNetResultType {
     repairCredits: number;
     hoaPayoff: number;
     propertyTaxProration: number;
+    hoaProration: number;
     otherCredits: number;
     otherDebits: number;
   };
+  prorations: SellerNetProration[];
 }
 
 // Transform calculation result to component format
 function transformResult(calcResult: CalcSellerNetResult): SellerNetResultType {
   return {
     grossSalesPrice: calcResult.salesPrice,
-    totalDebits: calcResult.totalPayoffs + calcResult.totalCosts,
+    totalDebits: calcResult.totalDebits,
     totalCredits: calcResult.totalCredits,
     netProceeds: calcResult.estimatedNetProceeds,
     breakdown: {
       existingLoanPayoff: calcResult.firstMortgagePayoff,
       secondLienPayoff: calcResult.secondLienPayoff,
-      commission: calcResult.realEstateCommission,
+      listingCommission: calcResult.listingCommission,
+      buyerAgentCommission: calcResult.buyerAgentCommission,
+      brokerageFee: calcResult.brokerageFee,
+      transactionFee: calcResult.transactionFee,
+      sellerPaidClosingCosts: calcResult.sellerPaidClosingCosts,
       titleInsurance: calcResult.titleInsurance,
       escrowFee: calcResult.escrowFee,
       transferTax: calcResult.transferTax,
@@ -67,21 +96,26 @@ function transformResult(calcResult: CalcSellerNetResult): SellerNetResultType {
       repairCredits: calcResult.repairCredits,
       hoaPayoff: calcResult.hoaPayoff,
       propertyTaxProration: calcResult.propertyTaxProration,
+      hoaProration: calcResult.hoaProration,
       otherCredits: calcResult.otherCredits,
       otherDebits: calcResult.otherDebits,
     },
+    prorations: calcResult.prorations,
   };
 }
 
 export function SellerNetForm() {
   const t = useTranslations();
+  const locale = useLocale();
   const {
     sellerNetInputs,
     updateSellerNetInputs,
     resetCalculator,
+    config,
   } = useCalculatorStore();
 
   const [result, setResult] = useState<SellerNetResultType | null>(null);
+  const [reportResult, setReportResult] = useState<CalcSellerNetResult | null>(null);
 
   const { control, handleSubmit, formState: { errors } } = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -89,14 +123,22 @@ export function SellerNetForm() {
       salesPrice: sellerNetInputs.salesPrice,
       existingLoanPayoff: sellerNetInputs.existingLoanPayoff,
       secondLienPayoff: sellerNetInputs.secondLienPayoff,
-      commissionPercent: sellerNetInputs.commissionPercent,
+      listingCommission: sellerNetInputs.listingCommission,
+      buyerAgentCommission: sellerNetInputs.buyerAgentCommission,
+      brokerageFee: sellerNetInputs.brokerageFee,
+      transactionFee: sellerNetInputs.transactionFee,
+      sellerPaidClosingCosts: sellerNetInputs.sellerPaidClosingCosts,
       titleInsurance: sellerNetInputs.titleInsurance,
       escrowFee: sellerNetInputs.escrowFee,
       transferTax: sellerNetInputs.transferTax,
       recordingFees: sellerNetInputs.recordingFees,
       repairCredits: sellerNetInputs.repairCredits,
       hoaPayoff: sellerNetInputs.hoaPayoff,
-      propertyTaxProration: sellerNetInputs.propertyTaxProration,
+      closingDate: sellerNetInputs.closingDate,
+      annualPropertyTax: sellerNetInputs.annualPropertyTax,
+      taxPaymentMode: sellerNetInputs.taxPaymentMode,
+      taxYearStartMonth: sellerNetInputs.taxYearStartMonth,
+      hoaDuesMonthly: sellerNetInputs.hoaDuesMonthly,
       otherCredits: sellerNetInputs.otherCredits,
       otherDebits: sellerNetInputs.otherDebits,
     },
@@ -111,29 +153,46 @@ export function SellerNetForm() {
       salesPrice: data.salesPrice,
       existingLoanPayoff: data.existingLoanPayoff,
       secondLienPayoff: data.secondLienPayoff,
-      commissionPercent: data.commissionPercent,
+      commissionPercent: 0,
+      listingCommission: data.listingCommission,
+      buyerAgentCommission: data.buyerAgentCommission,
+      brokerageFee: data.brokerageFee,
+      transactionFee: data.transactionFee,
+      sellerPaidClosingCosts: data.sellerPaidClosingCosts,
       titleInsurance: data.titleInsurance,
       escrowFee: data.escrowFee,
       transferTax: data.transferTax,
       recordingFees: data.recordingFees,
       repairCredits: data.repairCredits,
       hoaPayoff: data.hoaPayoff,
-      propertyTaxProration: data.propertyTaxProration,
+      propertyTaxProration: 0,
+      closingDate: data.closingDate || undefined,
+      annualPropertyTax: data.annualPropertyTax,
+      taxPaymentMode: data.taxPaymentMode,
+      taxYearStartMonth: data.taxYearStartMonth,
+      hoaDuesMonthly: data.hoaDuesMonthly,
       otherCredits: data.otherCredits,
       otherDebits: data.otherDebits,
     });
 
     setResult(transformResult(calcResult));
+    setReportResult(calcResult);
   }, [updateSellerNetInputs]);
 
   const handleReset = () => {
     resetCalculator('sellerNet');
     setResult(null);
+    setReportResult(null);
   };
 
   // ... imports and state ...
   const [activeTab, setActiveTab] = useState('sale');
 
+  const monthOptions = Array.from({ length: 12 }, (_, index) => ({
+    value: String(index + 1),
+    label: new Intl.DateTimeFormat(locale, { month: 'long' }).format(new Date(2024, index, 1)),
+  }));
+
   const tabs = [
     { id: 'sale', label: 'Sale & Loans' },
     { id: 'costs', label: 'Closing Costs' },
@@ -237,19 +296,72 @@ export function SellerNetForm() {
                 <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">
                   Commission & Fees
                 </h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <Controller
+                    name="listingCommission"
+                    control={control}
+                    render={({ field }) => (
+                      <SellerCostField
+                        label={t('sellerNet.inputs.listingCommission')}
+                        name="listingCommission"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+
+                  <Controller
+                    name="buyerAgentCommission"
+                    control={control}
+                    render={({ field }) => (
+                      <SellerCostField
+                        label={t('sellerNet.inputs.buyerAgentCommission')}
+                        name="buyerAgentCommission"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <Controller
+                    name="brokerageFee"
+                    control={control}
+                    render={({ field }) => (
+                      <SellerCostField
+                        label={t('sellerNet.inputs.brokerageFee')}
+                        name="brokerageFee"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+
+                  <Controller
+                    name="transactionFee"
+                    control={control}
+                    render={({ field }) => (
+                      <SellerCostField
+                        label={t('sellerNet.inputs.transactionFee')}
+                        name="transactionFee"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+                </div>
+
                 <Controller
-                  name="commissionPercent"
+                  name="sellerPaidClosingCosts"
                   control={control}
                   render={({ field }) => (
-                    <InputGroup
-                      label={t('sellerNet.inputs.commissionPercent')}
-                      name="commissionPercent"
-                      type="number"
+                    <SellerCostField
+                      label={t('sellerNet.inputs.sellerPaidClosingCosts')}
+                      name="sellerPaidClosingCosts"
                       value={field.value}
-                      onChange={(val) => field.onChange(Number(val) || 0)}
-                      suffix="%"
-                      step="0.5"
-                      helperText="Total buyer + seller agent commission"
+                      onChange={field.onChange}
+                      helperText={t('sellerNet.inputs.sellerPaidClosingCostsHelp')}
                     />
                   )}
                 />
@@ -375,41 +487,109 @@ export function SellerNetForm() {
 
                 <div className="border-t border-slate-200 pt-4 mt-4">
                   <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide mb-3">
-                    Credits to Seller
+                    {t('sellerNet.prorations.title')}
                   </h3>
-                  <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-4">
                     <Controller
-                      name="propertyTaxProration"
+                      name="closingDate"
                       control={control}
                       render={({ field }) => (
                         <InputGroup
-                          label={t('sellerNet.inputs.propertyTaxProration')}
-                          name="propertyTaxProration"
-                          type="number"
+                          label={t('sellerNet.prorations.closingDate')}
+                          name="closingDate"
+                          type="date"
                           value={field.value}
-                          onChange={(val) => field.onChange(Number(val) || 0)}
-                          prefix="$"
-                          helperText="Prepaid taxes"
+                          onChange={field.onChange}
+                          helperText={t('sellerNet.prorations.closingDateHelp')}
                         />
                       )}
                     />
 
+                    <div className="grid grid-cols-2 gap-4">
+                      <Controller
+                        name="annualPropertyTax"
+                        control={control}
+                        render={({ field }) => (
+                          <InputGroup
+                            label={t('sellerNet.prorations.annualPropertyTax')}
+                            name="annualPropertyTax"
+                            type="number"
+                            value={field.value}
+                            onChange={(val) => field.onChange(Number(val) || 0)}
+                            prefix="$"
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="taxYearStartMonth"
+                        control={control}
+                        render={({ field }) => (
+                          <SelectGroup
+                            label={t('sellerNet.prorations.taxYearStart')}
+                            name="taxYearStartMonth"
+                            value={String(field.value)}
+                            onChange={(val) => field.onChange(Number(val))}
+                            options={monthOptions}
+                          />
+                        )}
+                      />
+                    </div>
+
                     <Controller
-                      name="otherCredits"
+                      name="taxPaymentMode"
                       control={control}
                       render={({ field }) => (
-                        <InputGroup
-                          label={t('sellerNet.inputs.otherCredits')}
-                          name="otherCredits"
-                          type="number"
-                          value={field.value}
-                          onChange={(val) => field.onChange(Number(val) || 0)}
-                          prefix="$"
+                        <SelectToggle
+                          label={t('sellerNet.prorations.taxPaymentMode')}
+                          name="taxPaymentMode"
+                          value={field.value ?? ''}
+                          onChange={field.onChange}
+                          options={[
+                            { value: 'arrears', label: t('sellerNet.prorations.arrears') },
+                            { value: 'prepaid', label: t('sellerNet.prorations.prepaid') },
+                          ]}
                         />
                       )}
                     />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <Controller
+                        name="hoaDuesMonthly"
+                        control={control}
+                        render={({ field }) => (
+                          <InputGroup
+                            label={t('sellerNet.prorations.hoaDuesMonthly')}
+                            name="hoaDuesMonthly"
+                            type="number"
+                            value={field.value}
+                            onChange={(val) => field.onChange(Number(val) || 0)}
+                            prefix="$"
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="otherCredits"
+                        control={control}
+                        render={({ field }) => (
+                          <InputGroup
+                            label={t('sellerNet.inputs.otherCredits')}
+                            name="otherCredits"
+                            type="number"
+                            value={field.value}
+                            onChange={(val) => field.onChange(Number(val) || 0)}
+                            prefix="$"
+                          />
+                        )}
+                      />
+                    </div>
                   </div>
                 </div>
+
+                <div className="border-t border-slate-100 pt-4">
+                  <AgentSelector />
+                </div>
               </div>
 
               {/* Action Buttons (Sticky Bottom) */}
@@ -440,7 +620,14 @@ export function SellerNetForm() {
       <div className="lg:col-span-7">
         <div className="h-full sticky top-4">
           {result ? (
-            <SellerNetResult result={result} />
+            <div className="space-y-6">
+              <SellerNetResult result={result} />
+              {config && reportResult && (
+                <div className="bg-white rounded-xl border border-slate-200 p-6">
+                  <SellerNetPdfButton result={reportResult} config={config} />
+                </div>
+              )}
+            </div>
           ) : (
             <Card className="h-full min-h-[500px] flex items-center justify-center bg-white shadow-md border-slate-200">
               <CardContent className="h-full flex items-center justify-center">
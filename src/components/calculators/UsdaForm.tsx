@@ -0,0 +1,613 @@
+'use client';
+
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { useForm, Controller, SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useCalculatorStore } from '@/lib/store';
+import { calculateUsdaPurchase } from '@/lib/calculations/usda';
+import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent, AgentSelector } from '@/components/shared';
+import { ResultSummary } from '@/components/shared/ResultSummary';
+import { DtiSection } from './DtiSection';
+
+const formSchema = z.object({
+  salesPrice: z.number().min(10000).max(100000000),
+  downPaymentAmount: z.number().min(0),
+  downPaymentPercent: z.number().min(0).max(100),
+  downPaymentMode: z.enum(['amount', 'percent']),
+  interestRate: z.number().min(0).max(20),
+  termYears: z.number().min(1).max(40),
+  propertyTaxAnnual: z.number().min(0),
+  homeInsuranceAnnual: z.number().min(0),
+  propertyTaxMonthly: z.number().min(0),
+  homeInsuranceMonthly: z.number().min(0),
+  mortgageInsuranceMonthly: z.number().min(0),
+  hoaDuesMonthly: z.number().min(0),
+  floodInsuranceMonthly: z.number().min(0),
+  householdSize: z.number().int().min(1).max(20),
+  householdIncomeAnnual: z.number().min(0),
+  loanFee: z.number().min(0),
+  loanFeePercent: z.number().min(0).max(10).default(0),
+  loanFeeMode: z.enum(['amount', 'percent']).default('amount'),
+  prepaidInterestDays: z.number().min(0).max(365),
+  prepaidTaxMonths: z.number().min(0).max(60),
+  prepaidInsuranceMonths: z.number().min(0).max(60),
+  prepaidInterestAmount: z.number().min(0),
+  prepaidTaxAmount: z.number().min(0),
+  prepaidInsuranceAmount: z.number().min(0),
+  sellerCreditAmount: z.number().min(0),
+  lenderCreditAmount: z.number().min(0),
+  depositAmount: z.number().min(0),
+  closingCostsTotal: z.number().min(0),
+  miscFee: z.number().min(0),
+  // Fee Overrides with defaults
+  processingFee: z.number().min(0).default(995),
+  underwritingFee: z.number().min(0).default(1495),
+  docPrepFee: z.number().min(0).default(295),
+  appraisalFee: z.number().min(0).default(650),
+  creditReportFee: z.number().min(0).default(150),
+  floodCertFee: z.number().min(0).default(30),
+  taxServiceFee: z.number().min(0).default(85),
+  escrowFee: z.number().min(0).default(1115),
+  notaryFee: z.number().min(0).default(350),
+  recordingFee: z.number().min(0).default(275),
+  ownerTitlePolicy: z.number().min(0).default(1730),
+  lenderTitlePolicy: z.number().min(0).default(1515),
+  pestInspectionFee: z.number().min(0).default(150),
+  propertyInspectionFee: z.number().min(0).default(450),
+  poolInspectionFee: z.number().min(0).default(0),
+  transferTax: z.number().min(0).default(0),
+  mortgageTax: z.number().min(0).default(0),
+});
+
+type FormInput = z.input<typeof formSchema>;
+type FormValues = z.output<typeof formSchema>;
+
+export function UsdaForm() {
+  const t = useTranslations();
+  const {
+    usdaInputs,
+    updateUsdaInputs,
+    usdaResult,
+    setUsdaResult,
+    resetCalculator,
+    config,
+    configLoading,
+    showDtiSections,
+    setShowDtiSection
+  } = useCalculatorStore();
+
+  const showDtiSection = showDtiSections.usda;
+
+  const [isMounted, setIsMounted] = useState(false);
+  useEffect(() => setIsMounted(true), []);
+
+  const { control, handleSubmit, watch, setValue, reset, formState: { errors } } = useForm<FormInput, unknown, FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      salesPrice: usdaInputs.salesPrice,
+      downPaymentAmount: usdaInputs.downPaymentAmount,
+      downPaymentPercent: usdaInputs.downPaymentPercent,
+      downPaymentMode: usdaInputs.downPaymentMode,
+      interestRate: usdaInputs.interestRate,
+      termYears: usdaInputs.termYears,
+      propertyTaxAnnual: usdaInputs.propertyTaxAnnual,
+      homeInsuranceAnnual: usdaInputs.homeInsuranceAnnual,
+      propertyTaxMonthly: usdaInputs.propertyTaxAnnual / 12,
+      homeInsuranceMonthly: usdaInputs.homeInsuranceAnnual / 12,
+      mortgageInsuranceMonthly: usdaInputs.mortgageInsuranceMonthly || 0,
+      hoaDuesMonthly: usdaInputs.hoaDuesMonthly,
+      floodInsuranceMonthly: usdaInputs.floodInsuranceMonthly,
+      householdSize: usdaInputs.householdSize,
+      householdIncomeAnnual: usdaInputs.householdIncomeAnnual,
+      prepaidInterestDays: usdaInputs.prepaidInterestDays ?? 15,
+      prepaidTaxMonths: usdaInputs.prepaidTaxMonths ?? 6,
+      prepaidInsuranceMonths: usdaInputs.prepaidInsuranceMonths ?? 15,
+      prepaidInterestAmount: usdaInputs.prepaidInterestAmount || 0,
+      prepaidTaxAmount: usdaInputs.prepaidTaxAmount || 0,
+      prepaidInsuranceAmount: usdaInputs.prepaidInsuranceAmount || 0,
+      loanFee: usdaInputs.loanFee || 0,
+      loanFeePercent: usdaInputs.loanFeePercent || 1.0,
+      loanFeeMode: usdaInputs.loanFeeMode || 'amount',
+      sellerCreditAmount: usdaInputs.sellerCreditAmount || 0,
+      lenderCreditAmount: usdaInputs.lenderCreditAmount || 0,
+      depositAmount: usdaInputs.depositAmount || 0,
+      closingCostsTotal: usdaInputs.closingCostsTotal || 0,
+      miscFee: usdaInputs.miscFee || 0,
+      processingFee: usdaInputs.processingFee ?? 995,
+      underwritingFee: usdaInputs.underwritingFee ?? 1495,
+      docPrepFee: usdaInputs.docPrepFee ?? 295,
+      appraisalFee: usdaInputs.appraisalFee ?? 650,
+      creditReportFee: usdaInputs.creditReportFee ?? 150,
+      floodCertFee: usdaInputs.floodCertFee ?? 30,
+      taxServiceFee: usdaInputs.taxServiceFee ?? 85,
+      escrowFee: usdaInputs.escrowFee ?? 1115,
+      notaryFee: usdaInputs.notaryFee ?? 350,
+      recordingFee: usdaInputs.recordingFee ?? 275,
+      ownerTitlePolicy: usdaInputs.ownerTitlePolicy ?? 1730,
+      lenderTitlePolicy: usdaInputs.lenderTitlePolicy ?? 1515,
+      pestInspectionFee: usdaInputs.pestInspectionFee ?? 150,
+      propertyInspectionFee: usdaInputs.propertyInspectionFee ?? 450,
+      poolInspectionFee: usdaInputs.poolInspectionFee ?? 0,
+      transferTax: usdaInputs.transferTax ?? 0,
+      mortgageTax: usdaInputs.mortgageTax ?? 0,
+    },
+  });
+
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
+  useEffect(() => {
+    if (useCalculatorStore.getState().restoredCalculator !== 'usda') {
+      resetCalculator('usda');
+    }
+    const defaults = useCalculatorStore.getState().usdaInputs;
+    reset({
+      salesPrice: defaults.salesPrice,
+      downPaymentAmount: defaults.downPaymentAmount,
+      downPaymentPercent: defaults.downPaymentPercent,
+      downPaymentMode: defaults.downPaymentMode,
+      interestRate: defaults.interestRate,
+      termYears: defaults.termYears,
+      propertyTaxAnnual: defaults.propertyTaxAnnual,
+      homeInsuranceAnnual: defaults.homeInsuranceAnnual,
+      propertyTaxMonthly: defaults.propertyTaxAnnual / 12,
+      homeInsuranceMonthly: defaults.homeInsuranceAnnual / 12,
+      mortgageInsuranceMonthly: defaults.mortgageInsuranceMonthly || 0,
+      hoaDuesMonthly: defaults.hoaDuesMonthly,
+      floodInsuranceMonthly: defaults.floodInsuranceMonthly,
+      householdSize: defaults.householdSize,
+      householdIncomeAnnual: defaults.householdIncomeAnnual,
+      prepaidInterestDays: defaults.prepaidInterestDays ?? 15,
+      prepaidTaxMonths: defaults.prepaidTaxMonths ?? 6,
+      prepaidInsuranceMonths: defaults.prepaidInsuranceMonths ?? 15,
+      prepaidInterestAmount: defaults.prepaidInterestAmount || 0,
+      prepaidTaxAmount: defaults.prepaidTaxAmount || 0,
+      prepaidInsuranceAmount: defaults.prepaidInsuranceAmount || 0,
+      loanFee: defaults.loanFee || 0,
+      loanFeePercent: defaults.loanFeePercent || 1.0,
+      loanFeeMode: defaults.loanFeeMode || 'amount',
+      sellerCreditAmount: defaults.sellerCreditAmount || 0,
+      lenderCreditAmount: defaults.lenderCreditAmount || 0,
+      depositAmount: defaults.depositAmount || 0,
+      closingCostsTotal: defaults.closingCostsTotal || 0,
+      miscFee: defaults.miscFee || 0,
+      processingFee: defaults.processingFee,
+      underwritingFee: defaults.underwritingFee,
+      docPrepFee: defaults.docPrepFee,
+      appraisalFee: defaults.appraisalFee,
+      creditReportFee: defaults.creditReportFee,
+      floodCertFee: defaults.floodCertFee,
+      taxServiceFee: defaults.taxServiceFee,
+      escrowFee: defaults.escrowFee,
+      notaryFee: defaults.notaryFee,
+      recordingFee: defaults.recordingFee,
+      ownerTitlePolicy: defaults.ownerTitlePolicy,
+      lenderTitlePolicy: defaults.lenderTitlePolicy,
+      pestInspectionFee: defaults.pestInspectionFee,
+      propertyInspectionFee: defaults.propertyInspectionFee,
+      poolInspectionFee: defaults.poolInspectionFee,
+      transferTax: defaults.transferTax,
+      mortgageTax: defaults.mortgageTax,
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const [closingSubTab, setClosingSubTab] = useState<'general' | 'lender' | 'title'>('general');
+  const watchedValues = watch();
+  const salesPrice = watchedValues.salesPrice;
+  const downPaymentMode = watchedValues.downPaymentMode;
+
+  // Sync down payment amount/percent
+  useEffect(() => {
+    if (downPaymentMode === 'percent') {
+      const percent = watchedValues.downPaymentPercent;
+      const amount = (salesPrice * percent) / 100;
+      setValue('downPaymentAmount', Math.round(amount * 100) / 100);
+    }
+  }, [watchedValues.downPaymentPercent, salesPrice, downPaymentMode, setValue]);
+
+  useEffect(() => {
+    if (downPaymentMode === 'amount') {
+      const amount = watchedValues.downPaymentAmount;
+      const percent = salesPrice > 0 ? (amount / salesPrice) * 100 : 0;
+      setValue('downPaymentPercent', Math.round(percent * 100) / 100);
+    }
+  }, [watchedValues.downPaymentAmount, salesPrice, downPaymentMode, setValue]);
+
+  // Sales price the estimates below were last made for. A loaded client state
+  // keeps its own tax and insurance until the price changes.
+  const estimatedPriceRef = useRef(
+    useCalculatorStore.getState().restoredCalculator === 'usda' ? salesPrice : null
+  );
+
+  useEffect(() => {
+    if (salesPrice > 0 && salesPrice !== estimatedPriceRef.current) {
+      estimatedPriceRef.current = salesPrice;
+      const annualTax = Math.round(salesPrice * 0.0125);
+      const monthlyInsurance = Number(((salesPrice * 0.0035) / 12).toFixed(2));
+      const annualInsurance = Math.round(monthlyInsurance * 12);
+
+      setValue('propertyTaxAnnual', annualTax);
+      setValue('homeInsuranceAnnual', annualInsurance);
+      setValue('propertyTaxMonthly', parseFloat((annualTax / 12).toFixed(2)));
+      setValue('homeInsuranceMonthly', monthlyInsurance);
+    }
+  }, [salesPrice, setValue]);
+
+  // Sync Loan Fee / Origination Fee
+  useEffect(() => {
+    const loanAmount = salesPrice - (watchedValues.downPaymentAmount || 0);
+    if (loanAmount > 0) {
+      if (watchedValues.loanFeeMode === 'percent') {
+        const percent = watchedValues.loanFeePercent ?? 0;
+        const feeAmount = (loanAmount * percent) / 100;
+        setValue('loanFee', Math.round(feeAmount * 100) / 100);
+      } else {
+        const feeAmount = watchedValues.loanFee;
+        const percent = (feeAmount / loanAmount) * 100;
+        setValue('loanFeePercent', Math.round(percent * 1000) / 1000);
+      }
+    }
+  }, [salesPrice, watchedValues.downPaymentAmount, watchedValues.loanFeeMode, watchedValues.loanFeePercent, watchedValues.loanFee, setValue]);
+
+  const onCalculate: SubmitHandler<FormValues> = useCallback((data) => {
+    if (!config) return;
+
+    // Determine if should use manual override for closing costs
+    const isManualOverride = data.closingCostsTotal > 0 &&
+      data.closingCostsTotal !== usdaResult?.closingCosts.totalClosingCosts;
+
+    updateUsdaInputs(data);
+    const result = calculateUsdaPurchase(
+      {
+        ...data,
+        propertyTaxMonthly: data.propertyTaxAnnual / 12,
+        homeInsuranceMonthly: data.homeInsuranceAnnual / 12,
+        closingCostsTotal: isManualOverride ? data.closingCostsTotal : 0,
+        miscFee: data.miscFee,
+        prepaidInterestAmount: 0,
+        prepaidTaxAmount: 0,
+        prepaidInsuranceAmount: 0,
+      },
+      config
+    );
+    setUsdaResult(result);
+
+    if (!data.prepaidInterestAmount || !isManualOverride) setValue('prepaidInterestAmount', result.closingCosts.prepaidInterest);
+    if (!data.prepaidTaxAmount || !isManualOverride) setValue('prepaidTaxAmount', result.closingCosts.taxReserves);
+    if (!data.prepaidInsuranceAmount || !isManualOverride) setValue('prepaidInsuranceAmount', result.closingCosts.insuranceReserves);
+
+    // Sync Closing Costs to input
+    setValue('closingCostsTotal', result.closingCosts.totalClosingCosts);
+  }, [config, usdaResult, updateUsdaInputs, setUsdaResult, setValue]);
+
+  const handleReset = () => {
+    resetCalculator('usda');
+    setUsdaResult(null);
+  };
+
+  const downPaymentModeOptions = [
+    { value: 'percent', label: t('common.percent') },
+    { value: 'amount', label: t('common.amount') },
+  ];
+
+  const [activeTab, setActiveTab] = useState<'loan-payment' | 'closing'>('loan-payment');
+  const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
+  const isDisabled = configLoading || !config;
+
+  const tabs = [
+    { id: 'loan-payment', label: t('calculator.sections.loanPayment') },
+    { id: 'closing', label: t('calculator.sections.usdaOptionsClosing') },
+  ];
+
+  if (!isMounted) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 p-4 bg-[#cbe5f266] min-h-[calc(100vh-100px)] backdrop-blur-md rounded-xl">
+      <div className="lg:col-span-12 xl:col-span-5 flex flex-col gap-4">
+        <Card className={`${usdaResult ? 'h-fit' : 'flex-1 flex flex-col'} overflow-hidden`}>
+          <CardHeader className="pb-0">
+            <div className="flex justify-center mb-6">
+              <CardTitle className="text-xl font-bold text-slate-800 px-6 py-2 rounded-lg text-center inline-block">
+                {t('usda.title')}
+              </CardTitle>
+            </div>
+            <div className="flex p-1 bg-slate-100 rounded-lg w-fit mx-auto">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id as 'loan-payment' | 'closing')}
+                  type="button"
+                  className={`px-6 py-2 text-sm font-medium rounded-md transition-all cursor-pointer ${activeTab === tab.id
+                    ? 'bg-blue-600 text-white shadow-sm'
+                    : 'text-slate-600 hover:text-slate-900 hover:bg-slate-200'
+                    }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto pt-6">
+            <form onSubmit={handleSubmit(onCalculate)} className="space-y-6">
+
+              {activeTab === 'loan-payment' && (
+                <div className="space-y-6">
+                  {/* Sub-tabs for Loan Payment */}
+                  <div className="flex p-1 bg-slate-100 rounded-lg w-fit">
+                    <button
+                      type="button"
+                      onClick={() => setLoanSubTab('details')}
+                      className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${loanSubTab === 'details'
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-slate-600 hover:text-slate-900'
+                        }`}
+                    >
+                      {t('calculator.sections.propertyLoanDetails')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setLoanSubTab('expenses')}
+                      className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${loanSubTab === 'expenses'
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-slate-600 hover:text-slate-900'
+                        }`}
+                    >
+                      {t('calculator.sections.monthlyExpenses')}
+                    </button>
+                  </div>
+
+                  {loanSubTab === 'details' && (
+                    <div className="space-y-5 animate-in fade-in zoom-in-95 duration-200">
+                      <Controller name="salesPrice" control={control} render={({ field }) => <InputGroup label={t('calculator.salesPrice')} name="salesPrice" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
+                      <Controller name="downPaymentMode" control={control} render={({ field }) => <SelectToggle label={t('calculator.downPaymentMode')} name="downPaymentMode" value={field.value ?? 'percent'} onChange={field.onChange} options={downPaymentModeOptions} />} />
+                      {downPaymentMode === 'percent' ? (
+                        <Controller name="downPaymentPercent" control={control} render={({ field }) => <InputGroup label={t('calculator.downPaymentPercent')} name="downPaymentPercent" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.1" required />} />
+                      ) : (
+                        <Controller name="downPaymentAmount" control={control} render={({ field }) => <InputGroup label={t('calculator.downPaymentAmount')} name="downPaymentAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
+                      )}
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="interestRate" control={control} render={({ field }) => <InputGroup label={t('calculator.interestRate')} name="interestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" required />} />
+                        <Controller
+                          name="termYears"
+                          control={control}
+                          render={({ field }) => (
+                            <InputGroup
+                              label={t('calculator.term')}
+                              name="termYears"
+                              type="number"
+                              value={field.value}
+                              onChange={(v) => field.onChange(Number(v) || 0)}
+                              suffix="Years"
+                              error={errors.termYears?.message}
+                              required
+                            />
+                          )}
+                        />
+                      </div>
+
+                      <div className="space-y-1">
+                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
+                        <div className="flex gap-2 items-start">
+                          <div className="flex bg-slate-100 rounded-full p-1">
+                            <button
+                              type="button"
+                              onClick={() => setValue('loanFeeMode', 'amount')}
+                              className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium transition-all ${watchedValues.loanFeeMode === 'amount'
+                                ? 'bg-blue-600 text-white shadow-sm'
+                                : 'text-slate-600 hover:text-slate-900'
+                                }`}
+                            >
+                              $
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setValue('loanFeeMode', 'percent')}
+                              className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium transition-all ${watchedValues.loanFeeMode === 'percent'
+                                ? 'bg-blue-600 text-white shadow-sm'
+                                : 'text-slate-600 hover:text-slate-900'
+                                }`}
+                            >
+                              %
+                            </button>
+                          </div>
+                          <div className="flex-1">
+                            {watchedValues.loanFeeMode === 'percent' ? (
+                              <Controller name="loanFeePercent" control={control} render={({ field }) => <InputGroup label="" name="loanFeePercent" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" />} />
+                            ) : (
+                              <Controller name="loanFee" control={control} render={({ field }) => <InputGroup label="" name="loanFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller
+                          name="sellerCreditAmount"
+                          control={control}
+                          render={({ field }) => (
+                            <InputGroup
+                              label={t('calculator.sellerCredit')}
+                              name="sellerCreditAmount"
+                              type="number"
+                              value={field.value}
+                              onChange={(v) => field.onChange(Number(v))}
+                              prefix="$"
+                            />
+                          )}
+                        />
+                        <Controller
+                          name="lenderCreditAmount"
+                          control={control}
+                          render={({ field }) => (
+                            <InputGroup
+                              label={t('calculator.lenderCredit')}
+                              name="lenderCreditAmount"
+                              type="number"
+                              value={field.value}
+                              onChange={(v) => field.onChange(Number(v))}
+                              prefix="$"
+                            />
+                          )}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {loanSubTab === 'expenses' && (
+                    <div className="space-y-5 animate-in fade-in zoom-in-95 duration-200">
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="propertyTaxAnnual" control={control} render={({ field }) => <InputGroup label={t('calculator.propertyTax')} name="propertyTaxAnnual" type="number" value={field.value} onChange={(v) => { const a = Number(v); field.onChange(a); setValue('propertyTaxMonthly', a / 12); }} prefix="$" helperText="Annual" />} />
+                        <Controller name="homeInsuranceAnnual" control={control} render={({ field }) => <InputGroup label={t('calculator.homeInsurance')} name="homeInsuranceAnnual" type="number" value={field.value} onChange={(v) => { const a = Number(v); field.onChange(a); setValue('homeInsuranceMonthly', a / 12); }} prefix="$" helperText="Annual" />} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="hoaDuesMonthly" control={control} render={({ field }) => <InputGroup label={t('calculator.hoaDues')} name="hoaDuesMonthly" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="floodInsuranceMonthly" control={control} render={({ field }) => <InputGroup label={t('calculator.floodInsurance')} name="floodInsuranceMonthly" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'closing' && (
+                <div className="space-y-5">
+                  <div className="bg-blue-50 p-4 rounded-lg space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <Controller name="householdSize" control={control} render={({ field }) => <InputGroup label={t('usda.householdSize')} name="householdSize" type="number" value={field.value} onChange={(v) => field.onChange(Number(v) || 1)} error={errors.householdSize?.message} />} />
+                      <Controller name="householdIncomeAnnual" control={control} render={({ field }) => <InputGroup label={t('usda.householdIncome')} name="householdIncomeAnnual" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" helperText={t('usda.householdIncomeHelp')} />} />
+                    </div>
+                  </div>
+
+                  <div className="border-t border-slate-200 pt-4 mt-4">
+                    <div className="flex p-1 bg-slate-100 rounded-lg mb-4">
+                      {(['general', 'lender', 'title'] as const).map((tab) => (
+                        <button key={tab} type="button" onClick={() => setClosingSubTab(tab)} className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all ${closingSubTab === tab ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600'}`}>
+                          {t(`calculator.sections.${tab}`)}
+                        </button>
+                      ))}
+                    </div>
+
+                    {closingSubTab === 'general' && (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-3 gap-3">
+                          <Controller name="prepaidInterestDays" control={control} render={({ field }) => <InputGroup label="Int. Days" name="prepaidInterestDays" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="d" />} />
+                          <Controller name="prepaidTaxMonths" control={control} render={({ field }) => <InputGroup label="Tax Mo." name="prepaidTaxMonths" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="m" />} />
+                          <Controller name="prepaidInsuranceMonths" control={control} render={({ field }) => <InputGroup label="Ins. Mo." name="prepaidInsuranceMonths" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="m" />} />
+                        </div>
+                        <div className="pt-2 border-t border-slate-100 space-y-4">
+                          <Controller
+                            name="miscFee"
+                            control={control}
+                            render={({ field }) => (
+                              <InputGroup
+                                label="Miscellaneous"
+                                name="miscFee"
+                                type="number"
+                                value={field.value}
+                                onChange={(val) => field.onChange(Number(val) || 0)}
+                                prefix="$"
+                                helperText="Additional miscellaneous fees"
+                              />
+                            )}
+                          />
+                          <Controller name="closingCostsTotal" control={control} render={({ field }) => <InputGroup label="Closing Costs" name="closingCostsTotal" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" className="text-lg font-semibold" />} />
+                        </div>
+                      </div>
+                    )}
+
+                    {closingSubTab === 'lender' && (
+                      <div className="grid grid-cols-2 gap-3 animate-in fade-in duration-200">
+                        <Controller name="processingFee" control={control} render={({ field }) => <InputGroup label="Processing" name="processingFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="underwritingFee" control={control} render={({ field }) => <InputGroup label="Underwriting" name="underwritingFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="docPrepFee" control={control} render={({ field }) => <InputGroup label="Doc Prep" name="docPrepFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="creditReportFee" control={control} render={({ field }) => <InputGroup label="Credit Report" name="creditReportFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="floodCertFee" control={control} render={({ field }) => <InputGroup label="Flood Cert" name="floodCertFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="taxServiceFee" control={control} render={({ field }) => <InputGroup label="Tax Service" name="taxServiceFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                      </div>
+                    )}
+
+                    {closingSubTab === 'title' && (
+                      <div className="grid grid-cols-2 gap-3 animate-in fade-in duration-200">
+                        <Controller name="escrowFee" control={control} render={({ field }) => <InputGroup label="Escrow Fee" name="escrowFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="appraisalFee" control={control} render={({ field }) => <InputGroup label="Appraisal" name="appraisalFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="notaryFee" control={control} render={({ field }) => <InputGroup label="Notary Fee" name="notaryFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="recordingFee" control={control} render={({ field }) => <InputGroup label="Recording Fee" name="recordingFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="ownerTitlePolicy" control={control} render={({ field }) => <InputGroup label="Owner Title" name="ownerTitlePolicy" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="lenderTitlePolicy" control={control} render={({ field }) => <InputGroup label="Lender Title" name="lenderTitlePolicy" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="pestInspectionFee" control={control} render={({ field }) => <InputGroup label="Pest Insp." name="pestInspectionFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="propertyInspectionFee" control={control} render={({ field }) => <InputGroup label="Prop. Insp." name="propertyInspectionFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="poolInspectionFee" control={control} render={({ field }) => <InputGroup label="Pool Insp." name="poolInspectionFee" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="transferTax" control={control} render={({ field }) => <InputGroup label="Transfer Tax" name="transferTax" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                        <Controller name="mortgageTax" control={control} render={({ field }) => <InputGroup label="Mortgage Tax" name="mortgageTax" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
+                      </div>
+                    )}
+
+                    <div className="mt-6 border-t border-slate-100 pt-4">
+                      <AgentSelector />
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="pt-4 border-t border-slate-100 flex gap-3">
+                <Button type="submit" fullWidth size="lg" disabled={isDisabled} loading={configLoading} className="bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-[1.02]">
+                  {t('common.calculate')}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleReset} disabled={isDisabled} className="px-6">
+                  {t('common.reset')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Toggle DTI Button - Only show after calculation */}
+        {usdaResult && (
+          <Button
+            onClick={() => setShowDtiSection(!showDtiSection, 'usda')}
+            className="bg-white hover:bg-slate-50 text-[#2a8bb3] font-black border-none shadow-sm w-fit mx-auto mt-2 transition-transform hover:scale-105"
+          >
+            {showDtiSection ? 'Hide DTI Section' : 'Show DTI Section'}
+          </Button>
+        )}
+      </div>
+
+      <div className="lg:col-span-12 xl:col-span-7">
+        <div className="h-full sticky top-4">
+          {usdaResult ? (
+            <ResultSummary
+              activeTab={activeTab === 'closing' ? 'closing-cash' : (activeTab === 'loan-payment' ? 'pitia' : undefined)}
+              closingTab={activeTab === 'closing' ? (closingSubTab === 'general' ? 'prepaid' : closingSubTab) : undefined}
+              result={usdaResult}
+              config={config}
+              loanType={t('usda.title')}
+              formId="usda"
+            />
+          ) : (
+            <Card className="h-full min-h-[500px] flex items-center justify-center bg-white shadow-md border-slate-200">
+              <CardContent>
+                <div className="text-center py-12 max-w-md mx-auto">
+                  <div className="text-6xl mb-6 opacity-30 flex justify-center">
+                    <svg className="w-24 h-24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M21 21H3V3H21V21ZM5 19H19V5H5V19Z" fill="currentColor" />
+                      <path d="M7 11H9V17H7V11Z" fill="currentColor" />
+                      <path d="M11 7H13V17H11V7Z" fill="currentColor" />
+                      <path d="M15 13H17V17H15V13Z" fill="currentColor" />
+                    </svg>
+                  </div>
+                  <h3 className="text-2xl font-bold text-slate-800 mb-3">{t('calculator.readyToCalculate')}</h3>
+                  <p className="text-slate-500 text-lg mb-8">{t('calculator.readyDescription')}</p>
+                  <Button variant="outline" onClick={() => setActiveTab('loan-payment')} className="border-blue-200 text-blue-600 hover:bg-blue-50">
+                    Start with Property Details
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {showDtiSection && <DtiSection />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,17 @@
 'use client';
 
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateVaPurchase } from '@/lib/calculations/va';
-import { InputGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent, AgentSelector } from '@/components/shared';
+import { InputGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent, AgentSelector, LoanProductFields, defaultLoanProductOptions, PricingLadderFields } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
 import type { VaUsage, CreditScoreTier, PmiType } from '@/lib/schemas';
+import { LoanProductOptionsSchema, PricingLadderEntrySchema, TemporaryBuydownType } from '@/lib/schemas';
 
 const formSchema = z.object({
   salesPrice: z.number().min(10000).max(100000000),
@@ -61,6 +62,9 @@ const formSchema = z.object({
   poolInspectionFee: z.number().min(0).default(0),
   transferTax: z.number().min(0).default(0),
   mortgageTax: z.number().min(0).default(0),
+  productOptions: LoanProductOptionsSchema,
+  pricingLadder: z.array(PricingLadderEntrySchema),
+  temporaryBuydown: TemporaryBuydownType,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -134,12 +138,17 @@ export function VaForm() {
       poolInspectionFee: vaInputs.poolInspectionFee ?? 0,
       transferTax: vaInputs.transferTax ?? 0,
       mortgageTax: vaInputs.mortgageTax ?? 0,
+      productOptions: vaInputs.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: vaInputs.pricingLadder ?? [],
+      temporaryBuydown: vaInputs.temporaryBuydown ?? 'none',
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('va');
+    if (useCalculatorStore.getState().restoredCalculator !== 'va') {
+      resetCalculator('va');
+    }
     const defaults = useCalculatorStore.getState().vaInputs;
     reset({
       salesPrice: defaults.salesPrice,
@@ -189,6 +198,9 @@ export function VaForm() {
       poolInspectionFee: defaults.poolInspectionFee,
       transferTax: defaults.transferTax,
       mortgageTax: defaults.mortgageTax,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
+      pricingLadder: defaults.pricingLadder ?? [],
+      temporaryBuydown: defaults.temporaryBuydown ?? 'none',
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -215,8 +227,15 @@ export function VaForm() {
     }
   }, [watchedValues.downPaymentAmount, salesPrice, downPaymentMode, setValue]);
 
+  // Sales price the estimates below were last made for. A loaded client state
+  // keeps its own tax and insurance until the price changes.
+  const estimatedPriceRef = useRef(
+    useCalculatorStore.getState().restoredCalculator === 'va' ? salesPrice : null
+  );
+
   useEffect(() => {
-    if (salesPrice > 0) {
+    if (salesPrice > 0 && salesPrice !== estimatedPriceRef.current) {
+      estimatedPriceRef.current = salesPrice;
       const annualTax = Math.round(salesPrice * 0.0125);
       const monthlyInsurance = Number(((salesPrice * 0.0035) / 12).toFixed(2));
       const annualInsurance = Math.round(monthlyInsurance * 12);
@@ -290,6 +309,13 @@ export function VaForm() {
     { value: 'amount', label: t('common.amount') },
   ];
 
+  const buydownOptions = [
+    { value: 'none', label: t('calculator.temporaryBuydown.none') },
+    { value: '1_0', label: '1-0' },
+    { value: '2_1', label: '2-1' },
+    { value: '3_2_1', label: '3-2-1' },
+  ];
+
   const vaUsageOptions = [
     { value: 'first', label: t('va.usage.first') },
     { value: 'subsequent', label: t('va.usage.subsequent') },
@@ -390,6 +416,45 @@ export function VaForm() {
                         />
                       </div>
 
+                      <Controller
+                        name="productOptions"
+                        control={control}
+                        render={({ field }) => (
+                          <LoanProductFields
+                            name="productOptions"
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="temporaryBuydown"
+                        control={control}
+                        render={({ field }) => (
+                          <SelectToggle
+                            label={t('calculator.temporaryBuydown.title')}
+                            name="temporaryBuydown"
+                            value={field.value ?? 'none'}
+                            onChange={field.onChange}
+                            options={buydownOptions}
+                          />
+                        )}
+                      />
+
+                      <Controller
+                        name="pricingLadder"
+                        control={control}
+                        render={({ field }) => (
+                          <PricingLadderFields
+                            name="pricingLadder"
+                            value={field.value}
+                            onChange={field.onChange}
+                            rateSheet={config?.pricingLadders?.va}
+                          />
+                        )}
+                      />
+
                       <div className="space-y-1">
                         <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">Loan Fee</label>
                         <div className="flex gap-2 items-start">
@@ -1,19 +1,25 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useCalculatorStore } from '@/lib/store';
 import { calculateVaRefinance } from '@/lib/calculations/va';
-import { InputGroup, SelectToggle, Button, Card, CardHeader, CardTitle, CardContent } from '@/components/shared';
+import { getRefinanceFeeDefaults } from '@/lib/calculations/common';
+import { InputGroup, SelectToggle, CheckboxGroup, Button, Card, CardHeader, CardTitle, CardContent, LoanProductFields, defaultLoanProductOptions } from '@/components/shared';
 import { ResultSummary } from '@/components/shared/ResultSummary';
 import { DtiSection } from './DtiSection';
+import { LoanProductOptionsSchema } from '@/lib/schemas';
 
 const formSchema = z.object({
   propertyValue: z.number().min(10000).max(100000000),
   existingLoanBalance: z.number().min(0),
+  currentInterestRate: z.number().min(0).max(20),
+  currentMonthlyPayment: z.number().min(0),
+  currentRemainingTermMonths: z.number().min(0).max(480),
+  payoffDays: z.number().min(0).max(90),
   newLoanAmount: z.number().min(10000),
   interestRate: z.number().min(0).max(20),
   termYears: z.number().min(1).max(40),
@@ -28,6 +34,7 @@ const formSchema = z.object({
   cashOutAmount: z.number().min(0),
   isIrrrl: z.boolean().default(false),
   isDisabledVeteran: z.boolean().default(false),
+  isReservist: z.boolean().default(false),
   // Prepaid Items
   prepaidInterestDays: z.number().min(0).max(365),
   prepaidTaxMonths: z.number().min(0).max(60),
@@ -37,24 +44,25 @@ const formSchema = z.object({
   prepaidInsuranceAmount: z.number().min(0),
   closingCostsTotal: z.number().min(0),
   miscFee: z.number().min(0).default(0),
-  // Fee Overrides with defaults
-  processingFee: z.number().min(0).default(895),
-  underwritingFee: z.number().min(0).default(995),
-  docPrepFee: z.number().min(0).default(595),
-  appraisalFee: z.number().min(0).default(650),
-  creditReportFee: z.number().min(0).default(150),
-  floodCertFee: z.number().min(0).default(30),
-  taxServiceFee: z.number().min(0).default(59),
-  escrowFee: z.number().min(0).default(400),
-  notaryFee: z.number().min(0).default(350),
-  recordingFee: z.number().min(0).default(275),
-  ownerTitlePolicy: z.number().min(0).default(0),
-  lenderTitlePolicy: z.number().min(0).default(1115),
-  pestInspectionFee: z.number().min(0).default(0),
-  propertyInspectionFee: z.number().min(0).default(0),
-  poolInspectionFee: z.number().min(0).default(0),
+  // Fee overrides, seeded from the GHL refinance fee schedule
+  processingFee: z.number().min(0),
+  underwritingFee: z.number().min(0),
+  docPrepFee: z.number().min(0),
+  appraisalFee: z.number().min(0),
+  creditReportFee: z.number().min(0),
+  floodCertFee: z.number().min(0),
+  taxServiceFee: z.number().min(0),
+  escrowFee: z.number().min(0),
+  notaryFee: z.number().min(0),
+  recordingFee: z.number().min(0),
+  ownerTitlePolicy: z.number().min(0),
+  lenderTitlePolicy: z.number().min(0),
+  pestInspectionFee: z.number().min(0),
+  propertyInspectionFee: z.number().min(0),
+  poolInspectionFee: z.number().min(0),
   transferTax: z.number().min(0).default(0),
   mortgageTax: z.number().min(0).default(0),
+  productOptions: LoanProductOptionsSchema,
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -83,70 +91,62 @@ export function VaRefiForm() {
     defaultValues: {
       ...vaRefiInputs,
       prepaidInterestDays: vaRefiInputs.prepaidInterestDays ?? 15,
+      payoffDays: vaRefiInputs.payoffDays ?? 30,
       prepaidTaxMonths: vaRefiInputs.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: vaRefiInputs.prepaidInsuranceMonths ?? 0,
       loanFeePercent: vaRefiInputs.loanFeePercent || 1.0,
       loanFeeMode: vaRefiInputs.loanFeeMode || 'amount',
-      processingFee: vaRefiInputs.processingFee ?? 895,
-      underwritingFee: vaRefiInputs.underwritingFee ?? 995,
-      docPrepFee: vaRefiInputs.docPrepFee ?? 595,
-      appraisalFee: vaRefiInputs.appraisalFee ?? 650,
-      creditReportFee: vaRefiInputs.creditReportFee ?? 150,
-      floodCertFee: vaRefiInputs.floodCertFee ?? 30,
-      taxServiceFee: vaRefiInputs.taxServiceFee ?? 59,
-      escrowFee: vaRefiInputs.escrowFee ?? 400,
-      notaryFee: vaRefiInputs.notaryFee ?? 350,
-      recordingFee: vaRefiInputs.recordingFee ?? 275,
-      lenderTitlePolicy: vaRefiInputs.lenderTitlePolicy ?? 1115,
-      ownerTitlePolicy: vaRefiInputs.ownerTitlePolicy ?? 0,
-      pestInspectionFee: vaRefiInputs.pestInspectionFee ?? 0,
-      propertyInspectionFee: vaRefiInputs.propertyInspectionFee ?? 0,
-      poolInspectionFee: vaRefiInputs.poolInspectionFee ?? 0,
       transferTax: vaRefiInputs.transferTax ?? 0,
       mortgageTax: vaRefiInputs.mortgageTax ?? 0,
+      productOptions: vaRefiInputs.productOptions ?? defaultLoanProductOptions,
       miscFee: vaRefiInputs.miscFee || 0,
       isIrrrl: vaRefiInputs.isIrrrl ?? false,
       isDisabledVeteran: vaRefiInputs.isDisabledVeteran ?? false,
+      isReservist: vaRefiInputs.isReservist ?? false,
       vaUsage: vaRefiInputs.vaUsage ?? 'first',
     },
   });
 
-  // Reset calculator to defaults on mount
+  // Reset calculator to defaults on mount, unless it holds a loaded client state
   useEffect(() => {
-    resetCalculator('vaRefi');
+    if (useCalculatorStore.getState().restoredCalculator !== 'vaRefi') {
+      resetCalculator('vaRefi');
+    }
     const defaults = useCalculatorStore.getState().vaRefiInputs;
     reset({
       ...defaults,
       prepaidInterestDays: defaults.prepaidInterestDays ?? 15,
+      payoffDays: defaults.payoffDays ?? 30,
       prepaidTaxMonths: defaults.prepaidTaxMonths ?? 0,
       prepaidInsuranceMonths: defaults.prepaidInsuranceMonths ?? 0,
       loanFeePercent: defaults.loanFeePercent || 1.0,
       loanFeeMode: defaults.loanFeeMode || 'amount',
-      processingFee: defaults.processingFee ?? 895,
-      underwritingFee: defaults.underwritingFee ?? 995,
-      docPrepFee: defaults.docPrepFee ?? 595,
-      appraisalFee: defaults.appraisalFee ?? 650,
-      creditReportFee: defaults.creditReportFee ?? 150,
-      floodCertFee: defaults.floodCertFee ?? 30,
-      taxServiceFee: defaults.taxServiceFee ?? 59,
-      escrowFee: defaults.escrowFee ?? 400,
-      notaryFee: defaults.notaryFee ?? 350,
-      recordingFee: defaults.recordingFee ?? 275,
-      lenderTitlePolicy: defaults.lenderTitlePolicy ?? 1115,
-      ownerTitlePolicy: defaults.ownerTitlePolicy ?? 0,
-      pestInspectionFee: defaults.pestInspectionFee ?? 0,
-      propertyInspectionFee: defaults.propertyInspectionFee ?? 0,
-      poolInspectionFee: defaults.poolInspectionFee ?? 0,
       transferTax: defaults.transferTax ?? 0,
       mortgageTax: defaults.mortgageTax ?? 0,
+      productOptions: defaults.productOptions ?? defaultLoanProductOptions,
       miscFee: defaults.miscFee || 0,
       isIrrrl: defaults.isIrrrl ?? false,
       isDisabledVeteran: defaults.isDisabledVeteran ?? false,
+      isReservist: defaults.isReservist ?? false,
       vaUsage: defaults.vaUsage ?? 'first',
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Seed fee overrides from the GHL refinance fee schedule once config loads.
+  // Seeded only once, so a config reload never overwrites fees the LO typed
+  // in, and not at all for a loaded client state, which keeps its own fees.
+  const feesSeededRef = useRef(useCalculatorStore.getState().restoredCalculator === 'vaRefi');
+
+  useEffect(() => {
+    if (!config || feesSeededRef.current) return;
+    feesSeededRef.current = true;
+    const refiFees = getRefinanceFeeDefaults(config);
+    (Object.keys(refiFees) as (keyof typeof refiFees)[]).forEach((key) => {
+      setValue(key, refiFees[key]);
+    });
+  }, [config, setValue]);
+
   const [closingSubTab, setClosingSubTab] = useState<'general' | 'lender' | 'title'>('general');
   const [loanSubTab, setLoanSubTab] = useState<'details' | 'expenses'>('details');
   const watchedValues = watch();
@@ -189,7 +189,6 @@ export function VaRefiForm() {
         propertyTaxMonthly: data.propertyTaxAnnual / 12,
         homeInsuranceMonthly: data.homeInsuranceAnnual / 12,
         mortgageInsuranceMonthly: 0, // VA has no monthly MI
-        payoffDays: 30,
         isDisabledVeteran: data.isDisabledVeteran || data.disabilityPercentage > 0,
         // If manual override is detected, pass the manual value
         closingCostsTotal: isManualOverride ? data.closingCostsTotal : 0,
@@ -296,10 +295,17 @@ export function VaRefiForm() {
                         <Controller name="existingLoanBalance" control={control} render={({ field }) => <InputGroup label={t('refinance.existingBalance')} name="existingLoanBalance" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                         <Controller name="newLoanAmount" control={control} render={({ field }) => <InputGroup label={t('refinance.newLoanAmount')} name="newLoanAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" required />} />
                       </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <Controller name="currentInterestRate" control={control} render={({ field }) => <InputGroup label={t('refinance.currentRate')} name="currentInterestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" />} />
+                        <Controller name="currentMonthlyPayment" control={control} render={({ field }) => <InputGroup label={t('refinance.currentPayment')} name="currentMonthlyPayment" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" helperText={t('refinance.currentPaymentHelp')} />} />
+                        <Controller name="currentRemainingTermMonths" control={control} render={({ field }) => <InputGroup label={t('refinance.remainingTerm')} name="currentRemainingTermMonths" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="mo" />} />
+                        <Controller name="payoffDays" control={control} render={({ field }) => <InputGroup label={t('refinance.payoffDays')} name="payoffDays" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="d" helperText={t('refinance.payoffDaysHelp')} />} />
+                      </div>
                       <div className="grid grid-cols-2 gap-4">
                         <Controller name="interestRate" control={control} render={({ field }) => <InputGroup label={t('calculator.interestRate')} name="interestRate" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix="%" step="0.125" required />} />
                         <Controller name="termYears" control={control} render={({ field }) => <InputGroup label={t('calculator.term')} name="termYears" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} suffix={t('common.years')} required />} />
                       </div>
+                      <Controller name="productOptions" control={control} render={({ field }) => <LoanProductFields name="productOptions" value={field.value} onChange={field.onChange} />} />
                       <div className="grid grid-cols-2 gap-4">
                         <Controller name="cashOutAmount" control={control} render={({ field }) => <InputGroup label={t('refinance.cashOutAmount')} name="cashOutAmount" type="number" value={field.value} onChange={(v) => field.onChange(Number(v))} prefix="$" />} />
                         <Controller name="isIrrrl" control={control} render={({ field }) => (
@@ -376,6 +382,7 @@ export function VaRefiForm() {
                       </div>
                     )} />
                   </div>
+                  <Controller name="isReservist" control={control} render={({ field }) => <CheckboxGroup label={t('calculator.isReservist')} name="isReservist" checked={field.value ?? false} onChange={field.onChange} disabled={watchedValues.isDisabledVeteran} />} />
 
                   <div className="border-t border-slate-200 pt-4 mt-4">
                     <div className="flex p-1 bg-slate-100 rounded-lg mb-4">
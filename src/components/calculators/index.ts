@@ -1,5 +1,7 @@
 export { ConventionalForm } from './ConventionalForm';
 export { FhaForm } from './FhaForm';
 export { VaForm } from './VaForm';
+export { UsdaForm } from './UsdaForm';
 export { SellerNetForm } from './SellerNetForm';
 export { ComparisonForm } from './ComparisonForm';
+export { AffordabilityForm } from './AffordabilityForm';
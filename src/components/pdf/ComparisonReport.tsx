@@ -0,0 +1,196 @@
+import { Document, Page, View, Text } from '@react-pdf/renderer';
+import { pdfStyles } from './styles';
+import { PdfHeader } from './PdfHeader';
+import { PdfFooter } from './PdfFooter';
+import { PdfAgentCard } from './PdfAgentCard';
+import type { GhlConfig, LoanProgram, PartnerAgent } from '@/lib/schemas';
+import type { ComparisonResult, ScenarioResult } from '@/lib/calculations/comparison';
+import { formatCurrency, formatPercentSimple } from '@/lib/formatters';
+
+interface ComparisonReportProps {
+  result: ComparisonResult;
+  config: GhlConfig;
+  agent?: PartnerAgent | null;
+  propertyAddress?: string;
+}
+
+const PROGRAM_LABELS: Record<LoanProgram, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA',
+  usda: 'USDA',
+};
+
+function formatMonths(months: number): string {
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  if (years === 0) return `${remainder} months`;
+  return remainder === 0 ? `${years} years` : `${years} years ${remainder} months`;
+}
+
+function formatDiff(value: number): string {
+  if (value === 0) return 'Same';
+  return value > 0 ? `+${formatCurrency(value)}` : `-${formatCurrency(-value)}`;
+}
+
+function CompareRow({
+  label,
+  scenarios,
+  render,
+  bold = false,
+}: {
+  label: string;
+  scenarios: ScenarioResult[];
+  render: (scenario: ScenarioResult, index: number) => string;
+  bold?: boolean;
+}) {
+  const textStyle = bold ? pdfStyles.compareHeaderText : {};
+  return (
+    <View style={pdfStyles.compareRow}>
+      <Text style={[pdfStyles.compareLabelCell, textStyle]}>{label}</Text>
+      {scenarios.map((scenario, index) => (
+        <Text key={index} style={[pdfStyles.compareCell, textStyle]}>{render(scenario, index)}</Text>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Landscape side-by-side handout for buyer consultations, one column per scenario.
+ */
+export function ComparisonReport({
+  result,
+  config,
+  agent,
+  propertyAddress,
+}: ComparisonReportProps) {
+  const { scenarios, differences, breakEvens } = result;
+  const hasRefinance = scenarios.some((scenario) => scenario.monthlySavings !== undefined);
+
+  const subtitle = [
+    propertyAddress,
+    `${scenarios.length} Loan Options Side by Side`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Document>
+      <Page size="LETTER" orientation="landscape" style={pdfStyles.page}>
+        {/* Border Frame */}
+        <View style={pdfStyles.pageFrame} />
+
+        <PdfHeader
+          config={config}
+          title="Loan Comparison"
+          subtitle={subtitle}
+        />
+
+        {/* Scenario Columns */}
+        <View style={pdfStyles.section}>
+          <View style={pdfStyles.compareHeaderRow}>
+            <Text style={[pdfStyles.compareLabelCell, pdfStyles.compareHeaderText]}> </Text>
+            {scenarios.map((scenario, index) => (
+              <Text key={index} style={[pdfStyles.compareCell, pdfStyles.compareHeaderText]}>{scenario.name}</Text>
+            ))}
+          </View>
+
+          <CompareRow
+            label="Loan type"
+            scenarios={scenarios}
+            render={(s) => `${PROGRAM_LABELS[s.program]} ${s.purpose === 'refinance' ? 'Refinance' : 'Purchase'}`}
+          />
+          <CompareRow
+            label="Interest rate (APR)"
+            scenarios={scenarios}
+            render={(s) => `${formatPercentSimple(s.interestRate)} (${formatPercentSimple(s.apr)})`}
+          />
+          <CompareRow label="Term" scenarios={scenarios} render={(s) => `${s.term} years`} />
+          <CompareRow label="Loan amount" scenarios={scenarios} render={(s) => formatCurrency(s.totalLoanAmount)} />
+          <CompareRow label="Down payment" scenarios={scenarios} render={(s) => formatCurrency(s.downPayment)} />
+          <CompareRow label="Principal & interest" scenarios={scenarios} render={(s) => formatCurrency(s.principalAndInterest)} />
+          <CompareRow
+            label="Mortgage insurance"
+            scenarios={scenarios}
+            render={(s) => (s.mortgageInsurance > 0 ? formatCurrency(s.mortgageInsurance) : '—')}
+          />
+          <CompareRow label="Total monthly payment" scenarios={scenarios} render={(s) => formatCurrency(s.monthlyPayment)} bold />
+          {hasRefinance && (
+            <CompareRow
+              label="Monthly savings"
+              scenarios={scenarios}
+              render={(s) => (s.monthlySavings !== undefined ? formatCurrency(s.monthlySavings) : '—')}
+            />
+          )}
+          <CompareRow
+            label="Cash to close"
+            scenarios={scenarios}
+            render={(s) => (s.cashToClose < 0 ? `${formatCurrency(-s.cashToClose)} to you` : formatCurrency(s.cashToClose))}
+            bold
+          />
+          <CompareRow
+            label={`Payment vs ${scenarios[0].name}`}
+            scenarios={scenarios}
+            render={(_, i) => (differences[i].isBaseline ? 'Baseline' : `${formatDiff(differences[i].monthlyPaymentDiff)}/mo`)}
+          />
+          <CompareRow
+            label={`Cash to close vs ${scenarios[0].name}`}
+            scenarios={scenarios}
+            render={(_, i) => (differences[i].isBaseline ? 'Baseline' : formatDiff(differences[i].cashToCloseDiff))}
+          />
+        </View>
+
+        {/* Cost of Ownership */}
+        <View style={pdfStyles.section}>
+          <Text style={pdfStyles.sectionHeaderRed}>Cost of Ownership If You Keep the Loan:</Text>
+
+          {scenarios[0].costOfOwnership.map((horizon, h) => (
+            <CompareRow
+              key={horizon.years}
+              label={`${horizon.years} years`}
+              scenarios={scenarios}
+              render={(s) => formatCurrency(s.costOfOwnership[h].totalCost)}
+            />
+          ))}
+
+          {breakEvens.map((breakEven) => {
+            const cheaper = scenarios[breakEven.initiallyCheaperIndex];
+            const other = scenarios[
+              breakEven.initiallyCheaperIndex === breakEven.firstIndex ? breakEven.secondIndex : breakEven.firstIndex
+            ];
+            return (
+              <Text key={`${breakEven.firstIndex}-${breakEven.secondIndex}`} style={[pdfStyles.textSmall, pdfStyles.mt8]}>
+                {breakEven.breakEvenMonth === null
+                  ? `${cheaper.name} costs less than ${other.name} for the full 30 years.`
+                  : `${cheaper.name} costs less than ${other.name} if you sell within ${formatMonths(breakEven.breakEvenMonth)}.`}
+              </Text>
+            );
+          })}
+        </View>
+
+        {/* Detailed Disclaimer Text */}
+        <Text style={pdfStyles.detailedDisclaimer}>
+          Cost of ownership is principal, interest and mortgage insurance paid plus cash to close, less the equity built through your down payment and principal paid. Taxes, insurance and HOA dues are not included. Adjustable-rate payments are shown at the starting rate. Figures are estimates as of {new Date().toLocaleDateString()}.
+        </Text>
+
+        <View style={pdfStyles.twoColumn}>
+          {agent && (
+            <View style={pdfStyles.column}>
+              <PdfAgentCard agent={agent} />
+            </View>
+          )}
+
+          {/* Contact Info Section */}
+          <View style={[pdfStyles.column, pdfStyles.contactSection]}>
+            <Text style={pdfStyles.contactText}>For additional financing options, call...</Text>
+            <Text style={pdfStyles.contactName}>{config.company.loName}</Text>
+            <Text style={pdfStyles.contactText}>{config.company.name}</Text>
+            <Text style={pdfStyles.contactText}>{config.company.loPhone}</Text>
+            <Text style={pdfStyles.contactText}>{config.company.loEmail}</Text>
+            <Text style={pdfStyles.contactText}>NMLS#{config.company.loNmlsId || config.company.nmlsId}</Text>
+          </View>
+        </View>
+
+        <PdfFooter config={config} />
+      </Page>
+    </Document>
+  );
+}
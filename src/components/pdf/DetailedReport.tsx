@@ -4,6 +4,12 @@ import { PdfHeader } from './PdfHeader';
 import { PdfFooter } from './PdfFooter';
 import type { LoanCalculationResult, GhlConfig, PartnerAgent } from '@/lib/schemas';
 import { formatCurrency, formatPercentSimple } from '@/lib/formatters';
+import { describeVaFundingFee } from './labels';
+import {
+  buildAmortizationSchedule,
+  summarizeAmortizationByYear,
+  getMiDropOffMonth,
+} from '@/lib/calculations/common';
 
 interface DetailedReportProps {
   result: LoanCalculationResult;
@@ -25,6 +31,11 @@ export function DetailedReport({
 }: DetailedReportProps) {
   const { monthlyPayment, closingCosts, loanAmount, cashToClose } = result;
 
+  const schedule = buildAmortizationSchedule(result);
+  const amortizationYears = summarizeAmortizationByYear(schedule);
+  const miDropOffMonth = getMiDropOffMonth(schedule);
+  const hasMi = monthlyPayment.mortgageInsurance > 0;
+
   return (
     <Document>
       <Page size="LETTER" style={pdfStyles.page}>
@@ -75,14 +86,106 @@ export function DetailedReport({
           </View>
         </View>
 
+        {/* ARM / Interest-Only Payments Section */}
+        {result.productPayments && (
+          <View style={pdfStyles.section}>
+            <Text style={pdfStyles.sectionHeaderRed}>Adjustable & Interest-Only Payments:</Text>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>
+                Start payment ({result.productPayments.interestOnlyMonths > 0
+                  ? `interest-only for ${result.productPayments.interestOnlyMonths} months`
+                  : `fixed for ${result.productPayments.fixedPeriodMonths} months`})
+              </Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.productPayments.startPayment)}</Text>
+            </View>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Worst-case adjusted payment ({formatPercentSimple(result.productPayments.worstCaseRate)})</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.productPayments.worstCasePayment)}</Text>
+            </View>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Qualifying payment ({formatPercentSimple(result.productPayments.qualifyingRate)})</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.productPayments.qualifyingPayment)}</Text>
+            </View>
+          </View>
+        )}
+
+        {/* FHA 203(k) Renovation Section */}
+        {result.fha203k && (
+          <View style={pdfStyles.section}>
+            <Text style={pdfStyles.sectionHeaderRed}>
+              {result.fha203k.type === 'limited' ? 'Limited' : 'Standard'} 203(k) Renovation Costs:
+            </Text>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Repair costs</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.repairCosts)}</Text>
+            </View>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Contingency reserve</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.contingencyReserve)}</Text>
+            </View>
+
+            {result.fha203k.consultantFee > 0 && (
+              <View style={pdfStyles.tableRow}>
+                <Text style={pdfStyles.tableCellLabel}>Consultant fee</Text>
+                <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.consultantFee)}</Text>
+              </View>
+            )}
+
+            {result.fha203k.inspectionFees > 0 && (
+              <View style={pdfStyles.tableRow}>
+                <Text style={pdfStyles.tableCellLabel}>Inspection & title update fees</Text>
+                <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.inspectionFees)}</Text>
+              </View>
+            )}
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Supplemental origination fee</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.supplementalOriginationFee)}</Text>
+            </View>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Value basis (lesser of as-is + rehab or after-improved value)</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.fha203k.valueBasis)}</Text>
+            </View>
+
+            <View style={pdfStyles.totalContainer}>
+              <Text style={pdfStyles.totalText}>Total financed rehab cost is {formatCurrency(result.fha203k.totalRehabCost)}</Text>
+            </View>
+          </View>
+        )}
+
         {/* Cash Requirements Section */}
         <View style={pdfStyles.section}>
           <Text style={pdfStyles.sectionHeaderRed}>Your Cash Requirements Include:</Text>
 
-          <View style={pdfStyles.tableRow}>
-            <Text style={pdfStyles.tableCellLabel}>Down payment ({formatPercentSimple(result.downPaymentPercent || 0)})</Text>
-            <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.downPayment)}</Text>
-          </View>
+          {result.payoff ? (
+            <>
+              <View style={pdfStyles.tableRow}>
+                <Text style={pdfStyles.tableCellLabel}>Existing loan payoff</Text>
+                <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.payoff.principalBalance)}</Text>
+              </View>
+              <View style={pdfStyles.tableRow}>
+                <Text style={pdfStyles.tableCellLabel}>
+                  Payoff interest ({result.payoff.payoffDays} days at {formatCurrency(result.payoff.perDiem)}/day)
+                </Text>
+                <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.payoff.accruedInterest)}</Text>
+              </View>
+              <View style={pdfStyles.tableRow}>
+                <Text style={pdfStyles.tableCellLabel}>New loan amount</Text>
+                <Text style={pdfStyles.tableCellValue}>-{formatCurrency(loanAmount)}</Text>
+              </View>
+            </>
+          ) : (
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Down payment ({formatPercentSimple(result.downPaymentPercent || 0)})</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.downPayment)}</Text>
+            </View>
+          )}
 
           <View style={pdfStyles.tableRow}>
             <Text style={pdfStyles.tableCellLabel}>Closing costs</Text>
@@ -109,7 +212,11 @@ export function DetailedReport({
           )}
 
           <View style={pdfStyles.totalContainer}>
-            <Text style={pdfStyles.totalText}>Total cash required is {formatCurrency(cashToClose)}</Text>
+            <Text style={pdfStyles.totalText}>
+              {cashToClose < 0
+                ? `Estimated cash to you is ${formatCurrency(-cashToClose)}`
+                : `Total cash required is ${formatCurrency(cashToClose)}`}
+            </Text>
           </View>
         </View>
 
@@ -160,6 +267,14 @@ export function DetailedReport({
             <Text style={pdfStyles.tableCellLabel}>Down Payment</Text>
             <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.downPayment)}</Text>
           </View>
+          {result.vaFundingFeeDetail && (
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>
+                VA Funding Fee ({formatPercentSimple(result.vaFundingFeeDetail.rate)}) - {describeVaFundingFee(result.vaFundingFeeDetail)}
+              </Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.vaFundingFee ?? 0)}</Text>
+            </View>
+          )}
         </View>
 
         <View style={[pdfStyles.section, { paddingHorizontal: 20 }]}>
@@ -259,7 +374,7 @@ export function DetailedReport({
 
             {/* Section D: Credits (Box) */}
             <View style={pdfStyles.column}>
-              {closingCosts.totalCredits > 0 ? (
+              {closingCosts.totalCredits > 0 || closingCosts.ufmipRefundCredit ? (
                 <>
                   <View style={pdfStyles.sectionHeaderBlueBar}>
                     <Text style={pdfStyles.sectionHeaderBlueText}>Section D: Credits</Text>
@@ -276,6 +391,14 @@ export function DetailedReport({
                     <Text style={pdfStyles.subtotalLabel}>Subtotal Section D</Text>
                     <Text style={pdfStyles.subtotalValue}>{formatCurrency(closingCosts.totalCredits)}</Text>
                   </View>
+                  {closingCosts.ufmipRefundCredit !== undefined && result.ufmipRefund && (
+                    <View style={pdfStyles.tableRow}>
+                      <Text style={pdfStyles.tableCellLabel}>
+                        UFMIP Refund ({result.ufmipRefund.refundPercent}%, credited to new UFMIP)
+                      </Text>
+                      <Text style={pdfStyles.tableCellValue}>{formatCurrency(closingCosts.ufmipRefundCredit)}</Text>
+                    </View>
+                  )}
                 </>
               ) : (
                 <View style={[pdfStyles.creditBox, { marginTop: 25 }]}>
@@ -288,6 +411,58 @@ export function DetailedReport({
 
         <PdfFooter config={config} />
       </Page>
+
+      {/* Page 3: Amortization Schedule */}
+      {amortizationYears.length > 0 && (
+        <Page size="LETTER" style={pdfStyles.page}>
+          {/* Border Frame */}
+          <View style={pdfStyles.pageFrame} />
+
+          <PdfHeader
+            config={config}
+            result={result}
+            loanType={loanType}
+          />
+
+          <View style={[pdfStyles.section, { paddingHorizontal: 20 }]}>
+            <Text style={pdfStyles.sectionTitleRed}>Amortization Schedule</Text>
+
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>Total interest over the loan</Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(schedule[schedule.length - 1].cumulativeInterest)}</Text>
+            </View>
+            {hasMi && (
+              <View style={[pdfStyles.tableRow, { marginBottom: 8 }]}>
+                <Text style={pdfStyles.tableCellLabel}>Mortgage insurance ends</Text>
+                <Text style={pdfStyles.tableCellValue}>
+                  {miDropOffMonth ? `Payment ${miDropOffMonth} (year ${Math.ceil(miDropOffMonth / 12)})` : 'Life of loan'}
+                </Text>
+              </View>
+            )}
+
+            <View style={pdfStyles.amortHeaderRow}>
+              <Text style={[pdfStyles.amortCellYear, pdfStyles.amortHeaderText]}>Year</Text>
+              <Text style={[pdfStyles.amortCell, pdfStyles.amortHeaderText]}>Principal</Text>
+              <Text style={[pdfStyles.amortCell, pdfStyles.amortHeaderText]}>Interest</Text>
+              {hasMi && <Text style={[pdfStyles.amortCell, pdfStyles.amortHeaderText]}>MI</Text>}
+              <Text style={[pdfStyles.amortCell, pdfStyles.amortHeaderText]}>Balance</Text>
+              <Text style={[pdfStyles.amortCell, pdfStyles.amortHeaderText]}>Total Interest</Text>
+            </View>
+            {amortizationYears.map((row) => (
+              <View key={row.year} style={pdfStyles.amortRow} wrap={false}>
+                <Text style={pdfStyles.amortCellYear}>{row.year}</Text>
+                <Text style={pdfStyles.amortCell}>{formatCurrency(row.principal)}</Text>
+                <Text style={pdfStyles.amortCell}>{formatCurrency(row.interest)}</Text>
+                {hasMi && <Text style={pdfStyles.amortCell}>{formatCurrency(row.mortgageInsurance)}</Text>}
+                <Text style={pdfStyles.amortCell}>{formatCurrency(row.endingBalance)}</Text>
+                <Text style={pdfStyles.amortCell}>{formatCurrency(row.cumulativeInterest)}</Text>
+              </View>
+            ))}
+          </View>
+
+          <PdfFooter config={config} />
+        </Page>
+      )}
     </Document>
   );
 }
@@ -4,6 +4,7 @@ import { PdfHeader } from './PdfHeader';
 import { PdfFooter } from './PdfFooter';
 import type { LoanCalculationResult, GhlConfig, PartnerAgent } from '@/lib/schemas';
 import { formatCurrency, formatPercentSimple } from '@/lib/formatters';
+import { describeVaFundingFee } from './labels';
 
 interface FlierLayoutProps {
   result: LoanCalculationResult;
@@ -47,6 +48,15 @@ export function FlierLayout({
             <Text style={pdfStyles.tableCellValue}>{formatCurrency(monthlyPayment.principalAndInterest)}</Text>
           </View>
 
+          {result.vaFundingFeeDetail && (
+            <View style={pdfStyles.tableRow}>
+              <Text style={pdfStyles.tableCellLabel}>
+                P&I includes financed VA funding fee ({formatPercentSimple(result.vaFundingFeeDetail.rate)} - {describeVaFundingFee(result.vaFundingFeeDetail)})
+              </Text>
+              <Text style={pdfStyles.tableCellValue}>{formatCurrency(result.vaFundingFee ?? 0)}</Text>
+            </View>
+          )}
+
           {monthlyPayment.mortgageInsurance > 0 && (
             <View style={pdfStyles.tableRow}>
               <Text style={pdfStyles.tableCellLabel}>Monthly mortgage insurance ({formatPercentSimple(result.monthlyMiRate || 0.55)})</Text>
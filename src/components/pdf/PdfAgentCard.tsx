@@ -0,0 +1,31 @@
+import { View, Text, Image } from '@react-pdf/renderer';
+import { pdfStyles } from './styles';
+import type { PartnerAgent } from '@/lib/schemas';
+
+interface PdfAgentCardProps {
+  agent: PartnerAgent;
+  label?: string;
+}
+
+/**
+ * Partner agent co-branding block with optional headshot and brokerage logo.
+ */
+export function PdfAgentCard({ agent, label = 'Your Real Estate Agent' }: PdfAgentCardProps) {
+  return (
+    <View style={pdfStyles.agentSection}>
+      {agent.headshotUrl && (
+        <Image src={agent.headshotUrl} style={{ width: 48, height: 48, borderRadius: 24, marginRight: 12 }} />
+      )}
+      <View style={pdfStyles.agentInfo}>
+        <Text style={pdfStyles.agentLabel}>{label}</Text>
+        <Text style={pdfStyles.agentName}>{agent.name}</Text>
+        {agent.company && <Text style={pdfStyles.agentContact}>{agent.company}</Text>}
+        {agent.phone && <Text style={pdfStyles.agentContact}>{agent.phone}</Text>}
+        {agent.email && <Text style={pdfStyles.agentContact}>{agent.email}</Text>}
+      </View>
+      {agent.logoUrl && (
+        <Image src={agent.logoUrl} style={{ width: 80, height: 'auto' }} />
+      )}
+    </View>
+  );
+}
@@ -5,22 +5,30 @@ import { formatCurrency, formatPercentSimple } from '@/lib/formatters';
 
 interface PdfHeaderProps {
   config: GhlConfig;
-  result: LoanCalculationResult;
+  result?: LoanCalculationResult;
   loanType?: string;
+  title?: string; // Overrides the "<loanType> Financing" title
+  subtitle?: string; // Overrides the loan summary line
 }
 
 /**
  * PDF Header component with Viewpoint branding and dynamic loan summary.
+ * Documents without a loan (e.g. the seller net sheet) pass their own title and subtitle.
  */
-export function PdfHeader({ config, result, loanType }: PdfHeaderProps) {
-  const { loanAmount, interestRate, apr, term } = result;
+export function PdfHeader({ config, result, loanType, title, subtitle }: PdfHeaderProps) {
+  const loanSummary = result
+    ? `Sales Price ${formatCurrency(result.propertyValue)}, Loan Amount ${formatCurrency(result.loanAmount)}, ` +
+      `Interest Rate ${formatPercentSimple(result.interestRate)} (APR ${formatPercentSimple(result.apr)}), ${result.term} Years`
+    : '';
 
   return (
     <View style={pdfStyles.header}>
-      {/* Top Disclaimer */}
-      <Text style={pdfStyles.topDisclaimer}>
-        Your actual rate, payment, and costs could be higher. Get an official Loan Estimate before choosing a loan.
-      </Text>
+      {/* Top Disclaimer (loan documents only) */}
+      {result && (
+        <Text style={pdfStyles.topDisclaimer}>
+          Your actual rate, payment, and costs could be higher. Get an official Loan Estimate before choosing a loan.
+        </Text>
+      )}
 
       {/* Main Header with Logo */}
       <View style={pdfStyles.headerMain}>
@@ -32,11 +40,8 @@ export function PdfHeader({ config, result, loanType }: PdfHeaderProps) {
 
       {/* Centered Titles */}
       <View style={pdfStyles.titleContainer}>
-        <Text style={pdfStyles.mainTitle}>{loanType || 'Loan'} Financing</Text>
-        <Text style={pdfStyles.subTitle}>
-          Sales Price {formatCurrency(result.propertyValue)}, Loan Amount {formatCurrency(loanAmount)},
-          Interest Rate {formatPercentSimple(interestRate)} (APR {formatPercentSimple(apr)}), {term} Years
-        </Text>
+        <Text style={pdfStyles.mainTitle}>{title ?? `${loanType || 'Loan'} Financing`}</Text>
+        <Text style={pdfStyles.subTitle}>{subtitle ?? loanSummary}</Text>
       </View>
     </View>
   );
@@ -0,0 +1,182 @@
+import { Document, Page, View, Text } from '@react-pdf/renderer';
+import { pdfStyles } from './styles';
+import { PdfHeader } from './PdfHeader';
+import { PdfFooter } from './PdfFooter';
+import { PdfAgentCard } from './PdfAgentCard';
+import type { GhlConfig, PartnerAgent } from '@/lib/schemas';
+import type { SellerNetProration, SellerNetResult } from '@/lib/calculations/seller-net';
+import { formatCurrency } from '@/lib/formatters';
+
+interface SellerNetReportProps {
+  result: SellerNetResult;
+  config: GhlConfig;
+  agent?: PartnerAgent | null;
+  propertyAddress?: string;
+}
+
+const PRORATION_LABELS: Record<SellerNetProration['type'], string> = {
+  propertyTax: 'Property tax proration',
+  hoa: 'HOA dues proration',
+};
+
+function ReportRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={pdfStyles.tableRow}>
+      <Text style={pdfStyles.tableCellLabel}>{label}</Text>
+      <Text style={pdfStyles.tableCellValue}>{value}</Text>
+    </View>
+  );
+}
+
+function describeProration(proration: SellerNetProration): string {
+  return `${PRORATION_LABELS[proration.type]} (${proration.days} days at ${formatCurrency(proration.dailyRate)}/day from ${proration.periodStart})`;
+}
+
+/**
+ * Seller net sheet handout for listing presentations, co-branded with the partner agent.
+ */
+export function SellerNetReport({
+  result,
+  config,
+  agent,
+  propertyAddress,
+}: SellerNetReportProps) {
+  // Costs only itemize when they apply; the listing commission always shows
+  const costs: [string, number][] = [
+    ['Listing agent commission', result.listingCommission],
+    ['Buyer agent commission', result.buyerAgentCommission],
+    ['Flat-fee brokerage', result.brokerageFee],
+    ['Transaction fee', result.transactionFee],
+    ['Seller-paid buyer closing costs', result.sellerPaidClosingCosts],
+    ['Title insurance', result.titleInsurance],
+    ['Escrow fee', result.escrowFee],
+    ['Transfer tax', result.transferTax],
+    ['Recording fees', result.recordingFees],
+    ['Repair credits', result.repairCredits],
+    ['HOA payoff', result.hoaPayoff],
+    ['Other debits', result.otherDebits],
+  ];
+  const itemizedCosts = costs.filter(([, amount], index) => index === 0 || amount > 0);
+
+  // Manual tax proration only applies when no date-based one was computed
+  const hasTaxDetail = result.prorations.some((proration) => proration.type === 'propertyTax');
+  const manualTaxProration = hasTaxDetail ? 0 : result.propertyTaxProration;
+  const hasProrations = result.prorations.length > 0 || manualTaxProration !== 0 || result.otherCredits > 0;
+
+  const subtitle = [
+    propertyAddress,
+    `Sales Price ${formatCurrency(result.salesPrice)}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Document>
+      <Page size="LETTER" style={pdfStyles.page}>
+        {/* Border Frame */}
+        <View style={pdfStyles.pageFrame} />
+
+        <PdfHeader
+          config={config}
+          title="Seller Net Sheet"
+          subtitle={subtitle}
+        />
+
+        {/* Payoffs Section */}
+        <View style={pdfStyles.section}>
+          <Text style={pdfStyles.sectionHeaderRed}>Loan Payoffs:</Text>
+
+          <ReportRow label="First mortgage payoff" value={formatCurrency(result.firstMortgagePayoff)} />
+          {result.secondLienPayoff > 0 && (
+            <ReportRow label="Second lien payoff" value={formatCurrency(result.secondLienPayoff)} />
+          )}
+
+          <View style={pdfStyles.totalContainer}>
+            <Text style={pdfStyles.totalText}>Total payoffs are {formatCurrency(result.totalPayoffs)}</Text>
+          </View>
+        </View>
+
+        {/* Selling Costs Section */}
+        <View style={pdfStyles.section}>
+          <Text style={pdfStyles.sectionHeaderRed}>Your Selling Costs Include:</Text>
+
+          {itemizedCosts.map(([label, amount]) => (
+            <ReportRow key={label} label={label} value={formatCurrency(amount)} />
+          ))}
+
+          <View style={pdfStyles.totalContainer}>
+            <Text style={pdfStyles.totalText}>Total selling costs are {formatCurrency(result.totalCosts)}</Text>
+          </View>
+        </View>
+
+        {/* Prorations & Credits Section */}
+        {hasProrations && (
+          <View style={pdfStyles.section}>
+            <Text style={pdfStyles.sectionHeaderRed}>Prorations & Credits:</Text>
+
+            {manualTaxProration !== 0 && (
+              <ReportRow
+                label={manualTaxProration > 0 ? 'Property tax proration' : 'Property tax proration (credit)'}
+                value={manualTaxProration > 0 ? formatCurrency(manualTaxProration) : `-${formatCurrency(-manualTaxProration)}`}
+              />
+            )}
+            {result.prorations.map((proration) => (
+              <ReportRow
+                key={proration.type}
+                label={describeProration(proration)}
+                value={proration.amount > 0 ? formatCurrency(proration.amount) : `-${formatCurrency(-proration.amount)}`}
+              />
+            ))}
+            {result.otherCredits > 0 && (
+              <ReportRow label="Other credits" value={`-${formatCurrency(result.otherCredits)}`} />
+            )}
+
+            <View style={pdfStyles.totalContainer}>
+              <Text style={pdfStyles.totalText}>Total credits to you are {formatCurrency(result.totalCredits)}</Text>
+            </View>
+          </View>
+        )}
+
+        {/* Net Proceeds Section */}
+        <View style={pdfStyles.section}>
+          <Text style={pdfStyles.sectionHeaderRed}>Your Estimated Net Proceeds:</Text>
+
+          <ReportRow label="Sales price" value={formatCurrency(result.salesPrice)} />
+          <ReportRow label="Payoffs, selling costs and prorations" value={`-${formatCurrency(result.totalDebits)}`} />
+          {result.totalCredits > 0 && (
+            <ReportRow label="Credits to you" value={formatCurrency(result.totalCredits)} />
+          )}
+
+          <View style={pdfStyles.totalContainer}>
+            <Text style={pdfStyles.totalText}>
+              {result.estimatedNetProceeds < 0
+                ? `Estimated shortfall is ${formatCurrency(-result.estimatedNetProceeds)}`
+                : `Estimated net proceeds are ${formatCurrency(result.estimatedNetProceeds)}`}
+            </Text>
+          </View>
+        </View>
+
+        {/* Detailed Disclaimer Text */}
+        <Text style={pdfStyles.detailedDisclaimer}>
+          Payoff amounts, commissions, title and escrow fees, transfer taxes and prorations are estimates as of {new Date().toLocaleDateString()}. Actual figures will be shown on your settlement statement and can vary with your closing date, lender payoff statement and title company.
+        </Text>
+
+        {agent && (
+          <View style={{ paddingHorizontal: 40 }}>
+            <PdfAgentCard agent={agent} />
+          </View>
+        )}
+
+        {/* Contact Info Section */}
+        <View style={pdfStyles.contactSection}>
+          <Text style={pdfStyles.contactText}>For financing options for your next home, call...</Text>
+          <Text style={pdfStyles.contactName}>{config.company.loName}</Text>
+          <Text style={pdfStyles.contactText}>{config.company.name}</Text>
+          <Text style={pdfStyles.contactText}>{config.company.loPhone}</Text>
+          <Text style={pdfStyles.contactText}>{config.company.loEmail}</Text>
+          <Text style={pdfStyles.contactText}>NMLS#{config.company.loNmlsId || config.company.nmlsId}</Text>
+        </View>
+
+        <PdfFooter config={config} />
+      </Page>
+    </Document>
+  );
+}
@@ -2,4 +2,7 @@ export { FlierLayout } from './FlierLayout';
 export { DetailedReport } from './DetailedReport';
 export { PdfHeader } from './PdfHeader';
 export { PdfFooter } from './PdfFooter';
+export { SellerNetReport } from './SellerNetReport';
+export { ComparisonReport } from './ComparisonReport';
+export { PdfAgentCard } from './PdfAgentCard';
 export { pdfStyles } from './styles';
@@ -0,0 +1,25 @@
+import type { VaFundingFeeDetail, VaFundingFeeReason } from '@/lib/schemas';
+
+const VA_FUNDING_FEE_REASONS: Record<VaFundingFeeReason, string> = {
+  disability_exempt: 'Exempt (service-connected disability)',
+  irrrl: 'IRRRL',
+  cash_out: 'Cash-out refinance',
+  down_lt5: 'Less than 5% down',
+  down_5to10: '5% to less than 10% down',
+  down_10plus: '10% or more down',
+};
+
+/**
+ * Describe which VA funding fee tier applied, e.g.
+ * "Less than 5% down, first use, Reserves/National Guard".
+ */
+export function describeVaFundingFee(detail: VaFundingFeeDetail): string {
+  const parts = [
+    VA_FUNDING_FEE_REASONS[detail.reason],
+    detail.vaUsage === 'first' ? 'first use' : 'subsequent use',
+  ];
+  if (detail.isReservist) {
+    parts.push('Reserves/National Guard');
+  }
+  return parts.join(', ');
+}
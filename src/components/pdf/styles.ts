@@ -182,6 +182,66 @@ export const pdfStyles = StyleSheet.create({
     textAlign: 'right',
   },
 
+  // Amortization table
+  amortHeaderRow: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+    backgroundColor: NAIBOR_BLUE_LIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: NAIBOR_BLUE_BORDER,
+  },
+  amortRow: {
+    flexDirection: 'row',
+    paddingVertical: 2,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#F1F5F9',
+  },
+  amortCellYear: {
+    width: '10%',
+    fontSize: 8,
+    paddingLeft: 4,
+  },
+  amortCell: {
+    flex: 1,
+    fontSize: 8,
+    textAlign: 'right',
+    paddingRight: 4,
+  },
+  amortHeaderText: {
+    fontWeight: 'bold',
+    color: NAIBOR_BLUE,
+  },
+
+  // Side-by-side comparison table
+  compareHeaderRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+    backgroundColor: NAIBOR_BLUE_LIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: NAIBOR_BLUE_BORDER,
+  },
+  compareRow: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#F1F5F9',
+  },
+  compareLabelCell: {
+    width: '25%',
+    fontSize: 9,
+    paddingLeft: 4,
+  },
+  compareCell: {
+    flex: 1,
+    fontSize: 9,
+    textAlign: 'right',
+    paddingRight: 4,
+  },
+  compareHeaderText: {
+    fontWeight: 'bold',
+    color: NAIBOR_BLUE,
+  },
+
   // Totals
   totalContainer: {
     alignItems: 'center',
@@ -1,8 +1,8 @@
 'use client';
 
-import { useEffect, useId } from 'react';
+import { useId } from 'react';
 import { useTranslations } from 'next-intl';
-import { useCalculatorStore, useLoadAgents } from '@/lib/store';
+import { useCalculatorStore } from '@/lib/store';
 
 interface AgentSelectorProps {
   disabled?: boolean;
@@ -11,13 +11,8 @@ interface AgentSelectorProps {
 export function AgentSelector({ disabled = false }: AgentSelectorProps) {
   const t = useTranslations();
   const id = useId();
-  const { loadAgents } = useLoadAgents();
   const { agents, agentsLoading, selectedAgent, setSelectedAgent } = useCalculatorStore();
 
-  useEffect(() => {
-    loadAgents();
-  }, [loadAgents]);
-
   const handleChange = (agentId: string) => {
     if (agentId === '') {
       setSelectedAgent(null);
@@ -0,0 +1,110 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import type { LoanCalculationResult } from '@/lib/schemas';
+import {
+  buildAmortizationSchedule,
+  summarizeAmortizationByYear,
+  getMiDropOffMonth,
+} from '@/lib/calculations/common';
+import { formatCurrencyWithCents } from '@/lib/formatters';
+
+interface AmortizationScheduleProps {
+  result: LoanCalculationResult;
+}
+
+/**
+ * Year-by-year amortization table with an optional monthly view.
+ */
+export function AmortizationSchedule({ result }: AmortizationScheduleProps) {
+  const t = useTranslations('calculator.amortization');
+  const [view, setView] = useState<'yearly' | 'monthly'>('yearly');
+
+  const schedule = useMemo(() => buildAmortizationSchedule(result), [result]);
+  const years = useMemo(() => summarizeAmortizationByYear(schedule), [schedule]);
+  const miDropOffMonth = useMemo(() => getMiDropOffMonth(schedule), [schedule]);
+  const hasMi = result.monthlyPayment.mortgageInsurance > 0;
+
+  if (schedule.length === 0) return null;
+
+  const totalInterest = schedule[schedule.length - 1].cumulativeInterest;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-800">{t('title')}</h3>
+        <div className="flex gap-1 bg-slate-100 rounded-full p-1 text-sm">
+          {(['yearly', 'monthly'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-full transition-colors cursor-pointer ${view === option
+                ? 'bg-slate-800 text-white font-medium'
+                : 'text-slate-600 hover:bg-slate-200'
+                }`}
+            >
+              {t(option)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div className="bg-[#cbe5f2]/50 rounded-lg p-3">
+          <p className="text-slate-600">{t('totalInterest')}</p>
+          <p className="font-semibold text-slate-800">{formatCurrencyWithCents(totalInterest)}</p>
+        </div>
+        {hasMi && (
+          <div className="bg-[#cbe5f2]/50 rounded-lg p-3">
+            <p className="text-slate-600">{t('miDropOff')}</p>
+            <p className="font-semibold text-slate-800">
+              {miDropOffMonth
+                ? t('miDropOffMonth', { month: miDropOffMonth, year: Math.ceil(miDropOffMonth / 12) })
+                : t('miLifeOfLoan')}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr className="text-slate-600">
+              <th className="text-left px-3 py-2 font-medium">{view === 'yearly' ? t('year') : t('month')}</th>
+              <th className="text-right px-3 py-2 font-medium">{t('principal')}</th>
+              <th className="text-right px-3 py-2 font-medium">{t('interest')}</th>
+              {hasMi && <th className="text-right px-3 py-2 font-medium">{t('mortgageInsurance')}</th>}
+              <th className="text-right px-3 py-2 font-medium">{t('balance')}</th>
+              <th className="text-right px-3 py-2 font-medium">{t('cumulativeInterest')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {view === 'yearly'
+              ? years.map((row) => (
+                <tr key={row.year} className="border-t border-slate-100">
+                  <td className="px-3 py-1.5 text-slate-600">{row.year}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.principal)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.interest)}</td>
+                  {hasMi && <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.mortgageInsurance)}</td>}
+                  <td className="px-3 py-1.5 text-right font-medium">{formatCurrencyWithCents(row.endingBalance)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.cumulativeInterest)}</td>
+                </tr>
+              ))
+              : schedule.map((row) => (
+                <tr key={row.month} className="border-t border-slate-100">
+                  <td className="px-3 py-1.5 text-slate-600">{row.month}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.principal)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.interest)}</td>
+                  {hasMi && <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.mortgageInsurance)}</td>}
+                  <td className="px-3 py-1.5 text-right font-medium">{formatCurrencyWithCents(row.balance)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatCurrencyWithCents(row.cumulativeInterest)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCalculatorStore, useLoadAgents, useLoadConfig } from '@/lib/store';
+import type { Session } from '@/lib/schemas';
+
+interface AppDataProviderProps {
+  session: Session | null; // Verified from the session cookie by the layout
+  children: React.ReactNode;
+}
+
+/**
+ * Loads the GHL config and partner agents once for the whole app, and shows a
+ * status notice while loading, after a failure, or when running on the
+ * last-known-good config snapshot. Nothing is loaded until the user signs in.
+ */
+export function AppDataProvider({ session, children }: AppDataProviderProps) {
+  const t = useTranslations('appData');
+  const locale = useLocale();
+  const { loadConfig } = useLoadConfig();
+  const { loadAgents } = useLoadAgents();
+  const {
+    setSession,
+    config,
+    configLoading,
+    configError,
+    configSnapshotAt,
+    agentsLoading,
+    agentsError,
+  } = useCalculatorStore();
+
+  useEffect(() => {
+    setSession(session);
+  }, [session, setSession]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadConfig();
+    loadAgents();
+  }, [session, loadConfig, loadAgents]);
+
+  const handleRetry = () => {
+    if (configError) loadConfig({ force: true });
+    if (agentsError) loadAgents({ force: true });
+  };
+
+  const isRetrying = configLoading || agentsLoading;
+
+  let notice: { tone: 'info' | 'warning' | 'error'; message: string } | null = null;
+  if (!config && configLoading) {
+    notice = { tone: 'info', message: t('loading') };
+  } else if (!config && configError) {
+    notice = { tone: 'error', message: t('configError', { error: configError }) };
+  } else if (configSnapshotAt) {
+    notice = {
+      tone: 'warning',
+      message: t('usingSnapshot', { savedAt: new Date(configSnapshotAt).toLocaleString(locale) }),
+    };
+  } else if (agentsError) {
+    notice = { tone: 'warning', message: t('agentsError') };
+  }
+
+  const toneClasses = {
+    info: 'bg-blue-50 border-blue-200 text-blue-700',
+    warning: 'bg-amber-50 border-amber-200 text-amber-800',
+    error: 'bg-red-50 border-red-200 text-red-700',
+  };
+
+  return (
+    <>
+      {children}
+
+      {session && notice && (
+        <div
+          role="status"
+          className={`fixed bottom-4 right-4 z-50 max-w-sm rounded-lg border px-4 py-3 shadow-md ${toneClasses[notice.tone]}`}
+        >
+          <div className="flex items-start gap-3">
+            {notice.tone === 'info' && (
+              <div className="mt-0.5 h-4 w-4 shrink-0 animate-spin rounded-full border-2 border-current border-t-transparent" />
+            )}
+            <p className="flex-1 text-sm">{notice.message}</p>
+            {notice.tone !== 'info' && (
+              <button
+                type="button"
+                onClick={handleRetry}
+                disabled={isRetrying}
+                className="shrink-0 text-sm font-semibold underline disabled:opacity-50"
+              >
+                {isRetrying ? t('retrying') : t('retry')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
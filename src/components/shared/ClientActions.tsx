@@ -0,0 +1,594 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { useCalculatorStore, type ClientCalculatorType } from '@/lib/store';
+import { ClientStateSchema, type ClientScenarioSummary, type ClientState } from '@/lib/schemas';
+import { Button } from './Button';
+import { InputGroup } from './InputGroup';
+
+// Route segment under /calculators for each saveable calculator
+export const CLIENT_CALCULATOR_ROUTES: Record<ClientCalculatorType, string> = {
+  conventional: 'conventional',
+  fha: 'fha',
+  va: 'va',
+  usda: 'usda',
+  conventionalRefi: 'conventional-refi',
+  fhaRefi: 'fha-refi',
+  vaRefi: 'va-refi',
+  sellerNet: 'seller-net',
+  comparison: 'comparison',
+  affordability: 'affordability',
+};
+
+// Value stored in the contact's loan_program field
+const LOAN_PROGRAM_BY_TYPE: Partial<Record<ClientCalculatorType, string>> = {
+  conventional: 'conventional',
+  fha: 'fha',
+  va: 'va',
+  usda: 'usda',
+  conventionalRefi: 'conventional',
+  fhaRefi: 'fha',
+  vaRefi: 'va',
+};
+
+interface ContactSearchResult {
+  id: string;
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+  loanAmount?: string;
+  loanProgram?: string;
+}
+
+interface LoadedContact {
+  id: string;
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+}
+
+interface ScenarioEdit {
+  scenarioId: string;
+  mode: 'rename' | 'duplicate';
+  name: string;
+}
+
+interface ClientActionsProps {
+  calculatorType: ClientCalculatorType;
+}
+
+const numberOrUndefined = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Searchable contact fields pulled from a saved calculator state.
+ */
+function getSearchableFields(type: ClientCalculatorType, clientState: ClientState) {
+  return {
+    loanAmount: clientState.results?.totalLoanAmount,
+    salesPrice: numberOrUndefined(clientState.inputs.salesPrice),
+    interestRate: clientState.results?.interestRate ?? numberOrUndefined(clientState.inputs.interestRate),
+    loanProgram: LOAN_PROGRAM_BY_TYPE[type],
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return typeof body.error === 'string' ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const displayName = (contact: Partial<LoadedContact>) =>
+  contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email || contact.phone || '';
+
+/**
+ * "Save to client" and "Load client" buttons for the active calculator. Saving
+ * adds the calculator's inputs, results, DTI data and partner agent to the GHL
+ * contact as a named scenario; loading lists the contact's scenarios, restores
+ * the chosen one and opens the calculator it came from.
+ */
+export function ClientActions({ calculatorType }: ClientActionsProps) {
+  const t = useTranslations('clients');
+  const locale = useLocale();
+  const router = useRouter();
+  const { activeClient, setActiveClient, exportClientState, importClientState } = useCalculatorStore();
+
+  const [dialog, setDialog] = useState<'save' | 'load' | null>(null);
+  const [contact, setContact] = useState({ firstName: '', lastName: '', email: '', phone: '' });
+  const [scenarioName, setScenarioName] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ContactSearchResult[] | null>(null);
+  const [loadedContact, setLoadedContact] = useState<LoadedContact | null>(null);
+  const [scenarios, setScenarios] = useState<ClientScenarioSummary[]>([]);
+  const [legacyState, setLegacyState] = useState<{ state: ClientState; droppedFields: string[] } | null>(null);
+  const [edit, setEdit] = useState<ScenarioEdit | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const openSave = () => {
+    setContact({
+      firstName: activeClient?.firstName ?? '',
+      lastName: activeClient?.lastName ?? '',
+      email: activeClient?.email ?? '',
+      phone: activeClient?.phone ?? '',
+    });
+    setScenarioName(t('defaultScenarioName', {
+      calculator: t(`calculatorNames.${calculatorType}`),
+      date: new Date().toLocaleDateString(locale),
+    }));
+    setError(null);
+    setDialog('save');
+  };
+
+  const openLoad = () => {
+    setQuery('');
+    setResults(null);
+    setLoadedContact(null);
+    setEdit(null);
+    setError(null);
+    setDialog('load');
+  };
+
+  const closeDialog = () => {
+    if (!busy) setDialog(null);
+  };
+
+  const handleSave = async () => {
+    if (!contact.email && !contact.phone) {
+      setError(t('contactRequired'));
+      return;
+    }
+    if (!scenarioName.trim()) {
+      setError(t('scenarioNameRequired'));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const calculatorState = exportClientState(calculatorType);
+      const response = await fetch('/api/clients/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          firstName: contact.firstName || undefined,
+          lastName: contact.lastName || undefined,
+          email: contact.email || undefined,
+          phone: contact.phone || undefined,
+          calculatorState,
+          scenarioName: scenarioName.trim(),
+          ...getSearchableFields(calculatorType, calculatorState),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, t('saveFailed')));
+      }
+
+      const { contactId } = await response.json();
+      setActiveClient({ id: contactId, ...contact });
+      setMessage(t('saved', { scenario: scenarioName.trim(), name: displayName(contact) }));
+      setDialog(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clients/load?query=${encodeURIComponent(query.trim())}`);
+      if (!response.ok) {
+        throw new Error(await readError(response, t('searchFailed')));
+      }
+      const { contacts } = await response.json();
+      setResults(contacts ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('searchFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelectContact = async (contactId: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clients/load?id=${encodeURIComponent(contactId)}`);
+      if (!response.ok) {
+        throw new Error(await readError(response, t('loadFailed')));
+      }
+
+      const body = await response.json();
+      const legacy = ClientStateSchema.safeParse(body.calculatorState);
+      setLoadedContact(body.contact);
+      setScenarios(body.scenarios ?? []);
+      setLegacyState(legacy.success && legacy.data.calculatorType in CLIENT_CALCULATOR_ROUTES
+        ? { state: legacy.data, droppedFields: body.droppedFields ?? [] }
+        : null);
+      setEdit(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refreshScenarios = async (contactId: string) => {
+    const response = await fetch(`/api/clients/${encodeURIComponent(contactId)}/scenarios`);
+    if (!response.ok) {
+      throw new Error(await readError(response, t('loadFailed')));
+    }
+    const body = await response.json();
+    setScenarios(body.scenarios ?? []);
+  };
+
+  const applyClientState = (
+    clientState: ClientState,
+    client: LoadedContact,
+    scenario: string,
+    droppedFields: string[] = []
+  ) => {
+    importClientState(clientState);
+    setActiveClient({
+      id: client.id,
+      firstName: client.firstName ?? '',
+      lastName: client.lastName ?? '',
+      email: client.email ?? '',
+      phone: client.phone ?? '',
+    });
+    // Saved fields the current calculators no longer understand
+    setMessage(droppedFields.length > 0
+      ? t('loadedWithDropped', { scenario, name: displayName(client), fields: droppedFields.join(', ') })
+      : t('loaded', { scenario, name: displayName(client) }));
+    setDialog(null);
+
+    const loadedType = clientState.calculatorType as ClientCalculatorType;
+    if (loadedType !== calculatorType) {
+      router.push(`/${locale}/calculators/${CLIENT_CALCULATOR_ROUTES[loadedType]}`);
+    }
+  };
+
+  const handleLoadScenario = async (scenario: ClientScenarioSummary) => {
+    if (!loadedContact) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/clients/${encodeURIComponent(loadedContact.id)}/scenarios/${encodeURIComponent(scenario.id)}`
+      );
+      if (!response.ok) {
+        throw new Error(await readError(response, t('loadFailed')));
+      }
+
+      const body = await response.json();
+      const parsed = ClientStateSchema.safeParse(body.scenario?.state);
+      if (!parsed.success || !(parsed.data.calculatorType in CLIENT_CALCULATOR_ROUTES)) {
+        throw new Error(t('noSavedState'));
+      }
+
+      applyClientState(parsed.data, loadedContact, scenario.name, body.droppedFields);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEditScenario = async () => {
+    if (!loadedContact || !edit) return;
+    if (!edit.name.trim()) {
+      setError(t('scenarioNameRequired'));
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const url = `/api/clients/${encodeURIComponent(loadedContact.id)}/scenarios/${encodeURIComponent(edit.scenarioId)}`;
+      const response = edit.mode === 'rename'
+        ? await fetch(url, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: edit.name.trim() }),
+        })
+        : await fetch(`${url}/duplicate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: edit.name.trim() }),
+        });
+      if (!response.ok) {
+        throw new Error(await readError(response, t('updateFailed')));
+      }
+
+      setEdit(null);
+      await refreshScenarios(loadedContact.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('updateFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteScenario = async (scenario: ClientScenarioSummary) => {
+    if (!loadedContact || !window.confirm(t('confirmDelete', { scenario: scenario.name }))) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/clients/${encodeURIComponent(loadedContact.id)}/scenarios/${encodeURIComponent(scenario.id)}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) {
+        throw new Error(await readError(response, t('updateFailed')));
+      }
+
+      await refreshScenarios(loadedContact.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('updateFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {activeClient && (
+          <span className="text-sm text-slate-600 mr-auto">
+            {t('activeClient', { name: displayName(activeClient) })}
+          </span>
+        )}
+        {message && <span className="text-sm text-green-700">{message}</span>}
+        <Button variant="outline" size="sm" onClick={openLoad}>
+          {t('loadClient')}
+        </Button>
+        <Button variant="secondary" size="sm" onClick={openSave}>
+          {t('saveToClient')}
+        </Button>
+      </div>
+
+      {dialog && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4"
+          onClick={closeDialog}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="client-dialog-title"
+            className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 id="client-dialog-title" className="text-lg font-semibold text-slate-900">
+              {dialog === 'save' ? t('saveTitle') : t('loadTitle')}
+            </h2>
+
+            {dialog === 'save' ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <InputGroup
+                    label={t('firstName')}
+                    name="client-first-name"
+                    value={contact.firstName}
+                    onChange={(val) => setContact({ ...contact, firstName: val })}
+                  />
+                  <InputGroup
+                    label={t('lastName')}
+                    name="client-last-name"
+                    value={contact.lastName}
+                    onChange={(val) => setContact({ ...contact, lastName: val })}
+                  />
+                </div>
+                <InputGroup
+                  label={t('email')}
+                  name="client-email"
+                  type="email"
+                  value={contact.email}
+                  onChange={(val) => setContact({ ...contact, email: val })}
+                />
+                <InputGroup
+                  label={t('phone')}
+                  name="client-phone"
+                  type="tel"
+                  value={contact.phone}
+                  onChange={(val) => setContact({ ...contact, phone: val })}
+                />
+                <InputGroup
+                  label={t('scenarioName')}
+                  name="client-scenario-name"
+                  value={scenarioName}
+                  onChange={setScenarioName}
+                />
+              </div>
+            ) : loadedContact ? (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-slate-800">{displayName(loadedContact)}</p>
+                  <button
+                    type="button"
+                    onClick={() => setLoadedContact(null)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {t('backToSearch')}
+                  </button>
+                </div>
+
+                {scenarios.length === 0 && !legacyState ? (
+                  <p className="text-sm text-slate-500">{t('noScenarios')}</p>
+                ) : (
+                  <ul className="max-h-80 overflow-y-auto divide-y divide-slate-100 rounded-lg border border-slate-200">
+                    {scenarios.map((scenario) => (
+                      <li key={scenario.id} className="px-3 py-2 space-y-2">
+                        {edit?.scenarioId === scenario.id ? (
+                          <form
+                            className="flex gap-2 items-end"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              handleEditScenario();
+                            }}
+                          >
+                            <div className="flex-1">
+                              <InputGroup
+                                label={edit.mode === 'rename' ? t('rename') : t('duplicate')}
+                                name={`scenario-${scenario.id}-name`}
+                                value={edit.name}
+                                onChange={(val) => setEdit({ ...edit, name: val })}
+                              />
+                            </div>
+                            <Button type="submit" size="sm" loading={busy}>
+                              {t('save')}
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => setEdit(null)} disabled={busy}>
+                              {t('cancel')}
+                            </Button>
+                          </form>
+                        ) : (
+                          <div className="flex items-start justify-between gap-3">
+                            <button
+                              type="button"
+                              onClick={() => handleLoadScenario(scenario)}
+                              disabled={busy}
+                              className="flex-1 text-left disabled:opacity-50"
+                            >
+                              <span className="block text-sm font-medium text-slate-800 hover:text-blue-700">{scenario.name}</span>
+                              <span className="block text-xs text-slate-500">
+                                {scenario.calculatorType in CLIENT_CALCULATOR_ROUTES
+                                  ? t(`calculatorNames.${scenario.calculatorType}`)
+                                  : scenario.calculatorType}
+                                {' · '}
+                                {new Date(scenario.updatedAt).toLocaleString(locale)}
+                              </span>
+                            </button>
+                            <div className="flex gap-2 text-xs font-medium">
+                              <button
+                                type="button"
+                                onClick={() => setEdit({ scenarioId: scenario.id, mode: 'rename', name: scenario.name })}
+                                disabled={busy}
+                                className="text-slate-500 hover:text-slate-800"
+                              >
+                                {t('rename')}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEdit({ scenarioId: scenario.id, mode: 'duplicate', name: t('copyName', { scenario: scenario.name }) })}
+                                disabled={busy}
+                                className="text-slate-500 hover:text-slate-800"
+                              >
+                                {t('duplicate')}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDeleteScenario(scenario)}
+                                disabled={busy}
+                                className="text-slate-500 hover:text-red-600"
+                              >
+                                {t('delete')}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                    {legacyState && (
+                      <li className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => applyClientState(legacyState.state, loadedContact, t('legacyScenario'), legacyState.droppedFields)}
+                          disabled={busy}
+                          className="w-full text-left disabled:opacity-50"
+                        >
+                          <span className="block text-sm font-medium text-slate-800 hover:text-blue-700">{t('legacyScenario')}</span>
+                          <span className="block text-xs text-slate-500">
+                            {t(`calculatorNames.${legacyState.state.calculatorType}`)}
+                          </span>
+                        </button>
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <form
+                  className="flex gap-2 items-end"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSearch();
+                  }}
+                >
+                  <div className="flex-1">
+                    <InputGroup
+                      label={t('search')}
+                      name="client-search"
+                      value={query}
+                      onChange={(val) => setQuery(val)}
+                      placeholder={t('searchPlaceholder')}
+                    />
+                  </div>
+                  <Button type="submit" size="md" loading={busy} disabled={!query.trim()}>
+                    {t('searchButton')}
+                  </Button>
+                </form>
+
+                {results && results.length === 0 && (
+                  <p className="text-sm text-slate-500">{t('noResults')}</p>
+                )}
+                {results && results.length > 0 && (
+                  <ul className="max-h-72 overflow-y-auto divide-y divide-slate-100 rounded-lg border border-slate-200">
+                    {results.map((result) => (
+                      <li key={result.id}>
+                        <button
+                          type="button"
+                          onClick={() => handleSelectContact(result.id)}
+                          disabled={busy}
+                          className="w-full px-3 py-2 text-left hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          <span className="block text-sm font-medium text-slate-800">
+                            {displayName(result)}
+                          </span>
+                          <span className="block text-xs text-slate-500">
+                            {[result.email, result.phone, result.loanProgram].filter(Boolean).join(' · ')}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={closeDialog} disabled={busy}>
+                {t('cancel')}
+              </Button>
+              {dialog === 'save' && (
+                <Button onClick={handleSave} loading={busy}>
+                  {t('save')}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
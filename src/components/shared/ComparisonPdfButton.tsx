@@ -0,0 +1,73 @@
+'use client';
+
+import { useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import { useTranslations } from 'next-intl';
+import { useCalculatorStore } from '@/lib/store';
+import type { GhlConfig } from '@/lib/schemas';
+import type { ComparisonResult } from '@/lib/calculations/comparison';
+import { ComparisonReport } from '@/components/pdf';
+
+// Dynamic import for PDF components to avoid SSR issues
+const PDFDownloadLink = dynamic(
+  () => import('@react-pdf/renderer').then((mod) => mod.PDFDownloadLink),
+  { ssr: false, loading: () => <div className="h-10 w-full bg-slate-200 animate-pulse rounded-lg" /> }
+);
+
+interface ComparisonPdfButtonProps {
+  result: ComparisonResult;
+  config: GhlConfig;
+  propertyAddress?: string;
+}
+
+/**
+ * Download button for the landscape loan comparison PDF, co-branded with the selected agent.
+ */
+export function ComparisonPdfButton({ result, config, propertyAddress }: ComparisonPdfButtonProps) {
+  const t = useTranslations();
+  const { selectedAgent } = useCalculatorStore();
+
+  // Memoize the document element to avoid unnecessary re-renders of the PDF generator
+  const documentElement = useMemo(() => (
+    <ComparisonReport
+      result={result}
+      config={config}
+      agent={selectedAgent}
+      propertyAddress={propertyAddress}
+    />
+  ), [result, config, selectedAgent, propertyAddress]);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">
+        {t('calculator.downloadReports')}
+      </h4>
+
+      <PDFDownloadLink
+        key={`comparison-${selectedAgent?.id || 'no-agent'}-${JSON.stringify(result)}`}
+        document={documentElement}
+        fileName="loan-comparison.pdf"
+        className="w-full inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+      >
+        {({ loading }) => (
+          <>
+            {loading ? (
+              <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+            )}
+            <span>{loading ? t('common.preparing') : t('comparison.downloadPdf')}</span>
+          </>
+        )}
+      </PDFDownloadLink>
+
+      {selectedAgent && (
+        <p className="text-xs text-slate-500">
+          {t('calculator.pdfIncludesAgent', { agentName: selectedAgent.name })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { InputGroup } from './InputGroup';
+import { SelectToggle } from './SelectToggle';
+import type { Fha203kOptions, Fha203kType } from '@/lib/schemas';
+
+interface Fha203kFieldsProps {
+  name: string;
+  value?: Fha203kOptions;
+  onChange: (value: Fha203kOptions) => void;
+}
+
+export const defaultFha203kOptions: Fha203kOptions = {
+  type: 'limited',
+  repairCosts: 0,
+  contingencyPercent: 10,
+  consultantFee: 0,
+  inspectionFees: 0,
+};
+
+/**
+ * FHA 203(k) renovation inputs. Blank as-is value falls back to the sales
+ * price and a blank supplemental origination fee is calculated by the engine.
+ */
+export function Fha203kFields({ name, value, onChange }: Fha203kFieldsProps) {
+  const t = useTranslations('fha.rehab');
+  const options = value ?? defaultFha203kOptions;
+
+  const update = (changes: Partial<Fha203kOptions>) => {
+    onChange({ ...options, ...changes });
+  };
+
+  const optionalNumber = (val: string) => (val === '' ? undefined : Number(val));
+
+  const typeOptions = [
+    { value: 'limited', label: t('limited') },
+    { value: 'standard', label: t('standard') },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <SelectToggle
+        label={t('type')}
+        name={`${name}-type`}
+        value={options.type}
+        onChange={(val) => update({ type: val as Fha203kType })}
+        options={typeOptions}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <InputGroup
+          label={t('repairCosts')}
+          name={`${name}-repairCosts`}
+          type="number"
+          value={options.repairCosts}
+          onChange={(val) => update({ repairCosts: Number(val) || 0 })}
+          prefix="$"
+          helperText={options.type === 'limited' ? t('limitedMaxHelp') : t('standardMinHelp')}
+        />
+        <InputGroup
+          label={t('contingencyPercent')}
+          name={`${name}-contingencyPercent`}
+          type="number"
+          value={options.contingencyPercent}
+          onChange={(val) => update({ contingencyPercent: Number(val) || 0 })}
+          suffix="%"
+          min={0}
+          max={20}
+        />
+        <InputGroup
+          label={t('consultantFee')}
+          name={`${name}-consultantFee`}
+          type="number"
+          value={options.consultantFee}
+          onChange={(val) => update({ consultantFee: Number(val) || 0 })}
+          prefix="$"
+        />
+        <InputGroup
+          label={t('inspectionFees')}
+          name={`${name}-inspectionFees`}
+          type="number"
+          value={options.inspectionFees}
+          onChange={(val) => update({ inspectionFees: Number(val) || 0 })}
+          prefix="$"
+        />
+        <InputGroup
+          label={t('supplementalOriginationFee')}
+          name={`${name}-supplementalOriginationFee`}
+          type="number"
+          value={options.supplementalOriginationFee ?? ''}
+          onChange={(val) => update({ supplementalOriginationFee: optionalNumber(val) })}
+          prefix="$"
+          placeholder={t('calculated')}
+        />
+        <InputGroup
+          label={t('asIsValue')}
+          name={`${name}-asIsValue`}
+          type="number"
+          value={options.asIsValue ?? ''}
+          onChange={(val) => update({ asIsValue: optionalNumber(val) })}
+          prefix="$"
+          placeholder={t('salesPrice')}
+        />
+        <InputGroup
+          label={t('afterImprovedValue')}
+          name={`${name}-afterImprovedValue`}
+          type="number"
+          value={options.afterImprovedValue ?? ''}
+          onChange={(val) => update({ afterImprovedValue: optionalNumber(val) })}
+          prefix="$"
+        />
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useId, useState, useEffect } from 'react';
 interface InputGroupProps {
   label: string;
   name: string;
-  type?: 'text' | 'number' | 'email' | 'tel';
+  type?: 'text' | 'number' | 'email' | 'tel' | 'date' | 'password';
   value: string | number | undefined;
   onChange: (value: string) => void;
   placeholder?: string;
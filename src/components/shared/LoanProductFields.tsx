@@ -0,0 +1,115 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { InputGroup } from './InputGroup';
+import { SelectToggle } from './SelectToggle';
+import type { LoanProduct, LoanProductOptions } from '@/lib/schemas';
+
+interface LoanProductFieldsProps {
+  name: string;
+  value?: LoanProductOptions;
+  onChange: (value: LoanProductOptions) => void;
+}
+
+export const defaultLoanProductOptions: LoanProductOptions = {
+  loanProduct: 'fixed',
+  interestOnlyYears: 0,
+};
+
+/**
+ * Loan product picker (fixed or hybrid ARM) with ARM terms and an
+ * interest-only period. Blank ARM terms fall back to the engine defaults.
+ */
+export function LoanProductFields({ name, value, onChange }: LoanProductFieldsProps) {
+  const t = useTranslations('calculator.loanProduct');
+  const options = value ?? defaultLoanProductOptions;
+  const isArm = options.loanProduct !== 'fixed';
+
+  const update = (changes: Partial<LoanProductOptions>) => {
+    onChange({ ...options, ...changes });
+  };
+
+  const optionalNumber = (val: string) => (val === '' ? undefined : Number(val));
+
+  const productOptions = [
+    { value: 'fixed', label: t('fixed') },
+    { value: 'arm_5_1', label: '5/1 ARM' },
+    { value: 'arm_7_1', label: '7/1 ARM' },
+    { value: 'arm_10_1', label: '10/1 ARM' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <SelectToggle
+        label={t('title')}
+        name={`${name}-loanProduct`}
+        value={options.loanProduct}
+        onChange={(val) => update({ loanProduct: val as LoanProduct })}
+        options={productOptions}
+      />
+
+      {isArm && (
+        <div className="grid grid-cols-2 gap-4">
+          <InputGroup
+            label={t('armIndex')}
+            name={`${name}-armIndex`}
+            type="number"
+            value={options.armIndex ?? ''}
+            onChange={(val) => update({ armIndex: optionalNumber(val) })}
+            suffix="%"
+            step="0.01"
+          />
+          <InputGroup
+            label={t('armMargin')}
+            name={`${name}-armMargin`}
+            type="number"
+            value={options.armMargin ?? ''}
+            onChange={(val) => update({ armMargin: optionalNumber(val) })}
+            placeholder="2.75"
+            suffix="%"
+            step="0.125"
+          />
+          <InputGroup
+            label={t('armInitialCap')}
+            name={`${name}-armInitialCap`}
+            type="number"
+            value={options.armInitialCap ?? ''}
+            onChange={(val) => update({ armInitialCap: optionalNumber(val) })}
+            placeholder={options.loanProduct === 'arm_5_1' ? '2' : '5'}
+            suffix="%"
+          />
+          <InputGroup
+            label={t('armPeriodicCap')}
+            name={`${name}-armPeriodicCap`}
+            type="number"
+            value={options.armPeriodicCap ?? ''}
+            onChange={(val) => update({ armPeriodicCap: optionalNumber(val) })}
+            placeholder="2"
+            suffix="%"
+          />
+          <InputGroup
+            label={t('armLifetimeCap')}
+            name={`${name}-armLifetimeCap`}
+            type="number"
+            value={options.armLifetimeCap ?? ''}
+            onChange={(val) => update({ armLifetimeCap: optionalNumber(val) })}
+            placeholder="5"
+            suffix="%"
+          />
+        </div>
+      )}
+
+      <InputGroup
+        label={t('interestOnlyYears')}
+        name={`${name}-interestOnlyYears`}
+        type="number"
+        value={options.interestOnlyYears}
+        onChange={(val) => update({ interestOnlyYears: Math.max(0, Math.floor(Number(val) || 0)) })}
+        suffix="Years"
+        min={0}
+        max={10}
+        helperText={t('interestOnlyHelp')}
+      />
+    </div>
+  );
+}
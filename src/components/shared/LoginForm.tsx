@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useLocale, useTranslations } from 'next-intl';
+import type { UserRole } from '@/lib/schemas';
+import { Button } from './Button';
+import { Card, CardContent } from './Card';
+import { InputGroup } from './InputGroup';
+import { SelectToggle } from './SelectToggle';
+
+interface LoginFormProps {
+  next?: string; // Path to return to after signing in
+}
+
+// Only same-site paths, so the login page can't be used as an open redirect.
+// The login page checks `next` too; this guards against anything it misses.
+const isSafeRedirect = (path: string | undefined): path is string => {
+  if (!path || !path.startsWith('/') || /[\\\x00-\x1f\x7f]/.test(path)) return false;
+  try {
+    return new URL(path, window.location.origin).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+export function LoginForm({ next }: LoginFormProps) {
+  const t = useTranslations('auth');
+  const locale = useLocale();
+  const [role, setRole] = useState<UserRole>('lo');
+  const [email, setEmail] = useState('');
+  const [accessCode, setAccessCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(role === 'lo' ? { role, accessCode } : { role, email, accessCode }),
+      });
+
+      if (!response.ok) {
+        setError(response.status === 401 ? t('invalidCredentials') : t('signInFailed'));
+        setSubmitting(false);
+        return;
+      }
+
+      // Full navigation so the layout picks up the new session cookie
+      window.location.href = isSafeRedirect(next) ? next : `/${locale}`;
+    } catch {
+      setError(t('signInFailed'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardContent className="space-y-5 p-6">
+        <div className="flex flex-col items-center gap-3">
+          <Image
+            src="/Naibor_Logo_Black_High_Quality_No_BG.png"
+            alt="Naibor"
+            width={160}
+            height={40}
+            className="h-9 w-auto"
+            priority
+          />
+          <h1 className="text-lg font-semibold text-slate-900">{t('title')}</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <SelectToggle
+            label={t('signInAs')}
+            value={role}
+            onChange={(val) => setRole(val as UserRole)}
+            options={[
+              { value: 'lo', label: t('roles.lo') },
+              { value: 'agent', label: t('roles.agent') },
+            ]}
+          />
+          {role === 'agent' && (
+            <InputGroup
+              label={t('email')}
+              name="login-email"
+              type="email"
+              value={email}
+              onChange={setEmail}
+              required
+            />
+          )}
+          <InputGroup
+            label={t('accessCode')}
+            name="login-access-code"
+            type="password"
+            value={accessCode}
+            onChange={setAccessCode}
+            required
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <Button type="submit" fullWidth loading={submitting} disabled={!accessCode || (role === 'agent' && !email)}>
+            {t('signIn')}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { InputGroup } from './InputGroup';
+import type { PricingLadderEntry } from '@/lib/schemas';
+
+interface PricingLadderFieldsProps {
+  name: string;
+  value?: PricingLadderEntry[];
+  onChange: (value: PricingLadderEntry[]) => void;
+  rateSheet?: PricingLadderEntry[]; // Ladder from the configured rate sheet, if any
+}
+
+/**
+ * Rate/price pairs for the points vs lender credit comparison, entered by hand
+ * or loaded from the rate sheet. Price is in points: positive = discount points,
+ * negative = lender credit.
+ */
+export function PricingLadderFields({ name, value, onChange, rateSheet }: PricingLadderFieldsProps) {
+  const t = useTranslations('calculator.pricingLadder');
+  const ladder = value ?? [];
+
+  const updateEntry = (index: number, changes: Partial<PricingLadderEntry>) => {
+    onChange(ladder.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const addEntry = () => {
+    const last = ladder[ladder.length - 1];
+    onChange([...ladder, { rate: last ? Math.round((last.rate + 0.125) * 1000) / 1000 : 0, price: 0 }]);
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(ladder.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">{t('title')}</label>
+        {rateSheet && rateSheet.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(rateSheet)}
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            {t('loadRateSheet')}
+          </button>
+        )}
+      </div>
+
+      {ladder.map((entry, index) => (
+        <div key={index} className="flex gap-3 items-start">
+          <div className="flex-1">
+            <InputGroup
+              label={index === 0 ? t('rate') : ''}
+              name={`${name}-rate-${index}`}
+              type="number"
+              value={entry.rate}
+              onChange={(val) => updateEntry(index, { rate: Number(val) || 0 })}
+              suffix="%"
+              step="0.125"
+            />
+          </div>
+          <div className="flex-1">
+            <InputGroup
+              label={index === 0 ? t('price') : ''}
+              name={`${name}-price-${index}`}
+              type="number"
+              value={entry.price}
+              onChange={(val) => updateEntry(index, { price: Number(val) || 0 })}
+              suffix="pts"
+              step="0.125"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeEntry(index)}
+            className={`text-slate-400 hover:text-red-500 p-2 ${index === 0 ? 'mt-6' : ''}`}
+            title={t('remove')}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addEntry}
+        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+      >
+        + {t('add')}
+      </button>
+      <p className="text-xs text-slate-500">{t('help')}</p>
+    </div>
+  );
+}
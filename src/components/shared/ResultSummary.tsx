@@ -4,6 +4,9 @@ import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import type { LoanCalculationResult, GhlConfig } from '@/lib/schemas';
 import { PdfDownloadButtons } from './PdfDownloadButtons';
+import { AmortizationSchedule } from './AmortizationSchedule';
+import { FHA_203K_LIMITED_MAX_REPAIRS, FHA_203K_STANDARD_MIN_REPAIRS } from '@/lib/calculations/fha';
+import type { SellerNetProration } from '@/lib/calculations/seller-net';
 
 interface ResultItemProps {
   label: string;
@@ -28,6 +31,30 @@ function ResultItem({ label, value, highlight = false, subtext }: ResultItemProp
   );
 }
 
+interface TestFlagProps {
+  label: string;
+  passed: boolean;
+  passLabel: string;
+  failLabel: string;
+  subtext?: string;
+}
+
+function TestFlag({ label, passed, passLabel, failLabel, subtext }: TestFlagProps) {
+  return (
+    <div className="flex justify-between items-baseline py-2">
+      <div>
+        <span className="text-sm text-slate-600">{label}</span>
+        {subtext && (
+          <p className="text-xs text-slate-500">{subtext}</p>
+        )}
+      </div>
+      <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+        {passed ? passLabel : failLabel}
+      </span>
+    </div>
+  );
+}
+
 interface ResultSectionProps {
   title: string;
   children: React.ReactNode;
@@ -70,6 +97,10 @@ export function ResultSummary({
   formId,
 }: ResultSummaryProps) {
   const t = useTranslations('calculator');
+  const tUsda = useTranslations('usda');
+  const tVa = useTranslations('va');
+  const tRehab = useTranslations('fha.rehab');
+  const tBenefit = useTranslations('refinance.benefit');
   const [activeTab, setActiveTab] = useState('pitia');
   const [closingTab, setClosingTab] = useState('prepaid');
 
@@ -103,6 +134,7 @@ export function ResultSummary({
   const mainTabs = [
     { id: 'pitia', label: 'PITIA' },
     { id: 'closing-cash', label: 'Closing & Cash' },
+    { id: 'amortization', label: 'Amortization' },
   ];
 
   const closingTabs = [
@@ -159,7 +191,45 @@ export function ResultSummary({
                   value={formatCurrency(result.totalLoanAmount)}
                 />
               )}
-              {!['conventional', 'conventional-refi', 'fha', 'va', 'fha-refi', 'va-refi'].includes(formId || '') && (
+              {formId === 'conventional' && result.pmiUpfrontPremium !== undefined && (
+                <ResultItem
+                  label={t('results.pmiUpfrontPremium')}
+                  value={formatCurrency(result.pmiUpfrontPremium)}
+                  subtext={result.totalLoanAmount !== result.loanAmount
+                    ? t('results.pmiUpfrontFinanced')
+                    : t('results.pmiUpfrontAtClosing')}
+                />
+              )}
+              {(formId === 'va' || formId === 'va-refi') && result.vaFundingFeeDetail && (
+                <ResultItem
+                  label={`${tVa('fundingFee')} (${formatPercent(result.vaFundingFeeDetail.rate)})`}
+                  value={formatCurrency(result.vaFundingFee ?? 0)}
+                  subtext={[
+                    tVa(`fundingFeeReason.${result.vaFundingFeeDetail.reason}`),
+                    tVa(`usage.${result.vaFundingFeeDetail.vaUsage}`),
+                    result.vaFundingFeeDetail.isReservist ? tVa('fundingFeeReservist') : null,
+                  ].filter(Boolean).join(' · ')}
+                />
+              )}
+              {formId === 'usda' && result.usdaGuaranteeFee !== undefined && (
+                <ResultItem
+                  label={tUsda('loanWithGuaranteeFee')}
+                  value={formatCurrency(result.totalLoanAmount)}
+                  subtext={`${tUsda('guaranteeFee')}: ${formatCurrency(result.usdaGuaranteeFee)}`}
+                />
+              )}
+              {formId === 'usda' && result.usdaIncomeLimit !== undefined && (
+                <ResultItem
+                  label={tUsda('incomeLimit')}
+                  value={formatCurrency(result.usdaIncomeLimit)}
+                  subtext={result.usdaIncomeEligible === undefined
+                    ? undefined
+                    : result.usdaIncomeEligible
+                      ? tUsda('incomeEligible')
+                      : tUsda('incomeOverLimit', { limit: formatCurrency(result.usdaIncomeLimit) })}
+                />
+              )}
+              {!['conventional', 'conventional-refi', 'fha', 'va', 'usda', 'fha-refi', 'va-refi'].includes(formId || '') && (
                 <ResultItem
                   label={t('results.monthlyPayment')}
                   value={formatCurrency(result.monthlyPayment.totalMonthly)}
@@ -202,7 +272,7 @@ export function ResultSummary({
                 )}
                 {result.monthlyPayment.mortgageInsurance > 0 && (
                   <ResultItem
-                    label={(formId === 'fha' || formId === 'fha-refi') ? (formId === 'fha-refi' ? "MI/mo (new loan)" : "Monthly Mtg Insurance") : t('results.mortgageInsurance')}
+                    label={(formId === 'fha' || formId === 'fha-refi') ? (formId === 'fha-refi' ? "MI/mo (new loan)" : "Monthly Mtg Insurance") : (formId === 'usda' ? tUsda('annualFee') : t('results.mortgageInsurance'))}
                     value={formatCurrency(result.monthlyPayment.mortgageInsurance)}
                   />
                 )}
@@ -228,6 +298,251 @@ export function ResultSummary({
               </div>
             </div>
           )}
+
+          {result.productPayments && (
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">
+                {t('productPayments.title')}
+              </h3>
+
+              <div className="space-y-2">
+                <ResultItem
+                  label={t('productPayments.startPayment')}
+                  value={formatCurrency(result.productPayments.startPayment)}
+                  subtext={result.productPayments.interestOnlyMonths > 0
+                    ? t('productPayments.interestOnlyUntil', { months: result.productPayments.interestOnlyMonths })
+                    : result.productPayments.loanProduct !== 'fixed'
+                      ? t('productPayments.fixedUntil', { months: result.productPayments.fixedPeriodMonths })
+                      : undefined}
+                />
+                {result.productPayments.fullyIndexedRate !== undefined && (
+                  <ResultItem
+                    label={t('productPayments.fullyIndexedRate')}
+                    value={formatPercent(result.productPayments.fullyIndexedRate)}
+                  />
+                )}
+                <ResultItem
+                  label={t('productPayments.worstCasePayment')}
+                  value={formatCurrency(result.productPayments.worstCasePayment)}
+                  subtext={result.productPayments.loanProduct !== 'fixed'
+                    ? t('productPayments.worstCaseHelp', { rate: result.productPayments.worstCaseRate })
+                    : undefined}
+                />
+                <ResultItem
+                  label={t('productPayments.qualifyingPayment')}
+                  value={formatCurrency(result.productPayments.qualifyingPayment)}
+                  subtext={t('productPayments.qualifyingHelp', { rate: result.productPayments.qualifyingRate })}
+                  highlight
+                />
+              </div>
+            </div>
+          )}
+
+          {result.temporaryBuydown && (
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">
+                {t('temporaryBuydown.resultsTitle')}
+              </h3>
+
+              <div className="space-y-2">
+                {result.temporaryBuydown.years.map((year) => (
+                  <ResultItem
+                    key={year.year}
+                    label={t('temporaryBuydown.year', { year: year.year, rate: formatPercent(year.rate) })}
+                    value={formatCurrency(year.principalAndInterest)}
+                    subtext={t('temporaryBuydown.reduction', { amount: formatCurrency(year.monthlyReduction) })}
+                  />
+                ))}
+                <ResultItem
+                  label={t('temporaryBuydown.notePayment', {
+                    year: result.temporaryBuydown.years.length + 1,
+                    rate: formatPercent(result.interestRate),
+                  })}
+                  value={formatCurrency(result.monthlyPayment.principalAndInterest)}
+                  subtext={t('temporaryBuydown.qualifyingHelp')}
+                />
+                <ResultItem
+                  label={t('temporaryBuydown.subsidy')}
+                  value={formatCurrency(result.temporaryBuydown.subsidyAmount)}
+                  subtext={result.temporaryBuydown.buyerFunded > 0
+                    ? t('temporaryBuydown.fundingSplit', {
+                      seller: formatCurrency(result.temporaryBuydown.sellerFunded),
+                      buyer: formatCurrency(result.temporaryBuydown.buyerFunded),
+                    })
+                    : t('temporaryBuydown.sellerFunded')}
+                  highlight
+                />
+              </div>
+            </div>
+          )}
+
+          {result.pricingLadder && result.pricingLadder.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">
+                {t('pricingLadder.resultsTitle')}
+              </h3>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-slate-500">
+                      <th className="text-left py-2 pr-2 font-medium">{t('pricingLadder.rate')}</th>
+                      <th className="text-right py-2 px-2 font-medium">{t('pricingLadder.pointsCost')}</th>
+                      <th className="text-right py-2 px-2 font-medium">{t('pricingLadder.payment')}</th>
+                      <th className="text-right py-2 px-2 font-medium">{t('pricingLadder.cashToClose')}</th>
+                      <th className="text-right py-2 pl-2 font-medium">{t('pricingLadder.breakEven')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.pricingLadder.map((row) => (
+                      <tr
+                        key={row.rate}
+                        className={`border-b border-slate-100 ${row.rate === result.interestRate ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="py-2 pr-2 font-medium text-slate-800">
+                          {formatPercent(row.rate)}
+                          {row.isPar && <span className="ml-1 text-xs text-slate-400">{t('pricingLadder.par')}</span>}
+                        </td>
+                        <td className="text-right py-2 px-2">
+                          {row.pointsCost < 0
+                            ? t('pricingLadder.credit', { amount: formatCurrency(-row.pointsCost) })
+                            : formatCurrency(row.pointsCost)}
+                        </td>
+                        <td className="text-right py-2 px-2">{formatCurrency(row.principalAndInterest)}</td>
+                        <td className="text-right py-2 px-2">{formatCurrency(row.cashToClose)}</td>
+                        <td className="text-right py-2 pl-2">
+                          {row.breakEvenMonths !== null
+                            ? tBenefit('breakEvenMonths', { months: row.breakEvenMonths })
+                            : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-slate-500">{t('pricingLadder.resultsHelp')}</p>
+            </div>
+          )}
+
+          {result.netTangibleBenefit && (
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">
+                {tBenefit('title')}
+              </h3>
+
+              <div className="space-y-2">
+                <ResultItem
+                  label={tBenefit('currentPayment')}
+                  value={formatCurrency(result.netTangibleBenefit.currentPrincipalAndInterest)}
+                />
+                <ResultItem
+                  label={tBenefit('newPayment')}
+                  value={formatCurrency(result.netTangibleBenefit.newPrincipalAndInterest)}
+                />
+                <ResultItem
+                  label={tBenefit('monthlySavings')}
+                  value={formatCurrency(result.netTangibleBenefit.monthlySavings)}
+                  highlight
+                />
+                <ResultItem
+                  label={tBenefit('breakEven')}
+                  value={result.netTangibleBenefit.breakEvenMonths !== null
+                    ? tBenefit('breakEvenMonths', { months: result.netTangibleBenefit.breakEvenMonths })
+                    : tBenefit('noBreakEven')}
+                  subtext={tBenefit('recoupableCosts', { amount: formatCurrency(result.netTangibleBenefit.recoupableCosts) })}
+                />
+                <ResultItem
+                  label={tBenefit('interestDelta')}
+                  value={formatCurrency(result.netTangibleBenefit.interestDelta)}
+                  subtext={tBenefit('interestDeltaHelp', { months: result.netTangibleBenefit.remainingTermMonths })}
+                />
+
+                <div className="border-t border-slate-200 pt-2 mt-2">
+                  <TestFlag
+                    label={tBenefit('benefitTest')}
+                    passed={result.netTangibleBenefit.hasBenefit}
+                    passLabel={tBenefit('pass')}
+                    failLabel={tBenefit('fail')}
+                  />
+                  {result.netTangibleBenefit.recoupmentTest && (
+                    <TestFlag
+                      label={tBenefit('recoupmentTest', { limit: result.netTangibleBenefit.recoupmentTest.limitMonths })}
+                      passed={result.netTangibleBenefit.recoupmentTest.passed}
+                      passLabel={tBenefit('pass')}
+                      failLabel={tBenefit('fail')}
+                    />
+                  )}
+                  {result.netTangibleBenefit.combinedRateTest && (
+                    <TestFlag
+                      label={tBenefit('combinedRateTest', { required: result.netTangibleBenefit.combinedRateTest.requiredReduction })}
+                      passed={result.netTangibleBenefit.combinedRateTest.passed}
+                      passLabel={tBenefit('pass')}
+                      failLabel={tBenefit('fail')}
+                      subtext={tBenefit('combinedRateHelp', {
+                        current: result.netTangibleBenefit.combinedRateTest.currentCombinedRate,
+                        new: result.netTangibleBenefit.combinedRateTest.newCombinedRate,
+                      })}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {result.fha203k && (
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">
+                {tRehab('title')} ({tRehab(result.fha203k.type)})
+              </h3>
+
+              <div className="space-y-2">
+                <ResultItem
+                  label={tRehab('repairCosts')}
+                  value={formatCurrency(result.fha203k.repairCosts)}
+                />
+                <ResultItem
+                  label={tRehab('contingencyReserve')}
+                  value={formatCurrency(result.fha203k.contingencyReserve)}
+                />
+                {result.fha203k.consultantFee > 0 && (
+                  <ResultItem
+                    label={tRehab('consultantFee')}
+                    value={formatCurrency(result.fha203k.consultantFee)}
+                  />
+                )}
+                {result.fha203k.inspectionFees > 0 && (
+                  <ResultItem
+                    label={tRehab('inspectionFees')}
+                    value={formatCurrency(result.fha203k.inspectionFees)}
+                  />
+                )}
+                <ResultItem
+                  label={tRehab('supplementalOriginationFee')}
+                  value={formatCurrency(result.fha203k.supplementalOriginationFee)}
+                />
+                <ResultItem
+                  label={tRehab('totalRehabCost')}
+                  value={formatCurrency(result.fha203k.totalRehabCost)}
+                />
+                <ResultItem
+                  label={tRehab('valueBasis')}
+                  value={formatCurrency(result.fha203k.valueBasis)}
+                  subtext={tRehab('valueBasisHelp')}
+                  highlight
+                />
+                {result.fha203k.repairLimitExceeded && (
+                  <p className="text-sm text-red-600">
+                    {tRehab('repairLimitExceeded', { limit: formatCurrency(FHA_203K_LIMITED_MAX_REPAIRS) })}
+                  </p>
+                )}
+                {result.fha203k.belowStandardMinimum && (
+                  <p className="text-sm text-red-600">
+                    {tRehab('belowStandardMinimum', { minimum: formatCurrency(FHA_203K_STANDARD_MIN_REPAIRS) })}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -277,6 +592,12 @@ export function ResultSummary({
                         value={formatCurrency(result.closingCosts.miscFee)}
                       />
                     )}
+                    {result.closingCosts.buydownSubsidy !== undefined && (
+                      <ResultItem
+                        label={t('temporaryBuydown.subsidy')}
+                        value={formatCurrency(result.closingCosts.buydownSubsidy)}
+                      />
+                    )}
                   </ResultSection>
                   <div className="pt-2 border-t border-slate-100">
                     <ResultItem
@@ -333,7 +654,7 @@ export function ResultSummary({
                     />
                   </ResultSection>
 
-                  {(result.closingCosts.sellerCredit > 0 || result.closingCosts.lenderCredit > 0) && (
+                  {(result.closingCosts.sellerCredit > 0 || result.closingCosts.lenderCredit > 0 || result.ufmipRefund) && (
                     <div className="mt-4">
                       <ResultSection title={t('results.credits')}>
                         {result.closingCosts.sellerCredit > 0 && (
@@ -348,6 +669,16 @@ export function ResultSummary({
                             value={`-${formatCurrency(result.closingCosts.lenderCredit)}`}
                           />
                         )}
+                        {result.ufmipRefund && (
+                          <ResultItem
+                            label={t('results.ufmipRefundCredit')}
+                            value={`-${formatCurrency(result.ufmipRefund.refundAmount)}`}
+                            subtext={t('results.ufmipRefundHelp', {
+                              percent: result.ufmipRefund.refundPercent,
+                              months: result.ufmipRefund.monthsSinceEndorsement,
+                            })}
+                          />
+                        )}
                       </ResultSection>
                     </div>
                   )}
@@ -439,16 +770,30 @@ export function ResultSummary({
 
           <div className="bg-linear-to-r from-[#2A8BB3] to-[#31B2E8] rounded-xl p-6 text-white shadow-lg">
             <h3 className="text-lg font-semibold mb-2 opacity-90">
-              Estimated Cash to Close
+              {result.cashToClose < 0 ? t('results.cashToBorrower') : t('results.cashToClose')}
             </h3>
             <p className="text-4xl font-bold mb-4 tracking-tight">
-              {formatCurrency(result.cashToClose)}
+              {formatCurrency(Math.abs(result.cashToClose))}
             </p>
             <div className="flex flex-col sm:flex-row gap-2 text-sm bg-white/10 rounded-lg p-3 backdrop-blur-sm">
-              <span className="opacity-90">Down Payment: <strong>{formatCurrency(result.downPayment)}</strong></span>
+              {result.payoff ? (
+                <span className="opacity-90">{t('results.payoff')}: <strong>{formatCurrency(result.payoff.totalPayoff)}</strong></span>
+              ) : (
+                <span className="opacity-90">{t('results.downPayment')}: <strong>{formatCurrency(result.downPayment)}</strong></span>
+              )}
               <span className="hidden sm:inline opacity-50">•</span>
-              <span className="opacity-90">Closing Costs: <strong>{formatCurrency(result.closingCosts.totalClosingCosts)}</strong></span>
+              <span className="opacity-90">{t('results.closingCosts')}: <strong>{formatCurrency(result.closingCosts.totalClosingCosts)}</strong></span>
             </div>
+            {result.payoff && result.payoff.accruedInterest > 0 && (
+              <p className="text-xs opacity-80 mt-2">
+                {t('results.payoffDetail', {
+                  balance: formatCurrency(result.payoff.principalBalance),
+                  interest: formatCurrency(result.payoff.accruedInterest),
+                  days: result.payoff.payoffDays,
+                  perDiem: formatCurrency(result.payoff.perDiem),
+                })}
+              </p>
+            )}
           </div>
 
           {config && (
@@ -463,6 +808,13 @@ export function ResultSummary({
           )}
         </div>
       )}
+
+      {/* Tab 3: Amortization Schedule */}
+      {activeTab === 'amortization' && (
+        <div className="space-y-4 animate-in fade-in duration-300">
+          <AmortizationSchedule result={result} />
+        </div>
+      )}
     </div>
   );
 }
@@ -476,7 +828,11 @@ interface SellerNetResultProps {
     breakdown: {
       existingLoanPayoff: number;
       secondLienPayoff: number;
-      commission: number;
+      listingCommission: number;
+      buyerAgentCommission: number;
+      brokerageFee: number;
+      transactionFee: number;
+      sellerPaidClosingCosts: number;
       titleInsurance: number;
       escrowFee: number;
       transferTax: number;
@@ -484,9 +840,11 @@ interface SellerNetResultProps {
       repairCredits: number;
       hoaPayoff: number;
       propertyTaxProration: number;
+      hoaProration: number;
       otherCredits: number;
       otherDebits: number;
     };
+    prorations: SellerNetProration[];
   };
 }
 
@@ -502,6 +860,28 @@ export function SellerNetResult({ result }: SellerNetResultProps) {
     }).format(value);
   };
 
+  const prorationLabels = {
+    propertyTax: t('sellerNet.results.propertyTaxProration'),
+    hoa: t('sellerNet.results.hoaProration'),
+  };
+
+  const renderProration = (proration: SellerNetProration) => (
+    <ResultItem
+      key={proration.type}
+      label={prorationLabels[proration.type]}
+      value={formatCurrency(Math.abs(proration.amount))}
+      subtext={t('sellerNet.results.prorationDetail', {
+        days: proration.days,
+        dailyRate: formatCurrency(proration.dailyRate),
+        start: proration.periodStart,
+      })}
+    />
+  );
+
+  // Manual tax proration only shows when no date-based tax proration was computed
+  const hasTaxDetail = result.prorations.some((proration) => proration.type === 'propertyTax');
+  const manualTaxProration = hasTaxDetail ? 0 : result.breakdown.propertyTaxProration;
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-xl border border-slate-200 p-6">
@@ -529,9 +909,33 @@ export function SellerNetResult({ result }: SellerNetResultProps) {
               />
             )}
             <ResultItem
-              label={t('sellerNet.inputs.commission')}
-              value={formatCurrency(result.breakdown.commission)}
+              label={t('sellerNet.inputs.listingCommission')}
+              value={formatCurrency(result.breakdown.listingCommission)}
             />
+            {result.breakdown.buyerAgentCommission > 0 && (
+              <ResultItem
+                label={t('sellerNet.inputs.buyerAgentCommission')}
+                value={formatCurrency(result.breakdown.buyerAgentCommission)}
+              />
+            )}
+            {result.breakdown.brokerageFee > 0 && (
+              <ResultItem
+                label={t('sellerNet.inputs.brokerageFee')}
+                value={formatCurrency(result.breakdown.brokerageFee)}
+              />
+            )}
+            {result.breakdown.transactionFee > 0 && (
+              <ResultItem
+                label={t('sellerNet.inputs.transactionFee')}
+                value={formatCurrency(result.breakdown.transactionFee)}
+              />
+            )}
+            {result.breakdown.sellerPaidClosingCosts > 0 && (
+              <ResultItem
+                label={t('sellerNet.inputs.sellerPaidClosingCosts')}
+                value={formatCurrency(result.breakdown.sellerPaidClosingCosts)}
+              />
+            )}
             <ResultItem
               label={t('sellerNet.inputs.titleInsurance')}
               value={formatCurrency(result.breakdown.titleInsurance)}
@@ -566,6 +970,13 @@ export function SellerNetResult({ result }: SellerNetResultProps) {
                 value={formatCurrency(result.breakdown.otherDebits)}
               />
             )}
+            {manualTaxProration > 0 && (
+              <ResultItem
+                label={t('sellerNet.results.propertyTaxProration')}
+                value={formatCurrency(manualTaxProration)}
+              />
+            )}
+            {result.prorations.filter((proration) => proration.amount > 0).map(renderProration)}
             <div className="border-t border-slate-200 pt-2 mt-2">
               <ResultItem
                 label={t('sellerNet.results.totalDebits')}
@@ -579,12 +990,13 @@ export function SellerNetResult({ result }: SellerNetResultProps) {
         {result.totalCredits > 0 && (
           <div className="mt-4">
             <ResultSection title={t('sellerNet.results.credits')}>
-              {result.breakdown.propertyTaxProration > 0 && (
+              {manualTaxProration < 0 && (
                 <ResultItem
-                  label={t('sellerNet.inputs.propertyTaxProration')}
-                  value={formatCurrency(result.breakdown.propertyTaxProration)}
+                  label={t('sellerNet.results.propertyTaxProration')}
+                  value={formatCurrency(-manualTaxProration)}
                 />
               )}
+              {result.prorations.filter((proration) => proration.amount < 0).map(renderProration)}
               {result.breakdown.otherCredits > 0 && (
                 <ResultItem
                   label={t('sellerNet.inputs.otherCredits')}
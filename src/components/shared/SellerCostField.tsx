@@ -0,0 +1,79 @@
+'use client';
+
+import { InputGroup } from './InputGroup';
+import type { SellerCost, SellerCostMode } from '@/lib/schemas';
+
+interface SellerCostFieldProps {
+  label: string;
+  name: string;
+  value?: SellerCost;
+  onChange: (value: SellerCost) => void;
+  helperText?: string;
+}
+
+export const defaultSellerCost: SellerCost = {
+  mode: 'percent',
+  percent: 0,
+  amount: 0,
+};
+
+/**
+ * Seller cost entered as a percent of the sales price or a flat amount.
+ * Both values are kept so switching modes doesn't lose the other entry.
+ */
+export function SellerCostField({ label, name, value, onChange, helperText }: SellerCostFieldProps) {
+  const cost = value ?? defaultSellerCost;
+
+  const update = (changes: Partial<SellerCost>) => {
+    onChange({ ...cost, ...changes });
+  };
+
+  const modeButton = (mode: SellerCostMode, symbol: string) => (
+    <button
+      type="button"
+      onClick={() => update({ mode })}
+      className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium transition-all ${cost.mode === mode
+        ? 'bg-blue-600 text-white shadow-sm'
+        : 'text-slate-600 hover:text-slate-900'
+        }`}
+    >
+      {symbol}
+    </button>
+  );
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider block">{label}</label>
+      <div className="flex gap-2 items-start">
+        <div className="flex bg-slate-100 rounded-full p-1">
+          {modeButton('amount', '$')}
+          {modeButton('percent', '%')}
+        </div>
+        <div className="flex-1">
+          {cost.mode === 'percent' ? (
+            <InputGroup
+              label=""
+              name={`${name}-percent`}
+              type="number"
+              value={cost.percent}
+              onChange={(val) => update({ percent: Number(val) || 0 })}
+              suffix="%"
+              step="0.25"
+              helperText={helperText}
+            />
+          ) : (
+            <InputGroup
+              label=""
+              name={`${name}-amount`}
+              type="number"
+              value={cost.amount}
+              onChange={(val) => update({ amount: Number(val) || 0 })}
+              prefix="$"
+              helperText={helperText}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
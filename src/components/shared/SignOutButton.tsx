@@ -0,0 +1,40 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { clearSnapshots } from '@/lib/snapshot';
+import { useCalculatorStore } from '@/lib/store';
+
+export function SignOutButton() {
+  const t = useTranslations('auth');
+  const locale = useLocale();
+  const session = useCalculatorStore((state) => state.session);
+  const [signingOut, setSigningOut] = useState(false);
+
+  if (!session) return null;
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      // Drop saved API data and fully reload so nothing stays behind
+      clearSnapshots();
+      window.location.href = `/${locale}/login`;
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 whitespace-nowrap">
+      <span className="hidden lg:inline text-sm text-slate-500">{session.name}</span>
+      <button
+        type="button"
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="rounded-lg px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+      >
+        {t('signOut')}
+      </button>
+    </div>
+  );
+}
@@ -6,3 +6,13 @@ export { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 export { Button, IconButton } from './Button';
 export { AgentSelector } from './AgentSelector';
 export { PdfDownloadButtons } from './PdfDownloadButtons';
+export { AmortizationSchedule } from './AmortizationSchedule';
+export { LoanProductFields, defaultLoanProductOptions } from './LoanProductFields';
+export { PricingLadderFields } from './PricingLadderFields';
+export { Fha203kFields, defaultFha203kOptions } from './Fha203kFields';
+export { SellerCostField, defaultSellerCost } from './SellerCostField';
+export { SellerNetPdfButton } from './SellerNetPdfButton';
+export { ComparisonPdfButton } from './ComparisonPdfButton';
+export { ClientActions } from './ClientActions';
+export { SignOutButton } from './SignOutButton';
+export { LoginForm } from './LoginForm';
@@ -0,0 +1,160 @@
+/**
+ * Authentication
+ *
+ * Sessions are HMAC-signed tokens kept in an httpOnly cookie. The LO's team
+ * signs in with the team access code; partner agents sign in with their email
+ * (matched against the partner agent contacts) and their own access code.
+ * Uses Web Crypto only, so it runs in the middleware as well as route handlers.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { SessionSchema, type Session, type UserRole } from './schemas';
+
+const AUTH_SECRET = process.env.AUTH_SECRET;
+
+export const SESSION_COOKIE = 'qq_session';
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(AUTH_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Check if sessions can be signed.
+ */
+export function isAuthConfigured(): boolean {
+  return Boolean(AUTH_SECRET);
+}
+
+/**
+ * Compare two secrets in constant time for a given length.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.length !== right.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ right[i];
+  }
+  return diff === 0;
+}
+
+// Backslashes (browsers read `/\evil.com` as `//evil.com`) and control characters
+const UNSAFE_REDIRECT_CHARS = /[\\\x00-\x1f\x7f]/;
+
+/**
+ * Check that a path to return to after signing in stays on this site, so the
+ * login page can't be used as an open redirect.
+ */
+export function isSafeRedirectPath(path: string | undefined): path is string {
+  if (!path || !path.startsWith('/') || UNSAFE_REDIRECT_CHARS.test(path)) return false;
+
+  try {
+    const base = 'http://localhost';
+    return new URL(path, base).origin === base;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign a session token that expires after SESSION_MAX_AGE_SECONDS.
+ */
+export async function createSessionToken(session: Omit<Session, 'exp'>): Promise<string> {
+  if (!isAuthConfigured()) {
+    throw new Error('AUTH_SECRET is not set');
+  }
+
+  const payload: Session = {
+    ...session,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body));
+
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token. Returns null if it is missing, tampered with or expired.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token || !isAuthConfigured()) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(signature) as BufferSource,
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const parsed = SessionSchema.safeParse(JSON.parse(decoder.decode(base64UrlDecode(body))));
+    if (!parsed.success || parsed.data.exp <= Date.now() / 1000) return null;
+
+    return parsed.data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the session from a request's cookie.
+ */
+export async function getRequestSession(request: NextRequest): Promise<Session | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Require a signed-in user with one of the given roles. Returns the session,
+ * or the 401/403 response the route should send back.
+ */
+export async function requireRole(
+  request: NextRequest,
+  roles: UserRole[]
+): Promise<Session | NextResponse> {
+  const session = await getRequestSession(request);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!roles.includes(session.role)) {
+    return NextResponse.json(
+      { error: 'Not allowed for this role' },
+      { status: 403 }
+    );
+  }
+
+  return session;
+}
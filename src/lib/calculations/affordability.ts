@@ -0,0 +1,321 @@
+/**
+ * Affordability Calculator
+ *
+ * Works backwards from the borrower's income, monthly debts and cash on hand
+ * to the highest sales price each program qualifies for. Every candidate price
+ * is run through the program's purchase calculator, so MI, UFMIP, the VA
+ * funding fee, closing costs and taxes/insurance all scale with the price.
+ */
+
+import type {
+  AffordabilityInput,
+  AffordabilityProgram,
+  AffordabilityProgramInput,
+  GhlConfig,
+  LoanCalculationResult,
+  LoanProgram,
+} from '../schemas';
+import {
+  ConventionalPurchaseInputSchema,
+  FhaPurchaseInputSchema,
+  VaPurchaseInputSchema,
+} from '../schemas';
+import { calculateConventionalPurchase } from './conventional';
+import { calculateFhaPurchase } from './fha';
+import { calculateVaPurchase } from './va';
+import {
+  calculateDownPaymentPercent,
+  getQualifyingHousingPayment,
+  roundToCents,
+  roundToDecimals,
+} from './common';
+
+// Front-end / back-end DTI limits used when no target is given, in percent
+export const DEFAULT_DTI_LIMITS: Record<LoanProgram, { frontEnd: number; backEnd: number }> = {
+  conventional: { frontEnd: 49.9, backEnd: 49.9 },
+  fha: { frontEnd: 46.99, backEnd: 56.99 },
+  va: { frontEnd: 46.99, backEnd: 56.99 },
+  usda: { frontEnd: 29, backEnd: 41 },
+};
+
+// Conventional purchases need at least 3% down
+const CONVENTIONAL_MIN_DOWN_PERCENT = 3;
+
+// Prices are solved to the nearest $1,000, up to $20M
+const PRICE_STEP = 1000;
+const MAX_SEARCH_PRICE = 20000000;
+const INITIAL_SEARCH_STEPS = 100;
+
+// Closing costs move a little with the loan amount, so the down payment is
+// re-balanced against them a few times
+const MAX_DOWN_PAYMENT_PASSES = 5;
+
+/**
+ * What stopped the price from going higher.
+ */
+export type AffordabilityLimit = 'frontEnd' | 'backEnd' | 'funds' | 'loanLimit';
+
+export interface MaxPurchaseResult {
+  program: AffordabilityProgram;
+  interestRate: number;
+  maxFrontEndRatio: number;
+  maxBackEndRatio: number;
+  maxSalesPrice: number; // 0 when no price qualifies
+  loanAmount: number;
+  totalLoanAmount: number;
+  downPayment: number;
+  downPaymentPercent: number;
+  cashToClose: number;
+  housingPayment: number; // Qualifying PITI + MI + HOA
+  frontEndRatio: number;
+  backEndRatio: number;
+  limitedBy: AffordabilityLimit | null; // null when the search cap is reached first
+  calculation: LoanCalculationResult | null; // Full purchase breakdown at the max price
+}
+
+export interface AffordabilityResult {
+  monthlyIncome: number;
+  monthlyDebts: number;
+  programs: MaxPurchaseResult[];
+}
+
+interface PriceEvaluation {
+  result: LoanCalculationResult;
+  limitedBy: AffordabilityLimit | null;
+}
+
+type PurchaseCalculator = (salesPrice: number, downPayment: number) => LoanCalculationResult;
+
+/**
+ * Build a calculator for one program that prices a sales price and down payment,
+ * with property taxes and insurance as a percent of the price.
+ */
+function buildPurchaseCalculator(
+  programInput: AffordabilityProgramInput,
+  input: AffordabilityInput,
+  config: GhlConfig
+): PurchaseCalculator {
+  const taxRate = input.propertyTaxRate ?? config.prepaids.taxRateAnnual;
+
+  const baseInput = (salesPrice: number, downPayment: number) => ({
+    salesPrice,
+    downPaymentAmount: downPayment,
+    downPaymentPercent: calculateDownPaymentPercent(salesPrice, downPayment),
+    interestRate: programInput.interestRate,
+    termYears: input.termYears,
+    propertyTaxMonthly: roundToCents((salesPrice * taxRate) / 100 / 12),
+    homeInsuranceMonthly: roundToCents((salesPrice * input.homeInsuranceRate) / 100 / 12),
+    hoaDuesMonthly: input.hoaDuesMonthly,
+    sellerCreditAmount: input.sellerCreditAmount,
+    prepaidInterestDays: config.prepaids.interestDays,
+    prepaidTaxMonths: config.prepaids.taxMonths,
+    prepaidInsuranceMonths: config.prepaids.insuranceMonths,
+  });
+
+  switch (programInput.program) {
+    case 'conventional':
+      return (salesPrice, downPayment) => calculateConventionalPurchase(
+        ConventionalPurchaseInputSchema.parse({
+          ...baseInput(salesPrice, downPayment),
+          creditScoreTier: input.creditScoreTier,
+        }),
+        config
+      );
+    case 'fha':
+      return (salesPrice, downPayment) => calculateFhaPurchase(
+        FhaPurchaseInputSchema.parse(baseInput(salesPrice, downPayment)),
+        config
+      );
+    case 'va':
+      return (salesPrice, downPayment) => calculateVaPurchase(
+        VaPurchaseInputSchema.parse({
+          ...baseInput(salesPrice, downPayment),
+          vaUsage: input.vaUsage,
+          isDisabledVeteran: input.isDisabledVeteran,
+        }),
+        config
+      );
+    default:
+      throw new Error(`Unknown affordability program: ${(programInput as AffordabilityProgramInput).program}`);
+  }
+}
+
+function getMinDownPercent(program: AffordabilityProgram, config: GhlConfig): number {
+  switch (program) {
+    case 'conventional':
+      return CONVENTIONAL_MIN_DOWN_PERCENT;
+    case 'fha':
+      return config.fha.minDownPct;
+    case 'va':
+      return 0;
+  }
+}
+
+// Base loan limit for the program; VA with full entitlement has none
+function getLoanLimit(program: AffordabilityProgram, config: GhlConfig): number | null {
+  switch (program) {
+    case 'conventional':
+      return config.limits.highBalance;
+    case 'fha':
+      return config.limits.fha;
+    case 'va':
+      return null;
+  }
+}
+
+/**
+ * Price a sales price with as much down as the available funds allow after
+ * closing costs, never less than the program minimum.
+ */
+function priceWithMaxDownPayment(
+  calculate: PurchaseCalculator,
+  salesPrice: number,
+  minDownPercent: number,
+  availableFunds: number
+): LoanCalculationResult {
+  const minDownPayment = roundToCents((salesPrice * minDownPercent) / 100);
+  const clampDownPayment = (amount: number) =>
+    roundToCents(Math.min(salesPrice, Math.max(minDownPayment, amount)));
+
+  let downPayment = clampDownPayment(availableFunds);
+  let result = calculate(salesPrice, downPayment);
+
+  for (let pass = 0; pass < MAX_DOWN_PAYMENT_PASSES; pass++) {
+    const closingCosts = result.cashToClose - result.downPayment;
+    const next = clampDownPayment(availableFunds - closingCosts);
+    if (Math.abs(next - downPayment) < 1) break;
+    downPayment = next;
+    result = calculate(salesPrice, downPayment);
+  }
+
+  return result;
+}
+
+/**
+ * Solve the max sales price for one program by bisecting on price.
+ */
+function solveMaxPurchase(
+  programInput: AffordabilityProgramInput,
+  input: AffordabilityInput,
+  config: GhlConfig,
+  monthlyIncome: number,
+  monthlyDebts: number
+): MaxPurchaseResult {
+  const { program, maxFrontEndRatio, maxBackEndRatio } = programInput;
+  const calculate = buildPurchaseCalculator(programInput, input, config);
+  const minDownPercent = getMinDownPercent(program, config);
+  const loanLimit = getLoanLimit(program, config);
+
+  const maxHousingPayment = (monthlyIncome * maxFrontEndRatio) / 100;
+  const maxTotalPayments = (monthlyIncome * maxBackEndRatio) / 100;
+
+  const evaluations = new Map<number, PriceEvaluation>();
+  const evaluate = (steps: number): PriceEvaluation => {
+    const cached = evaluations.get(steps);
+    if (cached) return cached;
+
+    const result = priceWithMaxDownPayment(calculate, steps * PRICE_STEP, minDownPercent, input.availableFunds);
+    const housingPayment = getQualifyingHousingPayment(result);
+
+    let limitedBy: AffordabilityLimit | null = null;
+    if (result.cashToClose > input.availableFunds + 1) {
+      limitedBy = 'funds';
+    } else if (loanLimit !== null && result.loanAmount > loanLimit) {
+      limitedBy = 'loanLimit';
+    } else if (housingPayment > maxHousingPayment) {
+      limitedBy = 'frontEnd';
+    } else if (housingPayment + monthlyDebts > maxTotalPayments) {
+      limitedBy = 'backEnd';
+    }
+
+    const evaluation = { result, limitedBy };
+    evaluations.set(steps, evaluation);
+    return evaluation;
+  };
+
+  // Double until a price fails, then bisect between the last pass and the first failure
+  const maxSteps = MAX_SEARCH_PRICE / PRICE_STEP;
+  let low = 0;
+  let high = 1;
+  if (!evaluate(high).limitedBy) {
+    low = high;
+    high = INITIAL_SEARCH_STEPS;
+    while (high < maxSteps && !evaluate(high).limitedBy) {
+      low = high;
+      high = Math.min(high * 2, maxSteps);
+    }
+    if (high === maxSteps && !evaluate(high).limitedBy) {
+      low = high;
+    }
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (evaluate(mid).limitedBy) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  const limitedBy = high > low ? evaluate(high).limitedBy : null;
+
+  if (low === 0) {
+    return {
+      program,
+      interestRate: programInput.interestRate,
+      maxFrontEndRatio,
+      maxBackEndRatio,
+      maxSalesPrice: 0,
+      loanAmount: 0,
+      totalLoanAmount: 0,
+      downPayment: 0,
+      downPaymentPercent: 0,
+      cashToClose: 0,
+      housingPayment: 0,
+      frontEndRatio: 0,
+      backEndRatio: 0,
+      limitedBy,
+      calculation: null,
+    };
+  }
+
+  const { result } = evaluate(low);
+  const housingPayment = getQualifyingHousingPayment(result);
+
+  return {
+    program,
+    interestRate: programInput.interestRate,
+    maxFrontEndRatio,
+    maxBackEndRatio,
+    maxSalesPrice: low * PRICE_STEP,
+    loanAmount: result.loanAmount,
+    totalLoanAmount: result.totalLoanAmount,
+    downPayment: result.downPayment,
+    downPaymentPercent: calculateDownPaymentPercent(low * PRICE_STEP, result.downPayment),
+    cashToClose: result.cashToClose,
+    housingPayment,
+    frontEndRatio: roundToDecimals((housingPayment / monthlyIncome) * 100, 2),
+    backEndRatio: roundToDecimals(((housingPayment + monthlyDebts) / monthlyIncome) * 100, 2),
+    limitedBy,
+    calculation: result,
+  };
+}
+
+/**
+ * Find the maximum purchase price and loan amount for each requested program.
+ */
+export function calculateAffordability(
+  input: AffordabilityInput,
+  config: GhlConfig
+): AffordabilityResult {
+  const monthlyIncome = roundToCents(input.incomes.reduce((sum, income) => sum + income, 0));
+  const monthlyDebts = roundToCents(input.payments.reduce((sum, payment) => sum + payment, 0));
+
+  return {
+    monthlyIncome,
+    monthlyDebts,
+    programs: input.programs.map((programInput) =>
+      solveMaxPurchase(programInput, input, config, monthlyIncome, monthlyDebts)
+    ),
+  };
+}
@@ -3,6 +3,24 @@
  * These are pure functions with no side effects.
  */
 
+import type {
+  AmortizationRow,
+  AmortizationYear,
+  ClosingCostsBreakdown,
+  GhlConfig,
+  LoanCalculationResult,
+  LoanPayoff,
+  LoanProduct,
+  LoanProductOptions,
+  LoanProductPayments,
+  MiCancellation,
+  NetTangibleBenefit,
+  PricingLadderEntry,
+  PricingLadderRow,
+  TemporaryBuydown,
+  TemporaryBuydownType,
+} from '../schemas';
+
 /**
  * Calculate monthly Principal & Interest payment using standard amortization formula.
  * @param principal - Loan amount
@@ -273,3 +291,535 @@ export function calculateSellerCredit(
 ): number {
   return roundToCents(salesPrice * (percent / 100));
 }
+
+/**
+ * Build a month-by-month amortization schedule.
+ * @param principal - Loan amount (including any financed fees)
+ * @param annualRate - Annual interest rate as percentage
+ * @param termYears - Loan term in years
+ * @param options - Monthly MI and when it cancels (omit cancellation for life-of-loan MI),
+ *   plus any interest-only period. ARM rates are projected at the start rate.
+ * @returns One row per payment; the final payment is adjusted to clear the balance
+ */
+export function calculateAmortizationSchedule(
+  principal: number,
+  annualRate: number,
+  termYears: number,
+  options?: {
+    monthlyMi?: number;
+    propertyValue?: number;
+    miCancellation?: MiCancellation;
+    interestOnlyMonths?: number;
+  }
+): AmortizationRow[] {
+  if (principal <= 0 || termYears <= 0) return [];
+
+  const numPayments = termYears * 12;
+  const monthlyRate = annualRate / 100 / 12;
+  const interestOnlyMonths = Math.min(options?.interestOnlyMonths || 0, numPayments - 1);
+  let scheduledPayment = calculateMonthlyPI(principal, annualRate, termYears);
+  const monthlyMi = options?.monthlyMi || 0;
+  const propertyValue = options?.propertyValue || 0;
+  const cancelLtv = options?.miCancellation?.ltv;
+  const cancelMonths = options?.miCancellation?.months;
+
+  const schedule: AmortizationRow[] = [];
+  let balance = principal;
+  let cumulativeInterest = 0;
+
+  for (let month = 1; month <= numPayments && balance > 0; month++) {
+    // Amortization starts over the remaining term once interest-only ends
+    if (interestOnlyMonths > 0 && month === interestOnlyMonths + 1) {
+      scheduledPayment = calculateMonthlyPI(balance, annualRate, (numPayments - interestOnlyMonths) / 12);
+    }
+
+    const interest = roundToCents(balance * monthlyRate);
+    const isInterestOnly = month <= interestOnlyMonths;
+    const isLastPayment = month === numPayments || (!isInterestOnly && scheduledPayment - interest >= balance);
+    const principalPaid = isInterestOnly
+      ? 0
+      : isLastPayment
+        ? balance
+        : roundToCents(scheduledPayment - interest);
+
+    // MI is charged while the opening balance is above the cancellation LTV
+    let miActive = monthlyMi > 0;
+    if (miActive && cancelMonths !== undefined && month > cancelMonths) {
+      miActive = false;
+    }
+    if (miActive && cancelLtv !== undefined && propertyValue > 0) {
+      miActive = (balance / propertyValue) * 100 > cancelLtv;
+    }
+
+    balance = roundToCents(balance - principalPaid);
+    cumulativeInterest = roundToCents(cumulativeInterest + interest);
+
+    schedule.push({
+      month,
+      payment: roundToCents(principalPaid + interest),
+      principal: roundToCents(principalPaid),
+      interest,
+      mortgageInsurance: miActive ? monthlyMi : 0,
+      balance,
+      cumulativeInterest,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Roll a monthly amortization schedule up into yearly totals.
+ */
+export function summarizeAmortizationByYear(
+  schedule: AmortizationRow[]
+): AmortizationYear[] {
+  const years: AmortizationYear[] = [];
+
+  schedule.forEach((row) => {
+    const year = Math.ceil(row.month / 12);
+    let current = years[years.length - 1];
+    if (!current || current.year !== year) {
+      current = {
+        year,
+        principal: 0,
+        interest: 0,
+        mortgageInsurance: 0,
+        endingBalance: 0,
+        cumulativeInterest: 0,
+      };
+      years.push(current);
+    }
+    current.principal = roundToCents(current.principal + row.principal);
+    current.interest = roundToCents(current.interest + row.interest);
+    current.mortgageInsurance = roundToCents(current.mortgageInsurance + row.mortgageInsurance);
+    current.endingBalance = row.balance;
+    current.cumulativeInterest = row.cumulativeInterest;
+  });
+
+  return years;
+}
+
+/**
+ * Find the first payment without mortgage insurance.
+ * Returns null when there is no MI or it lasts for the life of the loan.
+ */
+export function getMiDropOffMonth(schedule: AmortizationRow[]): number | null {
+  if (!schedule.some((row) => row.mortgageInsurance > 0)) return null;
+  const dropOff = schedule.find(
+    (row, index) => index > 0 && row.mortgageInsurance === 0 && schedule[index - 1].mortgageInsurance > 0
+  );
+  return dropOff ? dropOff.month : null;
+}
+
+/**
+ * Build the amortization schedule for a calculated loan result.
+ */
+export function buildAmortizationSchedule(
+  result: LoanCalculationResult
+): AmortizationRow[] {
+  return calculateAmortizationSchedule(
+    result.totalLoanAmount,
+    result.interestRate,
+    result.term,
+    {
+      monthlyMi: result.monthlyPayment.mortgageInsurance,
+      propertyValue: result.propertyValue,
+      miCancellation: result.miCancellation,
+      interestOnlyMonths: result.productPayments?.interestOnlyMonths,
+    }
+  );
+}
+
+// Default ARM terms when the caller leaves them blank (initial/periodic/lifetime caps)
+const ARM_DEFAULTS: Record<Exclude<LoanProduct, 'fixed'>, {
+  fixedYears: number;
+  initialCap: number;
+  periodicCap: number;
+  lifetimeCap: number;
+}> = {
+  arm_5_1: { fixedYears: 5, initialCap: 2, periodicCap: 2, lifetimeCap: 5 },
+  arm_7_1: { fixedYears: 7, initialCap: 5, periodicCap: 2, lifetimeCap: 5 },
+  arm_10_1: { fixedYears: 10, initialCap: 5, periodicCap: 2, lifetimeCap: 5 },
+};
+const DEFAULT_ARM_MARGIN = 2.75;
+
+/**
+ * Get the initial fixed period of an ARM product in years.
+ * Returns null for fixed-rate loans.
+ */
+export function getArmFixedYears(loanProduct: LoanProduct): number | null {
+  return loanProduct === 'fixed' ? null : ARM_DEFAULTS[loanProduct].fixedYears;
+}
+
+/**
+ * Calculate the monthly interest-only payment.
+ */
+export function calculateInterestOnlyPayment(
+  principal: number,
+  annualRate: number
+): number {
+  if (principal <= 0 || annualRate <= 0) return 0;
+  return roundToCents((principal * (annualRate / 100)) / 12);
+}
+
+/**
+ * Calculate start, worst-case and qualifying payments for an ARM or
+ * interest-only loan.
+ *
+ * The worst case assumes the index rises enough for every adjustment to hit
+ * its cap until the lifetime ceiling is reached. The qualifying payment is
+ * fully amortizing over the term remaining after any interest-only period, at
+ * the greater of the note rate (plus `qualifyingRateAdder`) and the fully
+ * indexed rate.
+ *
+ * @param principal - Loan amount (including any financed fees)
+ * @param noteRate - Start (note) rate as percentage
+ * @param termYears - Loan term in years
+ * @param options - Product selection, ARM terms and interest-only period
+ * @param qualifyingRateAdder - Program-specific add-on to the note rate for ARM qualifying
+ * @returns Payment figures, or null for a fixed, fully amortizing loan
+ */
+export function calculateLoanProductPayments(
+  principal: number,
+  noteRate: number,
+  termYears: number,
+  options: LoanProductOptions | undefined,
+  qualifyingRateAdder = 0
+): LoanProductPayments | null {
+  const loanProduct = options?.loanProduct ?? 'fixed';
+  const numPayments = termYears * 12;
+  const interestOnlyMonths = Math.min(
+    (options?.interestOnlyYears || 0) * 12,
+    Math.max(numPayments - 12, 0)
+  );
+
+  if ((loanProduct === 'fixed' && interestOnlyMonths === 0) || principal <= 0 || numPayments <= 0) {
+    return null;
+  }
+
+  const fullyAmortizingPayment = calculateMonthlyPI(principal, noteRate, termYears);
+  const startPayment = interestOnlyMonths > 0
+    ? calculateInterestOnlyPayment(principal, noteRate)
+    : fullyAmortizingPayment;
+
+  let fixedPeriodMonths = numPayments;
+  let fullyIndexedRate: number | undefined;
+  let worstCaseRate = noteRate;
+  let qualifyingRate = noteRate;
+  let caps = { initialCap: 0, periodicCap: 0, lifetimeCap: 0 };
+
+  if (loanProduct !== 'fixed') {
+    const defaults = ARM_DEFAULTS[loanProduct];
+    fixedPeriodMonths = Math.min(defaults.fixedYears * 12, numPayments);
+    caps = {
+      initialCap: options?.armInitialCap ?? defaults.initialCap,
+      periodicCap: options?.armPeriodicCap ?? defaults.periodicCap,
+      lifetimeCap: options?.armLifetimeCap ?? defaults.lifetimeCap,
+    };
+    worstCaseRate = roundToDecimals(noteRate + caps.lifetimeCap, 3);
+    if (options?.armIndex !== undefined) {
+      fullyIndexedRate = roundToDecimals(options.armIndex + (options.armMargin ?? DEFAULT_ARM_MARGIN), 3);
+    }
+    qualifyingRate = roundToDecimals(
+      Math.max(noteRate + qualifyingRateAdder, fullyIndexedRate ?? 0),
+      3
+    );
+  }
+
+  // Walk the loan month by month, re-amortizing whenever the rate adjusts
+  // or the interest-only period ends, and keep the highest payment seen.
+  let balance = principal;
+  let rate = noteRate;
+  let payment = startPayment;
+  let worstCasePayment = startPayment;
+
+  for (let month = 1; month <= numPayments && balance > 0; month++) {
+    const monthsIntoAdjustment = month - fixedPeriodMonths - 1;
+    const isAdjustment = monthsIntoAdjustment >= 0 && monthsIntoAdjustment % 12 === 0;
+    const remainingYears = (numPayments - month + 1) / 12;
+
+    if (isAdjustment) {
+      const cap = monthsIntoAdjustment === 0 ? caps.initialCap : caps.periodicCap;
+      rate = Math.min(rate + cap, worstCaseRate);
+    }
+    if (month > interestOnlyMonths && (isAdjustment || month === interestOnlyMonths + 1)) {
+      payment = calculateMonthlyPI(balance, rate, remainingYears);
+    } else if (month <= interestOnlyMonths && isAdjustment) {
+      payment = calculateInterestOnlyPayment(balance, rate);
+    }
+
+    worstCasePayment = Math.max(worstCasePayment, payment);
+
+    const interest = balance * (rate / 100 / 12);
+    balance = month <= interestOnlyMonths ? balance : roundToCents(balance - (payment - interest));
+  }
+
+  const qualifyingPayment = calculateMonthlyPI(
+    principal,
+    qualifyingRate,
+    (numPayments - interestOnlyMonths) / 12
+  );
+
+  return {
+    loanProduct,
+    startPayment,
+    fullyAmortizingPayment,
+    fixedPeriodMonths,
+    interestOnlyMonths,
+    fullyIndexedRate,
+    worstCaseRate,
+    worstCasePayment: roundToCents(worstCasePayment),
+    qualifyingRate,
+    qualifyingPayment,
+  };
+}
+
+/**
+ * Monthly housing payment used for DTI qualifying.
+ * ARM and interest-only loans swap the start P&I for the qualifying payment.
+ */
+export function getQualifyingHousingPayment(result: LoanCalculationResult): number {
+  const { monthlyPayment, productPayments } = result;
+  if (!productPayments) return monthlyPayment.totalMonthly;
+  return roundToCents(
+    monthlyPayment.totalMonthly - monthlyPayment.principalAndInterest + productPayments.qualifyingPayment
+  );
+}
+
+/**
+ * Refinance fee schedule from the GHL refinance custom values, keyed by the
+ * fee override inputs they seed. Falls back to the purchase schedule when the config
+ * has no refinance fees.
+ */
+export function getRefinanceFeeDefaults(config: GhlConfig) {
+  const fees = config.feesRefi || config.fees;
+
+  return {
+    processingFee: fees.processing,
+    underwritingFee: fees.underwriting,
+    docPrepFee: fees.docPrep,
+    appraisalFee: fees.appraisal,
+    creditReportFee: fees.creditReport,
+    floodCertFee: fees.floodCert,
+    taxServiceFee: fees.taxService,
+    escrowFee: fees.settlement,
+    notaryFee: fees.notary,
+    recordingFee: fees.recording,
+    ownerTitlePolicy: fees.ownerTitlePolicy,
+    lenderTitlePolicy: fees.lenderTitlePolicy,
+    pestInspectionFee: fees.pestInspection,
+    propertyInspectionFee: fees.propertyInspection,
+    poolInspectionFee: fees.poolInspection,
+  };
+}
+
+/**
+ * Estimate the existing loan payoff: principal balance plus per-diem interest
+ * accrued through funding (payoffDays), on a 365-day basis.
+ */
+export function calculatePayoff(
+  principalBalance: number,
+  annualRate: number,
+  payoffDays: number
+): LoanPayoff {
+  const perDiem = roundToCents((principalBalance * (annualRate / 100)) / 365);
+  const accruedInterest = roundToCents(perDiem * payoffDays);
+
+  return {
+    principalBalance,
+    interestRate: annualRate,
+    perDiem,
+    payoffDays,
+    accruedInterest,
+    totalPayoff: roundToCents(principalBalance + accruedInterest),
+  };
+}
+
+/**
+ * Closing costs a refinance has to recoup: lender and third-party fees plus
+ * misc fees, net of lender credit. Prepaids, escrows and financed program fees
+ * (UFMIP, VA funding fee) are excluded.
+ */
+export function getRecoupableClosingCosts(closingCosts: ClosingCostsBreakdown): number {
+  return roundToCents(Math.max(
+    0,
+    closingCosts.totalLenderFees +
+      closingCosts.totalThirdPartyFees +
+      closingCosts.miscFee -
+      closingCosts.lenderCredit
+  ));
+}
+
+/**
+ * Compare the current loan with the refinance: monthly P&I savings, months to
+ * recoup closing costs, and total interest over the remaining vs new term.
+ * Returns null unless a current rate or current P&I payment is known.
+ * The remaining term defaults to the new loan's term.
+ */
+export function calculateNetTangibleBenefit(params: {
+  existingLoanBalance: number;
+  currentInterestRate?: number;
+  currentMonthlyPayment?: number;
+  currentRemainingTermMonths?: number;
+  newLoanAmount: number; // Including financed fees
+  newPrincipalAndInterest: number; // Fully amortizing
+  termYears: number;
+  recoupableCosts: number;
+}): NetTangibleBenefit | null {
+  const {
+    existingLoanBalance,
+    currentInterestRate,
+    currentMonthlyPayment,
+    newLoanAmount,
+    newPrincipalAndInterest,
+    termYears,
+    recoupableCosts,
+  } = params;
+
+  if (!currentInterestRate && !currentMonthlyPayment) return null;
+
+  const remainingTermMonths = params.currentRemainingTermMonths || termYears * 12;
+  const currentPrincipalAndInterest = currentMonthlyPayment
+    || calculateMonthlyPI(existingLoanBalance, currentInterestRate ?? 0, remainingTermMonths / 12);
+
+  const monthlySavings = roundToCents(currentPrincipalAndInterest - newPrincipalAndInterest);
+  const breakEvenMonths = monthlySavings > 0
+    ? Math.ceil(recoupableCosts / monthlySavings)
+    : null;
+
+  const currentRemainingInterest = roundToCents(
+    Math.max(0, currentPrincipalAndInterest * remainingTermMonths - existingLoanBalance)
+  );
+  const newTotalInterest = roundToCents(
+    Math.max(0, newPrincipalAndInterest * termYears * 12 - newLoanAmount)
+  );
+
+  return {
+    currentPrincipalAndInterest: roundToCents(currentPrincipalAndInterest),
+    newPrincipalAndInterest,
+    monthlySavings,
+    recoupableCosts,
+    breakEvenMonths,
+    remainingTermMonths,
+    currentRemainingInterest,
+    newTotalInterest,
+    interestDelta: roundToCents(newTotalInterest - currentRemainingInterest),
+    hasBenefit: monthlySavings > 0,
+  };
+}
+
+/**
+ * Price every rate on a rate/price ladder with the program's own calculator.
+ * `priceRate` re-runs the calculator at the rate with the points added to the
+ * loan fee (or the credit added to the lender credit). Savings and break-even
+ * compare each rate with par, the entry priced closest to zero.
+ * @param pointsBase - Loan amount the points are a percentage of
+ */
+export function calculatePricingLadder(
+  ladder: PricingLadderEntry[],
+  pointsBase: number,
+  priceRate: (rate: number, pointsCost: number) => LoanCalculationResult
+): PricingLadderRow[] {
+  if (ladder.length === 0) return [];
+
+  const entries = [...ladder].sort((a, b) => a.rate - b.rate);
+  // Ties go to the higher rate, which costs less upfront
+  const par = entries.reduce((best, entry) =>
+    Math.abs(entry.price) <= Math.abs(best.price) ? entry : best
+  );
+
+  const priced = entries.map((entry) => {
+    const pointsCost = roundToCents((pointsBase * entry.price) / 100);
+    return { entry, pointsCost, result: priceRate(entry.rate, pointsCost) };
+  });
+  const parResult = priced[entries.indexOf(par)].result;
+
+  return priced.map(({ entry, pointsCost, result }) => {
+    const monthlySavings = roundToCents(
+      parResult.monthlyPayment.principalAndInterest - result.monthlyPayment.principalAndInterest
+    );
+    const extraCost = roundToCents(result.cashToClose - parResult.cashToClose);
+
+    return {
+      rate: entry.rate,
+      price: entry.price,
+      pointsCost,
+      principalAndInterest: result.monthlyPayment.principalAndInterest,
+      monthlyPayment: result.monthlyPayment.totalMonthly,
+      cashToClose: result.cashToClose,
+      apr: result.apr,
+      isPar: entry === par,
+      monthlySavings,
+      breakEvenMonths: monthlySavings > 0 && extraCost > 0
+        ? Math.ceil(extraCost / monthlySavings)
+        : null,
+    };
+  });
+}
+
+// Rate reduction below the note rate for each buydown year
+const BUYDOWN_REDUCTIONS: Record<Exclude<TemporaryBuydownType, 'none'>, number[]> = {
+  '1_0': [1],
+  '2_1': [2, 1],
+  '3_2_1': [3, 2, 1],
+};
+
+/**
+ * Year-by-year payments for a temporary buydown and the subsidy escrowed at
+ * closing to cover the difference from the note rate payment.
+ * The seller credit funds the subsidy first; any shortfall falls to the buyer.
+ * Returns null when there is no buydown.
+ */
+export function calculateTemporaryBuydown(
+  loanAmount: number,
+  noteRate: number,
+  termYears: number,
+  type: TemporaryBuydownType | undefined,
+  sellerCredit: number
+): TemporaryBuydown | null {
+  if (!type || type === 'none' || loanAmount <= 0) return null;
+
+  const notePayment = calculateMonthlyPI(loanAmount, noteRate, termYears);
+  const years = BUYDOWN_REDUCTIONS[type].map((reduction, index) => {
+    const rate = Math.max(0, noteRate - reduction);
+    const principalAndInterest = calculateMonthlyPI(loanAmount, rate, termYears);
+    const monthlyReduction = roundToCents(notePayment - principalAndInterest);
+    return {
+      year: index + 1,
+      rate,
+      principalAndInterest,
+      monthlyReduction,
+      annualSubsidy: roundToCents(monthlyReduction * 12),
+    };
+  });
+
+  const subsidyAmount = roundToCents(years.reduce((sum, year) => sum + year.annualSubsidy, 0));
+  const sellerFunded = roundToCents(Math.min(sellerCredit, subsidyAmount));
+
+  return {
+    type,
+    years,
+    subsidyAmount,
+    sellerFunded,
+    buyerFunded: roundToCents(subsidyAmount - sellerFunded),
+  };
+}
+
+/**
+ * Add an escrowed buydown subsidy to the closing costs. The seller credit is
+ * already in the credits, so it pays for the subsidy before other costs.
+ */
+export function applyBuydownSubsidy(
+  closingCosts: ClosingCostsBreakdown,
+  buydown: TemporaryBuydown | null
+): ClosingCostsBreakdown {
+  if (!buydown) return closingCosts;
+
+  return {
+    ...closingCosts,
+    buydownSubsidy: buydown.subsidyAmount,
+    totalClosingCosts: roundToCents(closingCosts.totalClosingCosts + buydown.subsidyAmount),
+    netClosingCosts: roundToCents(closingCosts.netClosingCosts + buydown.subsidyAmount),
+  };
+}
@@ -1,41 +1,73 @@
 /**
  * Loan Comparison Calculator
  *
- * Compares up to 3 loan scenarios side-by-side.
- * Shows differences in monthly payment and cash to close relative to first scenario.
+ * Compares up to 3 loan scenarios side-by-side, each priced with its
+ * program's purchase or refinance calculator, so purchase and refinance
+ * options can sit next to each other.
+ * Shows differences in monthly payment and cash to close relative to first scenario,
+ * plus 5/7/10/30-year cost of ownership and the break-even month for each pair.
  */
 
 import type {
   ComparisonInput,
   ComparisonScenario,
+  RefinanceComparisonScenario,
   LoanProgram,
+  LoanPurpose,
   GhlConfig,
   LoanCalculationResult,
+  LoanProduct,
+  LoanProductPayments,
 } from '../schemas';
-import { calculateConventionalPurchase } from './conventional';
-import { calculateFhaPurchase } from './fha';
-import { calculateVaPurchase } from './va';
-import {
-  calculateDownPaymentFromPercent,
-  roundToCents,
-} from './common';
+import { calculateConventionalPurchase, calculateConventionalRefinance } from './conventional';
+import { calculateFhaPurchase, calculateFhaRefinance } from './fha';
+import { calculateVaPurchase, calculateVaRefinance } from './va';
+import { calculateUsdaPurchase } from './usda';
+import { buildAmortizationSchedule, roundToCents } from './common';
+
+// Holding periods for the cost-of-ownership comparison, in years
+export const COST_HORIZON_YEARS = [5, 7, 10, 30] as const;
+const MAX_HORIZON_MONTHS = 30 * 12;
 
 export interface ComparisonResult {
   scenarios: ScenarioResult[];
   differences: ScenarioDifference[];
+  breakEvens: ScenarioBreakEven[];
+}
+
+/**
+ * What a scenario costs if the borrower keeps the loan for a given number of years.
+ * Taxes, insurance and HOA dues are left out since they don't depend on the loan.
+ */
+export interface HorizonCost {
+  years: number;
+  payments: number; // Principal and interest paid
+  mortgageInsurance: number; // Monthly MI paid until it cancels
+  upfrontCosts: number; // Cash to close
+  equityBuilt: number; // Down payment plus principal paid
+  totalCost: number; // Payments + MI + upfront costs - equity built
 }
 
 export interface ScenarioResult {
   name: string;
   program: LoanProgram;
+  purpose: LoanPurpose;
   loanAmount: number;
   totalLoanAmount: number;
   downPayment: number;
   ltv: number;
+  interestRate: number;
+  apr: number;
+  term: number;
   monthlyPayment: number;
   principalAndInterest: number;
   mortgageInsurance: number;
-  cashToClose: number;
+  cashToClose: number; // Negative means cash to the borrower
+  monthlySavings?: number; // Refinances with a current payment or rate
+  breakEvenMonths?: number | null;
+  loanProduct: LoanProduct;
+  productPayments?: LoanProductPayments;
+  costOfOwnership: HorizonCost[];
 }
 
 export interface ScenarioDifference {
@@ -46,144 +78,154 @@ export interface ScenarioDifference {
 }
 
 /**
- * Calculate a single scenario based on program type.
+ * Break-even between two scenarios: the one that is cheaper to own at first,
+ * and the month the other one catches up (null if it never does within 30 years).
+ */
+export interface ScenarioBreakEven {
+  firstIndex: number;
+  secondIndex: number;
+  initiallyCheaperIndex: number;
+  breakEvenMonth: number | null;
+}
+
+interface CostTimeline {
+  upfrontCosts: number;
+  upfrontEquity: number;
+  // Cumulative values by month; index 0 is closing day
+  payments: number[];
+  mortgageInsurance: number[];
+  principal: number[];
+}
+
+/**
+ * Accumulate payments, MI and principal month by month over the longest horizon.
+ * ARM payments are projected at the start rate, like the amortization schedule.
+ */
+function buildCostTimeline(
+  calcResult: LoanCalculationResult,
+  purpose: LoanPurpose
+): CostTimeline {
+  const schedule = buildAmortizationSchedule(calcResult);
+  const timeline: CostTimeline = {
+    upfrontCosts: calcResult.cashToClose,
+    // Only a purchase down payment is new equity; a refinance starts from existing equity
+    upfrontEquity: purpose === 'purchase' ? calcResult.downPayment : 0,
+    payments: [0],
+    mortgageInsurance: [0],
+    principal: [0],
+  };
+
+  for (let month = 1; month <= MAX_HORIZON_MONTHS; month++) {
+    // Costs stop accruing once the loan is paid off
+    const row = schedule[month - 1];
+    timeline.payments.push(timeline.payments[month - 1] + (row?.payment ?? 0));
+    timeline.mortgageInsurance.push(timeline.mortgageInsurance[month - 1] + (row?.mortgageInsurance ?? 0));
+    timeline.principal.push(timeline.principal[month - 1] + (row?.principal ?? 0));
+  }
+
+  return timeline;
+}
+
+function getNetCost(timeline: CostTimeline, month: number): number {
+  return (
+    timeline.payments[month] +
+    timeline.mortgageInsurance[month] +
+    timeline.upfrontCosts -
+    timeline.upfrontEquity -
+    timeline.principal[month]
+  );
+}
+
+function getHorizonCost(timeline: CostTimeline, years: number): HorizonCost {
+  const month = years * 12;
+  return {
+    years,
+    payments: roundToCents(timeline.payments[month]),
+    mortgageInsurance: roundToCents(timeline.mortgageInsurance[month]),
+    upfrontCosts: roundToCents(timeline.upfrontCosts),
+    equityBuilt: roundToCents(timeline.upfrontEquity + timeline.principal[month]),
+    totalCost: roundToCents(getNetCost(timeline, month)),
+  };
+}
+
+/**
+ * Find when the scenario that is cheaper to own early on stops being cheaper.
+ */
+function findBreakEven(
+  timelines: CostTimeline[],
+  firstIndex: number,
+  secondIndex: number
+): ScenarioBreakEven {
+  const diffAt = (month: number) => roundToCents(
+    getNetCost(timelines[firstIndex], month) - getNetCost(timelines[secondIndex], month)
+  );
+
+  // The first month the costs differ decides which scenario starts ahead
+  let month = 0;
+  while (month < MAX_HORIZON_MONTHS && diffAt(month) === 0) {
+    month++;
+  }
+  const firstIsCheaper = diffAt(month) <= 0;
+
+  let breakEvenMonth: number | null = null;
+  for (month++; month <= MAX_HORIZON_MONTHS; month++) {
+    const diff = diffAt(month);
+    if (firstIsCheaper ? diff > 0 : diff < 0) {
+      breakEvenMonth = month;
+      break;
+    }
+  }
+
+  return {
+    firstIndex,
+    secondIndex,
+    initiallyCheaperIndex: firstIsCheaper ? firstIndex : secondIndex,
+    breakEvenMonth,
+  };
+}
+
+/**
+ * Calculate a refinance scenario with its program's refinance engine.
+ */
+function calculateRefinanceScenario(
+  scenario: RefinanceComparisonScenario,
+  config: GhlConfig
+): LoanCalculationResult {
+  switch (scenario.program) {
+    case 'conventional':
+      return calculateConventionalRefinance(scenario, config);
+    case 'fha':
+      return calculateFhaRefinance(scenario, config);
+    case 'va':
+      return calculateVaRefinance(scenario, config);
+    default:
+      throw new Error(`Unknown refinance program: ${(scenario as RefinanceComparisonScenario).program}`);
+  }
+}
+
+/**
+ * Calculate a single scenario with its program's purchase or refinance
+ * engine, so the numbers match the individual calculator for the same inputs.
  */
 function calculateScenario(
   scenario: ComparisonScenario,
-  sharedInputs: {
-    propertyTaxMonthly: number;
-    homeInsuranceMonthly: number;
-    hoaDuesMonthly: number;
-  },
   config: GhlConfig
 ): LoanCalculationResult {
-  const { salesPrice, downPaymentPercent, interestRate, termYears, program } =
-    scenario;
-
-  const downPayment = calculateDownPaymentFromPercent(
-    salesPrice,
-    downPaymentPercent
-  );
+  if (scenario.purpose === 'refinance') {
+    return calculateRefinanceScenario(scenario, config);
+  }
 
-  switch (program) {
+  switch (scenario.program) {
     case 'conventional':
-      return calculateConventionalPurchase(
-        {
-          salesPrice,
-          downPaymentAmount: downPayment,
-          interestRate,
-          termYears,
-          propertyTaxMonthly: sharedInputs.propertyTaxMonthly,
-          homeInsuranceMonthly: sharedInputs.homeInsuranceMonthly,
-          hoaDuesMonthly: sharedInputs.hoaDuesMonthly,
-          floodInsuranceMonthly: 0,
-          creditScoreTier: '740', // Default for comparison
-          pmiType: 'monthly',
-          sellerCreditAmount: 0,
-          lenderCreditAmount: 0,
-          depositAmount: 0,
-          loanFee: 0,
-          loanFeePercent: 0,
-          loanFeeMode: 'amount',
-          prepaidInterestDays: 15,
-          prepaidTaxMonths: 6,
-          prepaidInsuranceMonths: 15,
-          closingCostsTotal: 0,
-          miscFee: 0,
-          mortgageTax: 0,
-        },
-        config
-      );
+      return calculateConventionalPurchase(scenario, config);
     case 'fha':
-      return calculateFhaPurchase(
-        {
-          salesPrice,
-          downPaymentAmount: downPayment,
-          interestRate,
-          termYears,
-          propertyTaxMonthly: sharedInputs.propertyTaxMonthly,
-          homeInsuranceMonthly: sharedInputs.homeInsuranceMonthly,
-          hoaDuesMonthly: sharedInputs.hoaDuesMonthly,
-          floodInsuranceMonthly: 0,
-          is203k: false,
-          loanFee: 0,
-          loanFeePercent: 0,
-          loanFeeMode: 'amount',
-          sellerCreditAmount: 0,
-          lenderCreditAmount: 0,
-          depositAmount: 0,
-          prepaidInterestDays: 15,
-          prepaidTaxMonths: 6,
-          prepaidInsuranceMonths: 15,
-          closingCostsTotal: 0,
-          miscFee: 0,
-          mortgageTax: 0,
-        },
-        config
-      );
-
+      return calculateFhaPurchase(scenario, config);
     case 'va':
-      return calculateVaPurchase(
-        {
-          salesPrice,
-          downPaymentAmount: downPayment,
-          interestRate,
-          termYears,
-          propertyTaxMonthly: sharedInputs.propertyTaxMonthly,
-          homeInsuranceMonthly: sharedInputs.homeInsuranceMonthly,
-          hoaDuesMonthly: sharedInputs.hoaDuesMonthly,
-          floodInsuranceMonthly: 0,
-          vaUsage: 'first',
-          isDisabledVeteran: false,
-          isReservist: false,
-          loanFee: 0,
-          loanFeePercent: 0,
-          loanFeeMode: 'amount',
-          sellerCreditAmount: 0,
-          lenderCreditAmount: 0,
-          depositAmount: 0,
-          prepaidInterestDays: 15,
-          prepaidTaxMonths: 6,
-          prepaidInsuranceMonths: 15,
-          closingCostsTotal: 0,
-          miscFee: 0,
-          mortgageTax: 0,
-        },
-        config
-      );
-
+      return calculateVaPurchase(scenario, config);
     case 'usda':
-      // USDA not fully implemented yet, fall back to conventional
-      return calculateConventionalPurchase(
-        {
-          salesPrice,
-          downPaymentAmount: downPayment,
-          interestRate,
-          termYears,
-          propertyTaxMonthly: sharedInputs.propertyTaxMonthly,
-          homeInsuranceMonthly: sharedInputs.homeInsuranceMonthly,
-          hoaDuesMonthly: sharedInputs.hoaDuesMonthly,
-          floodInsuranceMonthly: 0,
-          creditScoreTier: '740',
-          pmiType: 'monthly',
-          sellerCreditAmount: 0,
-          lenderCreditAmount: 0,
-          depositAmount: 0,
-          loanFee: 0,
-          loanFeePercent: 0,
-          loanFeeMode: 'amount',
-          prepaidInterestDays: 15,
-          prepaidTaxMonths: 6,
-          prepaidInsuranceMonths: 15,
-          closingCostsTotal: 0,
-          miscFee: 0,
-          mortgageTax: 0,
-        },
-        config
-      );
-
+      return calculateUsdaPurchase(scenario, config);
     default:
-      throw new Error(`Unknown loan program: ${program}`);
+      throw new Error(`Unknown loan program: ${(scenario as ComparisonScenario).program}`);
   }
 }
 
@@ -197,27 +239,44 @@ export function compareScenarios(
   const { scenarios, propertyTaxMonthly, homeInsuranceMonthly, hoaDuesMonthly } =
     input;
 
-  const sharedInputs = {
-    propertyTaxMonthly,
-    homeInsuranceMonthly,
-    hoaDuesMonthly,
-  };
+  const timelines: CostTimeline[] = [];
 
-  // Calculate each scenario
+  // Calculate each scenario, with shared property costs overriding the scenario's own
   const results: ScenarioResult[] = scenarios.map((scenario) => {
-    const calcResult = calculateScenario(scenario, sharedInputs, config);
+    const calcResult = calculateScenario(
+      {
+        ...scenario,
+        propertyTaxMonthly: propertyTaxMonthly ?? scenario.propertyTaxMonthly,
+        homeInsuranceMonthly: homeInsuranceMonthly ?? scenario.homeInsuranceMonthly,
+        hoaDuesMonthly: hoaDuesMonthly ?? scenario.hoaDuesMonthly,
+      },
+      config
+    );
+
+    const purpose = scenario.purpose ?? 'purchase';
+    const timeline = buildCostTimeline(calcResult, purpose);
+    timelines.push(timeline);
 
     return {
       name: scenario.name,
       program: scenario.program,
+      purpose,
       loanAmount: calcResult.loanAmount,
       totalLoanAmount: calcResult.totalLoanAmount,
       downPayment: calcResult.downPayment,
       ltv: calcResult.ltv,
+      interestRate: calcResult.interestRate,
+      apr: calcResult.apr,
+      term: calcResult.term,
       monthlyPayment: calcResult.monthlyPayment.totalMonthly,
       principalAndInterest: calcResult.monthlyPayment.principalAndInterest,
       mortgageInsurance: calcResult.monthlyPayment.mortgageInsurance,
       cashToClose: calcResult.cashToClose,
+      monthlySavings: calcResult.netTangibleBenefit?.monthlySavings,
+      breakEvenMonths: calcResult.netTangibleBenefit?.breakEvenMonths,
+      loanProduct: calcResult.productPayments?.loanProduct ?? 'fixed',
+      productPayments: calcResult.productPayments,
+      costOfOwnership: COST_HORIZON_YEARS.map((years) => getHorizonCost(timeline, years)),
     };
   });
 
@@ -232,9 +291,18 @@ export function compareScenarios(
     isBaseline: index === 0,
   }));
 
+  // Break-even for every pair of scenarios
+  const breakEvens: ScenarioBreakEven[] = [];
+  for (let first = 0; first < results.length; first++) {
+    for (let second = first + 1; second < results.length; second++) {
+      breakEvens.push(findBreakEven(timelines, first, second));
+    }
+  }
+
   return {
     scenarios: results,
     differences,
+    breakEvens,
   };
 }
 
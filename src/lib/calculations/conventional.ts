@@ -14,6 +14,7 @@ import type {
   PmiType,
   BasePurchaseInput,
   BaseRefinanceInput,
+  LoanProductOptions,
 } from '../schemas';
 import {
   calculateMonthlyPI,
@@ -33,11 +34,94 @@ import {
   getLtvTier,
   isHighBalanceLoan,
   roundToCents,
+  roundToDecimals,
   calculateAPR,
+  calculateLoanProductPayments,
+  calculateNetTangibleBenefit,
+  calculatePayoff,
+  getRefinanceFeeDefaults,
+  getRecoupableClosingCosts,
+  getArmFixedYears,
+  calculatePricingLadder,
+  calculateTemporaryBuydown,
+  applyBuydownSubsidy,
 } from './common';
 
+/**
+ * Rate add-on for qualifying conventional ARMs.
+ * ARMs fixed for 5 years or less qualify at the note rate + 2% (or the fully
+ * indexed rate if higher); longer fixed periods qualify at the note rate.
+ */
+export function getConventionalArmQualifyingAdder(
+  productOptions?: LoanProductOptions
+): number {
+  const fixedYears = getArmFixedYears(productOptions?.loanProduct ?? 'fixed');
+  return fixedYears !== null && fixedYears <= 5 ? 2 : 0;
+}
+
+// Split premium: this share of the loan is paid upfront at closing and buys
+// down the monthly premium in proportion to the single-premium factor
+export const PMI_SPLIT_UPFRONT_PERCENT = 0.5;
+
+// Single-premium factors used when the configured table cell is blank (740 column)
+const FALLBACK_SINGLE_PMI_RATES: Record<'97' | '95' | '90' | '85', number> = {
+  '97': 2.25,
+  '95': 1.55,
+  '90': 0.8,
+  '85': 0.55,
+};
+
+/**
+ * Monthly PMI rate used when the configured table cell is blank.
+ */
+function getFallbackMonthlyPmiRate(ltv: number, isHighBalance: boolean, loanAmount: number): number {
+  if (isHighBalance) {
+    if (ltv >= 95) return 0.75;
+    if (ltv >= 90) return 0.55;
+    return 0.39;
+  }
+  if (ltv >= 95) {
+    // Secondary threshold for high-LTV conforming loans
+    return loanAmount > 500000 ? 0.41 : 0.55;
+  }
+  if (ltv >= 90) return 0.52;
+  return 0.19;
+}
+
+/**
+ * Look up a PMI factor from the configured MI tables by LTV tier and credit
+ * tier. High-balance loans fall back to the standard table, then to the
+ * built-in rates, when a cell is zero.
+ */
+function lookupPmiFactor(
+  ltv: number,
+  creditTier: CreditScoreTier,
+  loanAmount: number,
+  premium: 'monthly' | 'single',
+  config: GhlConfig
+): number {
+  const ltvTier = getLtvTier(ltv);
+  if (!ltvTier) return 0;
+
+  const isHighBalance = isHighBalanceLoan(loanAmount, config.limits.conforming || 766550);
+  const tables = isHighBalance
+    ? [config.miFactors?.highBalance, config.miFactors?.standard]
+    : [config.miFactors?.standard];
+
+  for (const table of tables) {
+    const factor = table?.[premium]?.[ltvTier]?.[creditTier];
+    if (factor && factor > 0) return factor;
+  }
+
+  return premium === 'monthly'
+    ? getFallbackMonthlyPmiRate(ltv, isHighBalance, loanAmount)
+    : FALLBACK_SINGLE_PMI_RATES[ltvTier];
+}
+
 /**
  * Look up PMI rate from config based on LTV, credit score, and loan balance.
+ * Monthly and split premiums return the annual monthly-premium rate; single
+ * premiums return the upfront percentage of the loan.
  */
 export function lookupPmiRate(
   ltv: number,
@@ -45,33 +129,21 @@ export function lookupPmiRate(
   loanAmount: number,
   pmiType: PmiType,
   config: GhlConfig,
-  downPaymentPercent: number
+  downPaymentPercent?: number
 ): number {
-  // Use user-defined threshold (LTV > 80% requires PMI)
-  // Fix: 19% down is 81% LTV, which must show PMI
-  if (downPaymentPercent >= 20 || ltv <= 80) return 0;
-
-  const conformingLimit = config.limits.conforming || 766550;
-  const isJumbo = loanAmount > conformingLimit;
+  // LTV > 80% requires PMI (19% down is 81% LTV, which must show PMI)
+  if ((downPaymentPercent ?? 0) >= 20 || ltv <= 80) return 0;
 
-  if (isJumbo) {
-    // JUMBO RATES
-    if (ltv >= 95) return 0.75;
-    if (ltv >= 90) return 0.55;
-    if (ltv > 80) return 0.39;
-  } else {
-    // CONFORMING RATES
-    if (ltv >= 95) {
-      // New secondary threshold for high-LTV conforming loans
-      return loanAmount > 500000 ? 0.41 : 0.55;
-    } else if (ltv >= 90) {
-      return 0.52;
-    } else if (ltv > 80) {
-      return 0.19;
-    }
+  if (pmiType === 'single_financed' || pmiType === 'single_cash') {
+    return lookupPmiFactor(ltv, creditTier, loanAmount, 'single', config);
   }
 
-  return 0;
+  const monthlyRate = lookupPmiFactor(ltv, creditTier, loanAmount, 'monthly', config);
+  if (pmiType !== 'split') return monthlyRate;
+
+  const singleRate = lookupPmiFactor(ltv, creditTier, loanAmount, 'single', config);
+  const remainingShare = Math.max(0, 1 - PMI_SPLIT_UPFRONT_PERCENT / singleRate);
+  return roundToDecimals(monthlyRate * remainingShare, 3);
 }
 
 /**
@@ -325,22 +397,36 @@ export function calculateConventionalPurchase(
 
   let monthlyPmi = 0;
   let totalLoanAmount = loanAmount;
+  let pmiUpfrontPremium = 0;
 
   if (pmiType === 'monthly') {
     monthlyPmi = calculateMonthlyPmi(loanAmount, pmiRate);
-  } else if (pmiType === 'single_financed') {
-    // Single premium financed into loan
-    const singlePremium = calculateSinglePremiumPmi(loanAmount, pmiRate);
-    totalLoanAmount = loanAmount + singlePremium;
+  } else if (pmiType === 'split') {
+    // Reduced monthly premium plus an upfront portion paid at closing
+    monthlyPmi = calculateMonthlyPmi(loanAmount, pmiRate);
+    pmiUpfrontPremium = pmiRate > 0
+      ? calculateSinglePremiumPmi(loanAmount, PMI_SPLIT_UPFRONT_PERCENT)
+      : 0;
+  } else {
+    pmiUpfrontPremium = calculateSinglePremiumPmi(loanAmount, pmiRate);
+    if (pmiType === 'single_financed') {
+      // Single premium financed into loan
+      totalLoanAmount = loanAmount + pmiUpfrontPremium;
+    }
   }
-  // For single_cash, premium is added to closing costs (handled below)
+  // Single cash and split upfront premiums are added to closing costs (handled below)
 
-  // Calculate monthly P&I
-  const principalAndInterest = calculateMonthlyPI(
+  // Calculate monthly P&I (start payment for ARM / interest-only products)
+  const productPayments = calculateLoanProductPayments(
     totalLoanAmount,
     interestRate || 0,
-    termYears
+    termYears,
+    input.productOptions,
+    getConventionalArmQualifyingAdder(input.productOptions)
   );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : calculateMonthlyPI(totalLoanAmount, interestRate || 0, termYears);
 
   // Calculate monthly escrows - use user input values instead of automatic calculations
   const monthlyTax = propertyTaxMonthly || roundToCents(((salesPrice || 0) * 0.0125) / 12);
@@ -388,19 +474,28 @@ export function calculateConventionalPurchase(
     input
   );
 
-  // Add single premium PMI to closing costs if paid in cash
+  // Add upfront PMI to closing costs if paid in cash
   let adjustedClosingCosts = closingCosts;
-  if (pmiType === 'single_cash') {
-    const singlePremium = calculateSinglePremiumPmi(loanAmount, pmiRate);
+  if (pmiType !== 'single_financed' && pmiUpfrontPremium > 0) {
     adjustedClosingCosts = {
       ...closingCosts,
       totalClosingCosts: roundToCents(
-        closingCosts.totalClosingCosts + singlePremium
+        closingCosts.totalClosingCosts + pmiUpfrontPremium
       ),
-      netClosingCosts: roundToCents(closingCosts.netClosingCosts + singlePremium),
+      netClosingCosts: roundToCents(closingCosts.netClosingCosts + pmiUpfrontPremium),
     };
   }
 
+  // Seller-funded temporary buydown is escrowed at closing
+  const temporaryBuydown = calculateTemporaryBuydown(
+    totalLoanAmount,
+    interestRate || 0,
+    termYears,
+    input.temporaryBuydown,
+    closingCosts.sellerCredit
+  );
+  adjustedClosingCosts = applyBuydownSubsidy(adjustedClosingCosts, temporaryBuydown);
+
   // Calculate cash to close
   const initialCashToClose = calculateCashToClose(
     downPayment,
@@ -414,7 +509,7 @@ export function calculateConventionalPurchase(
   const apr = calculateAPR(
     totalLoanAmount,
     adjustedClosingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
@@ -427,13 +522,29 @@ export function calculateConventionalPurchase(
     closingCosts: adjustedClosingCosts,
     cashToClose,
     pmiRate,
+    pmiUpfrontPremium: pmiUpfrontPremium || undefined,
     // Reporting fields
     propertyValue: salesPrice || 0,
     interestRate: interestRate || 0,
     apr,
     term: termYears,
     downPaymentPercent: downPaymentPercent || calculateDownPaymentPercent(salesPrice || 0, downPayment),
-    monthlyMiRate: pmiRate,
+    monthlyMiRate: pmiType === 'monthly' || pmiType === 'split' ? pmiRate : 0,
+    // PMI cancels automatically at 78% of original value
+    miCancellation: { ltv: 78 },
+    productPayments: productPayments ?? undefined,
+    pricingLadder: input.pricingLadder?.length
+      ? calculatePricingLadder(input.pricingLadder, totalLoanAmount, (rate, pointsCost) =>
+        calculateConventionalPurchase({
+          ...input,
+          interestRate: rate,
+          loanFee: (input.loanFee || 0) + Math.max(0, pointsCost),
+          lenderCreditAmount: (input.lenderCreditAmount || 0) + Math.max(0, -pointsCost),
+          pricingLadder: undefined,
+        }, config)
+      )
+      : undefined,
+    temporaryBuydown: temporaryBuydown ?? undefined,
   };
 }
 
@@ -461,30 +572,9 @@ export function calculateConventionalRefinance(
     prepaidInsuranceMonths = 0,
   } = input;
 
-  // Use manual fees as per request (matching Second Image)
   // Loan fee passed from input
   const loanFee = input.loanFee || 0;
-
-  const manualFees = {
-    docPrep: 595,
-    processing: 895,
-    underwriting: 995,
-    taxService: 59,
-    floodCert: 30,
-    appraisal: 650,
-    creditReport: 150,
-    lenderTitlePolicy: 1015,
-    settlement: 400, // Escrow Fee
-    notary: 350,
-    recording: 275,
-    // All others are 0
-    pestInspection: 0,
-    propertyInspection: 0,
-    poolInspection: 0,
-    transferTax: 0,
-    mortgageTax: 0,
-    ownerTitlePolicy: 0
-  };
+  const refiFees = getRefinanceFeeDefaults(config);
 
   const ltv = calculateLTV(newLoanAmount || 0, propertyValue || 0);
 
@@ -503,8 +593,16 @@ export function calculateConventionalRefinance(
   // Formula: P * r * (1 + r)^n / ((1 + r)^n - 1)
   const monthlyRate = (interestRate || 0) / 100 / 12;
   const n = termYears * 12;
-  const principalAndInterest =
-    monthlyRate === 0
+  const productPayments = calculateLoanProductPayments(
+    newLoanAmount || 0,
+    interestRate || 0,
+    termYears,
+    input.productOptions,
+    getConventionalArmQualifyingAdder(input.productOptions)
+  );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : monthlyRate === 0
       ? (newLoanAmount || 0) / n
       : ((newLoanAmount || 0) * (monthlyRate * Math.pow(1 + monthlyRate, n))) /
       (Math.pow(1 + monthlyRate, n) - 1);
@@ -535,13 +633,13 @@ export function calculateConventionalRefinance(
   // Origination fee removed as per user request (Origination Fee and Loan Fee are considered same)
   const originationFee = 0;
   const adminFee = 0;
-  const processingFee = input.processingFee ?? 895;
-  const underwritingFee = input.underwritingFee ?? 995;
-  const appraisalFee = input.appraisalFee ?? 650;
-  const creditReportFee = input.creditReportFee ?? 150;
-  const floodCertFee = input.floodCertFee ?? 30;
-  const taxServiceFee = input.taxServiceFee ?? 59;
-  const docPrepFee = input.docPrepFee ?? 595;
+  const processingFee = input.processingFee ?? refiFees.processingFee;
+  const underwritingFee = input.underwritingFee ?? refiFees.underwritingFee;
+  const appraisalFee = input.appraisalFee ?? refiFees.appraisalFee;
+  const creditReportFee = input.creditReportFee ?? refiFees.creditReportFee;
+  const floodCertFee = input.floodCertFee ?? refiFees.floodCertFee;
+  const taxServiceFee = input.taxServiceFee ?? refiFees.taxServiceFee;
+  const docPrepFee = input.docPrepFee ?? refiFees.docPrepFee;
 
   const totalLenderFees =
     loanFee +
@@ -555,17 +653,17 @@ export function calculateConventionalRefinance(
     docPrepFee;
 
   // Section B - Third Party Fees
-  const escrowFee = input.escrowFee ?? 400;
-  const notaryFee = input.notaryFee ?? 350;
-  const recordingFee = input.recordingFee ?? 275;
+  const escrowFee = input.escrowFee ?? refiFees.escrowFee;
+  const notaryFee = input.notaryFee ?? refiFees.notaryFee;
+  const recordingFee = input.recordingFee ?? refiFees.recordingFee;
   const courierFee = 0;
-  const lenderTitlePolicy = input.lenderTitlePolicy ?? 1015;
+  const lenderTitlePolicy = input.lenderTitlePolicy ?? refiFees.lenderTitlePolicy;
 
   // Excluded fees for Refi
-  const ownerTitlePolicy = input.ownerTitlePolicy ?? 0;
-  const pestInspectionFee = input.pestInspectionFee ?? 0;
-  const propertyInspectionFee = input.propertyInspectionFee ?? 0;
-  const poolInspectionFee = input.poolInspectionFee ?? 0;
+  const ownerTitlePolicy = input.ownerTitlePolicy ?? refiFees.ownerTitlePolicy;
+  const pestInspectionFee = input.pestInspectionFee ?? refiFees.pestInspectionFee;
+  const propertyInspectionFee = input.propertyInspectionFee ?? refiFees.propertyInspectionFee;
+  const poolInspectionFee = input.poolInspectionFee ?? refiFees.poolInspectionFee;
   const transferTax = input.transferTax ?? 0;
   const mortgageTax = input.mortgageTax ?? 0;
 
@@ -663,20 +761,38 @@ export function calculateConventionalRefinance(
     adjustment: roundToCents(adjustment),
   };
 
+  // Payoff = balance + interest accrued through funding, at the current rate when known
+  const payoff = calculatePayoff(
+    existingLoanBalance || 0,
+    input.currentInterestRate || interestRate,
+    input.payoffDays ?? 30
+  );
+
   // Calculate cash to close
   // Cash To Close = Amount Needed - New Loan
   // Amount Needed = Payoff + Costs + Prepaids
-  const amountNeeded = (existingLoanBalance || 0) + closingCosts.netClosingCosts;
+  const amountNeeded = payoff.totalPayoff + closingCosts.netClosingCosts;
   const cashToClose = roundToCents(amountNeeded - (newLoanAmount || 0));
 
   // Calculate APR
   const apr = calculateAPR(
     newLoanAmount || 0,
     closingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
+  const netTangibleBenefit = calculateNetTangibleBenefit({
+    existingLoanBalance,
+    currentInterestRate: input.currentInterestRate,
+    currentMonthlyPayment: input.currentMonthlyPayment,
+    currentRemainingTermMonths: input.currentRemainingTermMonths,
+    newLoanAmount: newLoanAmount || 0,
+    newPrincipalAndInterest: productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
+    termYears,
+    recoupableCosts: getRecoupableClosingCosts(closingCosts),
+  });
+
   return {
     loanAmount: newLoanAmount,
     totalLoanAmount: newLoanAmount,
@@ -685,6 +801,7 @@ export function calculateConventionalRefinance(
     monthlyPayment,
     closingCosts,
     cashToClose,
+    payoff,
     pmiRate,
     // Reporting fields
     propertyValue: propertyValue || 0,
@@ -693,5 +810,9 @@ export function calculateConventionalRefinance(
     term: termYears,
     downPaymentPercent: 0,
     monthlyMiRate: pmiRate,
+    // PMI cancels automatically at 78% of original value
+    miCancellation: { ltv: 78 },
+    productPayments: productPayments ?? undefined,
+    netTangibleBenefit: netTangibleBenefit ?? undefined,
   };
 }
@@ -7,11 +7,16 @@
  * - Annual MIP: Monthly mortgage insurance based on LTV and term
  * - Max LTV: Typically 96.5% (3.5% min down)
  * - Streamline Refinance: Reduced UFMIP and MIP rates
+ * - FHA-to-FHA Refinance: Prior UFMIP refund credited against the new UFMIP
+ * - 203(k): Renovation costs financed into the base loan
  */
 
 import type {
   FhaPurchaseInput,
   FhaRefinanceInput,
+  Fha203kOptions,
+  Fha203kBreakdown,
+  FhaUfmipRefund,
   LoanCalculationResult,
   MonthlyPaymentBreakdown,
   ClosingCostsBreakdown,
@@ -35,8 +40,82 @@ import {
   roundToCents,
   calculateOriginationFee,
   calculateAPR,
+  calculateLoanProductPayments,
+  calculateNetTangibleBenefit,
+  calculatePayoff,
+  getRefinanceFeeDefaults,
+  getRecoupableClosingCosts,
+  roundToDecimals,
+  calculatePricingLadder,
+  calculateTemporaryBuydown,
+  applyBuydownSubsidy,
 } from './common';
 
+// Limited 203(k) caps repair costs; standard 203(k) has a minimum
+export const FHA_203K_LIMITED_MAX_REPAIRS = 75000;
+export const FHA_203K_STANDARD_MIN_REPAIRS = 5000;
+
+/**
+ * Calculate the 203(k) supplemental origination fee: the greater of $350
+ * or 1.5% of the repair costs (including contingency).
+ */
+export function calculateFha203kSupplementalOrigination(repairCosts: number): number {
+  return roundToCents(Math.max(350, repairCosts * 0.015));
+}
+
+/**
+ * Size a 203(k) renovation loan.
+ * The financed rehab cost is repairs, contingency, consultant, inspection and
+ * supplemental origination fees. The value basis is the lesser of
+ * (lesser of sales price or as-is value) + rehab cost, or the after-improved value.
+ */
+export function calculateFha203kBreakdown(
+  salesPrice: number,
+  options: Fha203kOptions | undefined,
+  config: GhlConfig
+): Fha203kBreakdown {
+  const type = options?.type ?? 'limited';
+  const repairCosts = options?.repairCosts ?? 0;
+  const contingencyReserve = roundToCents(repairCosts * ((options?.contingencyPercent ?? 10) / 100));
+  const consultantFee = options?.consultantFee ?? 0;
+  const inspectionFees = options?.inspectionFees ?? 0;
+  const supplementalOriginationFee = options?.supplementalOriginationFee
+    ?? calculateFha203kSupplementalOrigination(repairCosts + contingencyReserve);
+
+  const totalRehabCost = roundToCents(
+    repairCosts + contingencyReserve + consultantFee + inspectionFees + supplementalOriginationFee
+  );
+
+  const asIsValue = options?.asIsValue || salesPrice;
+  const afterImprovedValue = options?.afterImprovedValue || undefined;
+  const acquisitionBasis = Math.min(salesPrice, asIsValue) + totalRehabCost;
+  const valueBasis = roundToCents(
+    afterImprovedValue !== undefined ? Math.min(acquisitionBasis, afterImprovedValue) : acquisitionBasis
+  );
+  const maxBaseLoan = roundToCents(valueBasis * (1 - config.fha.minDownPct / 100));
+
+  return {
+    type,
+    repairCosts,
+    contingencyReserve,
+    consultantFee,
+    inspectionFees,
+    supplementalOriginationFee,
+    totalRehabCost,
+    asIsValue,
+    afterImprovedValue,
+    valueBasis,
+    maxBaseLoan,
+    repairLimitExceeded: type === 'limited' && repairCosts > FHA_203K_LIMITED_MAX_REPAIRS,
+    belowStandardMinimum: type === 'standard' && repairCosts < FHA_203K_STANDARD_MIN_REPAIRS,
+  };
+}
+
+// Streamline net tangible benefit: combined rate (note rate + annual MIP) reduction
+// required when refinancing a fixed-rate loan into a fixed-rate or ARM loan
+export const FHA_STREAMLINE_FIXED_RATE_REDUCTION = 0.5;
+export const FHA_STREAMLINE_ARM_RATE_REDUCTION = 2;
+
 /**
  * Calculate Upfront MIP (UFMIP) amount.
  * UFMIP is calculated on the base loan amount and added to create the total loan.
@@ -48,6 +127,65 @@ export function calculateUfmip(
   return roundToCents(baseLoanAmount * (ufmipRate / 100));
 }
 
+// HUD UFMIP refund percentages by month since the prior loan's endorsement
+// (index 0 = month 1). No refund is available after month 36.
+export const FHA_UFMIP_REFUND_PERCENTAGES = [
+  80, 78, 76, 74, 72, 70, 68, 66, 64, 62, 60, 58,
+  56, 54, 52, 50, 48, 46, 44, 42, 40, 38, 36, 34,
+  32, 30, 28, 26, 24, 22, 20, 18, 16, 14, 12, 10,
+];
+
+/**
+ * Count calendar months from the prior endorsement date (YYYY-MM-DD) to the
+ * new closing. Returns null when the date cannot be parsed.
+ */
+export function getMonthsSinceEndorsement(
+  endorsementDate: string,
+  asOf: Date = new Date()
+): number | null {
+  // Read year and month straight from the ISO string to avoid timezone shifts
+  const match = /^(\d{4})-(\d{1,2})/.exec(endorsementDate);
+  if (!match) return null;
+
+  const months =
+    (asOf.getFullYear() - Number(match[1])) * 12 +
+    (asOf.getMonth() + 1 - Number(match[2]));
+  return Math.max(0, months);
+}
+
+/**
+ * Get the UFMIP refund percentage for the given month since endorsement.
+ * A refinance in the endorsement month is treated as month 1.
+ */
+export function getFhaUfmipRefundPercent(monthsSinceEndorsement: number): number {
+  const month = Math.max(1, monthsSinceEndorsement);
+  return FHA_UFMIP_REFUND_PERCENTAGES[month - 1] ?? 0;
+}
+
+/**
+ * Calculate the UFMIP refund credit for an FHA-to-FHA refinance.
+ * The refund only offsets the new loan's UFMIP, so it is capped at that amount.
+ */
+export function calculateFhaUfmipRefund(
+  existingUfmip: number,
+  monthsSinceEndorsement: number,
+  newUfmip: number
+): FhaUfmipRefund {
+  const refundPercent = getFhaUfmipRefundPercent(monthsSinceEndorsement);
+  const refundAmount = Math.min(
+    roundToCents(existingUfmip * (refundPercent / 100)),
+    newUfmip
+  );
+
+  return {
+    monthsSinceEndorsement,
+    refundPercent,
+    existingUfmip,
+    refundAmount,
+    grossUfmip: newUfmip,
+  };
+}
+
 /**
  * Get the annual MIP rate based on LTV, term, and loan balance.
  */
@@ -284,13 +422,33 @@ export function calculateFhaPurchase(
     mortgageInsuranceMonthly,
   } = input;
 
+  // 203(k) loans are sized from the renovation value basis rather than the sales price
+  const rehab = input.is203k
+    ? calculateFha203kBreakdown(salesPrice, input.fha203k, config)
+    : null;
+
   // Calculate down payment and base loan amount
-  const downPayment = downPaymentAmount
+  let downPayment = downPaymentAmount
     ? downPaymentAmount
     : calculateDownPaymentFromPercent(salesPrice, downPaymentPercent || 3.5);
 
-  const baseLoanAmount = calculateLoanAmount(salesPrice, downPayment);
-  const ltv = calculateLTV(baseLoanAmount, salesPrice);
+  let baseLoanAmount = calculateLoanAmount(salesPrice, downPayment);
+  let ltv = calculateLTV(baseLoanAmount, salesPrice);
+
+  if (rehab) {
+    // Put down the same share of the value basis as of the price, however it was entered
+    const rehabDownPaymentPercent = downPaymentAmount && salesPrice > 0
+      ? (downPaymentAmount / salesPrice) * 100
+      : downPaymentPercent || 3.5;
+    const requestedLoan = calculateLoanAmount(
+      rehab.valueBasis,
+      calculateDownPaymentFromPercent(rehab.valueBasis, rehabDownPaymentPercent)
+    );
+    baseLoanAmount = Math.min(requestedLoan, rehab.maxBaseLoan);
+    ltv = calculateLTV(baseLoanAmount, rehab.valueBasis);
+    // Borrower covers the purchase price plus rehab costs not financed
+    downPayment = roundToCents(salesPrice + rehab.totalRehabCost - baseLoanAmount);
+  }
 
   // Calculate UFMIP
   const ufmipRate = config.fha.ufmipPurchase;
@@ -311,11 +469,16 @@ export function calculateFhaPurchase(
   }
 
   // Calculate monthly P&I on total loan amount (LoanWithMIP)
-  const principalAndInterest = calculateMonthlyPI(
+  // FHA hybrid ARMs (5/1 and longer) qualify at the note rate
+  const productPayments = calculateLoanProductPayments(
     totalLoanAmount,
     interestRate,
-    termYears
+    termYears,
+    input.productOptions
   );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : calculateMonthlyPI(totalLoanAmount, interestRate, termYears);
 
   // Monthly escrows - use dynamic calculation based on sales price
   const monthlyTax = propertyTaxMonthly || roundToCents(((salesPrice || 0) * 0.0125) / 12);
@@ -339,7 +502,7 @@ export function calculateFhaPurchase(
   };
 
   // Calculate closing costs
-  const closingCosts = calculateFhaClosingCosts(
+  const feeClosingCosts = calculateFhaClosingCosts(
     baseLoanAmount,
     salesPrice,
     interestRate,
@@ -362,6 +525,16 @@ export function calculateFhaPurchase(
     input
   );
 
+  // Seller-funded temporary buydown is escrowed at closing
+  const temporaryBuydown = calculateTemporaryBuydown(
+    totalLoanAmount,
+    interestRate || 0,
+    termYears,
+    input.temporaryBuydown,
+    feeClosingCosts.sellerCredit
+  );
+  const closingCosts = applyBuydownSubsidy(feeClosingCosts, temporaryBuydown);
+
   // Cash to close (UFMIP is financed, not paid at closing)
   const cashToClose = calculateCashToClose(
     downPayment,
@@ -374,7 +547,7 @@ export function calculateFhaPurchase(
   const apr = calculateAPR(
     totalLoanAmount,
     closingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
@@ -394,6 +567,22 @@ export function calculateFhaPurchase(
     term: termYears,
     downPaymentPercent: downPaymentPercent || 3.5,
     monthlyMiRate: mipRate,
+    // MIP runs 11 years when LTV is 90% or less, otherwise for the life of the loan
+    miCancellation: ltv > 90 ? undefined : { months: 132 },
+    productPayments: productPayments ?? undefined,
+    pricingLadder: input.pricingLadder?.length
+      ? calculatePricingLadder(input.pricingLadder, totalLoanAmount, (rate, pointsCost) =>
+        calculateFhaPurchase({
+          ...input,
+          interestRate: rate,
+          loanFee: (input.loanFee || 0) + Math.max(0, pointsCost),
+          lenderCreditAmount: (input.lenderCreditAmount || 0) + Math.max(0, -pointsCost),
+          pricingLadder: undefined,
+        }, config)
+      )
+      : undefined,
+    temporaryBuydown: temporaryBuydown ?? undefined,
+    fha203k: rehab ?? undefined,
   };
 }
 
@@ -414,6 +603,8 @@ export function calculateFhaRefinance(
     homeInsuranceMonthly,
     hoaDuesMonthly,
     isStreamline,
+    existingFhaLoanDate,
+    existingUfmipAmount,
     mortgageInsuranceMonthly,
     prepaidInterestDays = 15,
     prepaidTaxMonths = 0,
@@ -423,8 +614,7 @@ export function calculateFhaRefinance(
     prepaidInsuranceAmount,
   } = input;
 
-  const { feesRefi, prepaids } = config;
-  const fees = feesRefi || config.fees;
+  const refiFees = getRefinanceFeeDefaults(config);
 
   const ltv = calculateLTV(newLoanAmount, propertyValue);
 
@@ -432,7 +622,18 @@ export function calculateFhaRefinance(
   const ufmipRate = isStreamline
     ? config.fha.ufmipStreamline
     : config.fha.ufmipRefi;
-  const ufmipAmount = calculateUfmip(newLoanAmount, ufmipRate);
+  const grossUfmip = calculateUfmip(newLoanAmount, ufmipRate);
+
+  // FHA-to-FHA refinances get part of the prior UFMIP back as a credit
+  const monthsSinceEndorsement = existingFhaLoanDate
+    ? getMonthsSinceEndorsement(existingFhaLoanDate)
+    : null;
+  const ufmipRefund = monthsSinceEndorsement !== null && existingUfmipAmount
+    ? calculateFhaUfmipRefund(existingUfmipAmount, monthsSinceEndorsement, grossUfmip)
+    : null;
+  const ufmipRefundCredit = ufmipRefund?.refundAmount ?? 0;
+
+  const ufmipAmount = roundToCents(grossUfmip - ufmipRefundCredit);
   const totalLoanAmount = newLoanAmount + ufmipAmount;
 
   // Monthly MIP
@@ -450,11 +651,15 @@ export function calculateFhaRefinance(
 
   // Formula: P * r * (1 + r)^n / ((1 + r)^n - 1)
   // This matches 2,058.01 for 325,600 at 6.5% interest rate.
-  const principalAndInterest = calculateMonthlyPI(
+  const productPayments = calculateLoanProductPayments(
     totalLoanAmount,
     interestRate,
-    termYears
+    termYears,
+    input.productOptions
   );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : calculateMonthlyPI(totalLoanAmount, interestRate, termYears);
 
   const monthlyPayment: MonthlyPaymentBreakdown = {
     principalAndInterest,
@@ -477,17 +682,17 @@ export function calculateFhaRefinance(
   // Reference implies points on total (407k -> 4070).
   // Fees Calculation
   // Fees Calculation
-  const processingFee = input.processingFee ?? 895;
-  const underwritingFee = input.underwritingFee ?? 995;
-  const appraisalFee = input.appraisalFee ?? 650;
-  const creditReportFee = input.creditReportFee ?? 150;
-  const floodCertFee = input.floodCertFee ?? 30;
-  const taxServiceFee = input.taxServiceFee ?? 59;
-  const docPrepFee = input.docPrepFee ?? 595;
-  const escrowFee = input.escrowFee ?? 400;
-  const notaryFee = input.notaryFee ?? 350;
-  const recordingFee = input.recordingFee ?? 275;
-  const lenderTitlePolicy = input.lenderTitlePolicy ?? 1015;
+  const processingFee = input.processingFee ?? refiFees.processingFee;
+  const underwritingFee = input.underwritingFee ?? refiFees.underwritingFee;
+  const appraisalFee = input.appraisalFee ?? refiFees.appraisalFee;
+  const creditReportFee = input.creditReportFee ?? refiFees.creditReportFee;
+  const floodCertFee = input.floodCertFee ?? refiFees.floodCertFee;
+  const taxServiceFee = input.taxServiceFee ?? refiFees.taxServiceFee;
+  const docPrepFee = input.docPrepFee ?? refiFees.docPrepFee;
+  const escrowFee = input.escrowFee ?? refiFees.escrowFee;
+  const notaryFee = input.notaryFee ?? refiFees.notaryFee;
+  const recordingFee = input.recordingFee ?? refiFees.recordingFee;
+  const lenderTitlePolicy = input.lenderTitlePolicy ?? refiFees.lenderTitlePolicy;
   const mortgageTax = input.mortgageTax ?? 0;
 
   // Loan Fee passed from input
@@ -588,17 +793,50 @@ export function calculateFhaRefinance(
     prepaidTaxMonths,
     prepaidInsuranceMonths,
     adjustment: roundToCents(adjustment),
+    ufmipRefundCredit: ufmipRefund ? ufmipRefundCredit : undefined,
   };
 
+  // Payoff = balance + interest accrued through funding, at the current rate when known
+  const payoff = calculatePayoff(
+    existingLoanBalance,
+    input.currentInterestRate || interestRate,
+    input.payoffDays ?? 30
+  );
+
   // Cash To Close Calculation
-  const amountNeeded = existingLoanBalance + netClosingCosts + ufmipAmount;
+  const amountNeeded = payoff.totalPayoff + netClosingCosts + ufmipAmount;
   const cashToClose = roundToCents(amountNeeded - totalLoanAmount);
 
+  const netTangibleBenefit = calculateNetTangibleBenefit({
+    existingLoanBalance,
+    currentInterestRate: input.currentInterestRate,
+    currentMonthlyPayment: input.currentMonthlyPayment,
+    currentRemainingTermMonths: input.currentRemainingTermMonths,
+    newLoanAmount: totalLoanAmount,
+    newPrincipalAndInterest: productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
+    termYears,
+    recoupableCosts: getRecoupableClosingCosts(closingCosts),
+  });
+  // Streamlines also need a lower combined rate (assumes the current loan is fixed-rate)
+  if (netTangibleBenefit && isStreamline && input.currentInterestRate) {
+    const currentCombinedRate = roundToDecimals(input.currentInterestRate + (input.currentMipRate ?? 0), 3);
+    const newCombinedRate = roundToDecimals(interestRate + mipRate, 3);
+    const requiredReduction = (input.productOptions?.loanProduct ?? 'fixed') === 'fixed'
+      ? FHA_STREAMLINE_FIXED_RATE_REDUCTION
+      : FHA_STREAMLINE_ARM_RATE_REDUCTION;
+    netTangibleBenefit.combinedRateTest = {
+      currentCombinedRate,
+      newCombinedRate,
+      requiredReduction,
+      passed: roundToDecimals(currentCombinedRate - newCombinedRate, 3) >= requiredReduction,
+    };
+  }
+
   // Calculate APR
   const apr = calculateAPR(
     totalLoanAmount,
     closingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
@@ -610,6 +848,7 @@ export function calculateFhaRefinance(
     monthlyPayment,
     closingCosts,
     cashToClose,
+    payoff,
     ufmip: ufmipAmount,
     // Reporting fields
     propertyValue: propertyValue || 0,
@@ -618,5 +857,10 @@ export function calculateFhaRefinance(
     term: termYears,
     downPaymentPercent: 0,
     monthlyMiRate: mipRate,
+    // MIP runs 11 years when LTV is 90% or less, otherwise for the life of the loan
+    miCancellation: ltv > 90 ? undefined : { months: 132 },
+    productPayments: productPayments ?? undefined,
+    ufmipRefund: ufmipRefund ?? undefined,
+    netTangibleBenefit: netTangibleBenefit ?? undefined,
   };
 }
@@ -3,15 +3,28 @@
  *
  * Calculates the estimated net proceeds a seller will receive after:
  * - Paying off existing mortgages/liens
- * - Real estate commissions
+ * - Real estate commissions (listing and buyer-agent), brokerage and transaction fees
+ * - Seller-paid buyer closing costs
  * - Closing costs (title, escrow, recording)
  * - Transfer taxes
  * - Prorations (taxes, HOA dues)
  * - Repairs/credits
  */
 
-import type { SellerNetInput } from '../schemas';
-import { roundToCents } from './common';
+import type { SellerCost, SellerNetInput, TaxPaymentMode } from '../schemas';
+import { roundToCents, roundToDecimals } from './common';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type SellerNetProrationType = 'propertyTax' | 'hoa';
+
+export interface SellerNetProration {
+  type: SellerNetProrationType;
+  periodStart: string; // YYYY-MM-DD the proration is measured from
+  days: number;
+  dailyRate: number;
+  amount: number; // Positive = seller owes, negative = credit to seller
+}
 
 export interface SellerNetResult {
   salesPrice: number;
@@ -22,7 +35,12 @@ export interface SellerNetResult {
   totalPayoffs: number;
 
   // Costs
-  realEstateCommission: number;
+  listingCommission: number;
+  buyerAgentCommission: number;
+  realEstateCommission: number; // Listing + buyer-agent commission
+  brokerageFee: number;
+  transactionFee: number;
+  sellerPaidClosingCosts: number;
   titleInsurance: number;
   escrowFee: number;
   transferTax: number;
@@ -34,8 +52,11 @@ export interface SellerNetResult {
 
   // Prorations & Credits
   propertyTaxProration: number;
+  hoaProration: number;
+  prorations: SellerNetProration[]; // Date-based prorations, itemized
   otherCredits: number;
   totalCredits: number;
+  totalDebits: number; // Payoffs + costs + prorations owed by the seller
 
   // Result
   estimatedNetProceeds: number;
@@ -51,6 +72,16 @@ export function calculateCommission(
   return roundToCents(salesPrice * (commissionPercent / 100));
 }
 
+/**
+ * Resolve a percent-or-amount seller cost against the sales price.
+ */
+export function calculateSellerCost(salesPrice: number, cost?: SellerCost): number {
+  if (!cost) return 0;
+  return cost.mode === 'percent'
+    ? roundToCents(salesPrice * (cost.percent / 100))
+    : roundToCents(cost.amount);
+}
+
 /**
  * Calculate seller net proceeds.
  */
@@ -66,20 +97,50 @@ export function calculateSellerNet(input: SellerNetInput): SellerNetResult {
     recordingFees,
     repairCredits,
     hoaPayoff,
-    propertyTaxProration,
     otherCredits,
     otherDebits,
   } = input;
 
+  // Date-based prorations replace the manual tax amount when a closing date is set
+  const closingDate = input.closingDate ? parseIsoDate(input.closingDate) : null;
+  const prorations: SellerNetProration[] = [];
+  if (closingDate && input.annualPropertyTax) {
+    prorations.push(getTaxProrationDetail(
+      input.annualPropertyTax,
+      closingDate,
+      input.taxYearStartMonth ?? 1,
+      input.taxPaymentMode ?? 'arrears'
+    ));
+  }
+  if (closingDate && input.hoaDuesMonthly) {
+    prorations.push(getHoaProrationDetail(input.hoaDuesMonthly, closingDate));
+  }
+
+  const taxDetail = prorations.find((proration) => proration.type === 'propertyTax');
+  const propertyTaxProration = taxDetail ? taxDetail.amount : input.propertyTaxProration;
+  const hoaProration = prorations.find((proration) => proration.type === 'hoa')?.amount ?? 0;
+
   // Payoffs
   const totalPayoffs = existingLoanPayoff + secondLienPayoff;
 
-  // Commission
-  const realEstateCommission = calculateCommission(salesPrice, commissionPercent);
+  // Commission: split listing/buyer-agent compensation when given, else the combined percent
+  const hasSplitCommission = Boolean(input.listingCommission || input.buyerAgentCommission);
+  const listingCommission = hasSplitCommission
+    ? calculateSellerCost(salesPrice, input.listingCommission)
+    : calculateCommission(salesPrice, commissionPercent);
+  const buyerAgentCommission = calculateSellerCost(salesPrice, input.buyerAgentCommission);
+  const realEstateCommission = roundToCents(listingCommission + buyerAgentCommission);
+
+  const brokerageFee = calculateSellerCost(salesPrice, input.brokerageFee);
+  const transactionFee = calculateSellerCost(salesPrice, input.transactionFee);
+  const sellerPaidClosingCosts = calculateSellerCost(salesPrice, input.sellerPaidClosingCosts);
 
   // Total costs (debits from seller)
   const totalCosts =
     realEstateCommission +
+    brokerageFee +
+    transactionFee +
+    sellerPaidClosingCosts +
     titleInsurance +
     escrowFee +
     transferTax +
@@ -89,10 +150,12 @@ export function calculateSellerNet(input: SellerNetInput): SellerNetResult {
     otherDebits;
 
   // Credits to seller (prorations can be positive or negative)
-  // Positive propertyTaxProration = seller owes buyer
-  // Negative propertyTaxProration = buyer owes seller
-  const totalCredits = otherCredits + Math.max(0, -propertyTaxProration);
-  const totalDebitsFromProration = Math.max(0, propertyTaxProration);
+  // Positive proration = seller owes buyer
+  // Negative proration = buyer owes seller
+  const totalCredits =
+    otherCredits + Math.max(0, -propertyTaxProration) + Math.max(0, -hoaProration);
+  const totalDebitsFromProration =
+    Math.max(0, propertyTaxProration) + Math.max(0, hoaProration);
 
   // Net proceeds calculation
   const estimatedNetProceeds = roundToCents(
@@ -110,7 +173,12 @@ export function calculateSellerNet(input: SellerNetInput): SellerNetResult {
     secondLienPayoff,
     totalPayoffs: roundToCents(totalPayoffs),
 
+    listingCommission,
+    buyerAgentCommission,
     realEstateCommission,
+    brokerageFee,
+    transactionFee,
+    sellerPaidClosingCosts,
     titleInsurance,
     escrowFee,
     transferTax,
@@ -121,8 +189,11 @@ export function calculateSellerNet(input: SellerNetInput): SellerNetResult {
     totalCosts: roundToCents(totalCosts),
 
     propertyTaxProration,
+    hoaProration,
+    prorations,
     otherCredits,
     totalCredits: roundToCents(totalCredits),
+    totalDebits: roundToCents(totalPayoffs + totalCosts + totalDebitsFromProration),
 
     estimatedNetProceeds,
   };
@@ -146,9 +217,7 @@ export function calculateTaxProration(
   const dailyRate = annualTax / 365;
 
   // Days from period start to closing
-  const daysElapsed = Math.floor(
-    (closingDate.getTime() - taxPeriodStart.getTime()) / (1000 * 60 * 60 * 24)
-  );
+  const daysElapsed = getDaysBetween(taxPeriodStart, closingDate);
 
   if (isPrepaid) {
     // Seller prepaid for the year, buyer owes seller for remaining days
@@ -179,3 +248,83 @@ export function calculateHoaProration(
   // Seller owes for days they owned the property
   return roundToCents(dayOfMonth * dailyRate);
 }
+
+/**
+ * Parse a YYYY-MM-DD string as a local date. Returns null when it cannot be parsed.
+ */
+export function parseIsoDate(value: string): Date | null {
+  // Read the parts straight from the string to avoid UTC timezone shifts
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Whole days between two local dates (rounded so DST changes don't drop a day).
+ */
+function getDaysBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Start of the tax year containing the closing date, for a tax year that
+ * begins on the first of taxYearStartMonth (1 = January).
+ */
+export function getTaxPeriodStart(closingDate: Date, taxYearStartMonth: number): Date {
+  const startMonthIndex = taxYearStartMonth - 1;
+  const year = closingDate.getMonth() >= startMonthIndex
+    ? closingDate.getFullYear()
+    : closingDate.getFullYear() - 1;
+  return new Date(year, startMonthIndex, 1);
+}
+
+/**
+ * Itemized property tax proration for the tax year containing closing.
+ */
+export function getTaxProrationDetail(
+  annualTax: number,
+  closingDate: Date,
+  taxYearStartMonth: number,
+  paymentMode: TaxPaymentMode
+): SellerNetProration {
+  const periodStart = getTaxPeriodStart(closingDate, taxYearStartMonth);
+  const daysElapsed = getDaysBetween(periodStart, closingDate);
+  const isPrepaid = paymentMode === 'prepaid';
+
+  return {
+    type: 'propertyTax',
+    periodStart: formatIsoDate(periodStart),
+    // Arrears: seller owes for days owned; prepaid: seller is credited the rest of the year
+    days: isPrepaid ? 365 - daysElapsed : daysElapsed,
+    dailyRate: roundToDecimals(annualTax / 365, 4),
+    amount: calculateTaxProration(annualTax, closingDate, periodStart, isPrepaid),
+  };
+}
+
+/**
+ * Itemized HOA proration for the closing month.
+ */
+export function getHoaProrationDetail(
+  monthlyDues: number,
+  closingDate: Date
+): SellerNetProration {
+  const daysInMonth = new Date(
+    closingDate.getFullYear(),
+    closingDate.getMonth() + 1,
+    0
+  ).getDate();
+
+  return {
+    type: 'hoa',
+    periodStart: formatIsoDate(new Date(closingDate.getFullYear(), closingDate.getMonth(), 1)),
+    days: closingDate.getDate(),
+    dailyRate: roundToDecimals(monthlyDues / daysInMonth, 4),
+    amount: calculateHoaProration(monthlyDues, closingDate),
+  };
+}
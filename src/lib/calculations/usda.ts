@@ -0,0 +1,273 @@
+/**
+ * USDA Rural Development Loan Calculator
+ * Handles Purchase scenarios for the Section 502 Guaranteed program.
+ *
+ * Key USDA-specific logic:
+ * - Upfront Guarantee Fee: Added to base loan amount (financed)
+ * - Annual Fee: Monthly fee based on the loan balance (replaces PMI)
+ * - 100% financing allowed (0% down)
+ * - Household income must be at or below the area income limit
+ */
+
+import type {
+  UsdaPurchaseInput,
+  LoanCalculationResult,
+  MonthlyPaymentBreakdown,
+  ClosingCostsBreakdown,
+  GhlConfig,
+  BasePurchaseInput,
+} from '../schemas';
+import {
+  calculateMonthlyPI,
+  calculateLTV,
+  calculateLoanAmount,
+  calculateDownPaymentFromPercent,
+  calculateTotalMonthlyPayment,
+  calculateCashToClose,
+  roundToCents,
+  calculateAPR,
+} from './common';
+import { calculateFhaClosingCosts } from './fha';
+
+/**
+ * Calculate the upfront guarantee fee amount.
+ * The fee is calculated on the base loan amount and financed into the total loan.
+ */
+export function calculateUsdaGuaranteeFee(
+  baseLoanAmount: number,
+  guaranteeFeeRate: number
+): number {
+  return roundToCents(baseLoanAmount * (guaranteeFeeRate / 100));
+}
+
+/**
+ * Calculate the monthly annual fee amount.
+ */
+export function calculateUsdaAnnualFee(
+  loanAmount: number,
+  annualFeeRate: number
+): number {
+  if (annualFeeRate <= 0) return 0;
+  return roundToCents((loanAmount * (annualFeeRate / 100)) / 12);
+}
+
+/**
+ * Get the household income limit for the given household size.
+ * Households of 1-4 and 5-8 members have their own limits; each member
+ * beyond 8 adds 8% of the 1-4 member limit.
+ */
+export function getUsdaIncomeLimit(
+  householdSize: number,
+  config: GhlConfig
+): number {
+  const { incomeLimit1to4, incomeLimit5to8 } = config.usda;
+
+  if (householdSize <= 4) {
+    return incomeLimit1to4;
+  }
+  if (householdSize <= 8) {
+    return incomeLimit5to8;
+  }
+  return roundToCents(incomeLimit5to8 + (householdSize - 8) * incomeLimit1to4 * 0.08);
+}
+
+/**
+ * Check whether household income is within the USDA limit.
+ */
+export function isUsdaIncomeEligible(
+  householdIncomeAnnual: number,
+  householdSize: number,
+  config: GhlConfig
+): boolean {
+  return householdIncomeAnnual <= getUsdaIncomeLimit(householdSize, config);
+}
+
+/**
+ * Calculate USDA closing costs breakdown.
+ * USDA uses the same fee layout as FHA; the financed guarantee fee takes the
+ * place of UFMIP when sizing prepaid interest.
+ */
+export function calculateUsdaClosingCosts(
+  baseLoanAmount: number,
+  salesPrice: number,
+  interestRate: number,
+  propertyTaxMonthly: number,
+  homeInsuranceMonthly: number,
+  guaranteeFeeAmount: number,
+  config: GhlConfig,
+  loanFee: number,
+  sellerCreditAmount: number,
+  lenderCreditAmount: number,
+  prepaidOptions?: {
+    interestDays?: number;
+    taxMonths?: number;
+    insuranceMonths?: number;
+    interestAmount?: number;
+    taxAmount?: number;
+    insuranceAmount?: number;
+  },
+  closingCostsTotalOverride?: number,
+  feeOverrides?: Partial<BasePurchaseInput>
+): ClosingCostsBreakdown {
+  return calculateFhaClosingCosts(
+    baseLoanAmount,
+    salesPrice,
+    interestRate,
+    propertyTaxMonthly,
+    homeInsuranceMonthly,
+    guaranteeFeeAmount,
+    config,
+    loanFee,
+    sellerCreditAmount,
+    lenderCreditAmount,
+    prepaidOptions,
+    closingCostsTotalOverride,
+    feeOverrides
+  );
+}
+
+/**
+ * Calculate USDA purchase loan.
+ */
+export function calculateUsdaPurchase(
+  input: UsdaPurchaseInput,
+  config: GhlConfig
+): LoanCalculationResult {
+  const {
+    salesPrice,
+    downPaymentAmount,
+    downPaymentPercent,
+    interestRate,
+    termYears,
+    propertyTaxMonthly,
+    homeInsuranceMonthly,
+    hoaDuesMonthly,
+    floodInsuranceMonthly,
+    mortgageInsuranceMonthly,
+    householdSize,
+    householdIncomeAnnual,
+  } = input;
+
+  // Calculate down payment (USDA allows 0% down)
+  const downPayment = downPaymentAmount
+    ? downPaymentAmount
+    : calculateDownPaymentFromPercent(salesPrice, downPaymentPercent || 0);
+
+  // Base loan is capped at the max LTV before the guarantee fee is added
+  const maxBaseLoan = roundToCents(salesPrice * (config.usda.maxLtv / 100));
+  const baseLoanAmount = Math.min(
+    calculateLoanAmount(salesPrice, downPayment),
+    maxBaseLoan
+  );
+  const ltv = calculateLTV(baseLoanAmount, salesPrice);
+
+  // Calculate guarantee fee (financed)
+  const guaranteeFeeAmount = calculateUsdaGuaranteeFee(
+    baseLoanAmount,
+    config.usda.guaranteeFee
+  );
+  const totalLoanAmount = roundToCents(baseLoanAmount + guaranteeFeeAmount);
+
+  // Monthly annual fee - first year is based on the total loan amount
+  const annualFeeRate = config.usda.annualFee;
+  let monthlyAnnualFee = 0;
+  if (mortgageInsuranceMonthly !== undefined && mortgageInsuranceMonthly > 0) {
+    monthlyAnnualFee = mortgageInsuranceMonthly;
+  } else {
+    monthlyAnnualFee = calculateUsdaAnnualFee(totalLoanAmount, annualFeeRate);
+  }
+
+  // Calculate monthly P&I on total loan amount
+  const principalAndInterest = calculateMonthlyPI(
+    totalLoanAmount,
+    interestRate,
+    termYears
+  );
+
+  // Monthly escrows - use dynamic calculation based on sales price
+  const monthlyTax = propertyTaxMonthly || roundToCents(((salesPrice || 0) * 0.0125) / 12);
+  const monthlyInsurance = homeInsuranceMonthly || roundToCents(((salesPrice || 0) * 0.0035) / 12);
+
+  const monthlyPayment: MonthlyPaymentBreakdown = {
+    principalAndInterest,
+    mortgageInsurance: monthlyAnnualFee,
+    propertyTax: monthlyTax,
+    homeInsurance: monthlyInsurance,
+    hoaDues: hoaDuesMonthly,
+    floodInsurance: floodInsuranceMonthly,
+    totalMonthly: calculateTotalMonthlyPayment({
+      principalAndInterest,
+      mortgageInsurance: monthlyAnnualFee,
+      propertyTax: monthlyTax,
+      homeInsurance: monthlyInsurance,
+      hoaDues: hoaDuesMonthly,
+      floodInsurance: floodInsuranceMonthly,
+    }),
+  };
+
+  // Calculate closing costs
+  const closingCosts = calculateUsdaClosingCosts(
+    baseLoanAmount,
+    salesPrice,
+    interestRate,
+    propertyTaxMonthly,
+    homeInsuranceMonthly,
+    guaranteeFeeAmount,
+    config,
+    input.loanFee || 0,
+    input.sellerCreditAmount || 0,
+    input.lenderCreditAmount || 0,
+    {
+      interestDays: input.prepaidInterestDays,
+      taxMonths: input.prepaidTaxMonths,
+      insuranceMonths: input.prepaidInsuranceMonths,
+      interestAmount: input.prepaidInterestAmount,
+      taxAmount: input.prepaidTaxAmount,
+      insuranceAmount: input.prepaidInsuranceAmount,
+    },
+    input.closingCostsTotal,
+    input
+  );
+
+  // Cash to close (guarantee fee is financed, not paid at closing)
+  const cashToClose = calculateCashToClose(
+    salesPrice - baseLoanAmount,
+    closingCosts.totalClosingCosts,
+    closingCosts.totalCredits,
+    input.depositAmount || 0
+  );
+
+  // Calculate APR
+  const apr = calculateAPR(
+    totalLoanAmount,
+    closingCosts.totalLenderFees,
+    monthlyPayment.principalAndInterest,
+    termYears
+  );
+
+  // Income eligibility (only evaluated when income is provided)
+  const incomeLimit = getUsdaIncomeLimit(householdSize, config);
+  const incomeEligible = householdIncomeAnnual > 0
+    ? isUsdaIncomeEligible(householdIncomeAnnual, householdSize, config)
+    : undefined;
+
+  return {
+    loanAmount: baseLoanAmount,
+    totalLoanAmount,
+    ltv,
+    downPayment: roundToCents(salesPrice - baseLoanAmount),
+    monthlyPayment,
+    closingCosts,
+    cashToClose,
+    usdaGuaranteeFee: guaranteeFeeAmount,
+    usdaIncomeLimit: incomeLimit,
+    usdaIncomeEligible: incomeEligible,
+    // Reporting fields
+    propertyValue: salesPrice || 0,
+    interestRate: interestRate || 0,
+    apr,
+    term: termYears,
+    downPaymentPercent: downPaymentPercent || 0,
+    monthlyMiRate: annualFeeRate,
+  };
+}
@@ -6,7 +6,8 @@
  * - VA Funding Fee: Added to base loan amount (waived for disabled veterans)
  * - No monthly mortgage insurance (unlike Conv/FHA)
  * - 100% financing allowed (0% down)
- * - Funding fee varies by usage (first/subsequent), down payment tier, and loan type
+ * - Funding fee varies by usage (first/subsequent), down payment tier, loan type,
+ *   and Reserves/National Guard service
  */
 
 import type {
@@ -17,6 +18,8 @@ import type {
   ClosingCostsBreakdown,
   GhlConfig,
   VaUsage,
+  VaFundingFeeDetail,
+  VaFundingFeeReason,
   BasePurchaseInput,
   BaseRefinanceInput,
 } from '../schemas';
@@ -36,48 +39,97 @@ import {
   roundToCents,
   calculateOriginationFee,
   calculateAPR,
+  calculateLoanProductPayments,
+  calculateNetTangibleBenefit,
+  calculatePayoff,
+  getRefinanceFeeDefaults,
+  getRecoupableClosingCosts,
+  calculatePricingLadder,
+  calculateTemporaryBuydown,
+  applyBuydownSubsidy,
 } from './common';
 
+// IRRRL closing costs must be recouped through lower payments within 36 months
+export const VA_IRRRL_RECOUPMENT_MONTHS = 36;
+
 /**
- * Get VA Funding Fee rate based on usage, down payment, and loan type.
- * Returns the rate as a percentage (e.g., 2.15 for 2.15%).
+ * Determine which VA Funding Fee tier applies and why.
+ * Reserves/National Guard borrowers use their own configurable tiers.
+ * Disabled veterans are exempt, so their rate is 0.
  */
-export function getVaFundingFeeRate(
+export function getVaFundingFeeDetail(
   usage: VaUsage,
   downPaymentPercent: number,
   isIrrrl: boolean,
   isCashOut: boolean,
+  isReservist: boolean,
+  isDisabledVeteran: boolean,
   config: GhlConfig
-): number {
+): VaFundingFeeDetail {
+  const { va } = config;
+  const isFirst = usage === 'first';
+  const detail = (rate: number, reason: VaFundingFeeReason): VaFundingFeeDetail => ({
+    rate,
+    reason,
+    vaUsage: usage,
+    isReservist,
+  });
+
+  if (isDisabledVeteran) {
+    return detail(0, 'disability_exempt');
+  }
+
   // IRRRL (streamline) has a fixed low rate
   if (isIrrrl) {
-    return config.va.ffIrrrl;
+    return detail(isReservist ? va.ffReserveIrrrl : va.ffIrrrl, 'irrrl');
   }
 
   // Cash-out refinance
   if (isCashOut) {
-    return usage === 'first'
-      ? config.va.ffCashoutFirst
-      : config.va.ffCashoutSubseq;
+    if (isReservist) {
+      return detail(isFirst ? va.ffReserveCashoutFirst : va.ffReserveCashoutSubseq, 'cash_out');
+    }
+    return detail(isFirst ? va.ffCashoutFirst : va.ffCashoutSubseq, 'cash_out');
   }
 
   // Purchase or rate/term refinance - based on down payment tier
-  if (usage === 'first') {
-    if (downPaymentPercent >= 10) {
-      return config.va.ffFirstLe90;
-    } else if (downPaymentPercent >= 5) {
-      return config.va.ffFirst90to95;
-    }
-    return config.va.ffFirstGt95;
-  } else {
-    // Subsequent use
-    if (downPaymentPercent >= 10) {
-      return config.va.ffSubseqLe90;
-    } else if (downPaymentPercent >= 5) {
-      return config.va.ffSubseq90to95;
-    }
-    return config.va.ffSubseqGt95;
+  const tiers = isReservist
+    ? isFirst
+      ? [va.ffReserveFirstLe90, va.ffReserveFirst90to95, va.ffReserveFirstGt95]
+      : [va.ffReserveSubseqLe90, va.ffReserveSubseq90to95, va.ffReserveSubseqGt95]
+    : isFirst
+      ? [va.ffFirstLe90, va.ffFirst90to95, va.ffFirstGt95]
+      : [va.ffSubseqLe90, va.ffSubseq90to95, va.ffSubseqGt95];
+
+  if (downPaymentPercent >= 10) {
+    return detail(tiers[0], 'down_10plus');
+  } else if (downPaymentPercent >= 5) {
+    return detail(tiers[1], 'down_5to10');
   }
+  return detail(tiers[2], 'down_lt5');
+}
+
+/**
+ * Get VA Funding Fee rate based on usage, down payment, and loan type.
+ * Returns the rate as a percentage (e.g., 2.15 for 2.15%).
+ */
+export function getVaFundingFeeRate(
+  usage: VaUsage,
+  downPaymentPercent: number,
+  isIrrrl: boolean,
+  isCashOut: boolean,
+  config: GhlConfig,
+  isReservist: boolean = false
+): number {
+  return getVaFundingFeeDetail(
+    usage,
+    downPaymentPercent,
+    isIrrrl,
+    isCashOut,
+    isReservist,
+    false,
+    config
+  ).rate;
 }
 
 /**
@@ -272,6 +324,7 @@ export function calculateVaPurchase(
     floodInsuranceMonthly,
     vaUsage,
     isDisabledVeteran,
+    isReservist,
     prepaidInterestDays = 15,
     prepaidTaxMonths = 6,
     prepaidInsuranceMonths = 15,
@@ -287,16 +340,18 @@ export function calculateVaPurchase(
   const dpPercent = calculateDownPaymentPercent(salesPrice || 0, downPayment);
 
   // Calculate VA Funding Fee
-  const fundingFeeRate = getVaFundingFeeRate(
+  const fundingFeeDetail = getVaFundingFeeDetail(
     vaUsage,
     dpPercent,
     false, // not IRRRL
     false, // not cash-out
+    isReservist,
+    isDisabledVeteran,
     config
   );
   const fundingFeeAmount = calculateVaFundingFee(
     baseLoanAmount,
-    fundingFeeRate,
+    fundingFeeDetail.rate,
     isDisabledVeteran
   );
 
@@ -306,11 +361,16 @@ export function calculateVaPurchase(
   // Calculate monthly P&I
   // Formula: P * R * (1 + R)^N / ((1 + R)^N - 1)
   // P = Total Loan Amount (Base + FF)
-  const principalAndInterest = calculateMonthlyPI(
+  // VA hybrid ARMs qualify at the note rate
+  const productPayments = calculateLoanProductPayments(
     totalLoanAmount,
     interestRate || 0,
-    termYears
+    termYears,
+    input.productOptions
   );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : calculateMonthlyPI(totalLoanAmount, interestRate || 0, termYears);
 
   // VA has NO monthly mortgage insurance!
 
@@ -335,7 +395,7 @@ export function calculateVaPurchase(
     }),
   };
 
-  const closingCosts = calculateVaClosingCosts(
+  const feeClosingCosts = calculateVaClosingCosts(
     baseLoanAmount,
     salesPrice || 0,
     interestRate || 0,
@@ -358,6 +418,16 @@ export function calculateVaPurchase(
     input
   );
 
+  // Seller-funded temporary buydown is escrowed at closing
+  const temporaryBuydown = calculateTemporaryBuydown(
+    totalLoanAmount,
+    interestRate || 0,
+    termYears,
+    input.temporaryBuydown,
+    feeClosingCosts.sellerCredit
+  );
+  const closingCosts = applyBuydownSubsidy(feeClosingCosts, temporaryBuydown);
+
   // Cash to close (funding fee is financed)
   const cashToClose = calculateCashToClose(
     downPayment,
@@ -370,7 +440,7 @@ export function calculateVaPurchase(
   const apr = calculateAPR(
     totalLoanAmount,
     closingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
@@ -383,6 +453,7 @@ export function calculateVaPurchase(
     closingCosts,
     cashToClose,
     vaFundingFee: fundingFeeAmount,
+    vaFundingFeeDetail: fundingFeeDetail,
     // Reporting fields
     propertyValue: salesPrice || 0,
     interestRate: interestRate || 0,
@@ -390,6 +461,19 @@ export function calculateVaPurchase(
     term: termYears,
     downPaymentPercent: dpPercent,
     monthlyMiRate: 0,
+    productPayments: productPayments ?? undefined,
+    pricingLadder: input.pricingLadder?.length
+      ? calculatePricingLadder(input.pricingLadder, totalLoanAmount, (rate, pointsCost) =>
+        calculateVaPurchase({
+          ...input,
+          interestRate: rate,
+          loanFee: (input.loanFee || 0) + Math.max(0, pointsCost),
+          lenderCreditAmount: (input.lenderCreditAmount || 0) + Math.max(0, -pointsCost),
+          pricingLadder: undefined,
+        }, config)
+      )
+      : undefined,
+    temporaryBuydown: temporaryBuydown ?? undefined,
   };
 }
 
@@ -412,45 +496,47 @@ export function calculateVaRefinance(
     isIrrrl,
     vaUsage,
     isDisabledVeteran,
+    isReservist,
     cashOutAmount,
     prepaidInterestDays = 15,
     prepaidTaxMonths = 0,
     prepaidInsuranceMonths = 0,
   } = input;
 
-  const { feesRefi, prepaids } = config;
-  const fees = feesRefi || config.fees;
+  const refiFees = getRefinanceFeeDefaults(config);
 
   const ltv = calculateLTV(newLoanAmount, propertyValue);
   const isCashOut = (cashOutAmount || 0) > 0;
 
   // VA FF
-  const fundingFeeRate = getVaFundingFeeRate(
+  const fundingFeeDetail = getVaFundingFeeDetail(
     vaUsage,
     0, // No down payment on refi
     isIrrrl,
     isCashOut,
+    isReservist,
+    isDisabledVeteran,
     config
   );
   const fundingFeeAmount = calculateVaFundingFee(
     newLoanAmount,
-    fundingFeeRate,
+    fundingFeeDetail.rate,
     isDisabledVeteran
   );
   const totalLoanAmount = newLoanAmount + fundingFeeAmount;
 
   // Fees Calculation
-  const processingFee = input.processingFee ?? 895;
-  const underwritingFee = input.underwritingFee ?? 995;
-  const appraisalFee = input.appraisalFee ?? 650;
-  const creditReportFee = input.creditReportFee ?? 150;
-  const floodCertFee = input.floodCertFee ?? 30;
-  const taxServiceFee = input.taxServiceFee ?? 59;
-  const docPrepFee = input.docPrepFee ?? 595;
-  const escrowFee = input.escrowFee ?? 400;
-  const notaryFee = input.notaryFee ?? 350;
-  const recordingFee = input.recordingFee ?? 275;
-  const lenderTitlePolicy = input.lenderTitlePolicy ?? 1115;
+  const processingFee = input.processingFee ?? refiFees.processingFee;
+  const underwritingFee = input.underwritingFee ?? refiFees.underwritingFee;
+  const appraisalFee = input.appraisalFee ?? refiFees.appraisalFee;
+  const creditReportFee = input.creditReportFee ?? refiFees.creditReportFee;
+  const floodCertFee = input.floodCertFee ?? refiFees.floodCertFee;
+  const taxServiceFee = input.taxServiceFee ?? refiFees.taxServiceFee;
+  const docPrepFee = input.docPrepFee ?? refiFees.docPrepFee;
+  const escrowFee = input.escrowFee ?? refiFees.escrowFee;
+  const notaryFee = input.notaryFee ?? refiFees.notaryFee;
+  const recordingFee = input.recordingFee ?? refiFees.recordingFee;
+  const lenderTitlePolicy = input.lenderTitlePolicy ?? refiFees.lenderTitlePolicy;
   const mortgageTax = input.mortgageTax ?? 0;
 
   // Loan Fee
@@ -508,11 +594,15 @@ export function calculateVaRefinance(
   // Monthly Payment
   // Request: Breakdown show ONLY P&I. Image shows "Total Payment" = P&I.
   // So we zero out others for the total calculation.
-  const principalAndInterest = calculateMonthlyPI(
+  const productPayments = calculateLoanProductPayments(
     totalLoanAmount,
     interestRate,
-    termYears
+    termYears,
+    input.productOptions
   );
+  const principalAndInterest = productPayments
+    ? productPayments.startPayment
+    : calculateMonthlyPI(totalLoanAmount, interestRate, termYears);
 
   const monthlyPayment: MonthlyPaymentBreakdown = {
     principalAndInterest,
@@ -570,18 +660,45 @@ export function calculateVaRefinance(
     adjustment: roundToCents(adjustment),
   };
 
+  // Payoff = balance + interest accrued through funding, at the current rate when known
+  const payoff = calculatePayoff(
+    existingLoanBalance,
+    input.currentInterestRate || interestRate,
+    input.payoffDays ?? 30
+  );
+
   // Cash To Close
-  const amountNeeded = existingLoanBalance + netClosingCosts + fundingFeeAmount;
+  const amountNeeded = payoff.totalPayoff + netClosingCosts + fundingFeeAmount;
   const cashToClose = roundToCents(amountNeeded - totalLoanAmount);
 
   // Calculate APR
   const apr = calculateAPR(
     totalLoanAmount,
     closingCosts.totalLenderFees,
-    monthlyPayment.principalAndInterest,
+    productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
     termYears
   );
 
+  // Net tangible benefit; funding fee and prepaids are excluded from recoupment
+  const netTangibleBenefit = calculateNetTangibleBenefit({
+    existingLoanBalance,
+    currentInterestRate: input.currentInterestRate,
+    currentMonthlyPayment: input.currentMonthlyPayment,
+    currentRemainingTermMonths: input.currentRemainingTermMonths,
+    newLoanAmount: totalLoanAmount,
+    newPrincipalAndInterest: productPayments?.fullyAmortizingPayment ?? monthlyPayment.principalAndInterest,
+    termYears,
+    recoupableCosts: getRecoupableClosingCosts(closingCosts),
+  });
+  if (netTangibleBenefit && isIrrrl) {
+    const months = netTangibleBenefit.breakEvenMonths;
+    netTangibleBenefit.recoupmentTest = {
+      limitMonths: VA_IRRRL_RECOUPMENT_MONTHS,
+      months,
+      passed: months !== null && months <= VA_IRRRL_RECOUPMENT_MONTHS,
+    };
+  }
+
   return {
     loanAmount: newLoanAmount,
     totalLoanAmount,
@@ -590,7 +707,9 @@ export function calculateVaRefinance(
     monthlyPayment,
     closingCosts,
     cashToClose,
+    payoff,
     vaFundingFee: fundingFeeAmount,
+    vaFundingFeeDetail: fundingFeeDetail,
     // Reporting fields
     propertyValue: propertyValue || 0,
     interestRate: interestRate || 0,
@@ -598,5 +717,7 @@ export function calculateVaRefinance(
     term: termYears,
     downPaymentPercent: 0,
     monthlyMiRate: 0,
+    productPayments: productPayments ?? undefined,
+    netTangibleBenefit: netTangibleBenefit ?? undefined,
   };
 }
@@ -0,0 +1,263 @@
+/**
+ * Client Scenarios
+ *
+ * Each contact can hold any number of named calculator scenarios. They are
+ * stored as contact notes rather than a custom field, so saving one quote never
+ * overwrites another. A scenario's JSON is split across as many notes as needed
+ * to keep every note body under GHL's size limit; each note starts with a
+ * header line naming the scenario, the save it belongs to and which part it
+ * holds. Saves write a complete new set of notes before deleting the old ones,
+ * so a failed save never leaves a scenario half overwritten.
+ */
+
+import {
+  createContactNote,
+  deleteContactNote,
+  getContactNotes,
+  type GhlNote,
+} from './ghl-client';
+import {
+  ClientScenarioSchema,
+  type ClientScenario,
+  type ClientScenarioSummary,
+  type ClientState,
+} from './schemas';
+
+const NOTE_HEADER_PREFIX = '[quick-qualifier-scenario';
+// Notes saved before revisions were added have no revision in the header
+const NOTE_HEADER_PATTERN = /^\[quick-qualifier-scenario ([\w-]+)(?: ([\w-]+))? (\d+)\/(\d+)\]\n/;
+
+// Characters of scenario JSON per note, well under GHL's note body limit
+export const SCENARIO_CHUNK_SIZE = 10000;
+
+interface ScenarioNotes {
+  scenario: ClientScenario;
+  noteIds: string[]; // Every note of the scenario, including leftovers from earlier saves
+}
+
+/**
+ * Split a scenario into note bodies. Every save gets its own revision so its
+ * notes are never mixed up with the notes of the save it replaces.
+ */
+export function encodeScenarioNotes(
+  scenario: ClientScenario,
+  chunkSize: number = SCENARIO_CHUNK_SIZE,
+  revision: string = crypto.randomUUID().slice(0, 8)
+): string[] {
+  const json = JSON.stringify(scenario);
+  const total = Math.max(1, Math.ceil(json.length / chunkSize));
+  const bodies: string[] = [];
+
+  for (let part = 1; part <= total; part++) {
+    const chunk = json.slice((part - 1) * chunkSize, part * chunkSize);
+    bodies.push(`${NOTE_HEADER_PREFIX} ${scenario.id} ${revision} ${part}/${total}]\n${chunk}`);
+  }
+
+  return bodies;
+}
+
+/**
+ * Reassemble scenarios from a contact's notes. Other notes, saves with missing
+ * parts and anything that no longer matches the schema are skipped. When a
+ * scenario has notes from more than one save, the newest complete one wins.
+ */
+export function decodeScenarioNotes(notes: GhlNote[]): ScenarioNotes[] {
+  const saves = new Map<string, { id: string; total: number; parts: Map<number, GhlNote> }>();
+  const noteIdsByScenario = new Map<string, string[]>();
+
+  for (const note of notes) {
+    const match = note.body?.match(NOTE_HEADER_PATTERN);
+    if (!match) continue;
+
+    const [, id, revision = '', part, total] = match;
+    const key = `${id} ${revision}`;
+    const save = saves.get(key) ?? { id, total: Number(total), parts: new Map<number, GhlNote>() };
+    if (save.total !== Number(total)) {
+      save.total = NaN; // Conflicting headers; treat as incomplete
+    }
+    save.parts.set(Number(part), note);
+    saves.set(key, save);
+    noteIdsByScenario.set(id, [...(noteIdsByScenario.get(id) ?? []), note.id]);
+  }
+
+  const newest = new Map<string, ClientScenario>();
+  for (const save of saves.values()) {
+    if (save.parts.size !== save.total) continue;
+
+    const ordered: GhlNote[] = [];
+    for (let part = 1; part <= save.total; part++) {
+      const note = save.parts.get(part);
+      if (!note) break;
+      ordered.push(note);
+    }
+    if (ordered.length !== save.total) continue;
+
+    try {
+      const json = ordered.map((note) => note.body.replace(NOTE_HEADER_PATTERN, '')).join('');
+      const parsed = ClientScenarioSchema.safeParse(JSON.parse(json));
+      const current = newest.get(save.id);
+      if (parsed.success && (!current || parsed.data.updatedAt > current.updatedAt)) {
+        newest.set(save.id, parsed.data);
+      }
+    } catch {
+      // Corrupt JSON; skip the save
+    }
+  }
+
+  const scenarios = [...newest.values()].map((scenario) => ({
+    scenario,
+    noteIds: noteIdsByScenario.get(scenario.id) ?? [],
+  }));
+  return scenarios.sort((a, b) => b.scenario.updatedAt.localeCompare(a.scenario.updatedAt));
+}
+
+function toSummary(scenario: ClientScenario): ClientScenarioSummary {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    calculatorType: scenario.calculatorType,
+    createdAt: scenario.createdAt,
+    updatedAt: scenario.updatedAt,
+  };
+}
+
+async function loadScenarioNotes(contactId: string): Promise<ScenarioNotes[]> {
+  return decodeScenarioNotes(await getContactNotes(contactId));
+}
+
+async function findScenarioNotes(contactId: string, scenarioId: string): Promise<ScenarioNotes | null> {
+  const scenarios = await loadScenarioNotes(contactId);
+  return scenarios.find((entry) => entry.scenario.id === scenarioId) ?? null;
+}
+
+/**
+ * Write a scenario as a new set of notes, then delete the notes it replaces.
+ * If a write fails the notes written so far are removed and the previous save
+ * is left untouched.
+ */
+async function writeScenario(
+  contactId: string,
+  scenario: ClientScenario,
+  existingNoteIds: string[] = []
+): Promise<void> {
+  const createdNoteIds: string[] = [];
+
+  try {
+    for (const body of encodeScenarioNotes(scenario)) {
+      const note = await createContactNote(contactId, body);
+      createdNoteIds.push(note.id);
+    }
+  } catch (error) {
+    // Best effort; an incomplete save is ignored when reading anyway
+    await Promise.allSettled(createdNoteIds.map((noteId) => deleteContactNote(contactId, noteId)));
+    throw error;
+  }
+
+  // The new save is complete, so a failed delete only leaves an older save
+  // behind; it is outranked when reading and removed by the next save
+  for (const noteId of existingNoteIds) {
+    try {
+      await deleteContactNote(contactId, noteId);
+    } catch (error) {
+      console.error('Error deleting replaced scenario note:', error);
+    }
+  }
+}
+
+/**
+ * List a contact's scenarios, newest first.
+ */
+export async function listClientScenarios(contactId: string): Promise<ClientScenarioSummary[]> {
+  const scenarios = await loadScenarioNotes(contactId);
+  return scenarios.map((entry) => toSummary(entry.scenario));
+}
+
+/**
+ * Get one scenario with its calculator state.
+ */
+export async function getClientScenario(
+  contactId: string,
+  scenarioId: string
+): Promise<ClientScenario | null> {
+  const entry = await findScenarioNotes(contactId, scenarioId);
+  return entry?.scenario ?? null;
+}
+
+/**
+ * Save a calculator state as a new scenario.
+ */
+export async function createClientScenario(
+  contactId: string,
+  name: string,
+  state: ClientState
+): Promise<ClientScenario> {
+  const now = new Date().toISOString();
+  const scenario: ClientScenario = {
+    id: crypto.randomUUID(),
+    name,
+    calculatorType: state.calculatorType,
+    createdAt: now,
+    updatedAt: now,
+    state,
+  };
+
+  await writeScenario(contactId, scenario);
+  return scenario;
+}
+
+/**
+ * Rename a scenario. Returns null if it doesn't exist.
+ */
+export async function renameClientScenario(
+  contactId: string,
+  scenarioId: string,
+  name: string
+): Promise<ClientScenario | null> {
+  const entry = await findScenarioNotes(contactId, scenarioId);
+  if (!entry) return null;
+
+  const scenario = { ...entry.scenario, name, updatedAt: new Date().toISOString() };
+  await writeScenario(contactId, scenario, entry.noteIds);
+  return scenario;
+}
+
+/**
+ * Copy a scenario under a new name. Returns null if it doesn't exist.
+ */
+export async function duplicateClientScenario(
+  contactId: string,
+  scenarioId: string,
+  name: string
+): Promise<ClientScenario | null> {
+  const entry = await findScenarioNotes(contactId, scenarioId);
+  if (!entry) return null;
+
+  // The saved state is copied as-is; it is migrated when either copy is loaded
+  const now = new Date().toISOString();
+  const scenario: ClientScenario = {
+    ...entry.scenario,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeScenario(contactId, scenario);
+  return scenario;
+}
+
+/**
+ * Delete a scenario. Returns false if it doesn't exist.
+ */
+export async function deleteClientScenario(
+  contactId: string,
+  scenarioId: string
+): Promise<boolean> {
+  const entry = await findScenarioNotes(contactId, scenarioId);
+  if (!entry) return false;
+
+  for (const noteId of entry.noteIds) {
+    await deleteContactNote(contactId, noteId);
+  }
+  return true;
+}
@@ -0,0 +1,232 @@
+/**
+ * Client State Migrations
+ *
+ * Saved client states outlive the calculators that wrote them: input
+ * interfaces keep gaining fields (fee overrides, loanFeeMode, pricing ladders)
+ * and occasionally change shape. Loading a state runs it through the version
+ * steps below, then normalizes its inputs against the current defaults so the
+ * forms always get a complete, well-typed set of inputs. Anything that had to
+ * be filled in or thrown away is reported back to the caller.
+ */
+
+import { z } from 'zod';
+import {
+  AffordabilityProgramInputSchema,
+  CLIENT_STATE_VERSION,
+  ClientDtiInputsSchema,
+  ClientDtiResultSchema,
+  ClientStateSchema,
+  CreditScoreTier,
+  Fha203kOptionsSchema,
+  LoanCalculationResultSchema,
+  LoanProductOptionsSchema,
+  LoanProgram,
+  LoanPurpose,
+  PmiType,
+  PricingLadderEntrySchema,
+  RefinanceType,
+  SellerCostMode,
+  TaxPaymentMode,
+  TemporaryBuydownType,
+  VaUsage,
+  type ClientState,
+} from './schemas';
+import { defaultClientInputs, type ClientCalculatorType } from './store';
+
+type RawClientState = Record<string, unknown>;
+
+interface ClientStateMigrationStep {
+  from: string;
+  to: string;
+  migrate: (state: RawClientState) => RawClientState;
+}
+
+export interface ClientStateMigrationResult {
+  state: ClientState;
+  fromVersion: string;
+  filledFields: string[]; // Missing from the saved state, set to the current default
+  droppedFields: string[]; // Unknown or invalid in the saved state, discarded
+}
+
+/**
+ * Version steps, applied in order from the saved version up to
+ * CLIENT_STATE_VERSION. Steps handle renames and reshaping; missing and
+ * unknown fields are handled for every version by normalizeInputs.
+ */
+const MIGRATIONS: ClientStateMigrationStep[] = [
+  {
+    // 1.0 states were copied out of the store without a shape check. No
+    // fields were renamed, so normalization alone brings them up to date.
+    from: '1.0',
+    to: '2.0',
+    migrate: (state) => state,
+  },
+];
+
+// Nested inputs with optional fields are validated by their schema rather than
+// compared key by key with the defaults
+const INPUT_FIELD_SCHEMAS: Record<string, z.ZodType> = {
+  productOptions: LoanProductOptionsSchema,
+  fha203k: Fha203kOptionsSchema,
+  pricingLadder: z.array(PricingLadderEntrySchema),
+  programs: z.array(AffordabilityProgramInputSchema).min(1),
+};
+
+// String inputs limited to a set of values; anything else falls back to the default
+const INPUT_ENUM_SCHEMAS: Record<string, z.ZodType> = {
+  downPaymentMode: z.enum(['amount', 'percent']),
+  loanFeeMode: z.enum(['amount', 'percent']),
+  creditScoreTier: CreditScoreTier,
+  pmiType: PmiType,
+  temporaryBuydown: TemporaryBuydownType,
+  vaUsage: VaUsage,
+  refinanceType: RefinanceType,
+  taxPaymentMode: TaxPaymentMode,
+  program: LoanProgram,
+  purpose: LoanPurpose,
+  mode: SellerCostMode, // Seller net costs
+};
+
+interface MigrationReport {
+  filledFields: string[];
+  droppedFields: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function normalizeValue(
+  key: string,
+  defaultValue: unknown,
+  savedValue: unknown,
+  path: string,
+  report: MigrationReport
+): unknown {
+  const schema = INPUT_FIELD_SCHEMAS[key];
+  if (schema) {
+    const parsed = schema.safeParse(savedValue);
+    if (parsed.success) return parsed.data;
+    report.droppedFields.push(path);
+    return defaultValue;
+  }
+
+  if (Array.isArray(defaultValue)) {
+    if (!Array.isArray(savedValue)) {
+      report.droppedFields.push(path);
+      return defaultValue;
+    }
+    // Arrays of objects (e.g. comparison scenarios) are normalized item by item
+    const template = defaultValue[0];
+    if (!isPlainObject(template)) return savedValue;
+    return savedValue.flatMap((item, index) => {
+      if (!isPlainObject(item)) {
+        report.droppedFields.push(`${path}[${index}]`);
+        return [];
+      }
+      return [normalizeObject(template, item, `${path}[${index}]`, report)];
+    });
+  }
+
+  if (isPlainObject(defaultValue)) {
+    if (!isPlainObject(savedValue)) {
+      report.droppedFields.push(path);
+      return defaultValue;
+    }
+    return normalizeObject(defaultValue, savedValue, path, report);
+  }
+
+  const sameType = typeof savedValue === typeof defaultValue
+    && (typeof savedValue !== 'number' || Number.isFinite(savedValue));
+  const allowed = INPUT_ENUM_SCHEMAS[key]?.safeParse(savedValue).success ?? true;
+  if (!sameType || !allowed) {
+    report.droppedFields.push(path);
+    return defaultValue;
+  }
+  return savedValue;
+}
+
+function normalizeObject(
+  defaults: Record<string, unknown>,
+  saved: Record<string, unknown>,
+  path: string,
+  report: MigrationReport
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    const fieldPath = `${path}.${key}`;
+    if (saved[key] === undefined || saved[key] === null) {
+      result[key] = defaultValue;
+      if (defaultValue !== undefined) report.filledFields.push(fieldPath);
+    } else {
+      result[key] = normalizeValue(key, defaultValue, saved[key], fieldPath, report);
+    }
+  }
+
+  for (const [key, savedValue] of Object.entries(saved)) {
+    if (key in defaults) continue;
+
+    // Optional nested inputs with no default are kept when they still validate
+    const schema = INPUT_FIELD_SCHEMAS[key];
+    const parsed = schema?.safeParse(savedValue);
+    if (parsed?.success) {
+      result[key] = parsed.data;
+    } else if (savedValue !== undefined) {
+      report.droppedFields.push(`${path}.${key}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Upgrade a saved client state to the current version and input shapes.
+ * Returns null if it isn't a client state for a known calculator.
+ */
+export function migrateClientState(raw: unknown): ClientStateMigrationResult | null {
+  if (!isPlainObject(raw) || typeof raw.calculatorType !== 'string') return null;
+  if (!Object.prototype.hasOwnProperty.call(defaultClientInputs, raw.calculatorType)) return null;
+
+  const fromVersion = typeof raw.version === 'string' ? raw.version : '1.0';
+
+  let state = raw;
+  let version = fromVersion;
+  while (version !== CLIENT_STATE_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) break; // Unknown version; normalization below is the best we can do
+    state = step.migrate(state);
+    version = step.to;
+  }
+
+  const report: MigrationReport = { filledFields: [], droppedFields: [] };
+  const calculatorType = state.calculatorType as ClientCalculatorType;
+  const inputs = normalizeObject(
+    defaultClientInputs[calculatorType] as Record<string, unknown>,
+    isPlainObject(state.inputs) ? state.inputs : {},
+    'inputs',
+    report
+  );
+
+  // Results are recalculated by the forms, so an outdated shape is simply dropped
+  const results = LoanCalculationResultSchema.safeParse(state.results);
+  if (state.results !== undefined && !results.success) report.droppedFields.push('results');
+
+  const dtiInputs = ClientDtiInputsSchema.safeParse(state.dtiInputs);
+  if (state.dtiInputs !== undefined && !dtiInputs.success) report.droppedFields.push('dtiInputs');
+
+  const dtiResult = ClientDtiResultSchema.safeParse(state.dtiResult);
+  if (state.dtiResult != null && !dtiResult.success) report.droppedFields.push('dtiResult');
+
+  const migrated = ClientStateSchema.parse({
+    version: CLIENT_STATE_VERSION,
+    lastUpdated: typeof state.lastUpdated === 'string' ? state.lastUpdated : new Date().toISOString(),
+    calculatorType,
+    inputs,
+    results: results.success ? results.data : undefined,
+    dtiInputs: dtiInputs.success ? dtiInputs.data : undefined,
+    dtiResult: dtiResult.success ? dtiResult.data : null,
+    selectedAgent: typeof state.selectedAgent === 'string' ? state.selectedAgent : undefined,
+  });
+
+  return { state: migrated, fromVersion, ...report };
+}
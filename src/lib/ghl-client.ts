@@ -4,6 +4,7 @@
  * Handles all communication with the GHL API including:
  * - Custom Values (global configuration)
  * - Contacts (client data persistence)
+ * - Contact notes (saved calculator scenarios)
  * - Partner agents (tagged contacts)
  */
 
@@ -47,6 +48,12 @@ interface GhlContact {
   }>;
 }
 
+export interface GhlNote {
+  id: string;
+  body: string;
+  dateAdded?: string;
+}
+
 interface GhlContactsResponse {
   contacts: GhlContact[];
   meta?: {
@@ -197,27 +204,8 @@ export async function getPartnerAgents(): Promise<GhlContact[]> {
 }
 
 /**
- * Save calculator state to a contact's custom field.
- */
-export async function saveCalculatorState(
-  contactId: string,
-  state: Record<string, unknown>
-): Promise<void> {
-  await ghlFetch(`/contacts/${contactId}`, {
-    method: 'PUT',
-    body: {
-      customFields: [
-        {
-          key: 'calculator_state_json',
-          value: JSON.stringify(state),
-        },
-      ],
-    },
-  });
-}
-
-/**
- * Load calculator state from a contact's custom field.
+ * Load the single calculator state saved in a contact's custom field.
+ * Legacy: new saves are stored as scenarios in contact notes.
  */
 export async function loadCalculatorState(
   contactId: string
@@ -238,6 +226,47 @@ export async function loadCalculatorState(
   }
 }
 
+/**
+ * List the notes on a contact.
+ */
+export async function getContactNotes(contactId: string): Promise<GhlNote[]> {
+  const response = await ghlFetch<{ notes: GhlNote[] }>(
+    `/contacts/${contactId}/notes`
+  );
+
+  return response.notes || [];
+}
+
+/**
+ * Add a note to a contact.
+ */
+export async function createContactNote(
+  contactId: string,
+  body: string
+): Promise<GhlNote> {
+  const response = await ghlFetch<{ note: GhlNote }>(
+    `/contacts/${contactId}/notes`,
+    {
+      method: 'POST',
+      body: { body },
+    }
+  );
+
+  return response.note;
+}
+
+/**
+ * Delete a contact note.
+ */
+export async function deleteContactNote(
+  contactId: string,
+  noteId: string
+): Promise<void> {
+  await ghlFetch(`/contacts/${contactId}/notes/${noteId}`, {
+    method: 'DELETE',
+  });
+}
+
 /**
  * Get custom field value from a contact.
  */
@@ -139,6 +139,43 @@ export function sanitizeMoney(value: unknown, defaultValue: number = 0): number
   return Math.max(0, num);
 }
 
+/**
+ * Sanitize a rate/price ladder entered as a custom value.
+ * Accepts a JSON array of { rate, price } objects or "rate:price" pairs
+ * separated by commas, semicolons or new lines, e.g. "6.25:1.5, 6.5:0.75, 6.875:-0.5".
+ * Entries without a valid rate are dropped; the ladder is sorted by rate.
+ */
+export function sanitizePricingLadder(value: unknown): { rate: number; price: number }[] {
+  if (value === null || value === undefined || value === '') {
+    return [];
+  }
+
+  let pairs: [unknown, unknown][] = [];
+  if (Array.isArray(value)) {
+    pairs = value.map((entry) => [entry?.rate, entry?.price]);
+  } else if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        return sanitizePricingLadder(JSON.parse(trimmed));
+      } catch {
+        return [];
+      }
+    }
+    pairs = trimmed
+      .split(/[,;\n]+/)
+      .map((pair) => pair.split(':') as [string, string]);
+  }
+
+  return pairs
+    .map(([rate, price]) => ({
+      rate: sanitizeRate(rate),
+      price: sanitizeNumber(price),
+    }))
+    .filter((entry) => entry.rate > 0)
+    .sort((a, b) => a.rate - b.rate);
+}
+
 /**
  * Create a sanitized config object from raw GHL Custom Values.
  * This maps the raw key-value pairs to a structured config object.
@@ -165,8 +202,9 @@ export function sanitizeGhlConfig(rawValues: Record<string, unknown>) {
       monthly[ltv] = {};
       single[ltv] = {};
       for (const fico of ficoTiers) {
-        monthly[ltv][fico] = getRate(`${prefix}_mo_${ltv}_${fico}`);
-        single[ltv][fico] = getRate(`${prefix}_sg_${ltv}_${fico}`);
+        // Factors are mostly sub-1% rates, so not run through getRate
+        monthly[ltv][fico] = get(`${prefix}_mo_${ltv}_${fico}`);
+        single[ltv][fico] = get(`${prefix}_sg_${ltv}_${fico}`);
       }
     }
 
@@ -196,6 +234,32 @@ export function sanitizeGhlConfig(rawValues: Record<string, unknown>) {
       notary: get('calc_fee_notary', 150),
       recording: get('calc_fee_recording', 150),
       courier: get('calc_fee_courier', 35),
+      ownerTitlePolicy: get('calc_fee_owner_title', 0),
+      lenderTitlePolicy: get('calc_fee_lender_title', 0),
+      pestInspection: get('calc_fee_pest_inspection', 0),
+      propertyInspection: get('calc_fee_property_inspection', 0),
+      poolInspection: get('calc_fee_pool_inspection', 0),
+    },
+
+    feesRefi: {
+      originationPoints: get('calc_refi_fee_origination_pts', 0),
+      admin: get('calc_refi_fee_admin', 0),
+      processing: get('calc_refi_fee_processing', 895),
+      underwriting: get('calc_refi_fee_underwriting', 995),
+      appraisal: get('calc_refi_fee_appraisal', 650),
+      creditReport: get('calc_refi_fee_credit_report', 150),
+      floodCert: get('calc_refi_fee_flood_cert', 30),
+      taxService: get('calc_refi_fee_tax_service', 59),
+      docPrep: get('calc_refi_fee_doc_prep', 595),
+      settlement: get('calc_refi_fee_settlement', 400),
+      notary: get('calc_refi_fee_notary', 350),
+      recording: get('calc_refi_fee_recording', 275),
+      courier: get('calc_refi_fee_courier', 0),
+      ownerTitlePolicy: get('calc_refi_fee_owner_title', 0),
+      lenderTitlePolicy: get('calc_refi_fee_lender_title', 1015),
+      pestInspection: get('calc_refi_fee_pest_inspection', 0),
+      propertyInspection: get('calc_refi_fee_property_inspection', 0),
+      poolInspection: get('calc_refi_fee_pool_inspection', 0),
     },
 
     prepaids: {
@@ -233,9 +297,27 @@ export function sanitizeGhlConfig(rawValues: Record<string, unknown>) {
       ffSubseqLe90: getRate('calc_va_ff_subseq_ltv_le90', 1.25),
       ffSubseq90to95: getRate('calc_va_ff_subseq_ltv_90_95', 1.50),
       ffSubseqGt95: getRate('calc_va_ff_subseq_ltv_gt95', 3.30),
-      ffIrrrl: getRate('calc_va_ff_irrrl', 0.50),
+      ffIrrrl: get('calc_va_ff_irrrl', 0.50), // Sub-1% rate, so not run through getRate
       ffCashoutFirst: getRate('calc_va_ff_cashout_first', 2.15),
       ffCashoutSubseq: getRate('calc_va_ff_cashout_subseq', 3.30),
+      // Reserves / National Guard (same as regular military under current VA tables)
+      ffReserveFirstLe90: getRate('calc_va_ff_reserve_first_ltv_le90', 1.25),
+      ffReserveFirst90to95: getRate('calc_va_ff_reserve_first_ltv_90_95', 1.50),
+      ffReserveFirstGt95: getRate('calc_va_ff_reserve_first_ltv_gt95', 2.15),
+      ffReserveSubseqLe90: getRate('calc_va_ff_reserve_subseq_ltv_le90', 1.25),
+      ffReserveSubseq90to95: getRate('calc_va_ff_reserve_subseq_ltv_90_95', 1.50),
+      ffReserveSubseqGt95: getRate('calc_va_ff_reserve_subseq_ltv_gt95', 3.30),
+      ffReserveIrrrl: get('calc_va_ff_reserve_irrrl', 0.50),
+      ffReserveCashoutFirst: getRate('calc_va_ff_reserve_cashout_first', 2.15),
+      ffReserveCashoutSubseq: getRate('calc_va_ff_reserve_cashout_subseq', 3.30),
+    },
+
+    usda: {
+      guaranteeFee: get('calc_usda_upfront_fee', 1.0),
+      annualFee: get('calc_usda_annual_fee', 0.35), // Sub-1% rate, so not run through getRate
+      maxLtv: get('calc_usda_max_ltv', 100),
+      incomeLimit1to4: get('calc_usda_income_limit_1_4', 119850),
+      incomeLimit5to8: get('calc_usda_income_limit_5_8', 158250),
     },
 
     miFactors: {
@@ -243,6 +325,12 @@ export function sanitizeGhlConfig(rawValues: Record<string, unknown>) {
       highBalance: buildMiTable('calc_mi_hb'),
     },
 
+    pricingLadders: {
+      conventional: sanitizePricingLadder(rawValues['calc_pricing_ladder_conv']),
+      fha: sanitizePricingLadder(rawValues['calc_pricing_ladder_fha']),
+      va: sanitizePricingLadder(rawValues['calc_pricing_ladder_va']),
+    },
+
     company: {
       name: getStr('calc_company_name', ''),
       nmlsId: getStr('calc_nmls_id', ''),
@@ -44,10 +44,64 @@ export type PmiType = z.infer<typeof PmiType>;
 export const VaUsage = z.enum(['first', 'subsequent']);
 export type VaUsage = z.infer<typeof VaUsage>;
 
+// Which funding-fee tier applied (down payment tiers cover purchase and rate/term refi)
+export const VaFundingFeeReason = z.enum([
+  'disability_exempt',
+  'irrrl',
+  'cash_out',
+  'down_lt5',
+  'down_5to10',
+  'down_10plus',
+]);
+export type VaFundingFeeReason = z.infer<typeof VaFundingFeeReason>;
+
+export const LoanProduct = z.enum(['fixed', 'arm_5_1', 'arm_7_1', 'arm_10_1']);
+export type LoanProduct = z.infer<typeof LoanProduct>;
+
+export const Fha203kType = z.enum(['limited', 'standard']);
+export type Fha203kType = z.infer<typeof Fha203kType>;
+
+// Temporary buydown: rate reduction by year, e.g. 2-1 = 2% off in year 1, 1% off in year 2
+export const TemporaryBuydownType = z.enum(['none', '1_0', '2_1', '3_2_1']);
+export type TemporaryBuydownType = z.infer<typeof TemporaryBuydownType>;
+
 // ============================================================================
 // BASE INPUT SCHEMAS
 // ============================================================================
 
+// ARM and interest-only options (omitted = fixed rate, fully amortizing)
+export const LoanProductOptionsSchema = z.object({
+  loanProduct: LoanProduct.default('fixed'),
+  armIndex: z.number().min(0).max(20).optional(), // Current index value, e.g. 30-day average SOFR
+  armMargin: z.number().min(0).max(10).optional(),
+  armInitialCap: z.number().min(0).max(10).optional(),
+  armPeriodicCap: z.number().min(0).max(10).optional(),
+  armLifetimeCap: z.number().min(0).max(10).optional(),
+  interestOnlyYears: z.number().int().min(0).max(10).default(0),
+});
+export type LoanProductOptions = z.infer<typeof LoanProductOptionsSchema>;
+
+// FHA 203(k) renovation costs (only used when is203k is set)
+export const Fha203kOptionsSchema = z.object({
+  type: Fha203kType.default('limited'),
+  repairCosts: z.number().min(0).default(0),
+  contingencyPercent: z.number().min(0).max(20).default(10), // Percent of repair costs
+  consultantFee: z.number().min(0).default(0),
+  inspectionFees: z.number().min(0).default(0), // Draw inspections, title updates, permits
+  supplementalOriginationFee: z.number().min(0).optional(), // Blank = greater of $350 or 1.5% of repairs
+  asIsValue: z.number().min(0).optional(), // Blank = sales price
+  afterImprovedValue: z.number().min(0).optional(),
+});
+export type Fha203kOptions = z.infer<typeof Fha203kOptionsSchema>;
+
+// One rate from the rate sheet and its price in points:
+// positive = discount points paid, negative = lender credit, 0 = par
+export const PricingLadderEntrySchema = z.object({
+  rate: z.number().min(0).max(20),
+  price: z.number().min(-10).max(10),
+});
+export type PricingLadderEntry = z.infer<typeof PricingLadderEntrySchema>;
+
 // Common inputs shared by all purchase calculators
 export const BasePurchaseInputSchema = z.object({
   salesPrice: z.number().min(0, 'Sales price must be positive'),
@@ -92,6 +146,7 @@ export const BasePurchaseInputSchema = z.object({
   poolInspectionFee: z.number().min(0).optional(),
   transferTax: z.number().min(0).optional(),
   mortgageTax: z.number().min(0).optional(),
+  productOptions: LoanProductOptionsSchema.optional(),
 });
 export type BasePurchaseInput = z.infer<typeof BasePurchaseInputSchema>;
 
@@ -101,12 +156,17 @@ export const ConventionalPurchaseInputSchema = BasePurchaseInputSchema.extend({
   pmiType: PmiType.default('monthly'),
   sellerCreditPercent: z.number().min(0).max(100).optional(),
   depositAmount: z.number().min(0).default(0),
+  pricingLadder: z.array(PricingLadderEntrySchema).optional(),
+  temporaryBuydown: TemporaryBuydownType.default('none'),
 });
 export type ConventionalPurchaseInput = z.infer<typeof ConventionalPurchaseInputSchema>;
 
 // FHA Purchase specific
 export const FhaPurchaseInputSchema = BasePurchaseInputSchema.extend({
   is203k: z.boolean().default(false),
+  fha203k: Fha203kOptionsSchema.optional(),
+  pricingLadder: z.array(PricingLadderEntrySchema).optional(),
+  temporaryBuydown: TemporaryBuydownType.default('none'),
 });
 export type FhaPurchaseInput = z.infer<typeof FhaPurchaseInputSchema>;
 
@@ -115,9 +175,18 @@ export const VaPurchaseInputSchema = BasePurchaseInputSchema.extend({
   vaUsage: VaUsage.default('first'),
   isDisabledVeteran: z.boolean().default(false),
   isReservist: z.boolean().default(false),
+  pricingLadder: z.array(PricingLadderEntrySchema).optional(),
+  temporaryBuydown: TemporaryBuydownType.default('none'),
 });
 export type VaPurchaseInput = z.infer<typeof VaPurchaseInputSchema>;
 
+// USDA Purchase specific
+export const UsdaPurchaseInputSchema = BasePurchaseInputSchema.extend({
+  householdSize: z.number().int().min(1).max(20).default(4),
+  householdIncomeAnnual: z.number().min(0).default(0), // Total household income for eligibility
+});
+export type UsdaPurchaseInput = z.infer<typeof UsdaPurchaseInputSchema>;
+
 // ============================================================================
 // REFINANCE INPUT SCHEMAS
 // ============================================================================
@@ -129,7 +198,8 @@ export const BaseRefinanceInputSchema = z.object({
   interestRate: z.number().min(0).max(20),
   termYears: z.number().int().min(1).max(40).default(30),
   currentInterestRate: z.number().min(0).max(20).optional(),
-  currentMonthlyPayment: z.number().min(0).optional(),
+  currentMonthlyPayment: z.number().min(0).optional(), // Current principal & interest
+  currentRemainingTermMonths: z.number().int().min(1).max(480).optional(),
   propertyTaxMonthly: z.number().min(0).default(0),
   homeInsuranceMonthly: z.number().min(0).default(0),
   hoaDuesMonthly: z.number().min(0).default(0),
@@ -164,6 +234,7 @@ export const BaseRefinanceInputSchema = z.object({
   poolInspectionFee: z.number().min(0).optional(),
   transferTax: z.number().min(0).optional(),
   mortgageTax: z.number().min(0).optional(),
+  productOptions: LoanProductOptionsSchema.optional(),
 });
 export type BaseRefinanceInput = z.infer<typeof BaseRefinanceInputSchema>;
 
@@ -176,7 +247,9 @@ export type ConventionalRefinanceInput = z.infer<typeof ConventionalRefinanceInp
 
 export const FhaRefinanceInputSchema = BaseRefinanceInputSchema.extend({
   isStreamline: z.boolean().default(false),
-  existingFhaLoanDate: z.string().optional(), // For MIP refund calculation
+  existingFhaLoanDate: z.string().optional(), // Prior FHA endorsement date (YYYY-MM-DD), for MIP refund calculation
+  existingUfmipAmount: z.number().min(0).optional(), // UFMIP paid on the prior FHA loan
+  currentMipRate: z.number().min(0).max(2).optional(), // Annual MIP on the current FHA loan
 });
 export type FhaRefinanceInput = z.infer<typeof FhaRefinanceInputSchema>;
 
@@ -184,6 +257,7 @@ export const VaRefinanceInputSchema = BaseRefinanceInputSchema.extend({
   isIrrrl: z.boolean().default(false),
   vaUsage: VaUsage.default('first'),
   isDisabledVeteran: z.boolean().default(false),
+  isReservist: z.boolean().default(false), // Reserves / National Guard service
   cashOutAmount: z.number().min(0).default(0),
 });
 export type VaRefinanceInput = z.infer<typeof VaRefinanceInputSchema>;
@@ -192,19 +266,45 @@ export type VaRefinanceInput = z.infer<typeof VaRefinanceInputSchema>;
 // SELLER NET SHEET SCHEMA
 // ============================================================================
 
+// Property taxes paid after the period (arrears) or ahead of it (prepaid)
+export const TaxPaymentMode = z.enum(['arrears', 'prepaid']);
+export type TaxPaymentMode = z.infer<typeof TaxPaymentMode>;
+
+// Seller cost entered as a percent of the sales price or a flat dollar amount
+export const SellerCostMode = z.enum(['percent', 'amount']);
+export type SellerCostMode = z.infer<typeof SellerCostMode>;
+
+export const SellerCostSchema = z.object({
+  mode: SellerCostMode.default('percent'),
+  percent: z.number().min(0).max(100).default(0),
+  amount: z.number().min(0).default(0),
+});
+export type SellerCost = z.infer<typeof SellerCostSchema>;
+
 export const SellerNetInputSchema = z.object({
   salesPrice: z.number().min(0),
   existingLoanPayoff: z.number().min(0).default(0),
   secondLienPayoff: z.number().min(0).default(0),
   closingDate: z.string().optional(),
-  commissionPercent: z.number().min(0).max(10).default(6),
+  commissionPercent: z.number().min(0).max(10).default(6), // Combined commission, used when no split is given
+  // Split compensation, fees and concessions (each percent or flat amount)
+  listingCommission: SellerCostSchema.optional(),
+  buyerAgentCommission: SellerCostSchema.optional(),
+  brokerageFee: SellerCostSchema.optional(), // Flat-fee brokerage charge
+  transactionFee: SellerCostSchema.optional(),
+  sellerPaidClosingCosts: SellerCostSchema.optional(), // Buyer closing costs paid by the seller
   titleInsurance: z.number().min(0).default(0),
   escrowFee: z.number().min(0).default(0),
   transferTax: z.number().min(0).default(0),
   recordingFees: z.number().min(0).default(0),
   repairCredits: z.number().min(0).default(0),
   hoaPayoff: z.number().min(0).default(0),
-  propertyTaxProration: z.number().default(0), // Can be positive or negative
+  propertyTaxProration: z.number().default(0), // Manual amount, used when no annual tax / closing date
+  // Date-based prorations (closingDate as YYYY-MM-DD)
+  annualPropertyTax: z.number().min(0).optional(),
+  taxPaymentMode: TaxPaymentMode.optional(), // Default arrears
+  taxYearStartMonth: z.number().int().min(1).max(12).optional(), // Fiscal tax year start, default January
+  hoaDuesMonthly: z.number().min(0).optional(),
   otherCredits: z.number().default(0),
   otherDebits: z.number().min(0).default(0),
 });
@@ -214,24 +314,75 @@ export type SellerNetInput = z.infer<typeof SellerNetInputSchema>;
 // COMPARISON SCHEMA
 // ============================================================================
 
-export const ComparisonScenarioSchema = z.object({
-  name: z.string().default('Scenario'),
-  program: LoanProgram,
-  salesPrice: z.number().min(0),
-  downPaymentPercent: z.number().min(0).max(100),
-  interestRate: z.number().min(0).max(20),
-  termYears: z.number().int().min(1).max(40).default(30),
-});
+// Each scenario carries its program's full purchase or refinance input, tagged by program
+const ScenarioName = z.string().default('Scenario');
+const PurchaseScenarioFields = { name: ScenarioName, purpose: z.literal('purchase').optional() };
+const RefinanceScenarioFields = { name: ScenarioName, purpose: z.literal('refinance') };
+
+export const PurchaseComparisonScenarioSchema = z.discriminatedUnion('program', [
+  ConventionalPurchaseInputSchema.extend({ ...PurchaseScenarioFields, program: z.literal('conventional') }),
+  FhaPurchaseInputSchema.extend({ ...PurchaseScenarioFields, program: z.literal('fha') }),
+  VaPurchaseInputSchema.extend({ ...PurchaseScenarioFields, program: z.literal('va') }),
+  UsdaPurchaseInputSchema.extend({ ...PurchaseScenarioFields, program: z.literal('usda') }),
+]);
+export type PurchaseComparisonScenario = z.infer<typeof PurchaseComparisonScenarioSchema>;
+
+export const RefinanceComparisonScenarioSchema = z.discriminatedUnion('program', [
+  ConventionalRefinanceInputSchema.extend({ ...RefinanceScenarioFields, program: z.literal('conventional') }),
+  FhaRefinanceInputSchema.extend({ ...RefinanceScenarioFields, program: z.literal('fha') }),
+  VaRefinanceInputSchema.extend({ ...RefinanceScenarioFields, program: z.literal('va') }),
+]);
+export type RefinanceComparisonScenario = z.infer<typeof RefinanceComparisonScenarioSchema>;
+
+// Purchase scenarios may omit the purpose; refinance scenarios must set it
+export const ComparisonScenarioSchema = z.union([
+  PurchaseComparisonScenarioSchema,
+  RefinanceComparisonScenarioSchema,
+]);
 export type ComparisonScenario = z.infer<typeof ComparisonScenarioSchema>;
 
 export const ComparisonInputSchema = z.object({
   scenarios: z.array(ComparisonScenarioSchema).min(2).max(3),
-  propertyTaxMonthly: z.number().min(0).default(0),
-  homeInsuranceMonthly: z.number().min(0).default(0),
-  hoaDuesMonthly: z.number().min(0).default(0),
+  // Shared property costs, applied to every scenario when set
+  propertyTaxMonthly: z.number().min(0).optional(),
+  homeInsuranceMonthly: z.number().min(0).optional(),
+  hoaDuesMonthly: z.number().min(0).optional(),
 });
 export type ComparisonInput = z.infer<typeof ComparisonInputSchema>;
 
+// ============================================================================
+// AFFORDABILITY SCHEMA
+// ============================================================================
+
+// Programs the max purchase price solver prices (USDA is capped by income limits instead)
+export const AffordabilityProgram = z.enum(['conventional', 'fha', 'va']);
+export type AffordabilityProgram = z.infer<typeof AffordabilityProgram>;
+
+export const AffordabilityProgramInputSchema = z.object({
+  program: AffordabilityProgram,
+  interestRate: z.number().min(0).max(20),
+  maxFrontEndRatio: z.number().min(0).max(100), // Housing payment / income, percent
+  maxBackEndRatio: z.number().min(0).max(100), // Housing payment + debts / income, percent
+});
+export type AffordabilityProgramInput = z.infer<typeof AffordabilityProgramInputSchema>;
+
+export const AffordabilityInputSchema = z.object({
+  // Monthly incomes and debt payments, as captured in the DTI section
+  incomes: z.array(z.number().min(0)),
+  payments: z.array(z.number().min(0)),
+  availableFunds: z.number().min(0), // Cash for down payment and closing costs
+  programs: z.array(AffordabilityProgramInputSchema).min(1),
+  termYears: z.number().int().min(1).max(40).default(30),
+  propertyTaxRate: z.number().min(0).max(10).optional(), // Annual percent of price; blank = config rate
+  homeInsuranceRate: z.number().min(0).max(10).default(0.35), // Annual percent of price
+  hoaDuesMonthly: z.number().min(0).default(0),
+  sellerCreditAmount: z.number().min(0).default(0),
+  creditScoreTier: CreditScoreTier.default('740'),
+  vaUsage: VaUsage.default('first'),
+  isDisabledVeteran: z.boolean().default(false),
+});
+export type AffordabilityInput = z.infer<typeof AffordabilityInputSchema>;
+
 // ============================================================================
 // OUTPUT SCHEMAS
 // ============================================================================
@@ -295,6 +446,8 @@ export const ClosingCostsBreakdownSchema = z.object({
   transferTax: z.number().optional(),
   mortgageTax: z.number().optional(),
   adjustment: z.number().optional(), // For manual closing cost overrides
+  ufmipRefundCredit: z.number().optional(), // FHA-to-FHA refund applied against the new (financed) UFMIP
+  buydownSubsidy: z.number().optional(), // Temporary buydown funds escrowed at closing
 
   // Inputs used for calculation (passed back for UI)
   prepaidInterestDays: z.number().optional(),
@@ -303,6 +456,157 @@ export const ClosingCostsBreakdownSchema = z.object({
 });
 export type ClosingCostsBreakdown = z.infer<typeof ClosingCostsBreakdownSchema>;
 
+// When monthly MI stops. Omitted when MI lasts for the life of the loan.
+export const MiCancellationSchema = z.object({
+  ltv: z.number().optional(), // Drops once the scheduled balance reaches this LTV of original value
+  months: z.number().optional(), // Drops after this many payments
+});
+export type MiCancellation = z.infer<typeof MiCancellationSchema>;
+
+export const AmortizationRowSchema = z.object({
+  month: z.number(),
+  payment: z.number(), // Principal & interest
+  principal: z.number(),
+  interest: z.number(),
+  mortgageInsurance: z.number(),
+  balance: z.number(),
+  cumulativeInterest: z.number(),
+});
+export type AmortizationRow = z.infer<typeof AmortizationRowSchema>;
+
+export const AmortizationYearSchema = z.object({
+  year: z.number(),
+  principal: z.number(),
+  interest: z.number(),
+  mortgageInsurance: z.number(),
+  endingBalance: z.number(),
+  cumulativeInterest: z.number(),
+});
+export type AmortizationYear = z.infer<typeof AmortizationYearSchema>;
+
+export const VaFundingFeeDetailSchema = z.object({
+  rate: z.number(),
+  reason: VaFundingFeeReason,
+  vaUsage: VaUsage,
+  isReservist: z.boolean(),
+});
+export type VaFundingFeeDetail = z.infer<typeof VaFundingFeeDetailSchema>;
+
+export const LoanPayoffSchema = z.object({
+  principalBalance: z.number(),
+  interestRate: z.number(), // Rate the per-diem interest accrues at
+  perDiem: z.number(),
+  payoffDays: z.number(),
+  accruedInterest: z.number(),
+  totalPayoff: z.number(),
+});
+export type LoanPayoff = z.infer<typeof LoanPayoffSchema>;
+
+export const RecoupmentTestSchema = z.object({
+  limitMonths: z.number(),
+  months: z.number().nullable(), // null when the payment does not drop
+  passed: z.boolean(),
+});
+export type RecoupmentTest = z.infer<typeof RecoupmentTestSchema>;
+
+export const CombinedRateTestSchema = z.object({
+  currentCombinedRate: z.number(), // Note rate + annual MIP
+  newCombinedRate: z.number(),
+  requiredReduction: z.number(),
+  passed: z.boolean(),
+});
+export type CombinedRateTest = z.infer<typeof CombinedRateTestSchema>;
+
+// Old vs new loan comparison for refinances (only when the current loan is known)
+export const NetTangibleBenefitSchema = z.object({
+  currentPrincipalAndInterest: z.number(),
+  newPrincipalAndInterest: z.number(),
+  monthlySavings: z.number(),
+  recoupableCosts: z.number(), // Lender and third-party fees, net of lender credit
+  breakEvenMonths: z.number().nullable(), // null when there are no monthly savings
+  remainingTermMonths: z.number(),
+  currentRemainingInterest: z.number(),
+  newTotalInterest: z.number(),
+  interestDelta: z.number(), // New minus current; negative means interest saved
+  hasBenefit: z.boolean(),
+  recoupmentTest: RecoupmentTestSchema.optional(), // VA IRRRL 36-month recoupment
+  combinedRateTest: CombinedRateTestSchema.optional(), // FHA streamline
+});
+export type NetTangibleBenefit = z.infer<typeof NetTangibleBenefitSchema>;
+
+export const FhaUfmipRefundSchema = z.object({
+  monthsSinceEndorsement: z.number(),
+  refundPercent: z.number(),
+  existingUfmip: z.number(),
+  refundAmount: z.number(), // Capped at the new loan's UFMIP
+  grossUfmip: z.number(), // New UFMIP before the refund credit
+});
+export type FhaUfmipRefund = z.infer<typeof FhaUfmipRefundSchema>;
+
+export const Fha203kBreakdownSchema = z.object({
+  type: Fha203kType,
+  repairCosts: z.number(),
+  contingencyReserve: z.number(),
+  consultantFee: z.number(),
+  inspectionFees: z.number(),
+  supplementalOriginationFee: z.number(),
+  totalRehabCost: z.number(), // Financed into the base loan
+  asIsValue: z.number(),
+  afterImprovedValue: z.number().optional(),
+  valueBasis: z.number(), // Lesser of as-is value + rehab cost or after-improved value
+  maxBaseLoan: z.number(),
+  repairLimitExceeded: z.boolean(), // Limited 203(k) repair cap
+  belowStandardMinimum: z.boolean(), // Standard 203(k) minimum repair cost
+});
+export type Fha203kBreakdown = z.infer<typeof Fha203kBreakdownSchema>;
+
+export const LoanProductPaymentsSchema = z.object({
+  loanProduct: LoanProduct,
+  startPayment: z.number(), // Interest-only or initial ARM payment
+  fullyAmortizingPayment: z.number(), // Note rate amortized over the full term
+  fixedPeriodMonths: z.number(), // Months before the first rate adjustment (term for fixed)
+  interestOnlyMonths: z.number(),
+  fullyIndexedRate: z.number().optional(),
+  worstCaseRate: z.number(),
+  worstCasePayment: z.number(),
+  qualifyingRate: z.number(),
+  qualifyingPayment: z.number(),
+});
+export type LoanProductPayments = z.infer<typeof LoanProductPaymentsSchema>;
+
+export const TemporaryBuydownYearSchema = z.object({
+  year: z.number(),
+  rate: z.number(),
+  principalAndInterest: z.number(),
+  monthlyReduction: z.number(), // Below the note rate payment
+  annualSubsidy: z.number(),
+});
+export type TemporaryBuydownYear = z.infer<typeof TemporaryBuydownYearSchema>;
+
+export const TemporaryBuydownSchema = z.object({
+  type: TemporaryBuydownType,
+  years: z.array(TemporaryBuydownYearSchema),
+  subsidyAmount: z.number(),
+  sellerFunded: z.number(), // Covered by the seller credit
+  buyerFunded: z.number(), // Shortfall paid by the buyer at closing
+});
+export type TemporaryBuydown = z.infer<typeof TemporaryBuydownSchema>;
+
+// One priced rate on the ladder, compared against the par rate
+export const PricingLadderRowSchema = z.object({
+  rate: z.number(),
+  price: z.number(),
+  pointsCost: z.number(), // Discount points paid (positive) or lender credit (negative)
+  principalAndInterest: z.number(),
+  monthlyPayment: z.number(),
+  cashToClose: z.number(),
+  apr: z.number(),
+  isPar: z.boolean(),
+  monthlySavings: z.number(), // Versus par; negative when the payment is higher
+  breakEvenMonths: z.number().nullable(), // Months to recoup the extra cost over par
+});
+export type PricingLadderRow = z.infer<typeof PricingLadderRowSchema>;
+
 export const LoanCalculationResultSchema = z.object({
   loanAmount: z.number(),
   totalLoanAmount: z.number(), // Includes financed fees (UFMIP, VA FF, etc.)
@@ -310,7 +614,8 @@ export const LoanCalculationResultSchema = z.object({
   downPayment: z.number(),
   monthlyPayment: MonthlyPaymentBreakdownSchema,
   closingCosts: ClosingCostsBreakdownSchema,
-  cashToClose: z.number(),
+  cashToClose: z.number(), // Negative on a refinance means cash to the borrower
+  payoff: LoanPayoffSchema.optional(), // Refinances only
   // Reporting fields
   propertyValue: z.number().default(0),
   interestRate: z.number().default(0),
@@ -318,10 +623,22 @@ export const LoanCalculationResultSchema = z.object({
   term: z.number().default(30),
   downPaymentPercent: z.number().optional(),
   monthlyMiRate: z.number().optional(),
+  miCancellation: MiCancellationSchema.optional(),
+  productPayments: LoanProductPaymentsSchema.optional(), // ARM / interest-only loans only
+  pricingLadder: z.array(PricingLadderRowSchema).optional(), // When a rate/price ladder is given
+  temporaryBuydown: TemporaryBuydownSchema.optional(), // Payments are still qualified at the note rate
   // Program-specific fields
   pmiRate: z.number().optional(),
+  pmiUpfrontPremium: z.number().optional(), // Single or split premium PMI paid upfront
   ufmip: z.number().optional(), // FHA upfront MIP
+  fha203k: Fha203kBreakdownSchema.optional(),
+  ufmipRefund: FhaUfmipRefundSchema.optional(),
+  netTangibleBenefit: NetTangibleBenefitSchema.optional(), // Refinances only
   vaFundingFee: z.number().optional(),
+  vaFundingFeeDetail: VaFundingFeeDetailSchema.optional(),
+  usdaGuaranteeFee: z.number().optional(),
+  usdaIncomeLimit: z.number().optional(),
+  usdaIncomeEligible: z.boolean().optional(),
 });
 export type LoanCalculationResult = z.infer<typeof LoanCalculationResultSchema>;
 
@@ -426,6 +743,25 @@ export const GhlConfigSchema = z.object({
     ffIrrrl: z.number(),
     ffCashoutFirst: z.number(),
     ffCashoutSubseq: z.number(),
+    // Reserves / National Guard tiers
+    ffReserveFirstLe90: z.number(),
+    ffReserveFirst90to95: z.number(),
+    ffReserveFirstGt95: z.number(),
+    ffReserveSubseqLe90: z.number(),
+    ffReserveSubseq90to95: z.number(),
+    ffReserveSubseqGt95: z.number(),
+    ffReserveIrrrl: z.number(),
+    ffReserveCashoutFirst: z.number(),
+    ffReserveCashoutSubseq: z.number(),
+  }),
+
+  // USDA Settings
+  usda: z.object({
+    guaranteeFee: z.number(),
+    annualFee: z.number(),
+    maxLtv: z.number(),
+    incomeLimit1to4: z.number(),
+    incomeLimit5to8: z.number(),
   }),
 
   // MI Factors (indexed by LTV tier and credit tier)
@@ -440,6 +776,13 @@ export const GhlConfigSchema = z.object({
     }),
   }),
 
+  // Rate/price ladders per program, loaded from custom values
+  pricingLadders: z.object({
+    conventional: z.array(PricingLadderEntrySchema).default([]),
+    fha: z.array(PricingLadderEntrySchema).default([]),
+    va: z.array(PricingLadderEntrySchema).default([]),
+  }).optional(),
+
   // Company Info
   company: z.object({
     name: z.string(),
@@ -464,16 +807,45 @@ export type GhlConfig = z.infer<typeof GhlConfigSchema>;
 // CLIENT STATE SCHEMA (for saving to GHL)
 // ============================================================================
 
+export const ClientDtiInputsSchema = z.object({
+  incomes: z.array(z.number()),
+  payments: z.array(z.number()),
+});
+
+export const ClientDtiResultSchema = z.object({
+  frontendRatio: z.number(),
+  backendRatio: z.number(),
+});
+
+// Bump when the saved shape changes, and add a step to client-state-migrations
+export const CLIENT_STATE_VERSION = '2.0';
+
 export const ClientStateSchema = z.object({
-  version: z.string().default('1.0'),
+  version: z.string().default('1.0'), // States saved before versioning are 1.0
   lastUpdated: z.string(),
   calculatorType: z.string(),
   inputs: z.record(z.string(), z.unknown()),
   results: LoanCalculationResultSchema.optional(),
-  selectedAgent: z.string().optional(),
+  dtiInputs: ClientDtiInputsSchema.optional(),
+  dtiResult: ClientDtiResultSchema.nullable().optional(),
+  selectedAgent: z.string().optional(), // Partner agent ID
 });
 export type ClientState = z.infer<typeof ClientStateSchema>;
 
+// A named, timestamped calculator state saved on a contact
+export const ClientScenarioSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  calculatorType: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  state: z.record(z.string(), z.unknown()), // Saved ClientState, migrated when loaded
+});
+export type ClientScenario = z.infer<typeof ClientScenarioSchema>;
+
+export const ClientScenarioSummarySchema = ClientScenarioSchema.omit({ state: true });
+export type ClientScenarioSummary = z.infer<typeof ClientScenarioSummarySchema>;
+
 // ============================================================================
 // PARTNER AGENT SCHEMA
 // ============================================================================
@@ -488,3 +860,26 @@ export const PartnerAgentSchema = z.object({
   company: z.string().optional(),
 });
 export type PartnerAgent = z.infer<typeof PartnerAgentSchema>;
+
+// ============================================================================
+// AUTH SCHEMA
+// ============================================================================
+
+// lo = the loan officer's team (full access); agent = a partner agent (calculators only)
+export const UserRole = z.enum(['lo', 'agent']);
+export type UserRole = z.infer<typeof UserRole>;
+
+export const SessionSchema = z.object({
+  sub: z.string(), // 'lo-team' or the partner agent's contact ID
+  name: z.string(),
+  role: UserRole,
+  agentId: z.string().optional(), // Partner agent contact ID, agents only
+  exp: z.number(), // Expiry, seconds since epoch
+});
+export type Session = z.infer<typeof SessionSchema>;
+
+export const LoginRequestSchema = z.discriminatedUnion('role', [
+  z.object({ role: z.literal('lo'), accessCode: z.string().min(1) }),
+  z.object({ role: z.literal('agent'), email: z.string().email(), accessCode: z.string().min(1) }),
+]);
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
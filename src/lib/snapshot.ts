@@ -0,0 +1,79 @@
+/**
+ * Last-known-good snapshots of data loaded from the API.
+ *
+ * Kept in localStorage so the calculators keep running on the LO's GHL
+ * settings when the API is unreachable. Snapshots are validated against
+ * their schema on the way out, so a stale shape is ignored rather than used.
+ * Each is stored under the signed-in user, since what the API returns depends
+ * on who asks (partner agents only see themselves), and all are cleared on
+ * sign-out.
+ */
+
+import type { z } from 'zod';
+import type { Session } from './schemas';
+
+const SNAPSHOT_PREFIX = 'quick-qualifier:snapshot:';
+
+export interface Snapshot<T> {
+  savedAt: string; // ISO timestamp of the successful load
+  data: T;
+}
+
+type SnapshotOwner = Pick<Session, 'sub' | 'role'>;
+
+function storageKey(key: string, owner: SnapshotOwner): string {
+  return `${SNAPSHOT_PREFIX}${owner.role}:${owner.sub}:${key}`;
+}
+
+/**
+ * Save data as the signed-in user's last-known-good snapshot for a key.
+ */
+export function saveSnapshot<T>(key: string, owner: SnapshotOwner, data: T): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const snapshot: Snapshot<T> = { savedAt: new Date().toISOString(), data };
+    window.localStorage.setItem(storageKey(key, owner), JSON.stringify(snapshot));
+  } catch {
+    // Storage full or disabled; the live data still works
+  }
+}
+
+/**
+ * Load the signed-in user's last-known-good snapshot for a key, or null if
+ * there is none or it no longer matches the schema.
+ */
+export function loadSnapshot<T>(
+  key: string,
+  owner: SnapshotOwner,
+  schema: z.ZodType<T>
+): Snapshot<T> | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey(key, owner));
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as Partial<Snapshot<unknown>>;
+    const parsed = schema.safeParse(snapshot.data);
+    if (!parsed.success || typeof snapshot.savedAt !== 'string') return null;
+
+    return { savedAt: snapshot.savedAt, data: parsed.data };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove every snapshot, for all users, so nothing is left behind on a
+ * shared computer after signing out.
+ */
+export function clearSnapshots(): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const keys = Array.from({ length: window.localStorage.length }, (_, i) => window.localStorage.key(i));
+    for (const key of keys) {
+      if (key?.startsWith(SNAPSHOT_PREFIX)) window.localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage disabled; nothing was saved
+  }
+}
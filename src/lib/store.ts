@@ -18,7 +18,20 @@ import type {
   PmiType,
   VaUsage,
   LoanProgram,
+  LoanPurpose,
+  LoanProductOptions,
+  PricingLadderEntry,
+  TemporaryBuydownType,
+  Fha203kOptions,
+  TaxPaymentMode,
+  SellerCost,
+  RefinanceType,
+  AffordabilityProgramInput,
+  ClientState,
+  Session,
 } from './schemas';
+import { CLIENT_STATE_VERSION, GhlConfigSchema, PartnerAgentSchema } from './schemas';
+import { loadSnapshot, saveSnapshot } from './snapshot';
 
 // ============================================================================
 // TYPES
@@ -34,7 +47,19 @@ export interface DtiInputs {
   payments: number[];
 }
 
-export type CalculatorType = 'conventional' | 'fha' | 'va' | 'conventionalRefi' | 'fhaRefi' | 'vaRefi';
+export type CalculatorType = 'conventional' | 'fha' | 'va' | 'usda' | 'conventionalRefi' | 'fhaRefi' | 'vaRefi';
+
+// Every calculator whose inputs can be saved to a client
+export type ClientCalculatorType = CalculatorType | 'sellerNet' | 'comparison' | 'affordability';
+
+// Borrower contact the current scenario was loaded from or saved to
+export interface ClientContact {
+  id?: string; // GHL contact ID once saved
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+}
 
 interface ConventionalInputs {
   salesPrice: number;
@@ -81,6 +106,9 @@ interface ConventionalInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
+  pricingLadder: PricingLadderEntry[];
+  temporaryBuydown: TemporaryBuydownType;
 }
 
 interface FhaInputs {
@@ -96,6 +124,7 @@ interface FhaInputs {
   mortgageInsuranceMonthly?: number;
   floodInsuranceMonthly: number;
   is203k: boolean;
+  fha203k: Fha203kOptions;
   prepaidInterestDays: number;
   prepaidTaxMonths: number;
   prepaidInsuranceMonths: number;
@@ -127,6 +156,9 @@ interface FhaInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
+  pricingLadder: PricingLadderEntry[];
+  temporaryBuydown: TemporaryBuydownType;
 }
 
 interface VaInputs {
@@ -175,12 +207,66 @@ interface VaInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
+  pricingLadder: PricingLadderEntry[];
+  temporaryBuydown: TemporaryBuydownType;
+}
+
+interface UsdaInputs {
+  salesPrice: number;
+  downPaymentAmount: number;
+  downPaymentPercent: number;
+  downPaymentMode: 'amount' | 'percent';
+  interestRate: number;
+  termYears: number;
+  propertyTaxAnnual: number;
+  homeInsuranceAnnual: number;
+  hoaDuesMonthly: number;
+  mortgageInsuranceMonthly?: number;
+  floodInsuranceMonthly: number;
+  householdSize: number;
+  householdIncomeAnnual: number;
+  prepaidInterestDays: number;
+  prepaidTaxMonths: number;
+  prepaidInsuranceMonths: number;
+  prepaidInterestAmount: number;
+  prepaidTaxAmount: number;
+  prepaidInsuranceAmount: number;
+  loanFee: number;
+  loanFeePercent: number;
+  loanFeeMode: 'amount' | 'percent';
+  closingCostsTotal: number;
+  miscFee: number;
+  sellerCreditAmount: number;
+  lenderCreditAmount: number;
+  depositAmount: number;
+  processingFee?: number;
+  underwritingFee?: number;
+  docPrepFee?: number;
+  appraisalFee?: number;
+  creditReportFee?: number;
+  floodCertFee?: number;
+  taxServiceFee?: number;
+  escrowFee?: number;
+  notaryFee?: number;
+  recordingFee?: number;
+  ownerTitlePolicy?: number;
+  lenderTitlePolicy?: number;
+  pestInspectionFee?: number;
+  propertyInspectionFee?: number;
+  poolInspectionFee?: number;
+  transferTax?: number;
+  mortgageTax?: number;
 }
 
 // Refinance Inputs
 interface ConventionalRefiInputs {
   propertyValue: number;
   existingLoanBalance: number;
+  currentInterestRate: number;
+  currentMonthlyPayment: number;
+  currentRemainingTermMonths: number;
+  payoffDays: number;
   newLoanAmount: number;
   interestRate: number;
   termYears: number;
@@ -218,11 +304,16 @@ interface ConventionalRefiInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
 }
 
 interface FhaRefiInputs {
   propertyValue: number;
   existingLoanBalance: number;
+  currentInterestRate: number;
+  currentMonthlyPayment: number;
+  currentRemainingTermMonths: number;
+  payoffDays: number;
   newLoanAmount: number;
   interestRate: number;
   termYears: number;
@@ -231,6 +322,9 @@ interface FhaRefiInputs {
   hoaDuesMonthly: number;
   mortgageInsuranceMonthly?: number;
   isStreamline: boolean;
+  existingFhaLoanDate: string;
+  existingUfmipAmount: number;
+  currentMipRate: number;
   prepaidInterestDays: number;
   prepaidTaxMonths: number;
   prepaidInsuranceMonths: number;
@@ -259,11 +353,16 @@ interface FhaRefiInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
 }
 
 interface VaRefiInputs {
   propertyValue: number;
   existingLoanBalance: number;
+  currentInterestRate: number;
+  currentMonthlyPayment: number;
+  currentRemainingTermMonths: number;
+  payoffDays: number;
   newLoanAmount: number;
   interestRate: number;
   termYears: number;
@@ -274,6 +373,7 @@ interface VaRefiInputs {
   isIrrrl: boolean;
   vaUsage: VaUsage;
   isDisabledVeteran: boolean;
+  isReservist: boolean;
   cashOutAmount: number;
   prepaidInterestDays: number;
   prepaidTaxMonths: number;
@@ -303,50 +403,103 @@ interface VaRefiInputs {
   poolInspectionFee?: number;
   transferTax?: number;
   mortgageTax?: number;
+  productOptions: LoanProductOptions;
 }
 
 interface SellerNetInputs {
   salesPrice: number;
   existingLoanPayoff: number;
   secondLienPayoff: number;
-  commissionPercent: number;
+  listingCommission: SellerCost;
+  buyerAgentCommission: SellerCost;
+  brokerageFee: SellerCost;
+  transactionFee: SellerCost;
+  sellerPaidClosingCosts: SellerCost;
   titleInsurance: number;
   escrowFee: number;
   transferTax: number;
   recordingFees: number;
   repairCredits: number;
   hoaPayoff: number;
-  propertyTaxProration: number;
+  closingDate: string;
+  annualPropertyTax: number;
+  taxPaymentMode: TaxPaymentMode;
+  taxYearStartMonth: number;
+  hoaDuesMonthly: number;
   otherCredits: number;
   otherDebits: number;
 }
 
-interface ComparisonScenarioInputs {
+export interface ComparisonScenarioInputs {
   name: string;
   program: LoanProgram;
+  purpose: LoanPurpose;
   salesPrice: number;
   downPaymentPercent: number;
   interestRate: number;
   termYears: number;
+  loanFee: number;
+  sellerCreditAmount: number;
+  lenderCreditAmount: number;
+  // Program-specific, only used by the matching program
+  creditScoreTier: CreditScoreTier;
+  pmiType: PmiType;
+  vaUsage: VaUsage;
+  isDisabledVeteran: boolean;
+  isReservist: boolean;
+  householdSize: number;
+  householdIncomeAnnual: number;
+  // Refinance only
+  propertyValue: number;
+  existingLoanBalance: number;
+  newLoanAmount: number;
+  currentInterestRate: number;
+  currentMonthlyPayment: number;
+  currentRemainingTermMonths: number;
+  refinanceType: RefinanceType;
+  cashOutAmount: number;
+  isStreamline: boolean;
+  isIrrrl: boolean;
+  productOptions?: LoanProductOptions;
+}
+
+export interface AffordabilityInputs {
+  availableFunds: number;
+  termYears: number;
+  propertyTaxRate: number;
+  homeInsuranceRate: number;
+  hoaDuesMonthly: number;
+  sellerCreditAmount: number;
+  creditScoreTier: CreditScoreTier;
+  vaUsage: VaUsage;
+  isDisabledVeteran: boolean;
+  programs: AffordabilityProgramInput[];
 }
 
 interface CalculatorState {
+  // Signed-in user (LO team or partner agent)
+  session: Session | null;
+
   // Config
   config: GhlConfig | null;
   configLoading: boolean;
   configError: string | null;
+  configSnapshotAt: string | null; // When the snapshot in use was saved; null for live config
 
   // Partner Agent
   selectedAgent: PartnerAgent | null;
   agents: PartnerAgent[];
   agentsLoading: boolean;
+  agentsError: string | null;
 
   // Calculator Inputs
   conventionalInputs: ConventionalInputs;
   fhaInputs: FhaInputs;
   vaInputs: VaInputs;
+  usdaInputs: UsdaInputs;
   sellerNetInputs: SellerNetInputs;
   comparisonScenarios: ComparisonScenarioInputs[];
+  affordabilityInputs: AffordabilityInputs;
 
   // Refinance Inputs
   conventionalRefiInputs: ConventionalRefiInputs;
@@ -357,6 +510,7 @@ interface CalculatorState {
   conventionalResult: LoanCalculationResult | null;
   fhaResult: LoanCalculationResult | null;
   vaResult: LoanCalculationResult | null;
+  usdaResult: LoanCalculationResult | null;
   conventionalRefiResult: LoanCalculationResult | null;
   fhaRefiResult: LoanCalculationResult | null;
   vaRefiResult: LoanCalculationResult | null;
@@ -369,20 +523,31 @@ interface CalculatorState {
   dtiResult: DtiResult | null;
   showDtiSection: boolean;
 
+  // Client save/load
+  activeClient: ClientContact | null;
+  clientStateVersion: number; // Bumped on each load so forms re-read their inputs
+  restoredCalculator: ClientCalculatorType | null; // Holds loaded client inputs; kept on mount until reset
+
   // Actions
   setConfig: (config: GhlConfig) => void;
   setConfigLoading: (loading: boolean) => void;
   setConfigError: (error: string | null) => void;
+  setConfigSnapshotAt: (savedAt: string | null) => void;
 
   setSelectedAgent: (agent: PartnerAgent | null) => void;
   setAgents: (agents: PartnerAgent[]) => void;
   setAgentsLoading: (loading: boolean) => void;
+  setAgentsError: (error: string | null) => void;
+
+  setSession: (session: Session | null) => void;
 
   updateConventionalInputs: (inputs: Partial<ConventionalInputs>) => void;
   updateFhaInputs: (inputs: Partial<FhaInputs>) => void;
   updateVaInputs: (inputs: Partial<VaInputs>) => void;
+  updateUsdaInputs: (inputs: Partial<UsdaInputs>) => void;
   updateSellerNetInputs: (inputs: Partial<SellerNetInputs>) => void;
   updateComparisonScenario: (index: number, inputs: Partial<ComparisonScenarioInputs>) => void;
+  updateAffordabilityInputs: (inputs: Partial<AffordabilityInputs>) => void;
   updateConventionalRefiInputs: (inputs: Partial<ConventionalRefiInputs>) => void;
   updateFhaRefiInputs: (inputs: Partial<FhaRefiInputs>) => void;
   updateVaRefiInputs: (inputs: Partial<VaRefiInputs>) => void;
@@ -390,6 +555,7 @@ interface CalculatorState {
   setConventionalResult: (result: LoanCalculationResult | null) => void;
   setFhaResult: (result: LoanCalculationResult | null) => void;
   setVaResult: (result: LoanCalculationResult | null) => void;
+  setUsdaResult: (result: LoanCalculationResult | null) => void;
   setConventionalRefiResult: (result: LoanCalculationResult | null) => void;
   setFhaRefiResult: (result: LoanCalculationResult | null) => void;
   setVaRefiResult: (result: LoanCalculationResult | null) => void;
@@ -398,7 +564,11 @@ interface CalculatorState {
   setDtiResult: (result: DtiResult | null, type?: string) => void;
   setShowDtiSection: (show: boolean, type?: string) => void;
 
-  resetCalculator: (type: 'conventional' | 'fha' | 'va' | 'sellerNet' | 'comparison' | 'conventionalRefi' | 'fhaRefi' | 'vaRefi') => void;
+  setActiveClient: (client: ClientContact | null) => void;
+  exportClientState: (type: ClientCalculatorType) => ClientState;
+  importClientState: (clientState: ClientState) => void;
+
+  resetCalculator: (type: 'conventional' | 'fha' | 'va' | 'usda' | 'sellerNet' | 'comparison' | 'affordability' | 'conventionalRefi' | 'fhaRefi' | 'vaRefi') => void;
 }
 
 // ============================================================================
@@ -450,6 +620,9 @@ const defaultConventionalInputs: ConventionalInputs = {
   poolInspectionFee: 100,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
+  pricingLadder: [],
+  temporaryBuydown: 'none',
 };
 
 const defaultFhaInputs: FhaInputs = {
@@ -465,6 +638,13 @@ const defaultFhaInputs: FhaInputs = {
   mortgageInsuranceMonthly: 0,
   floodInsuranceMonthly: 0,
   is203k: false,
+  fha203k: {
+    type: 'limited',
+    repairCosts: 0,
+    contingencyPercent: 10,
+    consultantFee: 0,
+    inspectionFees: 0,
+  },
   prepaidInterestDays: 15,
   prepaidTaxMonths: 6,
   prepaidInsuranceMonths: 15,
@@ -496,6 +676,9 @@ const defaultFhaInputs: FhaInputs = {
   poolInspectionFee: 100,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
+  pricingLadder: [],
+  temporaryBuydown: 'none',
 };
 
 const defaultVaInputs: VaInputs = {
@@ -544,54 +727,157 @@ const defaultVaInputs: VaInputs = {
   poolInspectionFee: 0,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
+  pricingLadder: [],
+  temporaryBuydown: 'none',
+};
+
+const defaultUsdaInputs: UsdaInputs = {
+  salesPrice: 350000,
+  downPaymentAmount: 0,
+  downPaymentPercent: 0,
+  downPaymentMode: 'percent',
+  interestRate: 6.5,
+  termYears: 30,
+  propertyTaxAnnual: 4375,
+  homeInsuranceAnnual: 1225,
+  hoaDuesMonthly: 0,
+  mortgageInsuranceMonthly: 0,
+  floodInsuranceMonthly: 0,
+  householdSize: 4,
+  householdIncomeAnnual: 0,
+  prepaidInterestDays: 15,
+  prepaidTaxMonths: 6,
+  prepaidInsuranceMonths: 15,
+  prepaidInterestAmount: 0,
+  prepaidTaxAmount: 0,
+  prepaidInsuranceAmount: 0,
+  loanFee: 3500,
+  loanFeePercent: 1.0,
+  loanFeeMode: 'amount',
+  closingCostsTotal: 0,
+  miscFee: 0,
+  sellerCreditAmount: 0,
+  lenderCreditAmount: 0,
+  depositAmount: 0,
+  processingFee: 995,
+  underwritingFee: 1495,
+  docPrepFee: 295,
+  appraisalFee: 650,
+  creditReportFee: 150,
+  floodCertFee: 30,
+  taxServiceFee: 85,
+  escrowFee: 1115,
+  notaryFee: 350,
+  recordingFee: 275,
+  ownerTitlePolicy: 1730,
+  lenderTitlePolicy: 1515,
+  pestInspectionFee: 150,
+  propertyInspectionFee: 450,
+  poolInspectionFee: 100,
+  transferTax: 0,
+  mortgageTax: 0,
 };
 
 const defaultSellerNetInputs: SellerNetInputs = {
   salesPrice: 500000,
   existingLoanPayoff: 300000,
   secondLienPayoff: 0,
-  commissionPercent: 6,
+  listingCommission: { mode: 'percent', percent: 3, amount: 0 },
+  buyerAgentCommission: { mode: 'percent', percent: 3, amount: 0 },
+  brokerageFee: { mode: 'amount', percent: 0, amount: 0 },
+  transactionFee: { mode: 'amount', percent: 0, amount: 0 },
+  sellerPaidClosingCosts: { mode: 'amount', percent: 0, amount: 0 },
   titleInsurance: 2000,
   escrowFee: 1500,
   transferTax: 1000,
   recordingFees: 150,
   repairCredits: 0,
   hoaPayoff: 0,
-  propertyTaxProration: 0,
+  closingDate: '',
+  annualPropertyTax: 0,
+  taxPaymentMode: 'arrears',
+  taxYearStartMonth: 1,
+  hoaDuesMonthly: 0,
   otherCredits: 0,
   otherDebits: 0,
 };
 
-const defaultComparisonScenarios: ComparisonScenarioInputs[] = [
+export const defaultComparisonScenario: ComparisonScenarioInputs = {
+  name: 'Scenario',
+  program: 'conventional',
+  purpose: 'purchase',
+  salesPrice: 500000,
+  downPaymentPercent: 20,
+  interestRate: 7.0,
+  termYears: 30,
+  loanFee: 0,
+  sellerCreditAmount: 0,
+  lenderCreditAmount: 0,
+  creditScoreTier: '740',
+  pmiType: 'monthly',
+  vaUsage: 'first',
+  isDisabledVeteran: false,
+  isReservist: false,
+  householdSize: 4,
+  householdIncomeAnnual: 0,
+  propertyValue: 500000,
+  existingLoanBalance: 350000,
+  newLoanAmount: 350000,
+  currentInterestRate: 0,
+  currentMonthlyPayment: 0,
+  currentRemainingTermMonths: 0,
+  refinanceType: 'rate_term',
+  cashOutAmount: 0,
+  isStreamline: false,
+  isIrrrl: false,
+};
+
+export const defaultComparisonScenarios: ComparisonScenarioInputs[] = [
   {
+    ...defaultComparisonScenario,
     name: 'Conventional 20% Down',
-    program: 'conventional',
-    salesPrice: 500000,
-    downPaymentPercent: 20,
-    interestRate: 7.0,
-    termYears: 30,
   },
   {
+    ...defaultComparisonScenario,
     name: 'FHA 3.5% Down',
     program: 'fha',
-    salesPrice: 500000,
     downPaymentPercent: 3.5,
     interestRate: 6.5,
-    termYears: 30,
   },
   {
+    ...defaultComparisonScenario,
     name: 'VA 0% Down',
     program: 'va',
-    salesPrice: 500000,
     downPaymentPercent: 0,
     interestRate: 6.5,
-    termYears: 30,
   },
 ];
 
+export const defaultAffordabilityInputs: AffordabilityInputs = {
+  availableFunds: 50000,
+  termYears: 30,
+  propertyTaxRate: 1.25,
+  homeInsuranceRate: 0.35,
+  hoaDuesMonthly: 0,
+  sellerCreditAmount: 0,
+  creditScoreTier: '740',
+  vaUsage: 'first',
+  isDisabledVeteran: false,
+  programs: [
+    { program: 'conventional', interestRate: 7.0, maxFrontEndRatio: 49.9, maxBackEndRatio: 49.9 },
+    { program: 'fha', interestRate: 6.5, maxFrontEndRatio: 46.99, maxBackEndRatio: 56.99 },
+    { program: 'va', interestRate: 6.5, maxFrontEndRatio: 46.99, maxBackEndRatio: 56.99 },
+  ],
+};
+
 const defaultConventionalRefiInputs: ConventionalRefiInputs = {
   propertyValue: 500000,
   existingLoanBalance: 350000,
+  currentInterestRate: 0,
+  currentMonthlyPayment: 0,
+  currentRemainingTermMonths: 0,
+  payoffDays: 30,
   newLoanAmount: 350000,
   interestRate: 6.5,
   termYears: 30,
@@ -629,11 +915,16 @@ const defaultConventionalRefiInputs: ConventionalRefiInputs = {
   poolInspectionFee: 0,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
 };
 
 const defaultFhaRefiInputs: FhaRefiInputs = {
   propertyValue: 400000,
   existingLoanBalance: 300000,
+  currentInterestRate: 0,
+  currentMonthlyPayment: 0,
+  currentRemainingTermMonths: 0,
+  payoffDays: 30,
   newLoanAmount: 300000,
   interestRate: 6.0,
   termYears: 30,
@@ -642,6 +933,9 @@ const defaultFhaRefiInputs: FhaRefiInputs = {
   hoaDuesMonthly: 0,
   mortgageInsuranceMonthly: 0,
   isStreamline: false,
+  existingFhaLoanDate: '',
+  existingUfmipAmount: 0,
+  currentMipRate: 0,
   prepaidInterestDays: 15,
   prepaidTaxMonths: 0,
   prepaidInsuranceMonths: 0,
@@ -670,11 +964,16 @@ const defaultFhaRefiInputs: FhaRefiInputs = {
   poolInspectionFee: 0,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
 };
 
 const defaultVaRefiInputs: VaRefiInputs = {
   propertyValue: 450000,
   existingLoanBalance: 320000,
+  currentInterestRate: 0,
+  currentMonthlyPayment: 0,
+  currentRemainingTermMonths: 0,
+  payoffDays: 30,
   newLoanAmount: 320000,
   interestRate: 6.0,
   termYears: 30,
@@ -685,6 +984,7 @@ const defaultVaRefiInputs: VaRefiInputs = {
   isIrrrl: false,
   vaUsage: 'first',
   isDisabledVeteran: false,
+  isReservist: false,
   cashOutAmount: 0,
   prepaidInterestDays: 15,
   prepaidTaxMonths: 0,
@@ -714,6 +1014,21 @@ const defaultVaRefiInputs: VaRefiInputs = {
   poolInspectionFee: 0,
   transferTax: 0,
   mortgageTax: 0,
+  productOptions: { loanProduct: 'fixed', interestOnlyYears: 0 },
+};
+
+// Current inputs for each saveable calculator, used to upgrade saved client states
+export const defaultClientInputs: Record<ClientCalculatorType, object> = {
+  conventional: defaultConventionalInputs,
+  fha: defaultFhaInputs,
+  va: defaultVaInputs,
+  usda: defaultUsdaInputs,
+  conventionalRefi: defaultConventionalRefiInputs,
+  fhaRefi: defaultFhaRefiInputs,
+  vaRefi: defaultVaRefiInputs,
+  sellerNet: defaultSellerNetInputs,
+  comparison: { scenarios: [defaultComparisonScenario] },
+  affordability: defaultAffordabilityInputs,
 };
 
 const defaultDtiInputs: DtiInputs = {
@@ -725,6 +1040,8 @@ const initialDtiInputs: Record<string, DtiInputs> = {
   conventional: defaultDtiInputs,
   fha: defaultDtiInputs,
   va: defaultDtiInputs,
+  usda: defaultDtiInputs,
+  affordability: defaultDtiInputs,
   conventionalRefi: defaultDtiInputs,
   fhaRefi: defaultDtiInputs,
   vaRefi: defaultDtiInputs,
@@ -734,6 +1051,7 @@ const initialDtiResults: Record<string, DtiResult | null> = {
   conventional: null,
   fha: null,
   va: null,
+  usda: null,
   conventionalRefi: null,
   fhaRefi: null,
   vaRefi: null,
@@ -743,6 +1061,7 @@ const initialShowDtiSections: Record<string, boolean> = {
   conventional: false,
   fha: false,
   va: false,
+  usda: false,
   conventionalRefi: false,
   fhaRefi: false,
   vaRefi: false,
@@ -753,23 +1072,30 @@ const initialShowDtiSections: Record<string, boolean> = {
 // ============================================================================
 
 export const useCalculatorStore = create<CalculatorState>()(
-    (set) => ({
+    (set, get) => ({
+      // Session
+      session: null,
+
       // Config
       config: null,
       configLoading: false,
       configError: null,
+      configSnapshotAt: null,
 
       // Partner Agent
       selectedAgent: null,
       agents: [],
       agentsLoading: false,
+      agentsError: null,
 
       // Calculator Inputs
       conventionalInputs: defaultConventionalInputs,
       fhaInputs: defaultFhaInputs,
       vaInputs: defaultVaInputs,
+      usdaInputs: defaultUsdaInputs,
       sellerNetInputs: defaultSellerNetInputs,
       comparisonScenarios: defaultComparisonScenarios,
+      affordabilityInputs: defaultAffordabilityInputs,
 
       // Refinance Inputs
       conventionalRefiInputs: defaultConventionalRefiInputs,
@@ -780,6 +1106,7 @@ export const useCalculatorStore = create<CalculatorState>()(
       conventionalResult: null,
       fhaResult: null,
       vaResult: null,
+      usdaResult: null,
       conventionalRefiResult: null,
       fhaRefiResult: null,
       vaRefiResult: null,
@@ -791,14 +1118,23 @@ export const useCalculatorStore = create<CalculatorState>()(
       dtiResult: null, // Legacy
       showDtiSection: false, // Legacy
 
+      // Client save/load
+      activeClient: null,
+      clientStateVersion: 0,
+      restoredCalculator: null,
+
       // Actions
       setConfig: (config) => set({ config, configError: null }),
       setConfigLoading: (configLoading) => set({ configLoading }),
       setConfigError: (configError) => set({ configError }),
+      setConfigSnapshotAt: (configSnapshotAt) => set({ configSnapshotAt }),
 
       setSelectedAgent: (selectedAgent) => set({ selectedAgent }),
-      setAgents: (agents) => set({ agents }),
+      setAgents: (agents) => set({ agents, agentsError: null }),
       setAgentsLoading: (agentsLoading) => set({ agentsLoading }),
+      setAgentsError: (agentsError) => set({ agentsError }),
+
+      setSession: (session) => set({ session }),
 
       updateConventionalInputs: (inputs) =>
         set((state) => ({
@@ -815,6 +1151,11 @@ export const useCalculatorStore = create<CalculatorState>()(
           vaInputs: { ...state.vaInputs, ...inputs },
         })),
 
+      updateUsdaInputs: (inputs) =>
+        set((state) => ({
+          usdaInputs: { ...state.usdaInputs, ...inputs },
+        })),
+
       updateSellerNetInputs: (inputs) =>
         set((state) => ({
           sellerNetInputs: { ...state.sellerNetInputs, ...inputs },
@@ -829,6 +1170,11 @@ export const useCalculatorStore = create<CalculatorState>()(
           return { comparisonScenarios: scenarios };
         }),
 
+      updateAffordabilityInputs: (inputs) =>
+        set((state) => ({
+          affordabilityInputs: { ...state.affordabilityInputs, ...inputs },
+        })),
+
       updateConventionalRefiInputs: (inputs) =>
         set((state) => ({
           conventionalRefiInputs: { ...state.conventionalRefiInputs, ...inputs },
@@ -847,6 +1193,7 @@ export const useCalculatorStore = create<CalculatorState>()(
       setConventionalResult: (conventionalResult) => set({ conventionalResult }),
       setFhaResult: (fhaResult) => set({ fhaResult }),
       setVaResult: (vaResult) => set({ vaResult }),
+      setUsdaResult: (usdaResult) => set({ usdaResult }),
       setConventionalRefiResult: (conventionalRefiResult) => set({ conventionalRefiResult }),
       setFhaRefiResult: (fhaRefiResult) => set({ fhaRefiResult }),
       setVaRefiResult: (vaRefiResult) => set({ vaRefiResult }),
@@ -887,7 +1234,128 @@ export const useCalculatorStore = create<CalculatorState>()(
           };
         }),
 
+      setActiveClient: (activeClient) => set({ activeClient }),
+
+      exportClientState: (type) => {
+        const state = get();
+        let inputs: Record<string, unknown>;
+        let results: LoanCalculationResult | null = null;
+
+        switch (type) {
+          case 'conventional':
+            inputs = { ...state.conventionalInputs };
+            results = state.conventionalResult;
+            break;
+          case 'fha':
+            inputs = { ...state.fhaInputs };
+            results = state.fhaResult;
+            break;
+          case 'va':
+            inputs = { ...state.vaInputs };
+            results = state.vaResult;
+            break;
+          case 'usda':
+            inputs = { ...state.usdaInputs };
+            results = state.usdaResult;
+            break;
+          case 'conventionalRefi':
+            inputs = { ...state.conventionalRefiInputs };
+            results = state.conventionalRefiResult;
+            break;
+          case 'fhaRefi':
+            inputs = { ...state.fhaRefiInputs };
+            results = state.fhaRefiResult;
+            break;
+          case 'vaRefi':
+            inputs = { ...state.vaRefiInputs };
+            results = state.vaRefiResult;
+            break;
+          case 'sellerNet':
+            inputs = { ...state.sellerNetInputs };
+            break;
+          case 'comparison':
+            inputs = { scenarios: state.comparisonScenarios };
+            break;
+          case 'affordability':
+            inputs = { ...state.affordabilityInputs };
+            break;
+        }
+
+        return {
+          version: CLIENT_STATE_VERSION,
+          lastUpdated: new Date().toISOString(),
+          calculatorType: type,
+          inputs,
+          results: results ?? undefined,
+          dtiInputs: state.dtiInputs[type],
+          dtiResult: state.dtiResults[type] ?? null,
+          selectedAgent: state.selectedAgent?.id,
+        };
+      },
+
+      importClientState: (clientState) => {
+        const type = clientState.calculatorType as ClientCalculatorType;
+        const { inputs } = clientState;
+        const results = clientState.results ?? null;
+
+        // Saved inputs are layered over the defaults so fields added since still have values
+        const withDefaults = <T,>(defaults: T) => ({ ...defaults, ...inputs }) as T;
+
+        let updates: Partial<CalculatorState>;
+        switch (type) {
+          case 'conventional':
+            updates = { conventionalInputs: withDefaults(defaultConventionalInputs), conventionalResult: results };
+            break;
+          case 'fha':
+            updates = { fhaInputs: withDefaults(defaultFhaInputs), fhaResult: results };
+            break;
+          case 'va':
+            updates = { vaInputs: withDefaults(defaultVaInputs), vaResult: results };
+            break;
+          case 'usda':
+            updates = { usdaInputs: withDefaults(defaultUsdaInputs), usdaResult: results };
+            break;
+          case 'conventionalRefi':
+            updates = { conventionalRefiInputs: withDefaults(defaultConventionalRefiInputs), conventionalRefiResult: results };
+            break;
+          case 'fhaRefi':
+            updates = { fhaRefiInputs: withDefaults(defaultFhaRefiInputs), fhaRefiResult: results };
+            break;
+          case 'vaRefi':
+            updates = { vaRefiInputs: withDefaults(defaultVaRefiInputs), vaRefiResult: results };
+            break;
+          case 'sellerNet':
+            updates = { sellerNetInputs: withDefaults(defaultSellerNetInputs) };
+            break;
+          case 'comparison':
+            updates = {
+              comparisonScenarios: Array.isArray(inputs.scenarios)
+                ? (inputs.scenarios as ComparisonScenarioInputs[])
+                : defaultComparisonScenarios,
+            };
+            break;
+          case 'affordability':
+            updates = { affordabilityInputs: withDefaults(defaultAffordabilityInputs) };
+            break;
+          default:
+            throw new Error(`Unknown calculator type: ${clientState.calculatorType}`);
+        }
+
+        set((state) => ({
+          ...updates,
+          dtiInputs: { ...state.dtiInputs, [type]: clientState.dtiInputs ?? defaultDtiInputs },
+          dtiResults: { ...state.dtiResults, [type]: clientState.dtiResult ?? null },
+          selectedAgent: state.agents.find((agent) => agent.id === clientState.selectedAgent) ?? null,
+          clientStateVersion: state.clientStateVersion + 1,
+          restoredCalculator: type,
+        }));
+      },
+
       resetCalculator: (type) => {
+        // A reset discards the loaded client inputs, so later visits start fresh again
+        if (get().restoredCalculator === type) {
+          set({ restoredCalculator: null });
+        }
         switch (type) {
           case 'conventional':
             set((state) => ({
@@ -916,12 +1384,27 @@ export const useCalculatorStore = create<CalculatorState>()(
               showDtiSections: { ...state.showDtiSections, va: false },
             }));
             break;
+          case 'usda':
+            set((state) => ({
+              usdaInputs: defaultUsdaInputs,
+              usdaResult: null,
+              dtiInputs: { ...state.dtiInputs, usda: defaultDtiInputs },
+              dtiResults: { ...state.dtiResults, usda: null },
+              showDtiSections: { ...state.showDtiSections, usda: false },
+            }));
+            break;
           case 'sellerNet':
             set({ sellerNetInputs: defaultSellerNetInputs });
             break;
           case 'comparison':
             set({ comparisonScenarios: defaultComparisonScenarios });
             break;
+          case 'affordability':
+            set((state) => ({
+              affordabilityInputs: defaultAffordabilityInputs,
+              dtiInputs: { ...state.dtiInputs, affordability: defaultDtiInputs },
+            }));
+            break;
           case 'conventionalRefi':
             set((state) => ({
               conventionalRefiInputs: defaultConventionalRefiInputs,
@@ -960,31 +1443,67 @@ export const useCalculatorStore = create<CalculatorState>()(
 
 import { useCallback, useRef } from 'react';
 
+// Waits between attempts when an API load fails; the last failure is final
+const FETCH_RETRY_DELAYS_MS = [1000, 3000];
+
+interface LoadOptions {
+  force?: boolean; // Reload even if data is already loaded (manual retry)
+}
+
+/**
+ * Fetch JSON from an API route, retrying network and server errors with a
+ * growing delay.
+ */
+async function fetchJsonWithRetry(url: string, errorMessage: string): Promise<unknown> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= FETCH_RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, FETCH_RETRY_DELAYS_MS[attempt - 1]));
+    }
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        return await response.json();
+      }
+      lastError = new Error(errorMessage);
+      // Client errors (signed out, not allowed) won't change on a retry
+      if (response.status < 500) break;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
 /**
- * Hook to fetch and load config on mount.
+ * Hook to fetch and load config.
+ * Falls back to the last config that loaded successfully when the API can't be reached.
  */
 export function useLoadConfig() {
   const loadingRef = useRef(false);
 
-  const loadConfig = useCallback(async () => {
+  const loadConfig = useCallback(async ({ force = false }: LoadOptions = {}) => {
     const state = useCalculatorStore.getState();
 
     // Already loaded or currently loading
-    if (state.config || state.configLoading || loadingRef.current) return;
+    if ((state.config && !force) || state.configLoading || loadingRef.current) return;
 
     loadingRef.current = true;
     state.setConfigLoading(true);
     try {
-      const response = await fetch('/api/config');
-      if (!response.ok) {
-        throw new Error('Failed to fetch config');
-      }
-      const data = await response.json();
-      useCalculatorStore.getState().setConfig(data);
+      const data = await fetchJsonWithRetry('/api/config', 'Failed to fetch config');
+      const store = useCalculatorStore.getState();
+      store.setConfig(data as GhlConfig);
+      store.setConfigSnapshotAt(null);
+      if (store.session) saveSnapshot('config', store.session, data);
     } catch (error) {
-      useCalculatorStore.getState().setConfigError(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      const store = useCalculatorStore.getState();
+      const snapshot = store.session && loadSnapshot('config', store.session, GhlConfigSchema);
+      if (snapshot && (!store.config || store.configSnapshotAt)) {
+        store.setConfig(snapshot.data);
+        store.setConfigSnapshotAt(snapshot.savedAt);
+      }
+      store.setConfigError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       useCalculatorStore.getState().setConfigLoading(false);
       loadingRef.current = false;
@@ -996,32 +1515,32 @@ export function useLoadConfig() {
 
 /**
  * Hook to fetch partner agents.
+ * Agents are optional, so failures fall back to the last loaded list (or none).
  */
 export function useLoadAgents() {
   const loadingRef = useRef(false);
 
-  const loadAgents = useCallback(async () => {
+  const loadAgents = useCallback(async ({ force = false }: LoadOptions = {}) => {
     const state = useCalculatorStore.getState();
 
     // Already loaded or currently loading
-    if (state.agents.length > 0 || state.agentsLoading || loadingRef.current) return;
+    if ((state.agents.length > 0 && !force) || state.agentsLoading || loadingRef.current) return;
 
     loadingRef.current = true;
     state.setAgentsLoading(true);
     try {
-      const response = await fetch('/api/agents');
-      if (!response.ok) {
-        // Log warning but don't crash - agents are optional
-        console.warn('Failed to fetch agents, status:', response.status);
-        useCalculatorStore.getState().setAgents([]);
-        return;
-      }
-      const data = await response.json();
-      useCalculatorStore.getState().setAgents(data.agents || []);
+      const data = await fetchJsonWithRetry('/api/agents', 'Failed to fetch agents') as { agents?: PartnerAgent[] };
+      const agents = data.agents || [];
+      const store = useCalculatorStore.getState();
+      store.setAgents(agents);
+      if (store.session) saveSnapshot('agents', store.session, agents);
     } catch (error) {
       // Log warning but don't throw to avoid UI blocking
       console.warn('Error loading agents (optional):', error);
-      useCalculatorStore.getState().setAgents([]);
+      const store = useCalculatorStore.getState();
+      const snapshot = store.session && loadSnapshot('agents', store.session, PartnerAgentSchema.array());
+      store.setAgents(snapshot?.data ?? store.agents);
+      store.setAgentsError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       useCalculatorStore.getState().setAgentsLoading(false);
       loadingRef.current = false;
@@ -1,8 +1,48 @@
 import createMiddleware from 'next-intl/middleware';
+import { NextResponse, type NextRequest } from 'next/server';
 import { routing } from './i18n/routing';
+import { defaultLocale, locales, type Locale } from './i18n/config';
+import { getRequestSession } from './lib/auth';
 
-export default createMiddleware(routing);
+const intlMiddleware = createMiddleware(routing);
+
+// Reachable without a session
+const PUBLIC_API_PREFIX = '/api/auth/';
+const LOGIN_PAGE = 'login';
+
+/**
+ * Requires a session for every page and API route except sign-in. Role checks
+ * (LO vs partner agent) are made by the API routes themselves.
+ */
+export default async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await getRequestSession(request);
+
+  if (pathname.startsWith('/api/')) {
+    if (session || pathname.startsWith(PUBLIC_API_PREFIX)) {
+      return NextResponse.next();
+    }
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const [, segment, page] = pathname.split('/');
+  const locale = locales.includes(segment as Locale) ? segment : defaultLocale;
+  const isLoginPage = page === LOGIN_PAGE;
+
+  if (!session && !isLoginPage) {
+    const loginUrl = new URL(`/${locale}/${LOGIN_PAGE}`, request.url);
+    if (pathname !== '/' && pathname !== `/${locale}`) {
+      loginUrl.searchParams.set('next', `${pathname}${search}`);
+    }
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return intlMiddleware(request);
+}
 
 export const config = {
-  matcher: ['/', '/(en|es)/:path*'],
+  matcher: ['/', '/(en|es)/:path*', '/api/:path*'],
 };